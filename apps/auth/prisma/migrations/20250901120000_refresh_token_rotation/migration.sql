@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."RefreshToken" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "replacedBy" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- Cada token existente pasa a ser su propia familia y conserva su vencimiento original (7 días)
+UPDATE "public"."RefreshToken" SET "familyId" = "id", "expiresAt" = "createdAt" + INTERVAL '7 days';
+
+ALTER TABLE "public"."RefreshToken" ALTER COLUMN "expiresAt" SET NOT NULL,
+ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."AuditLog" (
+    "id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "userId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_token_idx" ON "public"."RefreshToken"("token");
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_familyId_idx" ON "public"."RefreshToken"("familyId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_userId_idx" ON "public"."AuditLog"("userId");
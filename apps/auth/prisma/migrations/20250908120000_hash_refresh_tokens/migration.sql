@@ -0,0 +1,13 @@
+-- Los refresh tokens existentes están guardados en texto plano y no se pueden
+-- convertir a hash de forma segura: se eliminan, forzando un nuevo login.
+DELETE FROM "public"."RefreshToken";
+
+-- DropIndex
+DROP INDEX "public"."RefreshToken_token_idx";
+
+-- AlterTable
+ALTER TABLE "public"."RefreshToken" DROP COLUMN "token",
+ADD COLUMN     "tokenHash" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshToken_tokenHash_key" ON "public"."RefreshToken"("tokenHash");
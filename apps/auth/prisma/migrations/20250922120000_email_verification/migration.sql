@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."TokenPurpose" AS ENUM ('EMAIL_VERIFICATION');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3);
+
+-- Las cuentas creadas antes de la verificación de email se consideran verificadas
+UPDATE "public"."User" SET "emailVerified" = true, "emailVerifiedAt" = CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "public"."UserToken" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "purpose" "public"."TokenPurpose" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserToken_tokenHash_key" ON "public"."UserToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "UserToken_userId_purpose_idx" ON "public"."UserToken"("userId", "purpose");
+
+-- AddForeignKey
+ALTER TABLE "public"."UserToken" ADD CONSTRAINT "UserToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."TokenPurpose" ADD VALUE 'PASSWORD_RESET';
@@ -0,0 +1,17 @@
+-- DropForeignKey
+ALTER TABLE "public"."RefreshToken" DROP CONSTRAINT "RefreshToken_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "public"."UserToken" DROP CONSTRAINT "UserToken_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "disabledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_createdAt_idx" ON "public"."User"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RefreshToken" ADD CONSTRAINT "RefreshToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UserToken" ADD CONSTRAINT "UserToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+-- Los valores nuevos de un enum no pueden usarse en la misma transacción en que se agregan,
+-- por eso la asignación de permisos está en la migración siguiente.
+ALTER TYPE "public"."Role" ADD VALUE 'CATALOG_MANAGER';
+ALTER TYPE "public"."Role" ADD VALUE 'SUPPORT';
+ALTER TYPE "public"."Role" ADD VALUE 'AUDITOR';
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "public"."Permission" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RolePermission" (
+    "role" "public"."Role" NOT NULL,
+    "permissionId" TEXT NOT NULL,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("role","permissionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_name_key" ON "public"."Permission"("name");
+
+-- AddForeignKey
+ALTER TABLE "public"."RolePermission" ADD CONSTRAINT "RolePermission_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "public"."Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permisos iniciales
+INSERT INTO "public"."Permission" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'users:read', 'Ver usuarios'),
+    (gen_random_uuid()::text, 'users:manage', 'Modificar, deshabilitar y eliminar usuarios'),
+    (gen_random_uuid()::text, 'roles:manage', 'Asignar permisos a roles'),
+    (gen_random_uuid()::text, 'catalog:write', 'Crear y modificar productos del catálogo'),
+    (gen_random_uuid()::text, 'orders:read', 'Ver órdenes de cualquier usuario'),
+    (gen_random_uuid()::text, 'orders:manage', 'Cambiar el estado de las órdenes'),
+    (gen_random_uuid()::text, 'orders:refund', 'Reembolsar órdenes'),
+    (gen_random_uuid()::text, 'audit:read', 'Ver el log de auditoría');
+
+-- Asignación inicial de permisos a roles
+INSERT INTO "public"."RolePermission" ("role", "permissionId")
+SELECT mapping.role::"public"."Role", p."id"
+FROM (VALUES
+    ('ADMIN', 'users:read'),
+    ('ADMIN', 'users:manage'),
+    ('ADMIN', 'roles:manage'),
+    ('ADMIN', 'catalog:write'),
+    ('ADMIN', 'orders:read'),
+    ('ADMIN', 'orders:manage'),
+    ('ADMIN', 'orders:refund'),
+    ('ADMIN', 'audit:read'),
+    ('CATALOG_MANAGER', 'catalog:write'),
+    ('SUPPORT', 'users:read'),
+    ('SUPPORT', 'orders:read'),
+    ('SUPPORT', 'orders:refund'),
+    ('AUDITOR', 'users:read'),
+    ('AUDITOR', 'orders:read'),
+    ('AUDITOR', 'audit:read')
+) AS mapping(role, name)
+JOIN "public"."Permission" p ON p."name" = mapping.name;
@@ -0,0 +1,16 @@
+-- Permisos del servicio de inventario
+INSERT INTO "public"."Permission" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'inventory:read', 'Ver stock, reservas y el reporte de stock bajo'),
+    (gen_random_uuid()::text, 'inventory:manage', 'Cargar stock, administrar ubicaciones y gestionar reservas de otros usuarios');
+
+INSERT INTO "public"."RolePermission" ("role", "permissionId")
+SELECT mapping.role::"public"."Role", p."id"
+FROM (VALUES
+    ('ADMIN', 'inventory:read'),
+    ('ADMIN', 'inventory:manage'),
+    ('CATALOG_MANAGER', 'inventory:read'),
+    ('CATALOG_MANAGER', 'inventory:manage'),
+    ('SUPPORT', 'inventory:read'),
+    ('AUDITOR', 'inventory:read')
+) AS mapping(role, name)
+JOIN "public"."Permission" p ON p."name" = mapping.name;
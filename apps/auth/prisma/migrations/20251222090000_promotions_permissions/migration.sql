@@ -0,0 +1,4 @@
+-- Permiso para registrar y liberar canjes de promociones.
+-- Solo lo usa el servicio de órdenes con su token de servicio: no se asigna a ningún rol
+INSERT INTO "public"."Permission" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'promotions:redeem', 'Registrar y liberar los canjes de promociones de una orden');
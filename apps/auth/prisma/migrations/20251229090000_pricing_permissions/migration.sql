@@ -0,0 +1,8 @@
+-- Permiso para administrar las tablas de impuestos y envíos del servicio de órdenes
+INSERT INTO "public"."Permission" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'pricing:manage', 'Administrar tasas de impuestos y métodos de envío');
+
+INSERT INTO "public"."RolePermission" ("role", "permissionId")
+SELECT 'ADMIN'::"public"."Role", p."id"
+FROM "public"."Permission" p
+WHERE p."name" = 'pricing:manage';
@@ -0,0 +1,4 @@
+-- Permiso para actualizar la disponibilidad de los productos del catálogo.
+-- Solo lo usa el servicio de inventario con su token de servicio: no se asigna a ningún rol
+INSERT INTO "public"."Permission" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'catalog:availability', 'Actualizar la disponibilidad de los productos del catálogo');
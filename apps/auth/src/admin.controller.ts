@@ -0,0 +1,261 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AdminService } from './services/admin.service';
+import {
+  listUsersQuerySchema,
+  userParamsSchema,
+  updateUserRoleSchema,
+  updateUserStatusSchema,
+  roleParamsSchema,
+  updateRolePermissionsSchema
+} from './auth.schemas';
+import { sendErrorResponse } from './utils/error-handler';
+
+/**
+ * Controlador de administración de usuarios
+ *
+ * @class AdminController
+ * @description Maneja los endpoints REST bajo /admin. Todas las rutas requieren
+ * autenticación y el permiso que declara cada una en app.ts.
+ */
+export class AdminController {
+  /** Servicio de administración para lógica de negocio */
+  private adminService: AdminService;
+
+  /**
+   * Constructor del controlador de administración
+   * Inicializa el servicio de administración
+   */
+  constructor() {
+    this.adminService = new AdminService();
+  }
+
+  /**
+   * Endpoint para listar usuarios con filtros y paginación
+   *
+   * @param {FastifyRequest} request - Request con query {email?, role?, createdFrom?, createdTo?, page?, limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Página de usuarios y datos de paginación
+   *
+   * @throws {400} Filtros inválidos
+   * @throws {500} Error interno del servidor
+   */
+  async listUsers(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { page, limit, ...filters } = listUsersQuerySchema.parse(request.query);
+
+      const result = await this.adminService.listUsers(filters, page, limit);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Usuarios obtenidos exitosamente',
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para obtener un usuario
+   *
+   * @param {FastifyRequest} request - Request con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Datos del usuario
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Usuario no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async getUser(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = userParamsSchema.parse(request.params);
+
+      const user = await this.adminService.getUser(id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Usuario obtenido exitosamente',
+        data: { user }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cambiar el rol de un usuario
+   *
+   * @param {FastifyRequest} request - Request con params {id} y body {role}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Usuario actualizado
+   *
+   * @throws {400} Datos inválidos o cambio del propio rol
+   * @throws {404} Usuario no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async updateRole(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = userParamsSchema.parse(request.params);
+      const { role } = updateUserRoleSchema.parse(request.body);
+
+      const user = await this.adminService.updateRole(this.getAdminId(request), id, role);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Rol actualizado exitosamente',
+        data: { user }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para habilitar o deshabilitar una cuenta
+   *
+   * @param {FastifyRequest} request - Request con params {id} y body {disabled}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Usuario actualizado
+   *
+   * @throws {400} Datos inválidos o intento de deshabilitar la propia cuenta
+   * @throws {404} Usuario no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async updateStatus(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = userParamsSchema.parse(request.params);
+      const { disabled } = updateUserStatusSchema.parse(request.body);
+
+      const user = await this.adminService.setDisabled(this.getAdminId(request), id, disabled);
+
+      return reply.code(200).send({
+        success: true,
+        message: disabled ? 'Usuario deshabilitado exitosamente' : 'Usuario habilitado exitosamente',
+        data: { user }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cerrar todas las sesiones de un usuario
+   *
+   * @param {FastifyRequest} request - Request con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de cierre de sesiones
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Usuario no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async forceLogout(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = userParamsSchema.parse(request.params);
+
+      await this.adminService.forceLogout(this.getAdminId(request), id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Sesiones del usuario cerradas exitosamente'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para eliminar un usuario
+   *
+   * @param {FastifyRequest} request - Request con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de eliminación
+   *
+   * @throws {400} ID inválido o intento de eliminar la propia cuenta
+   * @throws {404} Usuario no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async deleteUser(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = userParamsSchema.parse(request.params);
+
+      await this.adminService.deleteUser(this.getAdminId(request), id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Usuario eliminado exitosamente'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para listar los permisos existentes y los asignados a cada rol
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Permisos y roles con sus permisos
+   *
+   * @throws {500} Error interno del servidor
+   */
+  async listRoles(_: FastifyRequest, reply: FastifyReply) {
+    try {
+      const result = await this.adminService.listRolePermissions();
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Roles obtenidos exitosamente',
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para reemplazar los permisos de un rol
+   *
+   * @param {FastifyRequest} request - Request con params {role} y body {permissions}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Rol con sus nuevos permisos
+   *
+   * @throws {400} Rol inválido o permisos inexistentes
+   * @throws {500} Error interno del servidor
+   */
+  async updateRolePermissions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { role } = roleParamsSchema.parse(request.params);
+      const { permissions } = updateRolePermissionsSchema.parse(request.body);
+
+      const result = await this.adminService.setRolePermissions(this.getAdminId(request), role, permissions);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Permisos del rol actualizados exitosamente',
+        data: { role: result }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * ID del administrador autenticado (agregado por authPlugin)
+   *
+   * @private
+   */
+  private getAdminId(request: FastifyRequest): string {
+    return request.user!.userId;
+  }
+
+  /**
+   * Maneja errores de forma centralizada y consistente
+   *
+   * @private
+   * @see sendErrorResponse
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Admin Controller');
+  }
+}
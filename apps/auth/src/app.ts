@@ -1,7 +1,13 @@
-import Fastify from 'fastify';
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission } from '@ecom/auth';
+import { HealthCheck, HealthController } from '@ecom/service';
 import { AuthController } from './auth.controller';
-import { AuthMiddleware } from './auth.middleware';
+import { AdminController } from './admin.controller';
+import { AuthRepository } from './auth.repository';
 import { config } from './config';
+import { getKeyStore } from './keys/key-store';
+import { getAttemptStore } from './stores/attempt.store';
 
 // Crear instancia de Fastify
 const server = Fastify({ 
@@ -13,12 +19,24 @@ const server = Fastify({
         colorize: true
       }
     }
-  }
+  },
+  // Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+  requestIdHeader: 'x-request-id',
+  genReqId: () => randomUUID(),
+  // request.ip es la IP del cliente que informa el gateway, no la del gateway
+  trustProxy: (_address, hop) => hop < config.trustedProxyHops
 });
 
-// Instancias de controladores y middleware
+// Instancias de controladores
 const authController = new AuthController();
-const authMiddleware = new AuthMiddleware();
+const adminController = new AdminController();
+const authRepository = new AuthRepository();
+// Readiness: la base de datos y, si está configurado, Redis
+const healthChecks: Record<string, HealthCheck> = { database: () => authRepository.ping() };
+if (config.redis.url) {
+  healthChecks.redis = () => getAttemptStore().ping();
+}
+const healthController = new HealthController('auth-service', healthChecks);
 
 // CORS para desarrollo
 server.register(require('@fastify/cors'), {
@@ -26,44 +44,74 @@ server.register(require('@fastify/cors'), {
   credentials: true
 });
 
-// Health check
-server.get('/health', async () => {
-  return { 
-    status: 'ok', 
-    service: 'auth-service',
-    timestamp: new Date().toISOString()
-  };
-});
+// Autenticación con access token (completa request.user); usa las claves locales en vez del JWKS
+server.register(authPlugin, { resolveKey: (kid) => getKeyStore().getPublicKey(kid) });
+
+// Health checks (/health se mantiene como alias de liveness)
+server.get('/health', healthController.live.bind(healthController));
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
 
 // Rutas públicas (sin autenticación)
 server.post('/register', authController.register.bind(authController));
 server.post('/login', authController.login.bind(authController));
 server.post('/refresh', authController.refreshToken.bind(authController));
 server.post('/logout', authController.logout.bind(authController));
+server.post('/verify-email', authController.verifyEmail.bind(authController));
+server.post('/resend-verification', authController.resendVerification.bind(authController));
+server.post('/forgot-password', authController.forgotPassword.bind(authController));
+server.post('/reset-password', authController.resetPassword.bind(authController));
+
+// Tokens para llamadas entre servicios (client credentials)
+server.post('/service-token', authController.serviceToken.bind(authController));
+
+// Claves públicas para verificar access tokens
+server.get('/.well-known/jwks.json', authController.getJwks.bind(authController));
 
 // Rutas protegidas (requieren autenticación)
 server.register(async function (fastify) {
-  // Aplicar middleware de autenticación a todas las rutas de este grupo
-  fastify.addHook('preHandler', authMiddleware.verifyToken.bind(authMiddleware));
+  // Exigir access token válido en todas las rutas de este grupo
+  fastify.addHook('preHandler', requireAuth);
   
   // Ruta para obtener perfil
   fastify.get('/profile', authController.getProfile.bind(authController));
+
+  // Gestión de sesiones
+  fastify.get('/sessions', authController.getSessions.bind(authController));
+  fastify.delete('/sessions/:id', authController.revokeSession.bind(authController));
+  fastify.post('/logout-all', authController.logoutAll.bind(authController));
+
+  // Cambio de password
+  fastify.post('/change-password', authController.changePassword.bind(authController));
 });
 
-// Rutas de admin (requieren autenticación + rol admin)
+// Rutas de admin (requieren autenticación + permiso específico por ruta)
 server.register(async function (fastify) {
-  // Aplicar middleware de autenticación y verificación de admin
-  fastify.addHook('preHandler', authMiddleware.verifyToken.bind(authMiddleware));
-  fastify.addHook('preHandler', authMiddleware.verifyAdmin.bind(authMiddleware));
+  // Exigir access token válido; cada ruta declara el permiso que exige
+  fastify.addHook('preHandler', requireAuth);
+
+  const canReadUsers = { preHandler: requirePermission(PERMISSIONS.USERS_READ) };
+  const canManageUsers = { preHandler: requirePermission(PERMISSIONS.USERS_MANAGE) };
+  const canManageRoles = { preHandler: requirePermission(PERMISSIONS.ROLES_MANAGE) };
   
-  // Aquí irían rutas de administración
-  fastify.get('/admin/users', async () => {
-    return { message: 'Lista de usuarios - Solo admins' };
-  });
+  // Gestión de usuarios
+  fastify.get('/admin/users', canReadUsers, adminController.listUsers.bind(adminController));
+  fastify.get('/admin/users/:id', canReadUsers, adminController.getUser.bind(adminController));
+  fastify.patch('/admin/users/:id/role', canManageRoles, adminController.updateRole.bind(adminController));
+  fastify.patch('/admin/users/:id/status', canManageUsers, adminController.updateStatus.bind(adminController));
+  fastify.post('/admin/users/:id/logout', canManageUsers, adminController.forceLogout.bind(adminController));
+  fastify.delete('/admin/users/:id', canManageUsers, adminController.deleteUser.bind(adminController));
+
+  // Roles y permisos
+  fastify.get('/admin/roles', canManageRoles, adminController.listRoles.bind(adminController));
+  fastify.put('/admin/roles/:role/permissions', canManageRoles, adminController.updateRolePermissions.bind(adminController));
+
+  // Desbloquear login de un email y/o IP
+  fastify.post('/admin/lockouts/clear', canManageUsers, authController.clearLockout.bind(authController));
 });
 
 // Manejo global de errores
-server.setErrorHandler((error, _, reply) => {
+server.setErrorHandler((error: FastifyError, _, reply) => {
   server.log.error(error);
   
   reply.code(500).send({
@@ -82,6 +130,7 @@ export const startServer = async () => {
     });
     
     server.log.info(`🔐 Auth service listening on port ${config.port}`);
+    server.log.info(`firmando access tokens con la clave ${getKeyStore().getSigningKey().kid}`);
   } catch (err) {
     server.log.error(err);
     process.exit(1);
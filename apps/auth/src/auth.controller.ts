@@ -3,9 +3,18 @@ import { AuthService } from './services/auth.service';
 import { 
   registerSchema,
   loginSchema,
-  refreshTokenSchema
+  refreshTokenSchema,
+  serviceTokenSchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  sessionParamsSchema,
+  clearLockoutSchema
 } from './auth.schemas';
-import { AuthError } from './types/index';
+import { SessionContext } from './types/index';
+import { sendErrorResponse } from './utils/error-handler';
 
 /**
  * Controlador de autenticación que maneja las peticiones HTTP
@@ -47,7 +56,7 @@ export class AuthController {
       const { email, password } = validatedData;
 
       // Llamar al service
-      const result = await this.authService.register(email, password);
+      const result = await this.authService.register(email, password, this.getSessionContext(request));
 
       return reply.code(201).send({
         success: true,
@@ -62,12 +71,15 @@ export class AuthController {
   /**
    * Endpoint para autenticar un usuario existente
    * 
-   * @param {FastifyRequest} request - Request de Fastify con body {email, password}
+   * @param {FastifyRequest} request - Request de Fastify con body {email, password} y header X-Cart-Token? (carrito de invitado)
    * @param {FastifyReply} reply - Response de Fastify
-   * @returns {Promise<FastifyReply>} Respuesta con usuario autenticado y tokens
+   * @returns {Promise<FastifyReply>} Respuesta con usuario autenticado, tokens y, si se envió X-Cart-Token, `cartMerged`
    * 
    * @throws {400} Error de validación de datos de entrada
    * @throws {401} Credenciales inválidas
+   * @throws {403} Cuenta deshabilitada o email no verificado (si la verificación es obligatoria)
+   * @throws {423} Cuenta o IP bloqueada temporalmente (con header Retry-After)
+   * @throws {429} Demasiados intentos, espera progresiva (con header Retry-After)
    * @throws {500} Error interno del servidor
    */
   async login(request: FastifyRequest, reply: FastifyReply) {
@@ -77,7 +89,13 @@ export class AuthController {
       const { email, password } = validatedData;
 
       // Llamar al service
-      const result = await this.authService.login(email, password);
+      const cartToken = request.headers['x-cart-token'];
+      const result = await this.authService.login(
+        email,
+        password,
+        this.getSessionContext(request),
+        typeof cartToken === 'string' ? cartToken : undefined
+      );
 
       return reply.code(200).send({
         success: true,
@@ -108,7 +126,7 @@ export class AuthController {
       const { refreshToken } = validatedData;
 
       // Llamar al service
-      const result = await this.authService.refreshToken(refreshToken);
+      const result = await this.authService.refreshToken(refreshToken, this.getSessionContext(request));
 
       return reply.code(200).send({
         success: true,
@@ -149,6 +167,190 @@ export class AuthController {
     }
   }
 
+  /**
+   * Endpoint para verificar el email con el token enviado por correo
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {token}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta con el usuario verificado
+   * 
+   * @throws {400} Token inválido, expirado o ya usado
+   * @throws {500} Error interno del servidor
+   */
+  async verifyEmail(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { token } = verifyEmailSchema.parse(request.body);
+
+      const user = await this.authService.verifyEmail(token);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Email verificado exitosamente',
+        data: { user }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para reenviar el email de verificación
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {email}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta genérica (no revela si la cuenta existe)
+   * 
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async resendVerification(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { email } = resendVerificationSchema.parse(request.body);
+
+      await this.authService.resendVerification(email);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Si la cuenta existe y no está verificada, se envió un nuevo email'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para solicitar el reset de password
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {email}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta genérica (no revela si la cuenta existe)
+   * 
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async forgotPassword(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { email } = forgotPasswordSchema.parse(request.body);
+
+      await this.authService.forgotPassword(email);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Si la cuenta existe, se envió un email para restablecer el password'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para restablecer el password con el token enviado por email
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {token, password}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de password restablecido
+   * 
+   * @throws {400} Error de validación o token inválido, expirado o ya usado
+   * @throws {500} Error interno del servidor
+   */
+  async resetPassword(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { token, password } = resetPasswordSchema.parse(request.body);
+
+      await this.authService.resetPassword(token, password);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Password restablecido exitosamente. Inicie sesión nuevamente'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cambiar el password del usuario autenticado
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {currentPassword, newPassword}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta con tokens de una nueva sesión
+   * 
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {401} Token de acceso inválido o password actual incorrecto
+   * @throws {500} Error interno del servidor
+   */
+  async changePassword(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(request.body);
+      const { userId } = request.user!;
+
+      const tokens = await this.authService.changePassword(
+        userId,
+        currentPassword,
+        newPassword,
+        this.getSessionContext(request)
+      );
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Password actualizado exitosamente',
+        data: { tokens }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para que un servicio interno obtenga un access token (client credentials)
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {clientId, clientSecret}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta con el access token y su vigencia
+   * 
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {401} Credenciales de servicio inválidas
+   * @throws {500} Error interno del servidor
+   */
+  async serviceToken(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      // Validar datos de entrada
+      const { clientId, clientSecret } = serviceTokenSchema.parse(request.body);
+
+      // Llamar al service
+      const result = await this.authService.issueServiceToken(clientId, clientSecret);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Token de servicio emitido',
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint que publica las claves públicas de verificación (JWKS)
+   * 
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} JWKS `{ keys: [...] }`
+   * 
+   * @description Responde el formato estándar (RFC 7517) sin el envoltorio
+   * `{ success, data }`, para que cualquier cliente JWKS pueda consumirlo.
+   */
+  async getJwks(_: FastifyRequest, reply: FastifyReply) {
+    try {
+      return reply
+        .code(200)
+        .header('Cache-Control', 'public, max-age=300')
+        .send(this.authService.getJwks());
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
   /**
    * Endpoint para obtener el perfil del usuario autenticado
    * 
@@ -162,8 +364,8 @@ export class AuthController {
    */
   async getProfile(request: FastifyRequest, reply: FastifyReply) {
     try {
-      // El userId viene del middleware de autenticación
-      const userId = (request as any).user?.userId;
+      // El userId viene de authPlugin
+      const userId = request.user?.userId;
       
       if (!userId) {
         return reply.code(401).send({
@@ -186,47 +388,137 @@ export class AuthController {
   }
 
   /**
-   * Maneja errores de forma centralizada y consistente
+   * Endpoint para listar las sesiones activas del usuario autenticado
    * 
-   * @private
-   * @param {any} error - Error capturado
-   * @param {FastifyReply} reply - Response de Fastify para enviar error
-   * @returns {FastifyReply} Respuesta de error formateada
+   * @param {FastifyRequest} request - Request de Fastify (requiere Authorization header)
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Respuesta con las sesiones activas
+   * 
+   * @throws {401} Token de acceso requerido o inválido
+   * @throws {500} Error interno del servidor
+   */
+  async getSessions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId, sessionId } = request.user!;
+
+      const sessions = await this.authService.listSessions(userId, sessionId);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Sesiones obtenidas exitosamente',
+        data: { sessions }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para revocar una sesión del usuario autenticado
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de sesión revocada
    * 
-   * @description
-   * Maneja diferentes tipos de errores:
-   * - ZodError: Errores de validación (400)
-   * - AuthError: Errores personalizados de autenticación (401/403/404/409)
-   * - Error genérico: Error interno del servidor (500)
+   * @throws {400} ID de sesión inválido
+   * @throws {401} Token de acceso requerido o inválido
+   * @throws {404} Sesión no encontrada
+   * @throws {500} Error interno del servidor
    */
-  private handleError(error: any, reply: FastifyReply) {
-    console.error('Auth Controller Error:', error);
-
-    // Error de validación de Zod
-    if (error.name === 'ZodError') {
-      return reply.code(400).send({
-        success: false,
-        message: 'Datos de entrada inválidos',
-        errors: error.errors.map((err: any) => ({
-          field: err.path.join('.'),
-          message: err.message
-        }))
+  async revokeSession(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = sessionParamsSchema.parse(request.params);
+      const { userId } = request.user!;
+
+      await this.authService.revokeSession(userId, id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Sesión revocada exitosamente'
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cerrar todas las sesiones del usuario autenticado
+   * 
+   * @param {FastifyRequest} request - Request de Fastify (requiere Authorization header)
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de logout global
+   * 
+   * @throws {401} Token de acceso requerido o inválido
+   * @throws {500} Error interno del servidor
+   */
+  async logoutAll(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId } = request.user!;
+
+      await this.authService.logoutAll(userId);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Todas las sesiones fueron cerradas'
       });
+    } catch (error) {
+      return this.handleError(error, reply);
     }
+  }
+
+  /**
+   * Endpoint de administración para desbloquear el login de un email y/o IP
+   * 
+   * @param {FastifyRequest} request - Request de Fastify con body {email?, ipAddress?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de desbloqueo
+   * 
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {401} Token de acceso requerido o inválido
+   * @throws {403} Acceso denegado si no es administrador
+   * @throws {500} Error interno del servidor
+   */
+  async clearLockout(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const target = clearLockoutSchema.parse(request.body);
+      const { userId } = request.user!;
 
-    // Errores personalizados de Auth
-    if (error instanceof AuthError) {
-      return reply.code(error.statusCode).send({
-        success: false,
-        message: error.message,
-        code: error.code
+      await this.authService.clearLockout(target, userId);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Bloqueo eliminado exitosamente'
       });
+    } catch (error) {
+      return this.handleError(error, reply);
     }
+  }
+
+  /**
+   * Extrae user agent e IP del request para identificar la sesión
+   * 
+   * @private
+   * @param {FastifyRequest} request - Request de Fastify
+   * @returns {SessionContext} Contexto de la sesión
+   */
+  private getSessionContext(request: FastifyRequest): SessionContext {
+    return {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip
+    };
+  }
 
-    // Error genérico
-    return reply.code(500).send({
-      success: false,
-      message: 'Error interno del servidor'
-    });
+  /**
+   * Maneja errores de forma centralizada y consistente
+   * 
+   * @private
+   * @param {any} error - Error capturado
+   * @param {FastifyReply} reply - Response de Fastify para enviar error
+   * @returns {FastifyReply} Respuesta de error formateada
+   * 
+   * @see sendErrorResponse
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Auth Controller');
   }
 }
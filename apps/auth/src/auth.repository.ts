@@ -1,5 +1,15 @@
-import { PrismaClient } from '@prisma/client';
-import { User } from './types/index';
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  Role,
+  User,
+  UserFilters,
+  RefreshTokenRecord,
+  CreateRefreshTokenData,
+  SessionRecord,
+  TokenPurpose
+} from './types/index';
+import { hashToken } from './utils/token-hash';
 
 export class AuthRepository {
   private prisma: PrismaClient;
@@ -33,6 +43,97 @@ export class AuthRepository {
     });
   }
 
+  // Listar usuarios con filtros y paginación
+  async findUsers(filters: UserFilters, skip: number, take: number): Promise<{ users: User[]; total: number }> {
+    const where: Prisma.UserWhereInput = {
+      ...(filters.email && { email: { contains: filters.email, mode: 'insensitive' } }),
+      ...(filters.role && { role: filters.role }),
+      ...((filters.createdFrom || filters.createdTo) && {
+        createdAt: { gte: filters.createdFrom, lte: filters.createdTo },
+      }),
+    };
+
+    const [users, total] = await this.prisma.$transaction([
+      this.prisma.user.findMany({ where, skip, take, orderBy: { createdAt: 'desc' } }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return { users, total };
+  }
+
+  // Cambiar rol de usuario
+  async updateUserRole(id: string, role: Role): Promise<User> {
+    return await this.prisma.user.update({
+      where: { id },
+      data: { role },
+    });
+  }
+
+  // Deshabilitar (fecha) o habilitar (null) un usuario
+  async setUserDisabledAt(id: string, disabledAt: Date | null): Promise<User> {
+    return await this.prisma.user.update({
+      where: { id },
+      data: { disabledAt },
+    });
+  }
+
+  // Eliminar usuario (sus tokens se eliminan en cascada)
+  async deleteUser(id: string): Promise<void> {
+    await this.prisma.user.delete({
+      where: { id },
+    });
+  }
+
+  // Nombres de los permisos asignados a un rol
+  async findPermissionsByRole(role: Role): Promise<string[]> {
+    const rolePermissions = await this.prisma.rolePermission.findMany({
+      where: { role },
+      select: { permission: { select: { name: true } } },
+    });
+    return rolePermissions.map((rolePermission) => rolePermission.permission.name);
+  }
+
+  // Asignación completa de permisos por rol
+  async findAllRolePermissions(): Promise<{ role: Role; permission: string }[]> {
+    const rolePermissions = await this.prisma.rolePermission.findMany({
+      select: { role: true, permission: { select: { name: true } } },
+      orderBy: [{ role: 'asc' }],
+    });
+    return rolePermissions.map(({ role, permission }) => ({ role, permission: permission.name }));
+  }
+
+  // Nombres de todos los permisos existentes
+  async findAllPermissionNames(): Promise<string[]> {
+    const permissions = await this.prisma.permission.findMany({
+      select: { name: true },
+      orderBy: { name: 'asc' },
+    });
+    return permissions.map((permission) => permission.name);
+  }
+
+  // Reemplazar los permisos de un rol
+  async setRolePermissions(role: Role, permissionNames: string[]): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const permissions = await tx.permission.findMany({
+        where: { name: { in: permissionNames } },
+        select: { id: true },
+      });
+
+      await tx.rolePermission.deleteMany({ where: { role } });
+      await tx.rolePermission.createMany({
+        data: permissions.map((permission) => ({ role, permissionId: permission.id })),
+      });
+    });
+  }
+
+  // Actualizar password (ya hasheado)
+  async updatePassword(userId: string, hashedPassword: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    });
+  }
+
   // Verificar si email existe
   async emailExists(email: string): Promise<boolean> {
     const user = await this.prisma.user.findUnique({
@@ -42,27 +143,152 @@ export class AuthRepository {
     return !!user;
   }
 
-  // Crear refresh token
-  async createRefreshToken(token: string, userId: string): Promise<void> {
+  // Marcar email como verificado
+  async markEmailVerified(userId: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true, emailVerifiedAt: new Date() },
+    });
+  }
+
+  // Crear token de un solo uso (solo se guarda su hash)
+  async createUserToken(data: { token: string; userId: string; purpose: TokenPurpose; expiresAt: Date }): Promise<void> {
+    const { token, ...rest } = data;
+    await this.prisma.userToken.create({
+      data: { ...rest, tokenHash: hashToken(token) },
+    });
+  }
+
+  // Consumir token de un solo uso. Devuelve el userId o null si no existe, expiró o ya fue usado
+  async consumeUserToken(token: string, purpose: TokenPurpose): Promise<string | null> {
+    const stored = await this.prisma.userToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, userId: true, purpose: true },
+    });
+    if (!stored || stored.purpose !== purpose) {
+      return null;
+    }
+
+    // Marcar como usado de forma atómica para que dos requests no lo consuman a la vez
+    const { count } = await this.prisma.userToken.updateMany({
+      where: { id: stored.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0 ? stored.userId : null;
+  }
+
+  // Fecha de creación del último token emitido para un propósito
+  async findLatestUserTokenDate(userId: string, purpose: TokenPurpose): Promise<Date | null> {
+    const latest = await this.prisma.userToken.findFirst({
+      where: { userId, purpose },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    return latest?.createdAt ?? null;
+  }
+
+  // Invalidar los tokens pendientes de un usuario para un propósito
+  async invalidateUserTokens(userId: string, purpose: TokenPurpose): Promise<void> {
+    await this.prisma.userToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+
+  // Crear refresh token (solo se guarda su hash)
+  async createRefreshToken(data: CreateRefreshTokenData): Promise<void> {
     await this.prisma.refreshToken.create({
-      data: { token, userId },
+      data: this.toRefreshTokenRow(data),
+    });
+  }
+
+  // Buscar refresh token por su hash
+  async findRefreshToken(token: string): Promise<RefreshTokenRecord | null> {
+    return await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        userId: true,
+        familyId: true,
+        replacedBy: true,
+        revokedAt: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  // Rotar refresh token: revoca el actual y crea su reemplazo en la misma familia.
+  // Devuelve false si el token ya había sido revocado (rotación concurrente o reutilización)
+  async rotateRefreshToken(currentId: string, next: CreateRefreshTokenData): Promise<boolean> {
+    const nextId = randomUUID();
+
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: currentId, revokedAt: null },
+        data: { revokedAt: new Date(), replacedBy: nextId },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.refreshToken.create({ data: { id: nextId, ...this.toRefreshTokenRow(next) } });
+      return true;
     });
   }
 
-  // Buscar refresh token
-  async findRefreshToken(token: string): Promise<{ userId: string } | null> {
-    const refreshToken = await this.prisma.refreshToken.findFirst({
-      where: { token },
-      select: { userId: true },
+  // Revocar todos los tokens activos de una familia
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
     });
-    return refreshToken;
   }
 
-  // Eliminar refresh token
-  async deleteRefreshToken(token: string): Promise<void> {
+  // Eliminar todos los tokens de una familia (logout de una sesión)
+  async deleteRefreshTokenFamily(familyId: string): Promise<void> {
     await this.prisma.refreshToken.deleteMany({
-      where: { token },
+      where: { familyId },
+    });
+  }
+
+  // Listar sesiones activas de un usuario (una por familia de tokens)
+  async findActiveSessions(userId: string): Promise<SessionRecord[]> {
+    const activeTokens = await this.prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        familyId: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    // La sesión comienza con el primer token de la familia
+    const families = await this.prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: activeTokens.map((token) => token.familyId) } },
+      _min: { createdAt: true },
     });
+    const startedAt = new Map(families.map((family) => [family.familyId, family._min.createdAt]));
+
+    return activeTokens.map(({ familyId, ...token }) => ({
+      id: familyId,
+      ...token,
+      createdAt: startedAt.get(familyId) ?? token.lastUsedAt,
+    }));
+  }
+
+  // Eliminar una sesión de un usuario. Devuelve false si no existe
+  async deleteSession(userId: string, familyId: string): Promise<boolean> {
+    const { count } = await this.prisma.refreshToken.deleteMany({
+      where: { userId, familyId },
+    });
+    return count > 0;
   }
 
   // Eliminar todos los refresh tokens de un usuario
@@ -72,6 +298,23 @@ export class AuthRepository {
     });
   }
 
+  // Registrar evento de auditoría
+  async createAuditLog(event: string, userId: string | null, metadata?: Record<string, unknown>): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: { event, userId, metadata: metadata as Prisma.InputJsonValue | undefined },
+    });
+  }
+
+  // Convertir datos de refresh token a fila de BD reemplazando el token por su hash
+  private toRefreshTokenRow({ token, ...rest }: CreateRefreshTokenData) {
+    return { ...rest, tokenHash: hashToken(token) };
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
   // Cerrar conexión
   async disconnect(): Promise<void> {
     await this.prisma.$disconnect();
@@ -1,4 +1,14 @@
 import { z } from 'zod';
+import { ROLES } from '@ecom/auth';
+
+// Reglas de password compartidas por registro, reset y cambio de password
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password debe tener al menos 8 caracteres')
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+    'Password debe contener al menos una minúscula, una mayúscula y un número'
+  );
 
 // Schema para registro
 export const registerSchema = z.object({
@@ -6,13 +16,7 @@ export const registerSchema = z.object({
     .string()
     .email('Email inválido')
     .min(1, 'Email es requerido'),
-  password: z
-    .string()
-    .min(8, 'Password debe tener al menos 8 caracteres')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      'Password debe contener al menos una minúscula, una mayúscula y un número'
-    ),
+  password: passwordSchema,
 });
 
 // Schema para login
@@ -33,7 +37,161 @@ export const refreshTokenSchema = z.object({
     .min(1, 'Refresh token es requerido'),
 });
 
+// Schema para pedir un token de servicio (client credentials)
+export const serviceTokenSchema = z.object({
+  clientId: z
+    .string()
+    .min(1, 'clientId es requerido'),
+  clientSecret: z
+    .string()
+    .min(1, 'clientSecret es requerido'),
+});
+
+// Schema para verificación de email
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Token es requerido'),
+});
+
+// Schema para reenviar verificación de email
+export const resendVerificationSchema = z.object({
+  email: z
+    .string()
+    .email('Email inválido')
+    .min(1, 'Email es requerido'),
+});
+
+// Schema para solicitar reset de password
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .email('Email inválido')
+    .min(1, 'Email es requerido'),
+});
+
+// Schema para reset de password
+export const resetPasswordSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Token es requerido'),
+  password: passwordSchema,
+});
+
+// Schema para cambio de password
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z
+      .string()
+      .min(1, 'Password actual es requerido'),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: 'El nuevo password debe ser distinto al actual',
+    path: ['newPassword'],
+  });
+
+// Schema para parámetros de sesión
+export const sessionParamsSchema = z.object({
+  id: z
+    .string()
+    .uuid('ID de sesión inválido'),
+});
+
+// Schema para desbloquear login (admin)
+export const clearLockoutSchema = z
+  .object({
+    email: z
+      .string()
+      .email('Email inválido')
+      .optional(),
+    ipAddress: z
+      .string()
+      .ip('IP inválida')
+      .optional(),
+  })
+  .refine((data) => data.email || data.ipAddress, {
+    message: 'Debe indicar email o ipAddress',
+  });
+
+// Schema para listado de usuarios (admin)
+export const listUsersQuerySchema = z
+  .object({
+    email: z
+      .string()
+      .trim()
+      .min(1, 'Email no puede estar vacío')
+      .optional(),
+    role: z
+      .enum(ROLES, { message: 'Rol inválido' })
+      .optional(),
+    createdFrom: z.coerce
+      .date({ message: 'Fecha inválida' })
+      .optional(),
+    createdTo: z.coerce
+      .date({ message: 'Fecha inválida' })
+      .optional(),
+    page: z.coerce
+      .number()
+      .int()
+      .min(1, 'Página debe ser mayor a 0')
+      .default(1),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Límite debe ser mayor a 0')
+      .max(100, 'Límite máximo 100')
+      .default(20),
+  })
+  .refine((data) => !data.createdFrom || !data.createdTo || data.createdFrom <= data.createdTo, {
+    message: 'createdFrom debe ser anterior a createdTo',
+    path: ['createdFrom'],
+  });
+
+// Schema para parámetros de usuario (admin)
+export const userParamsSchema = z.object({
+  id: z
+    .string()
+    .uuid('ID de usuario inválido'),
+});
+
+// Schema para cambio de rol (admin)
+export const updateUserRoleSchema = z.object({
+  role: z.enum(ROLES, { message: 'Rol inválido' }),
+});
+
+// Schema para habilitar/deshabilitar usuario (admin)
+export const updateUserStatusSchema = z.object({
+  disabled: z.boolean({ message: 'disabled debe ser booleano' }),
+});
+
+// Schema para parámetros de rol (admin)
+export const roleParamsSchema = z.object({
+  role: z.enum(ROLES, { message: 'Rol inválido' }),
+});
+
+// Schema para reemplazar los permisos de un rol (admin)
+export const updateRolePermissionsSchema = z.object({
+  permissions: z
+    .array(z.string().min(1, 'Permiso inválido'))
+    .transform((permissions) => [...new Set(permissions)]),
+});
+
 // Tipos inferidos de los schemas
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ServiceTokenInput = z.infer<typeof serviceTokenSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type SessionParams = z.infer<typeof sessionParamsSchema>;
+export type ClearLockoutInput = z.infer<typeof clearLockoutSchema>;
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type UserParams = z.infer<typeof userParamsSchema>;
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type UpdateUserStatusInput = z.infer<typeof updateUserStatusSchema>;
+export type RoleParams = z.infer<typeof roleParamsSchema>;
+export type UpdateRolePermissionsInput = z.infer<typeof updateRolePermissionsSchema>;
@@ -0,0 +1,37 @@
+import { config } from '../config';
+
+/**
+ * Cliente del servicio de carrito
+ *
+ * @class CartClient
+ * @description Fusiona el carrito de invitado en el del usuario al iniciar
+ * sesión, llamando al servicio de carrito con el access token recién emitido.
+ */
+export class CartClient {
+  /**
+   * Fusiona el carrito de invitado en el carrito del usuario
+   *
+   * @param {string} accessToken - Access token del usuario que inició sesión
+   * @param {string} cartToken - Cart token del carrito de invitado
+   * @returns {Promise<boolean>} true si se fusionó; false si el carrito no existe o el servicio falló
+   *
+   * @description Nunca lanza: un problema con el carrito no debe impedir el login.
+   */
+  async mergeGuestCart(accessToken: string, cartToken: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${config.cart.url}/merge`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${accessToken}`, 'x-cart-token': cartToken },
+        signal: AbortSignal.timeout(config.cart.timeoutMs)
+      });
+
+      if (!response.ok && response.status !== 404) {
+        console.error(`Cart merge falló con status ${response.status}`);
+      }
+      return response.ok;
+    } catch (error) {
+      console.error('Cart merge falló:', error);
+      return false;
+    }
+  }
+}
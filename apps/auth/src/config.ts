@@ -1,11 +1,76 @@
+import { PERMISSIONS, Permission } from '@ecom/auth';
+
 export const config = {
   port: Number(process.env.PORT) || 3002,
-  jwtSecret: process.env.JWT_SECRET!, // ¡Ya no hardcodeado!
   jwtRefreshSecret: process.env.JWT_REFRESH_SECRET!,
+  refreshTokenHashSecret: process.env.REFRESH_TOKEN_HASH_SECRET!,
+  actionTokenSecret: process.env.ACTION_TOKEN_SECRET!,
+  jwtKeys: {
+    // Directorio con una clave PEM por archivo: <kid>.pem
+    dir: process.env.JWT_KEYS_DIR,
+    // JSON { "<kid>": "<PEM>" }
+    json: process.env.JWT_KEYS,
+    // Por defecto firma la clave privada con el kid mayor
+    signingKid: process.env.JWT_SIGNING_KID
+  },
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  // Proxies entre el cliente y este servicio de los que se confía el X-Forwarded-For:
+  // el gateway agrega la IP del cliente, que se usa en las sesiones y los límites de login.
+  // Por defecto ninguno: un cliente que llega directo podría elegir su IP en cada intento
+  trustedProxyHops: Number(process.env.TRUSTED_PROXY_HOPS ?? 0),
   database: {
     url: process.env.DATABASE_URL!
   },
+  redis: {
+    url: process.env.REDIS_URL
+  },
+  // Clientes internos (otros servicios) que piden access tokens con client
+  // credentials en POST /service-token. Sin secret, el cliente queda deshabilitado
+  serviceClients: {
+    orders: {
+      secret: process.env.ORDERS_SERVICE_SECRET,
+      permissions: [PERMISSIONS.INVENTORY_MANAGE, PERMISSIONS.PROMOTIONS_REDEEM]
+    },
+    payments: {
+      secret: process.env.PAYMENTS_SERVICE_SECRET,
+      permissions: [PERMISSIONS.ORDERS_READ, PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.ORDERS_REFUND]
+    },
+    inventory: {
+      secret: process.env.INVENTORY_SERVICE_SECRET,
+      permissions: [PERMISSIONS.CATALOG_AVAILABILITY]
+    }
+  } as Record<string, { secret?: string; permissions: Permission[] }>,
+  // Servicio de carrito: fusión del carrito de invitado al iniciar sesión
+  cart: {
+    url: process.env.CART_SERVICE_URL || 'http://localhost:3006',
+    timeoutMs: Number(process.env.CART_SERVICE_TIMEOUT_MS) || 2000
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || './outbox'
+  },
   bcrypt: {
     saltRounds: 12
+  },
+  refreshToken: {
+    expiresInDays: 7
+  },
+  emailVerification: {
+    required: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    expiresInHours: 24,
+    resendCooldownSeconds: 60
+  },
+  passwordReset: {
+    expiresInMinutes: 60,
+    requestCooldownSeconds: 60
+  },
+  loginProtection: {
+    windowSeconds: 15 * 60,
+    delayAfter: 3,
+    baseDelaySeconds: 1,
+    maxDelaySeconds: 30,
+    maxEmailAttempts: 10,
+    maxIpAttempts: 50,
+    lockoutSeconds: 15 * 60
   }
 }
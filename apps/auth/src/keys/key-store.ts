@@ -0,0 +1,155 @@
+import { KeyObject, createPrivateKey, createPublicKey, JsonWebKey } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { ACCESS_TOKEN_ALGORITHM } from '@ecom/auth';
+import { config } from '../config';
+
+/** Algoritmo de firma de los access tokens (el mismo que verifica `@ecom/auth`) */
+export const SIGNING_ALGORITHM = ACCESS_TOKEN_ALGORITHM;
+
+/**
+ * Clave de firma identificada por `kid`
+ *
+ * @interface SigningKey
+ * @description Las claves con `privateKey` pueden firmar; las que solo tienen
+ * `publicKey` quedan para verificar tokens emitidos antes de una rotación.
+ */
+export interface SigningKey {
+  kid: string;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+/** Clave pública en formato JWK, tal como se publica en el JWKS */
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: typeof SIGNING_ALGORITHM;
+  use: 'sig';
+}
+
+/**
+ * Conjunto de claves activas para firmar y verificar access tokens
+ *
+ * @class KeyStore
+ * @description Firma siempre con una sola clave y verifica con todas, de modo
+ * que los tokens firmados con una clave anterior siguen siendo válidos mientras
+ * esa clave permanezca cargada.
+ */
+export class KeyStore {
+  private keys = new Map<string, SigningKey>();
+  private signingKey: SigningKey;
+
+  /**
+   * @param {SigningKey[]} keys - Claves cargadas
+   * @param {string} [signingKid] - Clave de firma; por defecto la clave privada con el `kid` mayor
+   *
+   * @throws {Error} Si no hay claves privadas o `signingKid` no corresponde a una
+   */
+  constructor(keys: SigningKey[], signingKid?: string) {
+    for (const key of keys) {
+      this.keys.set(key.kid, key);
+    }
+
+    const candidates = keys
+      .filter((key) => key.privateKey)
+      .sort((a, b) => b.kid.localeCompare(a.kid));
+
+    const signingKey = signingKid ? candidates.find((key) => key.kid === signingKid) : candidates[0];
+    if (!signingKey) {
+      throw new Error(
+        signingKid
+          ? `No hay una clave privada con kid "${signingKid}"`
+          : 'No hay claves privadas para firmar tokens (JWT_KEYS_DIR o JWT_KEYS)'
+      );
+    }
+
+    this.signingKey = signingKey;
+  }
+
+  /** Clave con la que se firman los tokens nuevos */
+  getSigningKey(): { kid: string; privateKey: KeyObject } {
+    return { kid: this.signingKey.kid, privateKey: this.signingKey.privateKey! };
+  }
+
+  /** Clave pública para verificar tokens firmados con `kid`, si está cargada */
+  getPublicKey(kid: string): KeyObject | null {
+    return this.keys.get(kid)?.publicKey ?? null;
+  }
+
+  /** Claves públicas de todas las claves cargadas, para `/.well-known/jwks.json` */
+  getJwks(): { keys: PublicJwk[] } {
+    return {
+      keys: [...this.keys.values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: SIGNING_ALGORITHM,
+        use: 'sig',
+      })),
+    };
+  }
+}
+
+/**
+ * Convierte un PEM (privado o público) en una clave de firma RSA
+ *
+ * @param {string} kid - Identificador de la clave
+ * @param {string} pem - Clave en formato PEM
+ * @returns {SigningKey} Clave lista para firmar y/o verificar
+ *
+ * @throws {Error} Si la clave no es RSA
+ */
+export function parseSigningKey(kid: string, pem: string): SigningKey {
+  const isPublic = pem.includes('PUBLIC KEY');
+  const privateKey = isPublic ? undefined : createPrivateKey(pem);
+  const publicKey = privateKey ? createPublicKey(privateKey) : createPublicKey(pem);
+
+  if (publicKey.asymmetricKeyType !== 'rsa') {
+    throw new Error(`La clave "${kid}" debe ser RSA para firmar con ${SIGNING_ALGORITHM}`);
+  }
+
+  return { kid, publicKey, privateKey };
+}
+
+/**
+ * Carga las claves desde un directorio (`<kid>.pem`) y/o desde la variable `JWT_KEYS`
+ *
+ * @returns {SigningKey[]} Claves encontradas
+ *
+ * @description `JWT_KEYS` es un objeto JSON `{ "<kid>": "<PEM>" }`. Si un `kid`
+ * aparece en ambos lados, prevalece el de la variable de entorno.
+ */
+function loadKeys(): SigningKey[] {
+  const pems = new Map<string, string>();
+  const { dir, json } = config.jwtKeys;
+
+  if (dir) {
+    for (const file of readdirSync(dir).filter((name) => extname(name) === '.pem')) {
+      pems.set(basename(file, '.pem'), readFileSync(join(dir, file), 'utf8'));
+    }
+  }
+
+  if (json) {
+    for (const [kid, pem] of Object.entries(JSON.parse(json) as Record<string, string>)) {
+      pems.set(kid, pem);
+    }
+  }
+
+  return [...pems].map(([kid, pem]) => parseSigningKey(kid, pem));
+}
+
+let store: KeyStore | null = null;
+
+/**
+ * Devuelve el conjunto de claves compartido por todo el proceso
+ *
+ * @returns {KeyStore} Claves cargadas en la primera llamada
+ *
+ * @throws {Error} Si no hay claves configuradas o alguna es inválida
+ */
+export function getKeyStore(): KeyStore {
+  if (!store) {
+    store = new KeyStore(loadKeys(), config.jwtKeys.signingKid);
+  }
+
+  return store;
+}
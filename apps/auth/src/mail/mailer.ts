@@ -0,0 +1,60 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Transporte de emails
+ *
+ * @interface Mailer
+ * @description Permite cambiar el proveedor de envío (SMTP, API externa, etc.)
+ * sin modificar la lógica de negocio. Los transportes incluidos funcionan sin red.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transporte que imprime los emails en la consola
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.info(`📧 Email para ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Transporte que guarda cada email como archivo JSON en un directorio
+ */
+export class FileMailer implements Mailer {
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(
+      join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Crea el transporte configurado en `MAIL_TRANSPORT`
+ *
+ * @returns {Mailer} `file` guarda en `MAIL_OUTBOX_DIR`, cualquier otro valor usa la consola
+ */
+export function createMailer(): Mailer {
+  if (config.mail.transport === 'file') {
+    return new FileMailer(config.mail.outboxDir);
+  }
+
+  return new ConsoleMailer();
+}
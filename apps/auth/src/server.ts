@@ -1,7 +1,8 @@
 import { startServer } from './app';
+import { getKeyStore } from './keys/key-store';
 
 // Validar variables de entorno críticas
-const requiredEnvVars = ['JWT_SECRET', 'JWT_REFRESH_SECRET', 'DATABASE_URL'];
+const requiredEnvVars = ['JWT_REFRESH_SECRET', 'REFRESH_TOKEN_HASH_SECRET', 'ACTION_TOKEN_SECRET', 'DATABASE_URL'];
 const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
 
 if (missingEnvVars.length > 0) {
@@ -10,6 +11,15 @@ if (missingEnvVars.length > 0) {
   process.exit(1);
 }
 
+// Cargar las claves de firma de access tokens
+try {
+  getKeyStore().getSigningKey();
+} catch (error) {
+  console.error('claves de firma inválidas:', (error as Error).message);
+  console.error('configurar JWT_KEYS_DIR o JWT_KEYS (ver SETUP.md).');
+  process.exit(1);
+}
+
 // Iniciar servidor
 startServer().catch((error) => {
   console.error('falla al iniciar auth service:', error);
@@ -0,0 +1,266 @@
+import { PERMISSIONS, ROLES } from '@ecom/auth';
+import { AuthRepository } from '../auth.repository';
+import {
+  AdminUserResponse,
+  NotFoundError,
+  Pagination,
+  Role,
+  RolePermissionsResponse,
+  User,
+  UserFilters,
+  ValidationError
+} from '../types/index';
+
+/**
+ * Servicio de administración de usuarios
+ *
+ * @class AdminService
+ * @description Listado, consulta, cambio de rol, habilitación, cierre forzado
+ * de sesiones y eliminación de usuarios. Cada acción queda registrada en el
+ * log de auditoría con el ID del administrador que la realizó.
+ */
+export class AdminService {
+  /** Repositorio para acceso a datos de autenticación */
+  private authRepository: AuthRepository;
+
+  /**
+   * Constructor del servicio de administración
+   * Inicializa el repositorio de datos
+   */
+  constructor() {
+    this.authRepository = new AuthRepository();
+  }
+
+  /**
+   * Lista usuarios con filtros y paginación
+   *
+   * @param {UserFilters} filters - Filtros por email (parcial), rol y fecha de creación
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Usuarios por página
+   * @returns {Promise<{users: AdminUserResponse[], pagination: Pagination}>} Página de usuarios
+   */
+  async listUsers(
+    filters: UserFilters,
+    page: number,
+    limit: number
+  ): Promise<{ users: AdminUserResponse[]; pagination: Pagination }> {
+    const { users, total } = await this.authRepository.findUsers(filters, (page - 1) * limit, limit);
+
+    return {
+      users: users.map((user) => this.formatAdminUserResponse(user)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtiene un usuario por ID
+   *
+   * @param {string} userId - ID del usuario
+   * @returns {Promise<AdminUserResponse>} Datos del usuario
+   *
+   * @throws {NotFoundError} Si el usuario no existe
+   */
+  async getUser(userId: string): Promise<AdminUserResponse> {
+    const user = await this.findUserOrFail(userId);
+    return this.formatAdminUserResponse(user);
+  }
+
+  /**
+   * Cambia el rol de un usuario
+   *
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @param {string} userId - ID del usuario a modificar
+   * @param {Role} role - Nuevo rol
+   * @returns {Promise<AdminUserResponse>} Usuario actualizado
+   *
+   * @throws {ValidationError} Si el administrador intenta cambiar su propio rol
+   * @throws {NotFoundError} Si el usuario no existe
+   *
+   * @description Cierra las sesiones del usuario para que el nuevo rol aplique de inmediato
+   */
+  async updateRole(adminId: string, userId: string, role: Role): Promise<AdminUserResponse> {
+    this.assertNotSelf(adminId, userId, 'No puede cambiar su propio rol');
+    const current = await this.findUserOrFail(userId);
+
+    const user = await this.authRepository.updateUserRole(userId, role);
+    await this.authRepository.deleteAllRefreshTokens(userId);
+    await this.authRepository.createAuditLog('ADMIN_USER_ROLE_CHANGED', adminId, {
+      targetUserId: userId,
+      from: current.role,
+      to: role,
+    });
+
+    return this.formatAdminUserResponse(user);
+  }
+
+  /**
+   * Habilita o deshabilita una cuenta
+   *
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @param {string} userId - ID del usuario a modificar
+   * @param {boolean} disabled - true para deshabilitar, false para habilitar
+   * @returns {Promise<AdminUserResponse>} Usuario actualizado
+   *
+   * @throws {ValidationError} Si el administrador intenta deshabilitarse a sí mismo
+   * @throws {NotFoundError} Si el usuario no existe
+   *
+   * @description Deshabilitar una cuenta también cierra todas sus sesiones
+   */
+  async setDisabled(adminId: string, userId: string, disabled: boolean): Promise<AdminUserResponse> {
+    this.assertNotSelf(adminId, userId, 'No puede deshabilitar su propia cuenta');
+    await this.findUserOrFail(userId);
+
+    const user = await this.authRepository.setUserDisabledAt(userId, disabled ? new Date() : null);
+    if (disabled) {
+      await this.authRepository.deleteAllRefreshTokens(userId);
+    }
+    await this.authRepository.createAuditLog(
+      disabled ? 'ADMIN_USER_DISABLED' : 'ADMIN_USER_ENABLED',
+      adminId,
+      { targetUserId: userId }
+    );
+
+    return this.formatAdminUserResponse(user);
+  }
+
+  /**
+   * Cierra todas las sesiones de un usuario
+   *
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @param {string} userId - ID del usuario
+   * @returns {Promise<void>} Operación completada
+   *
+   * @throws {NotFoundError} Si el usuario no existe
+   */
+  async forceLogout(adminId: string, userId: string): Promise<void> {
+    await this.findUserOrFail(userId);
+
+    await this.authRepository.deleteAllRefreshTokens(userId);
+    await this.authRepository.createAuditLog('ADMIN_USER_FORCE_LOGOUT', adminId, { targetUserId: userId });
+  }
+
+  /**
+   * Elimina un usuario y todos sus tokens
+   *
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @param {string} userId - ID del usuario a eliminar
+   * @returns {Promise<void>} Operación completada
+   *
+   * @throws {ValidationError} Si el administrador intenta eliminarse a sí mismo
+   * @throws {NotFoundError} Si el usuario no existe
+   */
+  async deleteUser(adminId: string, userId: string): Promise<void> {
+    this.assertNotSelf(adminId, userId, 'No puede eliminar su propia cuenta');
+    const user = await this.findUserOrFail(userId);
+
+    await this.authRepository.deleteUser(userId);
+    await this.authRepository.createAuditLog('ADMIN_USER_DELETED', adminId, {
+      targetUserId: userId,
+      email: user.email,
+    });
+  }
+
+  /**
+   * Lista los permisos existentes y los asignados a cada rol
+   *
+   * @returns {Promise<{permissions: string[], roles: RolePermissionsResponse[]}>} Permisos y roles
+   */
+  async listRolePermissions(): Promise<{ permissions: string[]; roles: RolePermissionsResponse[] }> {
+    const [permissions, assignments] = await Promise.all([
+      this.authRepository.findAllPermissionNames(),
+      this.authRepository.findAllRolePermissions(),
+    ]);
+
+    const roles = ROLES.map((role) => ({
+      role,
+      permissions: assignments
+        .filter((assignment) => assignment.role === role)
+        .map((assignment) => assignment.permission),
+    }));
+
+    return { permissions, roles };
+  }
+
+  /**
+   * Reemplaza los permisos asignados a un rol
+   *
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @param {Role} role - Rol a modificar
+   * @param {string[]} permissions - Nombres de permisos a asignar
+   * @returns {Promise<RolePermissionsResponse>} Rol con sus nuevos permisos
+   *
+   * @throws {ValidationError} Si algún permiso no existe o se quita `roles:manage` a ADMIN
+   *
+   * @description Los cambios aplican a los access tokens emitidos desde ese momento
+   */
+  async setRolePermissions(adminId: string, role: Role, permissions: string[]): Promise<RolePermissionsResponse> {
+    const existing = await this.authRepository.findAllPermissionNames();
+    const unknown = permissions.filter((permission) => !existing.includes(permission));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Permisos inexistentes: ${unknown.join(', ')}`);
+    }
+
+    // Evita que ningún rol pueda volver a administrar permisos
+    if (role === 'ADMIN' && !permissions.includes(PERMISSIONS.ROLES_MANAGE)) {
+      throw new ValidationError(`El rol ADMIN debe conservar el permiso ${PERMISSIONS.ROLES_MANAGE}`);
+    }
+
+    const previous = await this.authRepository.findPermissionsByRole(role);
+    await this.authRepository.setRolePermissions(role, permissions);
+    await this.authRepository.createAuditLog('ADMIN_ROLE_PERMISSIONS_CHANGED', adminId, {
+      role,
+      from: previous,
+      to: permissions,
+    });
+
+    return { role, permissions };
+  }
+
+  /**
+   * Busca un usuario o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findUserOrFail(userId: string): Promise<User> {
+    const user = await this.authRepository.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError('Usuario no encontrado');
+    }
+    return user;
+  }
+
+  /**
+   * Evita que un administrador se quite el acceso a sí mismo
+   *
+   * @private
+   */
+  private assertNotSelf(adminId: string, userId: string, message: string): void {
+    if (adminId === userId) {
+      throw new ValidationError(message);
+    }
+  }
+
+  /**
+   * Formatea el usuario para respuestas de administración (sin password)
+   *
+   * @private
+   */
+  private formatAdminUserResponse(user: User): AdminUserResponse {
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      emailVerifiedAt: user.emailVerifiedAt,
+      disabled: user.disabledAt !== null,
+      disabledAt: user.disabledAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+}
@@ -1,15 +1,34 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
 import { AuthRepository } from '../auth.repository';
+import { LoginAttemptService } from './login-attempt.service';
+import { Mailer, createMailer } from '../mail/mailer';
+import { CartClient } from '../clients/cart.client';
+import { PublicJwk, SIGNING_ALGORITHM, getKeyStore } from '../keys/key-store';
 import { 
+  AccountDisabledError,
+  ActionTokenPayload,
   AuthTokens, 
+  EmailNotVerifiedError,
   JWTPayload, 
+  RefreshTokenPayload,
+  ServiceToken,
+  SessionContext,
+  SessionResponse,
   UserResponse,
   UnauthorizedError,
-  ValidationError 
+  ValidationError,
+  NotFoundError,
+  Role,
+  TokenReuseError,
+  TokenPurpose
 } from '../types/index';
 import { config } from '../config';
 
+/** Vigencia de los tokens de servicio, igual que la de los access tokens de usuario */
+const SERVICE_TOKEN_TTL_SECONDS = 60 * 60;
+
 /**
  * Servicio de autenticación que maneja toda la lógica de negocio relacionada
  * con usuarios, tokens JWT y autenticación.
@@ -28,12 +47,24 @@ export class AuthService {
   /** Repositorio para acceso a datos de autenticación */
   private authRepository: AuthRepository;
 
+  /** Protección contra fuerza bruta en el login */
+  private loginAttempts: LoginAttemptService;
+
+  /** Transporte para emails transaccionales */
+  private mailer: Mailer;
+
+  /** Servicio de carrito, para fusionar el carrito de invitado al iniciar sesión */
+  private cartClient: CartClient;
+
   /**
    * Constructor del servicio de autenticación
-   * Inicializa el repositorio de datos
+   * Inicializa el repositorio de datos, la protección de login, el mailer y el cliente del carrito
    */
   constructor() {
     this.authRepository = new AuthRepository();
+    this.loginAttempts = new LoginAttemptService();
+    this.mailer = createMailer();
+    this.cartClient = new CartClient();
   }
 
   /**
@@ -41,12 +72,17 @@ export class AuthService {
    * 
    * @param {string} email - Email del usuario (debe ser único)
    * @param {string} password - Contraseña en texto plano (será hasheada)
-   * @returns {Promise<{user: UserResponse, tokens: AuthTokens}>} Usuario creado y tokens JWT
+   * @param {SessionContext} context - User agent e IP de la sesión que se inicia
+   * @returns {Promise<{user: UserResponse, tokens?: AuthTokens}>} Usuario creado y tokens JWT
    * 
    * @throws {ConflictError} Si el email ya está registrado
    * @throws {AuthError} Si hay errores en el proceso de registro
+   * 
+   * @description
+   * - Envía un email de verificación al usuario recién creado
+   * - Si la verificación es obligatoria (`REQUIRE_EMAIL_VERIFICATION`) no emite tokens
    */
-  async register(email: string, password: string): Promise<{ user: UserResponse; tokens: AuthTokens }> {
+  async register(email: string, password: string, context: SessionContext = {}): Promise<{ user: UserResponse; tokens?: AuthTokens }> {
     // Verificar si el email ya existe
     const emailExists = await this.authRepository.emailExists(email);
     if (emailExists) {
@@ -59,11 +95,15 @@ export class AuthService {
     // Crear usuario
     const user = await this.authRepository.createUser(email, hashedPassword);
 
-    // Generar tokens
-    const tokens = this.generateTokens(user.id, user.role);
+    // Enviar email de verificación
+    await this.sendVerificationEmail(user.id, user.email);
 
-    // Guardar refresh token
-    await this.authRepository.createRefreshToken(tokens.refreshToken, user.id);
+    if (config.emailVerification.required) {
+      return { user: this.formatUserResponse(user) };
+    }
+
+    // Generar tokens y guardar refresh token en una nueva familia
+    const tokens = await this.issueTokens(user.id, user.role, context);
 
     return {
       user: this.formatUserResponse(user),
@@ -76,29 +116,60 @@ export class AuthService {
    * 
    * @param {string} email - Email del usuario
    * @param {string} password - Contraseña en texto plano
-   * @returns {Promise<{user: UserResponse, tokens: AuthTokens}>} Usuario autenticado y tokens JWT
+   * @param {SessionContext} context - User agent e IP de la sesión que se inicia
+   * @param {string} [cartToken] - Cart token del carrito de invitado a fusionar en el del usuario
+   * @returns {Promise<{user: UserResponse, tokens: AuthTokens, cartMerged?: boolean}>} Usuario autenticado,
+   * tokens JWT y, si se envió un cart token, si el carrito se fusionó
    * 
    * @throws {UnauthorizedError} Si las credenciales son inválidas
+   * @throws {TooManyAttemptsError} Si debe esperar antes de reintentar
+   * @throws {AccountLockedError} Si el email o la IP están bloqueados temporalmente
+   * @throws {AccountDisabledError} Si la cuenta fue deshabilitada por un administrador
+   * @throws {EmailNotVerifiedError} Si la verificación es obligatoria y el email no fue verificado
    * @throws {AuthError} Si hay errores en el proceso de login
    */
-  async login(email: string, password: string): Promise<{ user: UserResponse; tokens: AuthTokens }> {
+  async login(
+    email: string,
+    password: string,
+    context: SessionContext = {},
+    cartToken?: string
+  ): Promise<{ user: UserResponse; tokens: AuthTokens; cartMerged?: boolean }> {
+    // Rechazar intentos de emails o IPs bloqueados
+    await this.loginAttempts.assertCanAttempt(email, context.ipAddress);
+
     // Buscar usuario
     const user = await this.authRepository.findUserByEmail(email);
     if (!user) {
+      await this.loginAttempts.registerFailure(email, context.ipAddress);
       throw new UnauthorizedError('Credenciales inválidas');
     }
 
     // Verificar password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      await this.loginAttempts.registerFailure(email, context.ipAddress);
       throw new UnauthorizedError('Credenciales inválidas');
     }
 
-    // Generar tokens
-    const tokens = this.generateTokens(user.id, user.role);
+    await this.loginAttempts.registerSuccess(email);
+
+    // Se verifica después del password para no revelar qué cuentas existen
+    if (user.disabledAt) {
+      throw new AccountDisabledError();
+    }
+
+    if (config.emailVerification.required && !user.emailVerified) {
+      throw new EmailNotVerifiedError('Debe verificar su email antes de iniciar sesión');
+    }
+
+    // Generar tokens y guardar refresh token en una nueva familia
+    const tokens = await this.issueTokens(user.id, user.role, context);
 
-    // Guardar refresh token
-    await this.authRepository.createRefreshToken(tokens.refreshToken, user.id);
+    // El carrito de invitado pasa al usuario; si falla, el login sigue siendo válido
+    if (cartToken) {
+      const cartMerged = await this.cartClient.mergeGuestCart(tokens.accessToken, cartToken);
+      return { user: this.formatUserResponse(user), tokens, cartMerged };
+    }
 
     return {
       user: this.formatUserResponse(user),
@@ -110,16 +181,23 @@ export class AuthService {
    * Genera nuevos tokens JWT usando un refresh token válido
    * 
    * @param {string} refreshToken - Token de refresco válido
+   * @param {SessionContext} context - User agent e IP desde donde se usa la sesión
    * @returns {Promise<AuthTokens>} Nuevos tokens JWT (access y refresh)
    * 
    * @throws {UnauthorizedError} Si el refresh token es inválido o expirado
-   * @throws {NotFoundError} Si el refresh token no existe en la base de datos
+   * @throws {TokenReuseError} Si el refresh token ya fue rotado (se revoca toda la familia)
+   * @throws {AccountDisabledError} Si la cuenta fue deshabilitada
    * @throws {AuthError} Si hay errores en el proceso de refresh
+   * 
+   * @description
+   * - Cada llamada rota el refresh token: el recibido queda revocado y se emite uno nuevo
+   * - Los tokens rotados pertenecen a la misma familia (una sesión de login)
+   * - Reutilizar un token ya rotado revoca la familia completa y registra un evento de auditoría
    */
-  async refreshToken(refreshToken: string): Promise<AuthTokens> {
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
     try {
       // Verificar refresh token
-      const decoded = jwt.verify(refreshToken, config.jwtRefreshSecret) as { userId: string };
+      const decoded = jwt.verify(refreshToken, config.jwtRefreshSecret) as RefreshTokenPayload;
 
       // Verificar que el token existe en la DB
       const storedToken = await this.authRepository.findRefreshToken(refreshToken);
@@ -127,18 +205,43 @@ export class AuthService {
         throw new UnauthorizedError('Refresh token inválido');
       }
 
+      // Un token ya revocado indica que fue robado o reutilizado
+      if (storedToken.revokedAt) {
+        await this.handleTokenReuse(storedToken.userId, storedToken.familyId, storedToken.id);
+      }
+
+      if (storedToken.expiresAt.getTime() <= Date.now()) {
+        throw new UnauthorizedError('Refresh token expirado');
+      }
+
       // Buscar usuario
       const user = await this.authRepository.findUserById(decoded.userId);
       if (!user) {
         throw new UnauthorizedError('Usuario no encontrado');
       }
 
-      // Generar nuevo access token
-      const accessToken = this.generateAccessToken(user.id, user.role);
+      if (user.disabledAt) {
+        throw new AccountDisabledError();
+      }
+
+      // Rotar refresh token dentro de la misma familia
+      const nextRefreshToken = this.generateRefreshToken(user.id, storedToken.familyId);
+      const rotated = await this.authRepository.rotateRefreshToken(storedToken.id, {
+        token: nextRefreshToken,
+        userId: user.id,
+        familyId: storedToken.familyId,
+        expiresAt: this.getRefreshTokenExpiration(),
+        ...context,
+      });
+
+      // Otro request rotó el mismo token antes que este
+      if (!rotated) {
+        await this.handleTokenReuse(storedToken.userId, storedToken.familyId, storedToken.id);
+      }
 
       return {
-        accessToken,
-        refreshToken, // Mantener el mismo refresh token
+        accessToken: await this.generateAccessToken(user.id, user.role, storedToken.familyId),
+        refreshToken: nextRefreshToken,
       };
     } catch (error) {
       if (error instanceof jwt.JsonWebTokenError) {
@@ -149,16 +252,219 @@ export class AuthService {
   }
 
   /**
-   * Cierra la sesión del usuario eliminando el refresh token
+   * Cierra la sesión del usuario eliminando la familia del refresh token
    * 
    * @param {string} refreshToken - Token de refresco a invalidar
    * @returns {Promise<void>} Operación completada
    * 
-   * @throws {NotFoundError} Si el refresh token no existe
    * @throws {AuthError} Si hay errores en el proceso de logout
    */
   async logout(refreshToken: string): Promise<void> {
-    await this.authRepository.deleteRefreshToken(refreshToken);
+    const storedToken = await this.authRepository.findRefreshToken(refreshToken);
+    if (!storedToken) {
+      return;
+    }
+
+    await this.authRepository.deleteRefreshTokenFamily(storedToken.familyId);
+  }
+
+  /**
+   * Verifica el email de un usuario usando el token enviado por email
+   * 
+   * @param {string} token - Token de verificación firmado
+   * @returns {Promise<UserResponse>} Usuario con el email verificado
+   * 
+   * @throws {ValidationError} Si el token es inválido, expiró o ya fue usado
+   */
+  async verifyEmail(token: string): Promise<UserResponse> {
+    const userId = await this.consumeActionToken(token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      throw new ValidationError('Token de verificación inválido o expirado');
+    }
+
+    await this.authRepository.markEmailVerified(userId);
+
+    return this.getProfile(userId);
+  }
+
+  /**
+   * Reenvía el email de verificación
+   * 
+   * @param {string} email - Email de la cuenta
+   * @returns {Promise<void>} Operación completada
+   * 
+   * @description
+   * No informa si la cuenta existe o ya está verificada, para evitar enumeración
+   * de usuarios. Respeta un tiempo mínimo entre envíos e invalida los tokens anteriores.
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.authRepository.findUserByEmail(email);
+    if (!user || user.emailVerified) {
+      return;
+    }
+
+    const lastSentAt = await this.authRepository.findLatestUserTokenDate(user.id, 'EMAIL_VERIFICATION');
+    const cooldownMs = config.emailVerification.resendCooldownSeconds * 1000;
+    if (lastSentAt && Date.now() - lastSentAt.getTime() < cooldownMs) {
+      return;
+    }
+
+    await this.authRepository.invalidateUserTokens(user.id, 'EMAIL_VERIFICATION');
+    await this.sendVerificationEmail(user.id, user.email);
+  }
+
+  /**
+   * Solicita el reset de password enviando un enlace por email
+   * 
+   * @param {string} email - Email de la cuenta
+   * @returns {Promise<void>} Operación completada
+   * 
+   * @description
+   * No informa si la cuenta existe, para evitar enumeración de usuarios.
+   * Respeta un tiempo mínimo entre solicitudes e invalida los enlaces anteriores.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.authRepository.findUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const lastSentAt = await this.authRepository.findLatestUserTokenDate(user.id, 'PASSWORD_RESET');
+    const cooldownMs = config.passwordReset.requestCooldownSeconds * 1000;
+    if (lastSentAt && Date.now() - lastSentAt.getTime() < cooldownMs) {
+      return;
+    }
+
+    await this.authRepository.invalidateUserTokens(user.id, 'PASSWORD_RESET');
+
+    const token = await this.createActionToken(
+      user.id,
+      'PASSWORD_RESET',
+      config.passwordReset.expiresInMinutes * 60
+    );
+    const link = `${config.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Restablecer password',
+      text: `Para elegir un nuevo password ingresá al siguiente enlace (válido por ${config.passwordReset.expiresInMinutes} minutos):\n\n${link}\n\nSi no lo solicitaste, ignorá este email.`,
+    });
+  }
+
+  /**
+   * Restablece el password usando el token enviado por email
+   * 
+   * @param {string} token - Token de reset firmado
+   * @param {string} password - Nuevo password en texto plano
+   * @returns {Promise<void>} Operación completada
+   * 
+   * @throws {ValidationError} Si el token es inválido, expiró o ya fue usado
+   * 
+   * @description Cierra todas las sesiones del usuario y elimina bloqueos de login de su email
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.consumeActionToken(token, 'PASSWORD_RESET');
+    if (!userId) {
+      throw new ValidationError('Token de reset inválido o expirado');
+    }
+
+    const user = await this.authRepository.findUserById(userId);
+    if (!user) {
+      throw new ValidationError('Token de reset inválido o expirado');
+    }
+
+    await this.setPassword(user.id, password);
+    await this.loginAttempts.clear({ email: user.email });
+    await this.authRepository.createAuditLog('PASSWORD_RESET', user.id);
+  }
+
+  /**
+   * Cambia el password de un usuario autenticado
+   * 
+   * @param {string} userId - ID del usuario autenticado
+   * @param {string} currentPassword - Password actual en texto plano
+   * @param {string} newPassword - Nuevo password en texto plano
+   * @param {SessionContext} context - User agent e IP de la sesión actual
+   * @returns {Promise<AuthTokens>} Tokens de una nueva sesión para el cliente actual
+   * 
+   * @throws {UnauthorizedError} Si el password actual es incorrecto
+   * 
+   * @description Cierra todas las sesiones existentes, incluida la actual, y abre una nueva
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
+    const user = await this.authRepository.findUserById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Usuario no encontrado');
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!isValidPassword) {
+      throw new UnauthorizedError('Password actual incorrecto');
+    }
+
+    await this.setPassword(user.id, newPassword);
+    await this.authRepository.createAuditLog('PASSWORD_CHANGED', user.id);
+
+    return this.issueTokens(user.id, user.role, context);
+  }
+
+  /**
+   * Lista las sesiones activas de un usuario
+   * 
+   * @param {string} userId - ID del usuario autenticado
+   * @param {string} [currentSessionId] - Sesión del access token actual, para marcarla
+   * @returns {Promise<SessionResponse[]>} Sesiones activas, la más reciente primero
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions = await this.authRepository.findActiveSessions(userId);
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoca una sesión del usuario eliminando su familia de refresh tokens
+   * 
+   * @param {string} userId - ID del usuario autenticado
+   * @param {string} sessionId - ID de la sesión a revocar
+   * @returns {Promise<void>} Operación completada
+   * 
+   * @throws {NotFoundError} Si la sesión no existe o pertenece a otro usuario
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const deleted = await this.authRepository.deleteSession(userId, sessionId);
+    if (!deleted) {
+      throw new NotFoundError('Sesión no encontrada');
+    }
+  }
+
+  /**
+   * Cierra todas las sesiones del usuario ("log out everywhere")
+   * 
+   * @param {string} userId - ID del usuario autenticado
+   * @returns {Promise<void>} Operación completada
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.authRepository.deleteAllRefreshTokens(userId);
+  }
+
+  /**
+   * Elimina el bloqueo de login de un email y/o una IP (uso administrativo)
+   * 
+   * @param {{email?: string, ipAddress?: string}} target - Email y/o IP a desbloquear
+   * @param {string} adminId - ID del administrador que realiza la acción
+   * @returns {Promise<void>} Operación completada
+   */
+  async clearLockout(target: { email?: string; ipAddress?: string }, adminId: string): Promise<void> {
+    await this.loginAttempts.clear(target);
+    await this.authRepository.createAuditLog('LOGIN_LOCKOUT_CLEARED', adminId, target);
   }
 
   /**
@@ -180,43 +486,73 @@ export class AuthService {
   }
 
   /**
-   * Verifica y decodifica un access token JWT
+   * Devuelve las claves públicas de verificación de access tokens
+   * 
+   * @returns {{keys: PublicJwk[]}} JWKS con todas las claves activas
+   * 
+   * @description Incluye las claves anteriores que siguen cargadas, para que
+   * otros servicios puedan verificar tokens emitidos antes de una rotación.
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    return getKeyStore().getJwks();
+  }
+
+  /**
+   * Emite un access token para un servicio interno (client credentials)
    * 
-   * @param {string} token - Access token JWT a verificar
-   * @returns {{userId: string, role: string}} Payload decodificado del token
+   * @param {string} clientId - Cliente registrado en `config.serviceClients`
+   * @param {string} clientSecret - Secret del cliente
+   * @returns {Promise<ServiceToken>} Access token de 1 hora
    * 
-   * @throws {Error} Si el token es inválido, expirado o malformado
+   * @throws {UnauthorizedError} Si el cliente no existe, está deshabilitado o el secret no coincide
    * 
-   * @example
-   * ```typescript
-   * const decoded = authService.verifyAccessToken(accessToken);
-   * console.log(decoded.userId); // ID del usuario
-   * console.log(decoded.role); // Rol del usuario
-   * ```
+   * @description El token lleva solo los permisos configurados para el cliente
+   * y el rol USER, así no pasa los controles de staff del gateway. No tiene
+   * refresh token: el servicio pide uno nuevo antes de que venza.
    */
-  verifyAccessToken(token: string): JWTPayload {
-    try {
-      return jwt.verify(token, config.jwtSecret) as JWTPayload;
-    } catch (error) {
-      throw new UnauthorizedError('Token inválido');
+  async issueServiceToken(clientId: string, clientSecret: string): Promise<ServiceToken> {
+    const client = Object.hasOwn(config.serviceClients, clientId) ? config.serviceClients[clientId] : undefined;
+    if (!client?.secret || !this.secretsMatch(clientSecret, client.secret)) {
+      throw new UnauthorizedError('Credenciales de servicio inválidas');
     }
+
+    const payload: JWTPayload = {
+      userId: `service:${clientId}`,
+      role: 'USER',
+      permissions: client.permissions,
+      service: clientId,
+    };
+    const { kid, privateKey } = getKeyStore().getSigningKey();
+    const accessToken = jwt.sign(payload, privateKey, { algorithm: SIGNING_ALGORITHM, keyid: kid, expiresIn: SERVICE_TOKEN_TTL_SECONDS });
+
+    return { accessToken, tokenType: 'Bearer', expiresIn: SERVICE_TOKEN_TTL_SECONDS };
   }
 
   /**
-   * Genera un par de tokens JWT (access y refresh)
+   * Genera un par de tokens JWT (access y refresh) y guarda el refresh token
    * 
    * @private
    * @param {string} userId - ID del usuario para incluir en el payload
    * @param {string} role - Rol del usuario para incluir en el payload
-   * @returns {AuthTokens} Par de tokens JWT generados
+   * @param {SessionContext} context - User agent e IP de la sesión
+   * @returns {Promise<AuthTokens>} Par de tokens JWT generados
    * 
    * @description
    * - Access Token: Expira en 1 hora, usado para autenticación de requests
-   * - Refresh Token: Expira en 7 días, usado para generar nuevos access tokens
+   * - Refresh Token: Expira en 7 días, inicia una nueva familia de tokens
    */
-  private generateTokens(userId: string, role: 'USER' | 'ADMIN'): AuthTokens {
-    const accessToken = this.generateAccessToken(userId, role);
-    const refreshToken = this.generateRefreshToken(userId);
+  private async issueTokens(userId: string, role: Role, context: SessionContext): Promise<AuthTokens> {
+    const familyId = randomUUID();
+    const accessToken = await this.generateAccessToken(userId, role, familyId);
+    const refreshToken = this.generateRefreshToken(userId, familyId);
+
+    await this.authRepository.createRefreshToken({
+      token: refreshToken,
+      userId,
+      familyId,
+      expiresAt: this.getRefreshTokenExpiration(),
+      ...context,
+    });
 
     return { accessToken, refreshToken };
   }
@@ -227,13 +563,30 @@ export class AuthService {
    * @private
    * @param {string} userId - ID del usuario para incluir en el payload
    * @param {string} role - Rol del usuario para incluir en el payload
-   * @returns {string} Access token JWT generado
+   * @param {string} sessionId - Familia de refresh tokens (sesión) que emitió el token
+   * @returns {Promise<string>} Access token JWT generado
+   * 
+   * @description
+   * Expira en 1 hora, usado para autenticación de requests. Incluye los permisos
+   * del rol vigentes al momento de emitirlo, para que otros servicios puedan
+   * autorizar sin consultar la base de datos. Se firma con RS256 y el `kid` de
+   * la clave activa, verificable con el JWKS publicado.
+   */
+  private async generateAccessToken(userId: string, role: Role, sessionId: string): Promise<string> {
+    const permissions = await this.authRepository.findPermissionsByRole(role);
+    const payload: JWTPayload = { userId, role, permissions, sessionId };
+    const { kid, privateKey } = getKeyStore().getSigningKey();
+    return jwt.sign(payload, privateKey, { algorithm: SIGNING_ALGORITHM, keyid: kid, expiresIn: '1h' });
+  }
+
+  /**
+   * Compara dos secrets en tiempo constante (hashea ambos para igualar el largo)
    * 
-   * @description Expira en 1 hora, usado para autenticación de requests
+   * @private
    */
-  private generateAccessToken(userId: string, role: 'USER' | 'ADMIN'): string {
-    const payload: JWTPayload = { userId, role };
-    return jwt.sign(payload, config.jwtSecret, { expiresIn: '1h' });
+  private secretsMatch(received: string, expected: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(received), digest(expected));
   }
 
   /**
@@ -241,12 +594,134 @@ export class AuthService {
    * 
    * @private
    * @param {string} userId - ID del usuario para incluir en el payload
+   * @param {string} familyId - Familia (sesión) a la que pertenece el token
    * @returns {string} Refresh token JWT generado
    * 
-   * @description Expira en 7 días, usado para generar nuevos access tokens
+   * @description Expira en 7 días. Incluye un `jti` único para que dos tokens
+   * emitidos en el mismo segundo nunca sean iguales.
    */
-  private generateRefreshToken(userId: string): string {
-    return jwt.sign({ userId }, config.jwtRefreshSecret, { expiresIn: '7d' });
+  private generateRefreshToken(userId: string, familyId: string): string {
+    const payload: RefreshTokenPayload = { userId, familyId };
+    return jwt.sign(payload, config.jwtRefreshSecret, {
+      expiresIn: `${config.refreshToken.expiresInDays}d`,
+      jwtid: randomUUID(),
+    });
+  }
+
+  /**
+   * Calcula la fecha de expiración de un refresh token nuevo
+   * 
+   * @private
+   * @returns {Date} Fecha de expiración
+   */
+  private getRefreshTokenExpiration(): Date {
+    return new Date(Date.now() + config.refreshToken.expiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Hashea y guarda un nuevo password revocando todos los refresh tokens
+   * 
+   * @private
+   * @param {string} userId - ID del usuario
+   * @param {string} password - Nuevo password en texto plano
+   * @returns {Promise<void>} Operación completada
+   */
+  private async setPassword(userId: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, config.bcrypt.saltRounds);
+
+    await this.authRepository.updatePassword(userId, hashedPassword);
+    await this.authRepository.deleteAllRefreshTokens(userId);
+  }
+
+  /**
+   * Genera y guarda un token firmado de un solo uso
+   * 
+   * @private
+   * @param {string} userId - Usuario al que pertenece el token
+   * @param {TokenPurpose} purpose - Acción que autoriza el token
+   * @param {number} expiresInSeconds - Validez del token
+   * @returns {Promise<string>} Token firmado
+   */
+  private async createActionToken(userId: string, purpose: TokenPurpose, expiresInSeconds: number): Promise<string> {
+    const payload: ActionTokenPayload = { userId, purpose };
+    const token = jwt.sign(payload, config.actionTokenSecret, {
+      expiresIn: expiresInSeconds,
+      jwtid: randomUUID(),
+    });
+
+    await this.authRepository.createUserToken({
+      token,
+      userId,
+      purpose,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+    });
+
+    return token;
+  }
+
+  /**
+   * Verifica la firma de un token de un solo uso y lo marca como usado
+   * 
+   * @private
+   * @param {string} token - Token firmado
+   * @param {TokenPurpose} purpose - Acción esperada
+   * @returns {Promise<string | null>} ID del usuario o null si el token no es válido
+   */
+  private async consumeActionToken(token: string, purpose: TokenPurpose): Promise<string | null> {
+    let decoded: ActionTokenPayload;
+    try {
+      decoded = jwt.verify(token, config.actionTokenSecret) as ActionTokenPayload;
+    } catch (error) {
+      return null;
+    }
+
+    if (decoded.purpose !== purpose) {
+      return null;
+    }
+
+    const userId = await this.authRepository.consumeUserToken(token, purpose);
+    return userId === decoded.userId ? userId : null;
+  }
+
+  /**
+   * Envía el email con el enlace de verificación
+   * 
+   * @private
+   * @param {string} userId - ID del usuario
+   * @param {string} email - Destinatario
+   * @returns {Promise<void>} Operación completada
+   */
+  private async sendVerificationEmail(userId: string, email: string): Promise<void> {
+    const token = await this.createActionToken(
+      userId,
+      'EMAIL_VERIFICATION',
+      config.emailVerification.expiresInHours * 60 * 60
+    );
+    const link = `${config.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.mailer.send({
+      to: email,
+      subject: 'Verificá tu email',
+      text: `Para verificar tu cuenta ingresá al siguiente enlace (válido por ${config.emailVerification.expiresInHours} horas):\n\n${link}`,
+    });
+  }
+
+  /**
+   * Maneja la reutilización de un refresh token ya rotado
+   * 
+   * @private
+   * @param {string} userId - Dueño del token
+   * @param {string} familyId - Familia comprometida
+   * @param {string} tokenId - ID del token reutilizado
+   * @returns {Promise<never>} Siempre lanza error
+   * 
+   * @throws {TokenReuseError} Siempre, luego de revocar la familia completa
+   */
+  private async handleTokenReuse(userId: string, familyId: string, tokenId: string): Promise<never> {
+    await this.authRepository.revokeRefreshTokenFamily(familyId);
+    await this.authRepository.createAuditLog('REFRESH_TOKEN_REUSE', userId, { familyId, tokenId });
+
+    throw new TokenReuseError('Refresh token reutilizado. La sesión fue revocada');
   }
 
   /**
@@ -263,6 +738,7 @@ export class AuthService {
       id: user.id,
       email: user.email,
       role: user.role,
+      emailVerified: user.emailVerified,
       createdAt: user.createdAt,
     };
   }
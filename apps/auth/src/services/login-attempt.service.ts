@@ -0,0 +1,147 @@
+import { AttemptStore, getAttemptStore } from '../stores/attempt.store';
+import { AccountLockedError, TooManyAttemptsError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Servicio de protección contra fuerza bruta en el login
+ *
+ * @class LoginAttemptService
+ * @description Cuenta los intentos fallidos por IP y por email. Luego de algunos
+ * fallos exige esperas progresivas entre intentos y, al superar el máximo,
+ * bloquea temporalmente la cuenta o la IP.
+ */
+export class LoginAttemptService {
+  /** Backend de contadores y bloqueos */
+  private store: AttemptStore;
+
+  /**
+   * Constructor del servicio de intentos de login
+   *
+   * @param {AttemptStore} [store] - Store a usar (por defecto el compartido del proceso)
+   */
+  constructor(store: AttemptStore = getAttemptStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Verifica que el email y la IP puedan intentar un login
+   *
+   * @param {string} email - Email del intento
+   * @param {string} [ipAddress] - IP de origen del intento
+   * @returns {Promise<void>} Continúa si no hay bloqueos vigentes
+   *
+   * @throws {AccountLockedError} Si el email o la IP están bloqueados
+   * @throws {TooManyAttemptsError} Si todavía no terminó la espera progresiva
+   */
+  async assertCanAttempt(email: string, ipAddress?: string): Promise<void> {
+    for (const key of this.getKeys(email, ipAddress)) {
+      const lock = await this.store.getLock(key);
+      if (!lock) {
+        continue;
+      }
+
+      if (lock.reason === 'locked') {
+        throw new AccountLockedError(lock.ttl);
+      }
+
+      throw new TooManyAttemptsError(lock.ttl);
+    }
+  }
+
+  /**
+   * Registra un intento fallido y aplica espera o bloqueo si corresponde
+   *
+   * @param {string} email - Email del intento
+   * @param {string} [ipAddress] - IP de origen del intento
+   * @returns {Promise<void>} Operación completada
+   */
+  async registerFailure(email: string, ipAddress?: string): Promise<void> {
+    const { windowSeconds, maxEmailAttempts, maxIpAttempts } = config.loginProtection;
+
+    await this.applyPolicy(`email:${this.normalizeEmail(email)}`, maxEmailAttempts, windowSeconds);
+
+    if (ipAddress) {
+      await this.applyPolicy(`ip:${ipAddress}`, maxIpAttempts, windowSeconds);
+    }
+  }
+
+  /**
+   * Limpia el historial de fallos del email luego de un login exitoso
+   *
+   * @param {string} email - Email autenticado
+   * @returns {Promise<void>} Operación completada
+   *
+   * @description El contador por IP se mantiene: una IP que prueba muchas
+   * cuentas sigue siendo sospechosa aunque acierte alguna.
+   */
+  async registerSuccess(email: string): Promise<void> {
+    await this.store.reset(`email:${this.normalizeEmail(email)}`);
+  }
+
+  /**
+   * Elimina el bloqueo y los contadores de un email y/o una IP
+   *
+   * @param {{email?: string, ipAddress?: string}} target - Email y/o IP a desbloquear
+   * @returns {Promise<void>} Operación completada
+   */
+  async clear(target: { email?: string; ipAddress?: string }): Promise<void> {
+    if (target.email) {
+      await this.store.reset(`email:${this.normalizeEmail(target.email)}`);
+    }
+
+    if (target.ipAddress) {
+      await this.store.reset(`ip:${target.ipAddress}`);
+    }
+  }
+
+  /**
+   * Incrementa el contador de una clave y aplica espera progresiva o bloqueo
+   *
+   * @private
+   * @param {string} key - Clave del contador (email o IP)
+   * @param {number} maxAttempts - Fallos permitidos antes del bloqueo
+   * @param {number} windowSeconds - Ventana del contador
+   * @returns {Promise<void>} Operación completada
+   *
+   * @description
+   * - Menos de `delayAfter` fallos: sin restricción
+   * - Desde `delayAfter`: espera de `baseDelaySeconds * 2^n`, con tope `maxDelaySeconds`
+   * - Desde `maxAttempts`: bloqueo de `lockoutSeconds`
+   */
+  private async applyPolicy(key: string, maxAttempts: number, windowSeconds: number): Promise<void> {
+    const { delayAfter, baseDelaySeconds, maxDelaySeconds, lockoutSeconds } = config.loginProtection;
+    const failures = await this.store.increment(key, windowSeconds);
+
+    if (failures >= maxAttempts) {
+      await this.store.setLock(key, 'locked', lockoutSeconds);
+      return;
+    }
+
+    if (failures >= delayAfter) {
+      const delay = Math.min(baseDelaySeconds * 2 ** (failures - delayAfter), maxDelaySeconds);
+      await this.store.setLock(key, 'delay', delay);
+    }
+  }
+
+  /**
+   * Claves a verificar para un intento
+   *
+   * @private
+   */
+  private getKeys(email: string, ipAddress?: string): string[] {
+    const keys = [`email:${this.normalizeEmail(email)}`];
+    if (ipAddress) {
+      keys.push(`ip:${ipAddress}`);
+    }
+    return keys;
+  }
+
+  /**
+   * Normaliza el email para que variantes de mayúsculas compartan contador
+   *
+   * @private
+   */
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
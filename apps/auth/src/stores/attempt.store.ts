@@ -0,0 +1,135 @@
+import Redis from 'ioredis';
+import { config } from '../config';
+
+/** Motivo por el que una clave está bloqueada */
+export type LockReason = 'delay' | 'locked';
+
+export interface LockState {
+  reason: LockReason;
+  /** Segundos restantes del bloqueo */
+  ttl: number;
+}
+
+/**
+ * Almacenamiento de contadores de intentos y bloqueos temporales
+ *
+ * @interface AttemptStore
+ * @description Abstrae el backend (Redis o memoria) usado por la protección
+ * contra fuerza bruta. Todas las claves expiran solas.
+ */
+export interface AttemptStore {
+  /** Incrementa el contador de la clave y devuelve el nuevo valor */
+  increment(key: string, windowSeconds: number): Promise<number>;
+  /** Bloquea la clave durante `ttlSeconds` */
+  setLock(key: string, reason: LockReason, ttlSeconds: number): Promise<void>;
+  /** Devuelve el bloqueo vigente de la clave, si existe */
+  getLock(key: string): Promise<LockState | null>;
+  /** Elimina contador y bloqueo de la clave */
+  reset(key: string): Promise<void>;
+  /** Verifica que el backend responda */
+  ping(): Promise<void>;
+}
+
+/**
+ * Store respaldado por Redis, compartido entre instancias del servicio
+ */
+export class RedisAttemptStore implements AttemptStore {
+  constructor(private redis: Redis) {}
+
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    const [[, count]] = (await this.redis
+      .multi()
+      .incr(`attempts:${key}`)
+      .expire(`attempts:${key}`, windowSeconds, 'NX')
+      .exec()) as [[Error | null, number], [Error | null, number]];
+
+    return count;
+  }
+
+  async setLock(key: string, reason: LockReason, ttlSeconds: number): Promise<void> {
+    await this.redis.set(`lock:${key}`, reason, 'EX', ttlSeconds);
+  }
+
+  async getLock(key: string): Promise<LockState | null> {
+    const [[, reason], [, ttl]] = (await this.redis
+      .multi()
+      .get(`lock:${key}`)
+      .ttl(`lock:${key}`)
+      .exec()) as [[Error | null, string | null], [Error | null, number]];
+
+    if (!reason || ttl <= 0) {
+      return null;
+    }
+
+    return { reason: reason as LockReason, ttl };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(`attempts:${key}`, `lock:${key}`);
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+}
+
+/**
+ * Store en memoria para desarrollo y tests (no se comparte entre procesos)
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private locks = new Map<string, { reason: LockReason; expiresAt: number }>();
+
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+
+    if (!current || current.expiresAt <= now) {
+      this.counters.set(key, { count: 1, expiresAt: now + windowSeconds * 1000 });
+      return 1;
+    }
+
+    current.count += 1;
+    return current.count;
+  }
+
+  async setLock(key: string, reason: LockReason, ttlSeconds: number): Promise<void> {
+    this.locks.set(key, { reason, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async getLock(key: string): Promise<LockState | null> {
+    const lock = this.locks.get(key);
+    const remainingMs = lock ? lock.expiresAt - Date.now() : 0;
+
+    if (!lock || remainingMs <= 0) {
+      this.locks.delete(key);
+      return null;
+    }
+
+    return { reason: lock.reason, ttl: Math.ceil(remainingMs / 1000) };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.locks.delete(key);
+  }
+
+  async ping(): Promise<void> {}
+}
+
+let store: AttemptStore | null = null;
+
+/**
+ * Devuelve el store de intentos compartido por todo el proceso
+ *
+ * @returns {AttemptStore} Redis si `REDIS_URL` está configurada, memoria en caso contrario
+ */
+export function getAttemptStore(): AttemptStore {
+  if (!store) {
+    store = config.redis.url
+      ? new RedisAttemptStore(new Redis(config.redis.url, { maxRetriesPerRequest: 1 }))
+      : new MemoryAttemptStore();
+  }
+
+  return store;
+}
@@ -1,8 +1,15 @@
+import type { Role } from '@ecom/auth';
+
+export type { Role };
+
 export interface User {
   id: string;
   email: string;
   password: string;
-  role: 'USER' | 'ADMIN';
+  role: Role;
+  emailVerified: boolean;
+  emailVerifiedAt: Date | null;
+  disabledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -10,10 +17,37 @@ export interface User {
 export interface UserResponse {
   id: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: Role;
+  emailVerified: boolean;
   createdAt: Date;
 }
 
+export interface AdminUserResponse extends UserResponse {
+  emailVerifiedAt: Date | null;
+  disabled: boolean;
+  disabledAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface UserFilters {
+  email?: string;
+  role?: Role;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface RolePermissionsResponse {
+  role: Role;
+  permissions: string[];
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -29,9 +63,20 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+export interface ServiceToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  /** Segundos hasta que vence */
+  expiresIn: number;
+}
+
 export interface JWTPayload {
   userId: string;
-  role: 'USER' | 'ADMIN';
+  role: Role;
+  permissions: string[];
+  sessionId?: string;
+  /** Cliente interno, solo en tokens de servicio */
+  service?: string;
   iat?: number;
   exp?: number;
 }
@@ -40,6 +85,61 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+export interface RefreshTokenPayload {
+  userId: string;
+  familyId: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  userId: string;
+  familyId: string;
+  replacedBy: string | null;
+  revokedAt: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateRefreshTokenData {
+  token: string;
+  userId: string;
+  familyId: string;
+  expiresAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type TokenPurpose = 'EMAIL_VERIFICATION' | 'PASSWORD_RESET';
+
+export interface ActionTokenPayload {
+  userId: string;
+  purpose: TokenPurpose;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionResponse extends SessionRecord {
+  current: boolean;
+}
+
 // Errores personalizados
 export class AuthError extends Error {
   constructor(
@@ -69,3 +169,44 @@ export class NotFoundError extends AuthError {
     super('NOT_FOUND', message, 404);
   }
 }
+
+export class EmailNotVerifiedError extends AuthError {
+  constructor(message: string = 'Email no verificado') {
+    super('EMAIL_NOT_VERIFIED', message, 403);
+  }
+}
+
+export class AccountDisabledError extends AuthError {
+  constructor(message: string = 'Cuenta deshabilitada') {
+    super('ACCOUNT_DISABLED', message, 403);
+  }
+}
+
+export class TokenReuseError extends AuthError {
+  constructor(message: string = 'Refresh token reutilizado') {
+    super('REFRESH_TOKEN_REUSED', message, 401);
+  }
+}
+
+export class RateLimitError extends AuthError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number,
+    public retryAfter: number
+  ) {
+    super(code, message, statusCode);
+  }
+}
+
+export class TooManyAttemptsError extends RateLimitError {
+  constructor(retryAfter: number) {
+    super('TOO_MANY_ATTEMPTS', 'Demasiados intentos fallidos. Intente nuevamente más tarde', 429, retryAfter);
+  }
+}
+
+export class AccountLockedError extends RateLimitError {
+  constructor(retryAfter: number) {
+    super('ACCOUNT_LOCKED', 'Cuenta bloqueada temporalmente por intentos fallidos', 423, retryAfter);
+  }
+}
@@ -0,0 +1,53 @@
+import { FastifyReply } from 'fastify';
+import { AuthError, RateLimitError } from '../types/index';
+
+/**
+ * Envía una respuesta de error con el formato estándar `{ success, message, code }`
+ * 
+ * @param {any} error - Error capturado
+ * @param {FastifyReply} reply - Response de Fastify para enviar error
+ * @param {string} source - Origen del error para el log (ej: 'Auth Controller')
+ * @returns {FastifyReply} Respuesta de error formateada
+ * 
+ * @description
+ * Maneja diferentes tipos de errores:
+ * - ZodError: Errores de validación (400)
+ * - AuthError: Errores personalizados de autenticación (401/403/404/409)
+ * - RateLimitError: Además agrega el header Retry-After (423/429)
+ * - Error genérico: Error interno del servidor (500)
+ */
+export function sendErrorResponse(error: any, reply: FastifyReply, source: string) {
+  console.error(`${source} Error:`, error);
+
+  // Error de validación de Zod
+  if (error.name === 'ZodError') {
+    return reply.code(400).send({
+      success: false,
+      message: 'Datos de entrada inválidos',
+      errors: error.errors.map((err: any) => ({
+        field: err.path.join('.'),
+        message: err.message
+      }))
+    });
+  }
+
+  // Errores de bloqueo: indicar cuándo reintentar
+  if (error instanceof RateLimitError) {
+    reply.header('Retry-After', String(error.retryAfter));
+  }
+
+  // Errores personalizados de Auth
+  if (error instanceof AuthError) {
+    return reply.code(error.statusCode).send({
+      success: false,
+      message: error.message,
+      code: error.code
+    });
+  }
+
+  // Error genérico
+  return reply.code(500).send({
+    success: false,
+    message: 'Error interno del servidor'
+  });
+}
@@ -0,0 +1,17 @@
+import { createHmac } from 'crypto';
+import { config } from '../config';
+
+/**
+ * Calcula el hash con clave (HMAC-SHA256) de un token
+ * 
+ * @param {string} token - Token en texto plano
+ * @returns {string} Hash hexadecimal del token
+ * 
+ * @description
+ * Los tokens nunca se guardan en texto plano: quien tenga acceso de lectura a la
+ * base de datos no puede usarlos sin conocer `REFRESH_TOKEN_HASH_SECRET`.
+ * El hash es determinístico, por lo que sirve para búsquedas por igualdad.
+ */
+export function hashToken(token: string): string {
+  return createHmac('sha256', config.refreshTokenHashSecret).update(token).digest('hex');
+}
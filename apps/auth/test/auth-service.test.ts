@@ -0,0 +1,258 @@
+import bcrypt from 'bcryptjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthService } from '../src/services/auth.service';
+import { LoginAttemptService } from '../src/services/login-attempt.service';
+import { MemoryAttemptStore } from '../src/stores/attempt.store';
+import { hashToken } from '../src/utils/token-hash';
+import { CreateRefreshTokenData, RefreshTokenRecord, TokenPurpose, TokenReuseError, UnauthorizedError, User, ValidationError } from '../src/types/index';
+import { config } from '../src/config';
+
+// Secrets de prueba: config los lee al importarse
+vi.hoisted(() => {
+  process.env.JWT_REFRESH_SECRET = 'refresh-secret-test';
+  process.env.REFRESH_TOKEN_HASH_SECRET = 'hash-secret-test';
+  process.env.ACTION_TOKEN_SECRET = 'action-secret-test';
+});
+
+// Sin base de datos ni servicio de carrito: se reemplazan por dobles en memoria
+vi.mock('../src/auth.repository');
+vi.mock('../src/clients/cart.client');
+
+// Clave RSA generada para los tests en lugar de JWT_KEYS_DIR
+vi.mock('../src/keys/key-store', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/keys/key-store')>();
+  const { generateKeyPairSync } = await import('crypto');
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const store = new actual.KeyStore([{ kid: 'test', publicKey, privateKey }]);
+  return { ...actual, getKeyStore: () => store };
+});
+
+/** Repositorio en memoria con la misma semántica que el de Prisma (tokens guardados por hash) */
+class InMemoryAuthRepository {
+  users = new Map<string, User>();
+  refreshTokens = new Map<string, RefreshTokenRecord & { tokenHash: string }>();
+  userTokens = new Map<string, { userId: string; purpose: TokenPurpose; expiresAt: Date; usedAt: Date | null; createdAt: Date }>();
+  auditLog: { event: string; userId: string | null }[] = [];
+
+  async findUserByEmail(email: string) {
+    return [...this.users.values()].find((user) => user.email === email) ?? null;
+  }
+
+  async findUserById(id: string) {
+    return this.users.get(id) ?? null;
+  }
+
+  async findPermissionsByRole() {
+    return [];
+  }
+
+  async createRefreshToken(data: CreateRefreshTokenData, id: string = `rt-${this.refreshTokens.size + 1}`) {
+    const tokenHash = hashToken(data.token);
+    this.refreshTokens.set(tokenHash, {
+      id,
+      tokenHash,
+      userId: data.userId,
+      familyId: data.familyId,
+      replacedBy: null,
+      revokedAt: null,
+      expiresAt: data.expiresAt,
+      createdAt: new Date()
+    });
+  }
+
+  async findRefreshToken(token: string) {
+    const stored = this.refreshTokens.get(hashToken(token));
+    return stored ? { ...stored } : null;
+  }
+
+  async rotateRefreshToken(currentId: string, next: CreateRefreshTokenData) {
+    const current = [...this.refreshTokens.values()].find((token) => token.id === currentId);
+    if (!current || current.revokedAt) {
+      return false;
+    }
+
+    const nextId = `rt-${this.refreshTokens.size + 1}`;
+    Object.assign(current, { revokedAt: new Date(), replacedBy: nextId });
+    await this.createRefreshToken(next, nextId);
+    return true;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string) {
+    for (const token of this.refreshTokens.values()) {
+      if (token.familyId === familyId && !token.revokedAt) {
+        token.revokedAt = new Date();
+      }
+    }
+  }
+
+  async deleteAllRefreshTokens(userId: string) {
+    for (const [hash, token] of this.refreshTokens) {
+      if (token.userId === userId) this.refreshTokens.delete(hash);
+    }
+  }
+
+  async createUserToken(data: { token: string; userId: string; purpose: TokenPurpose; expiresAt: Date }) {
+    this.userTokens.set(hashToken(data.token), { ...data, usedAt: null, createdAt: new Date() });
+  }
+
+  async consumeUserToken(token: string, purpose: TokenPurpose) {
+    const stored = this.userTokens.get(hashToken(token));
+    if (!stored || stored.purpose !== purpose || stored.usedAt || stored.expiresAt <= new Date()) {
+      return null;
+    }
+
+    stored.usedAt = new Date();
+    return stored.userId;
+  }
+
+  async findLatestUserTokenDate(userId: string, purpose: TokenPurpose) {
+    const dates = [...this.userTokens.values()].filter((t) => t.userId === userId && t.purpose === purpose).map((t) => t.createdAt);
+    return dates.length > 0 ? dates[dates.length - 1] : null;
+  }
+
+  async invalidateUserTokens(userId: string, purpose: TokenPurpose) {
+    for (const token of this.userTokens.values()) {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) token.usedAt = new Date();
+    }
+  }
+
+  async markEmailVerified(userId: string) {
+    Object.assign(this.users.get(userId)!, { emailVerified: true, emailVerifiedAt: new Date() });
+  }
+
+  async updatePassword(userId: string, password: string) {
+    this.users.get(userId)!.password = password;
+  }
+
+  async createAuditLog(event: string, userId: string | null) {
+    this.auditLog.push({ event, userId });
+  }
+}
+
+const EMAIL = 'user@example.com';
+const PASSWORD = 'password123';
+
+let repository: InMemoryAuthRepository;
+let mails: { to: string; text: string }[];
+let service: AuthService;
+
+/** Token del último enlace enviado por email */
+const lastMailToken = () => new URL(mails[mails.length - 1].text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+
+beforeEach(async () => {
+  config.bcrypt.saltRounds = 4;
+  repository = new InMemoryAuthRepository();
+  repository.users.set('user-1', {
+    id: 'user-1',
+    email: EMAIL,
+    password: await bcrypt.hash(PASSWORD, 4),
+    role: 'USER',
+    emailVerified: false,
+    emailVerifiedAt: null,
+    disabledAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  mails = [];
+  service = new AuthService();
+  Object.assign(service, {
+    authRepository: repository,
+    loginAttempts: new LoginAttemptService(new MemoryAttemptStore()),
+    mailer: { send: async (message: { to: string; text: string }) => void mails.push(message) }
+  });
+});
+
+describe('AuthService.refreshToken', () => {
+  it('rota el refresh token: emite uno nuevo de la misma familia y revoca el usado', async () => {
+    const { tokens } = await service.login(EMAIL, PASSWORD);
+    const rotated = await service.refreshToken(tokens.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+    const previous = await repository.findRefreshToken(tokens.refreshToken);
+    const next = await repository.findRefreshToken(rotated.refreshToken);
+    expect(previous!.revokedAt).not.toBeNull();
+    expect(previous!.replacedBy).toBe(next!.id);
+    expect(next!.familyId).toBe(previous!.familyId);
+  });
+
+  it('reutilizar un token ya rotado revoca toda la familia y lo audita', async () => {
+    const { tokens } = await service.login(EMAIL, PASSWORD);
+    const rotated = await service.refreshToken(tokens.refreshToken);
+
+    await expect(service.refreshToken(tokens.refreshToken)).rejects.toBeInstanceOf(TokenReuseError);
+    await expect(service.refreshToken(rotated.refreshToken)).rejects.toBeInstanceOf(TokenReuseError);
+    expect(repository.auditLog.filter((entry) => entry.event === 'REFRESH_TOKEN_REUSE')).toHaveLength(2);
+  });
+
+  it('la reutilización no afecta a las otras sesiones del usuario', async () => {
+    const first = await service.login(EMAIL, PASSWORD);
+    const second = await service.login(EMAIL, PASSWORD);
+    await service.refreshToken(first.tokens.refreshToken);
+    await expect(service.refreshToken(first.tokens.refreshToken)).rejects.toBeInstanceOf(TokenReuseError);
+
+    await expect(service.refreshToken(second.tokens.refreshToken)).resolves.toHaveProperty('refreshToken');
+  });
+
+  it('dos rotaciones concurrentes del mismo token: la segunda se trata como reutilización', async () => {
+    const { tokens } = await service.login(EMAIL, PASSWORD);
+    const rotate = repository.rotateRefreshToken.bind(repository);
+    // La otra rotación gana entre la lectura del token y su rotación
+    vi.spyOn(repository, 'rotateRefreshToken').mockImplementationOnce(async (id, next) => {
+      await rotate(id, { ...next, token: 'rotado-por-otro-request' });
+      return rotate(id, next);
+    });
+
+    await expect(service.refreshToken(tokens.refreshToken)).rejects.toBeInstanceOf(TokenReuseError);
+    expect([...repository.refreshTokens.values()].every((token) => token.revokedAt)).toBe(true);
+  });
+
+  it('rechaza un token firmado con otro secret', async () => {
+    const { tokens } = await service.login(EMAIL, PASSWORD);
+    const [header, payload] = tokens.refreshToken.split('.');
+
+    await expect(service.refreshToken(`${header}.${payload}.firma-invalida`)).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
+
+describe('tokens de un solo uso', () => {
+  it('el enlace de verificación se puede usar una sola vez', async () => {
+    await service.resendVerification(EMAIL);
+    const token = lastMailToken();
+
+    await expect(service.verifyEmail(token)).resolves.toMatchObject({ emailVerified: true });
+    await expect(service.verifyEmail(token)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('el enlace de reset se puede usar una sola vez y cierra las sesiones', async () => {
+    const { tokens } = await service.login(EMAIL, PASSWORD);
+    await service.forgotPassword(EMAIL);
+    const token = lastMailToken();
+
+    await service.resetPassword(token, 'nuevo-password');
+    await expect(service.resetPassword(token, 'otro-password')).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.refreshToken(tokens.refreshToken)).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(service.login(EMAIL, 'nuevo-password')).resolves.toHaveProperty('tokens');
+  });
+
+  it('un token de reset no sirve para verificar el email ni al revés', async () => {
+    await service.forgotPassword(EMAIL);
+    const resetToken = lastMailToken();
+    await service.resendVerification(EMAIL);
+    const verificationToken = lastMailToken();
+
+    await expect(service.verifyEmail(resetToken)).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.resetPassword(verificationToken, 'nuevo-password')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('pedir un enlace nuevo invalida el anterior', async () => {
+    await service.forgotPassword(EMAIL);
+    const first = lastMailToken();
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + config.passwordReset.requestCooldownSeconds * 1000 + 1);
+    await service.forgotPassword(EMAIL);
+    vi.restoreAllMocks();
+
+    await expect(service.resetPassword(first, 'nuevo-password')).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.resetPassword(lastMailToken(), 'nuevo-password')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoginAttemptService } from '../src/services/login-attempt.service';
+import { MemoryAttemptStore } from '../src/stores/attempt.store';
+import { AccountLockedError, TooManyAttemptsError } from '../src/types/index';
+import { config } from '../src/config';
+
+const EMAIL = 'user@example.com';
+const IP = '203.0.113.7';
+
+let service: LoginAttemptService;
+
+/** Registra `count` fallos esperando entre cada uno lo que pida la espera progresiva */
+const fail = async (count: number, email = EMAIL, ipAddress?: string) => {
+  for (let i = 0; i < count; i++) {
+    await service.registerFailure(email, ipAddress);
+    vi.advanceTimersByTime(config.loginProtection.maxDelaySeconds * 1000);
+  }
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  service = new LoginAttemptService(new MemoryAttemptStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LoginAttemptService', () => {
+  it('no restringe los primeros fallos', async () => {
+    await service.registerFailure(EMAIL, IP);
+    await service.registerFailure(EMAIL, IP);
+
+    await expect(service.assertCanAttempt(EMAIL, IP)).resolves.toBeUndefined();
+  });
+
+  it('desde el tercer fallo exige una espera que se duplica en cada fallo', async () => {
+    await fail(2);
+    await service.registerFailure(EMAIL);
+    await expect(service.assertCanAttempt(EMAIL)).rejects.toMatchObject({ code: 'TOO_MANY_ATTEMPTS', retryAfter: 1 });
+
+    vi.advanceTimersByTime(1000);
+    await service.registerFailure(EMAIL);
+    await expect(service.assertCanAttempt(EMAIL)).rejects.toMatchObject({ retryAfter: 2 });
+
+    vi.advanceTimersByTime(2000);
+    await expect(service.assertCanAttempt(EMAIL)).resolves.toBeUndefined();
+  });
+
+  it('la espera no supera el máximo', async () => {
+    await fail(8);
+    await service.registerFailure(EMAIL);
+
+    await expect(service.assertCanAttempt(EMAIL)).rejects.toMatchObject({ retryAfter: config.loginProtection.maxDelaySeconds });
+  });
+
+  it('bloquea el email al llegar al máximo de fallos', async () => {
+    await fail(config.loginProtection.maxEmailAttempts);
+
+    const error = await service.assertCanAttempt(EMAIL).catch((e) => e);
+    expect(error).toBeInstanceOf(AccountLockedError);
+    expect(error.retryAfter).toBe(config.loginProtection.lockoutSeconds - config.loginProtection.maxDelaySeconds);
+
+    vi.advanceTimersByTime(config.loginProtection.lockoutSeconds * 1000);
+    await expect(service.assertCanAttempt(EMAIL)).resolves.toBeUndefined();
+  });
+
+  it('comparte el contador entre mayúsculas y espacios del email', async () => {
+    await fail(config.loginProtection.maxEmailAttempts, '  USER@Example.com ');
+
+    await expect(service.assertCanAttempt(EMAIL)).rejects.toBeInstanceOf(AccountLockedError);
+  });
+
+  it('bloquea la IP que prueba muchas cuentas aunque cada email tenga pocos fallos', async () => {
+    for (let i = 0; i < config.loginProtection.maxIpAttempts; i++) {
+      await service.registerFailure(`user${i}@example.com`, IP);
+    }
+
+    await expect(service.assertCanAttempt('otro@example.com', IP)).rejects.toBeInstanceOf(AccountLockedError);
+    await expect(service.assertCanAttempt('otro@example.com', '198.51.100.1')).resolves.toBeUndefined();
+  });
+
+  it('un login exitoso limpia el email pero no la IP', async () => {
+    await fail(2, EMAIL, IP);
+    await service.registerSuccess(EMAIL);
+    await service.registerFailure(EMAIL, IP);
+
+    await expect(service.assertCanAttempt(EMAIL)).resolves.toBeUndefined();
+    await expect(service.assertCanAttempt('otro@example.com', IP)).rejects.toBeInstanceOf(TooManyAttemptsError);
+  });
+
+  it('clear desbloquea el email', async () => {
+    await fail(config.loginProtection.maxEmailAttempts);
+    await service.clear({ email: EMAIL });
+
+    await expect(service.assertCanAttempt(EMAIL)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,61 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { authPlugin, requireAuth } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { CartController } from './cart.controller';
+import { CartRepository } from './cart.repository';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const cartController = new CartController();
+const cartRepository = new CartRepository();
+const healthController = new HealthController('cart-service', {
+  database: () => cartRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Carrito del usuario autenticado o, sin token, del invitado (X-Cart-Token); el gateway lo expone en /api/cart
+server.get('/', cartController.getCart.bind(cartController));
+server.delete('/', cartController.clearCart.bind(cartController));
+server.post('/items', cartController.addItem.bind(cartController));
+server.patch('/items/:id', cartController.updateItem.bind(cartController));
+server.delete('/items/:id', cartController.removeItem.bind(cartController));
+
+// Fusión del carrito de invitado al iniciar sesión
+server.post('/merge', { preHandler: requireAuth }, cartController.mergeCart.bind(cartController));
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: statusCode === 500 ? 'Error interno del servidor' : error.message
+    }
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Cart service listening on port ${config.port}`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
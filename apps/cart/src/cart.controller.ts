@@ -0,0 +1,226 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { CartService } from './services/cart.service';
+import { addItemSchema, cartTokenSchema, itemParamsSchema, priceListSchema, updateItemSchema } from './cart.schemas';
+import { CartOwner, ValidationError } from './types/index';
+
+/**
+ * Controlador del carrito
+ *
+ * @class CartController
+ * @description Con access token opera sobre el carrito del usuario; sin token,
+ * sobre el carrito de invitado del header `X-Cart-Token`. Las respuestas
+ * incluyen precios y totales vigentes de la lista elegida con `?priceList=` o
+ * el header `X-Price-List`.
+ */
+export class CartController {
+  /** Servicio de carrito para lógica de negocio */
+  private cartService: CartService;
+
+  /**
+   * Constructor del controlador del carrito
+   * Inicializa el servicio de carrito
+   */
+  constructor() {
+    this.cartService = new CartService();
+  }
+
+  /**
+   * Endpoint para obtener el carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con headers X-Cart-Token? y X-Price-List?
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito con líneas, precios y subtotal
+   *
+   * @throws {400} Cart token o lista de precios inválidos
+   * @throws {503} Catálogo no disponible
+   * @throws {500} Error interno del servidor
+   */
+  async getCart(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const cart = await this.cartService.getCart(this.getOwner(request), this.getPriceList(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para agregar un producto al carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {productId, variantId?, quantity?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito actualizado (con `cartToken` si se creó un carrito de invitado)
+   *
+   * @throws {400} Error de validación, producto inexistente o variante inválida
+   * @throws {503} Catálogo no disponible
+   * @throws {500} Error interno del servidor
+   */
+  async addItem(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = addItemSchema.parse(request.body);
+
+      const cart = await this.cartService.addItem(this.getOwner(request), data, this.getPriceList(request));
+
+      return reply.code(cart.cartToken ? 201 : 200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cambiar la cantidad de una línea
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {quantity}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito actualizado
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Carrito o línea no encontrados
+   * @throws {500} Error interno del servidor
+   */
+  async updateItem(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = itemParamsSchema.parse(request.params);
+      const { quantity } = updateItemSchema.parse(request.body);
+
+      const cart = await this.cartService.updateItem(this.getOwner(request), id, quantity, this.getPriceList(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para quitar una línea del carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito actualizado
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Carrito o línea no encontrados
+   * @throws {500} Error interno del servidor
+   */
+  async removeItem(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = itemParamsSchema.parse(request.params);
+
+      const cart = await this.cartService.removeItem(this.getOwner(request), id, this.getPriceList(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para vaciar el carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con header X-Cart-Token?
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito vacío
+   *
+   * @throws {400} Cart token inválido
+   * @throws {404} Carrito no encontrado
+   * @throws {500} Error interno del servidor
+   *
+   * @description El servicio de órdenes lo llama al confirmar el checkout.
+   */
+  async clearCart(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const cart = await this.cartService.clearCart(this.getOwner(request), this.getPriceList(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para fusionar el carrito de invitado en el del usuario (requiere autenticación)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con header X-Cart-Token
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Carrito del usuario con las líneas del invitado
+   *
+   * @throws {400} Cart token inválido o ausente
+   * @throws {404} Carrito de invitado no encontrado o vencido
+   * @throws {500} Error interno del servidor
+   *
+   * @description El servicio auth lo llama al iniciar sesión si el cliente
+   * envió su cart token; el cliente también puede llamarlo directamente.
+   */
+  async mergeCart(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const cartToken = cartTokenSchema.parse(request.headers['x-cart-token']);
+
+      const cart = await this.cartService.mergeGuestCart(request.user!.userId, cartToken, this.getPriceList(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { cart }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Dueño del carrito: el usuario autenticado o el invitado del header X-Cart-Token
+   *
+   * @private
+   */
+  private getOwner(request: FastifyRequest): CartOwner {
+    if (request.user) {
+      return { userId: request.user.userId };
+    }
+
+    const cartToken = request.headers['x-cart-token'];
+    if (cartToken === undefined) {
+      return {};
+    }
+
+    const parsed = cartTokenSchema.safeParse(cartToken);
+    if (!parsed.success) {
+      throw new ValidationError('Cart token inválido');
+    }
+    return { cartToken: parsed.data };
+  }
+
+  /**
+   * Lista de precios elegida por query (?priceList=) o header X-Price-List
+   *
+   * @private
+   */
+  private getPriceList(request: FastifyRequest): string | undefined {
+    const { priceList } = request.query as { priceList?: string };
+    return priceListSchema.parse(priceList ?? request.headers['x-price-list']);
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Cart Controller');
+  }
+}
@@ -0,0 +1,147 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { Cart, CartWithItems, MergeGuestCartResult } from './types/index';
+
+// Líneas en el orden en que se agregaron
+const withItems = {
+  items: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.CartInclude;
+
+export class CartRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Buscar carrito de un usuario
+  async findCartByUserId(userId: string): Promise<CartWithItems | null> {
+    return await this.prisma.cart.findUnique({ where: { userId }, include: withItems });
+  }
+
+  // Buscar carrito de invitado vigente por hash del cart token
+  async findGuestCart(tokenHash: string, now: Date): Promise<CartWithItems | null> {
+    return await this.prisma.cart.findFirst({
+      where: { tokenHash, userId: null, expiresAt: { gt: now } },
+      include: withItems,
+    });
+  }
+
+  // Buscar carrito por ID
+  async findCartById(id: string): Promise<CartWithItems | null> {
+    return await this.prisma.cart.findUnique({ where: { id }, include: withItems });
+  }
+
+  // Crear carrito de invitado
+  async createGuestCart(tokenHash: string, expiresAt: Date): Promise<Cart> {
+    return await this.prisma.cart.create({ data: { tokenHash, expiresAt } });
+  }
+
+  // Obtener o crear el carrito de un usuario
+  async upsertUserCart(userId: string): Promise<Cart> {
+    return await this.prisma.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+  }
+
+  // Agregar unidades de un producto o variante; si ya está en el carrito suma la cantidad (hasta el máximo)
+  async addItem(cartId: string, productId: string, variantId: string | null, quantity: number, maxQuantity: number): Promise<void> {
+    await this.insertOrIncrement(this.prisma, cartId, { productId, variantId, quantity }, maxQuantity);
+  }
+
+  // Cambiar la cantidad de una línea; devuelve false si la línea no es del carrito
+  async setItemQuantity(cartId: string, itemId: string, quantity: number): Promise<boolean> {
+    const { count } = await this.prisma.cartItem.updateMany({
+      where: { id: itemId, cartId },
+      data: { quantity },
+    });
+    return count > 0;
+  }
+
+  // Quitar una línea; devuelve false si la línea no es del carrito
+  async removeItem(cartId: string, itemId: string): Promise<boolean> {
+    const { count } = await this.prisma.cartItem.deleteMany({ where: { id: itemId, cartId } });
+    return count > 0;
+  }
+
+  // Vaciar el carrito
+  async clearItems(cartId: string): Promise<void> {
+    await this.prisma.cartItem.deleteMany({ where: { cartId } });
+  }
+
+  // Marcar el carrito como modificado (y renovar el vencimiento de los invitados)
+  async touchCart(cartId: string, expiresAt?: Date): Promise<void> {
+    await this.prisma.cart.update({
+      where: { id: cartId },
+      data: { updatedAt: new Date(), ...(expiresAt && { expiresAt }) },
+    });
+  }
+
+  // Fusionar el carrito de invitado en el del usuario: suma las cantidades de las
+  // líneas repetidas (hasta el máximo) y elimina el carrito de invitado.
+  // Si el usuario no tenía carrito, el de invitado pasa a ser suyo.
+  // No fusiona nada si quedarían más de `maxItems` líneas, ni si otra fusión
+  // concurrente ya tomó el carrito de invitado
+  async mergeGuestCart(
+    guestCartId: string,
+    userId: string,
+    limits: { maxQuantity: number; maxItems: number }
+  ): Promise<MergeGuestCartResult> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Bloquear el carrito de invitado: una fusión concurrente espera y, si este ya
+      // se eliminó o pasó a ser de un usuario, no lo encuentra
+      const guestCart = await tx.$queryRaw<{ id: string }[]>`
+        SELECT "id" FROM "Cart" WHERE "id" = ${guestCartId} AND "userId" IS NULL FOR UPDATE
+      `;
+      if (guestCart.length === 0) {
+        return { status: 'NOT_FOUND' };
+      }
+
+      const userCart = await tx.cart.findUnique({ where: { userId }, include: { items: true } });
+
+      if (!userCart) {
+        await tx.cart.update({
+          where: { id: guestCartId },
+          data: { userId, tokenHash: null, expiresAt: null },
+        });
+        return { status: 'MERGED', cartId: guestCartId };
+      }
+
+      const guestItems = await tx.cartItem.findMany({ where: { cartId: guestCartId } });
+      const lines = new Set([...userCart.items, ...guestItems].map((item) => `${item.productId}:${item.variantId ?? ''}`));
+      if (lines.size > limits.maxItems) {
+        return { status: 'TOO_MANY_ITEMS' };
+      }
+
+      for (const item of guestItems) {
+        await this.insertOrIncrement(tx, userCart.id, item, limits.maxQuantity);
+      }
+
+      await tx.cart.delete({ where: { id: guestCartId } });
+      await tx.cart.update({ where: { id: userCart.id }, data: { updatedAt: new Date() } });
+      return { status: 'MERGED', cartId: userCart.id };
+    });
+  }
+
+  // Insertar la línea o sumar la cantidad a la existente (mismo producto y variante)
+  private async insertOrIncrement(
+    client: PrismaClient | Prisma.TransactionClient,
+    cartId: string,
+    item: { productId: string; variantId: string | null; quantity: number },
+    maxQuantity: number
+  ): Promise<void> {
+    await client.$executeRaw`
+      INSERT INTO "CartItem" ("id", "cartId", "productId", "variantId", "quantity", "updatedAt")
+      VALUES (${randomUUID()}, ${cartId}, ${item.productId}, ${item.variantId}, ${item.quantity}, NOW())
+      ON CONFLICT ("cartId", "productId", "variantId")
+      DO UPDATE SET "quantity" = LEAST("CartItem"."quantity" + EXCLUDED."quantity", ${maxQuantity}), "updatedAt" = NOW()
+    `;
+  }
+}
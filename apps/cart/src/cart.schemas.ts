@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { config } from './config';
+
+const quantitySchema = z
+  .number()
+  .int('Cantidad debe ser un número entero')
+  .min(1, 'Cantidad debe ser al menos 1')
+  .max(config.cart.maxQuantityPerItem, `Cantidad máxima ${config.cart.maxQuantityPerItem}`);
+
+// Schema para agregar un producto (o una variante) al carrito
+export const addItemSchema = z.object({
+  productId: z.string().uuid('ID de producto inválido'),
+  variantId: z.string().uuid('ID de variante inválido').nullable().optional(),
+  quantity: quantitySchema.default(1),
+});
+
+// Schema para cambiar la cantidad de una línea
+export const updateItemSchema = z.object({
+  quantity: quantitySchema,
+});
+
+// Schema para el ID de línea en la URL
+export const itemParamsSchema = z.object({
+  id: z.string().uuid('ID de línea inválido'),
+});
+
+// Cart token del invitado (header X-Cart-Token)
+export const cartTokenSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{43}$/, 'Cart token inválido');
+
+// Código de lista de precios (query ?priceList= o header X-Price-List), lo valida el catálogo
+export const priceListSchema = z.string().trim().min(1).max(50).optional();
+
+// Tipos inferidos de los schemas
+export type AddItemBody = z.infer<typeof addItemSchema>;
+export type UpdateItemBody = z.infer<typeof updateItemSchema>;
@@ -0,0 +1,64 @@
+import { CatalogProduct, CatalogUnavailableError, ValidationError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Cliente HTTP del servicio de catálogo
+ *
+ * @class CatalogClient
+ * @description Lee los productos públicos del catálogo (`GET /products/:id`),
+ * que ya devuelven el precio vigente de la lista elegida.
+ */
+export class CatalogClient {
+  /**
+   * Obtiene un producto activo con sus variantes
+   *
+   * @param {string} productId - ID del producto
+   * @param {string} [priceList] - Código de lista de precios; sin lista, el precio base
+   * @returns {Promise<CatalogProduct | null>} Producto, o null si no existe o está archivado
+   *
+   * @throws {ValidationError} Si el catálogo rechaza la lista de precios
+   * @throws {CatalogUnavailableError} Si el catálogo no responde o falla
+   */
+  async getProduct(productId: string, priceList?: string): Promise<CatalogProduct | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.catalog.url}/products/${encodeURIComponent(productId)}`, {
+        headers: priceList ? { 'x-price-list': priceList } : {},
+        signal: AbortSignal.timeout(config.catalog.timeoutMs)
+      });
+    } catch {
+      throw new CatalogUnavailableError();
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const body = (await response.json().catch(() => null)) as any;
+
+    if (response.status === 400 && body?.error?.message) {
+      throw new ValidationError(body.error.message);
+    }
+
+    if (!response.ok || !body?.data?.product) {
+      throw new CatalogUnavailableError();
+    }
+
+    return body.data.product as CatalogProduct;
+  }
+
+  /**
+   * Obtiene varios productos en paralelo
+   *
+   * @param {string[]} productIds - IDs de los productos (sin repetidos)
+   * @param {string} [priceList] - Código de lista de precios
+   * @returns {Promise<Map<string, CatalogProduct>>} Productos encontrados por ID (los inexistentes no aparecen)
+   *
+   * @throws {ValidationError} Si el catálogo rechaza la lista de precios
+   * @throws {CatalogUnavailableError} Si el catálogo no responde o falla
+   */
+  async getProducts(productIds: string[], priceList?: string): Promise<Map<string, CatalogProduct>> {
+    const products = await Promise.all(productIds.map((id) => this.getProduct(id, priceList)));
+    return new Map(products.flatMap((product) => (product ? [[product.id, product] as const] : [])));
+  }
+}
@@ -0,0 +1,20 @@
+export const config = {
+  port: Number(process.env.PORT) || 3006,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  // Servicio de catálogo: valida los productos y da los precios vigentes
+  catalog: {
+    url: process.env.CATALOG_SERVICE_URL || 'http://localhost:3004',
+    timeoutMs: Number(process.env.CATALOG_SERVICE_TIMEOUT_MS) || 3000
+  },
+  cart: {
+    maxItems: 50,
+    maxQuantityPerItem: 99,
+    // Días sin cambios tras los que vence un carrito de invitado
+    guestExpiresInDays: 30,
+    // Moneda de los totales cuando no se elige lista de precios
+    defaultCurrency: process.env.DEFAULT_CURRENCY || 'USD'
+  }
+}
@@ -0,0 +1,343 @@
+import { toMoney } from '@ecom/service';
+import { CartRepository } from '../cart.repository';
+import { CatalogClient } from '../clients/catalog.client';
+import {
+  AddItemInput,
+  CartItem,
+  CartItemResponse,
+  CartOwner,
+  CartResponse,
+  CartWithItems,
+  CatalogProduct,
+  NotFoundError,
+  ValidationError
+} from '../types/index';
+import { generateCartToken, hashCartToken } from '../utils/cart-token';
+import { config } from '../config';
+
+/**
+ * Servicio de carrito
+ *
+ * @class CartService
+ * @description Carritos de usuarios autenticados (uno por userId) y de
+ * invitados (identificados por un cart token que solo conoce el cliente). El
+ * carrito guarda productos y cantidades; precios y totales se calculan siempre
+ * con los precios vigentes del catálogo.
+ */
+export class CartService {
+  /** Repositorio para acceso a carritos */
+  private cartRepository: CartRepository;
+
+  /** Catálogo, para validar productos y obtener precios */
+  private catalogClient: CatalogClient;
+
+  /**
+   * Constructor del servicio de carrito
+   * Inicializa el repositorio de datos y el cliente del catálogo
+   */
+  constructor() {
+    this.cartRepository = new CartRepository();
+    this.catalogClient = new CatalogClient();
+  }
+
+  /**
+   * Obtiene el carrito con precios y totales vigentes
+   *
+   * @param {CartOwner} owner - Usuario autenticado o invitado con su cart token
+   * @param {string} [priceList] - Lista de precios; sin lista, el precio base
+   * @returns {Promise<CartResponse>} Carrito (vacío, con id null, si todavía no existe)
+   */
+  async getCart(owner: CartOwner, priceList?: string): Promise<CartResponse> {
+    const cart = await this.findCart(owner);
+    return await this.buildResponse(cart, priceList);
+  }
+
+  /**
+   * Agrega un producto o variante al carrito (si ya estaba, suma la cantidad)
+   *
+   * @param {CartOwner} owner - Usuario autenticado o invitado
+   * @param {AddItemInput} item - Producto, variante y cantidad
+   * @param {string} [priceList] - Lista de precios para la respuesta
+   * @returns {Promise<CartResponse>} Carrito actualizado; incluye `cartToken` si se creó un carrito de invitado
+   *
+   * @throws {ValidationError} Si el producto no existe, la variante no corresponde o se supera el máximo de líneas
+   * @throws {CatalogUnavailableError} Si el catálogo no responde
+   *
+   * @description Un invitado sin cart token (o con uno vencido) recibe un
+   * carrito nuevo y su token, que debe enviar en `X-Cart-Token` desde entonces.
+   */
+  async addItem(owner: CartOwner, { productId, variantId = null, quantity }: AddItemInput, priceList?: string): Promise<CartResponse> {
+    await this.assertPurchasable(productId, variantId);
+
+    let cart = await this.findCart(owner);
+    let cartToken: string | undefined;
+
+    if (!cart) {
+      if ('userId' in owner) {
+        await this.cartRepository.upsertUserCart(owner.userId);
+        cart = await this.cartRepository.findCartByUserId(owner.userId);
+      } else {
+        cartToken = generateCartToken();
+        const created = await this.cartRepository.createGuestCart(hashCartToken(cartToken), this.guestExpiresAt());
+        cart = { ...created, items: [] };
+      }
+    }
+
+    const exists = cart!.items.some((item) => item.productId === productId && item.variantId === variantId);
+    if (!exists && cart!.items.length >= config.cart.maxItems) {
+      throw new ValidationError(`El carrito admite hasta ${config.cart.maxItems} productos distintos`);
+    }
+
+    await this.cartRepository.addItem(cart!.id, productId, variantId, quantity, config.cart.maxQuantityPerItem);
+    return await this.afterChange(cart!, priceList, cartToken);
+  }
+
+  /**
+   * Cambia la cantidad de una línea
+   *
+   * @param {CartOwner} owner - Usuario autenticado o invitado
+   * @param {string} itemId - ID de la línea
+   * @param {number} quantity - Nueva cantidad
+   * @param {string} [priceList] - Lista de precios para la respuesta
+   * @returns {Promise<CartResponse>} Carrito actualizado
+   *
+   * @throws {NotFoundError} Si el carrito o la línea no existen
+   */
+  async updateItem(owner: CartOwner, itemId: string, quantity: number, priceList?: string): Promise<CartResponse> {
+    const cart = await this.findCartOrFail(owner);
+
+    if (!(await this.cartRepository.setItemQuantity(cart.id, itemId, quantity))) {
+      throw new NotFoundError('Línea no encontrada en el carrito');
+    }
+
+    return await this.afterChange(cart, priceList);
+  }
+
+  /**
+   * Quita una línea del carrito
+   *
+   * @param {CartOwner} owner - Usuario autenticado o invitado
+   * @param {string} itemId - ID de la línea
+   * @param {string} [priceList] - Lista de precios para la respuesta
+   * @returns {Promise<CartResponse>} Carrito actualizado
+   *
+   * @throws {NotFoundError} Si el carrito o la línea no existen
+   */
+  async removeItem(owner: CartOwner, itemId: string, priceList?: string): Promise<CartResponse> {
+    const cart = await this.findCartOrFail(owner);
+
+    if (!(await this.cartRepository.removeItem(cart.id, itemId))) {
+      throw new NotFoundError('Línea no encontrada en el carrito');
+    }
+
+    return await this.afterChange(cart, priceList);
+  }
+
+  /**
+   * Quita todas las líneas del carrito (ej: después del checkout)
+   *
+   * @param {CartOwner} owner - Usuario autenticado o invitado
+   * @param {string} [priceList] - Lista de precios para la respuesta
+   * @returns {Promise<CartResponse>} Carrito vacío
+   *
+   * @throws {NotFoundError} Si el carrito no existe
+   */
+  async clearCart(owner: CartOwner, priceList?: string): Promise<CartResponse> {
+    const cart = await this.findCartOrFail(owner);
+
+    await this.cartRepository.clearItems(cart.id);
+    return await this.afterChange(cart, priceList);
+  }
+
+  /**
+   * Fusiona el carrito de invitado en el carrito del usuario (al iniciar sesión)
+   *
+   * @param {string} userId - Usuario autenticado
+   * @param {string} cartToken - Cart token del invitado
+   * @param {string} [priceList] - Lista de precios para la respuesta
+   * @returns {Promise<CartResponse>} Carrito del usuario con las líneas del invitado
+   *
+   * @throws {NotFoundError} Si el carrito de invitado no existe, venció o ya se fusionó
+   * @throws {ValidationError} Si el carrito fusionado superaría el máximo de líneas
+   *
+   * @description Las líneas del mismo producto y variante suman sus cantidades
+   * (hasta el máximo por línea). El cart token deja de servir. Si se supera el
+   * máximo de líneas no se fusiona nada y el carrito de invitado sigue vigente.
+   */
+  async mergeGuestCart(userId: string, cartToken: string, priceList?: string): Promise<CartResponse> {
+    const guestCart = await this.cartRepository.findGuestCart(hashCartToken(cartToken), new Date());
+    if (!guestCart) {
+      throw new NotFoundError('Carrito de invitado no encontrado');
+    }
+
+    const result = await this.cartRepository.mergeGuestCart(guestCart.id, userId, {
+      maxQuantity: config.cart.maxQuantityPerItem,
+      maxItems: config.cart.maxItems
+    });
+
+    if (result.status === 'NOT_FOUND') {
+      throw new NotFoundError('Carrito de invitado no encontrado');
+    }
+    if (result.status === 'TOO_MANY_ITEMS') {
+      throw new ValidationError(`El carrito admite hasta ${config.cart.maxItems} productos distintos`);
+    }
+
+    return await this.buildResponse(await this.cartRepository.findCartById(result.cartId), priceList);
+  }
+
+  /**
+   * Busca el carrito del dueño (el de invitado solo si no venció)
+   *
+   * @private
+   */
+  private async findCart(owner: CartOwner): Promise<CartWithItems | null> {
+    if ('userId' in owner) {
+      return await this.cartRepository.findCartByUserId(owner.userId);
+    }
+
+    return owner.cartToken ? await this.cartRepository.findGuestCart(hashCartToken(owner.cartToken), new Date()) : null;
+  }
+
+  /**
+   * Busca el carrito del dueño o falla
+   *
+   * @private
+   */
+  private async findCartOrFail(owner: CartOwner): Promise<CartWithItems> {
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      throw new NotFoundError('Carrito no encontrado');
+    }
+    return cart;
+  }
+
+  /**
+   * Verifica en el catálogo que el producto exista y que la variante corresponda:
+   * obligatoria y activa si el producto tiene variantes, ausente si no tiene
+   *
+   * @private
+   */
+  private async assertPurchasable(productId: string, variantId: string | null): Promise<void> {
+    const product = await this.catalogClient.getProduct(productId);
+    if (!product) {
+      throw new ValidationError('Producto no encontrado');
+    }
+
+    if (product.variants.length === 0) {
+      if (variantId) {
+        throw new ValidationError('El producto no tiene variantes');
+      }
+      return;
+    }
+
+    const variant = product.variants.find((candidate) => candidate.id === variantId);
+    if (!variant) {
+      throw new ValidationError(variantId ? 'La variante no pertenece al producto' : 'Debe elegir una variante del producto');
+    }
+    if (!variant.active) {
+      throw new ValidationError('La variante no está disponible');
+    }
+  }
+
+  /**
+   * Renueva el vencimiento (invitados) y arma la respuesta con el carrito actualizado
+   *
+   * @private
+   */
+  private async afterChange(cart: CartWithItems, priceList?: string, cartToken?: string): Promise<CartResponse> {
+    await this.cartRepository.touchCart(cart.id, cart.userId ? undefined : this.guestExpiresAt());
+    const response = await this.buildResponse(await this.cartRepository.findCartById(cart.id), priceList);
+    return cartToken ? { ...response, cartToken } : response;
+  }
+
+  /**
+   * Vencimiento de un carrito de invitado modificado ahora
+   *
+   * @private
+   */
+  private guestExpiresAt(): Date {
+    return new Date(Date.now() + config.cart.guestExpiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Arma la respuesta con los precios vigentes del catálogo
+   *
+   * @private
+   *
+   * @description La moneda del carrito es la del primer producto con precio; las
+   * líneas sin producto, sin precio o en otra moneda no suman al total.
+   */
+  private async buildResponse(cart: CartWithItems | null, priceList?: string): Promise<CartResponse> {
+    const items = cart?.items ?? [];
+    const products = await this.catalogClient.getProducts([...new Set(items.map((item) => item.productId))], priceList);
+
+    const priced = items.map((item) => ({ item, ...this.resolveItem(item, products.get(item.productId)) }));
+    const currency = priced.find(({ unitPrice }) => unitPrice)?.unitPrice!.currency ?? config.cart.defaultCurrency;
+
+    let subtotalMinor = 0;
+    let itemCount = 0;
+    const lines: CartItemResponse[] = priced.map(({ item, name, sku, options, unitPrice, weightGrams, issue }) => {
+      const lineIssue = issue ?? (unitPrice!.currency !== currency ? 'CURRENCY_MISMATCH' : null);
+      const lineTotal = unitPrice ? toMoney(unitPrice.amountMinor * item.quantity, unitPrice.currency) : null;
+
+      if (!lineIssue) {
+        subtotalMinor += lineTotal!.amountMinor;
+        itemCount += item.quantity;
+      }
+
+      return {
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        name,
+        sku,
+        options,
+        quantity: item.quantity,
+        unitPrice,
+        lineTotal,
+        weightGrams,
+        issue: lineIssue
+      };
+    });
+
+    return {
+      id: cart?.id ?? null,
+      items: lines,
+      itemCount,
+      subtotal: toMoney(subtotalMinor, currency),
+      updatedAt: cart?.updatedAt ?? null
+    };
+  }
+
+  /**
+   * Datos vigentes de una línea según el catálogo
+   *
+   * @private
+   */
+  private resolveItem(item: CartItem, product: CatalogProduct | undefined): Pick<CartItemResponse, 'name' | 'sku' | 'options' | 'unitPrice' | 'weightGrams' | 'issue'> {
+    const variant = item.variantId ? product?.variants.find((candidate) => candidate.id === item.variantId) : undefined;
+
+    // Sin producto, con la variante desactivada o si el producto pasó a tener variantes
+    const unavailable = item.variantId ? !variant || !variant.active : product?.variants.length !== 0;
+    if (!product || unavailable) {
+      return {
+        name: product?.name ?? null,
+        sku: variant?.sku ?? null,
+        options: variant?.options ?? {},
+        unitPrice: null,
+        weightGrams: product?.weightGrams ?? null,
+        issue: 'PRODUCT_UNAVAILABLE'
+      };
+    }
+
+    const unitPrice = variant ? variant.price : product.price;
+    return {
+      name: product.name,
+      sku: variant?.sku ?? null,
+      options: variant?.options ?? {},
+      unitPrice,
+      weightGrams: product.weightGrams,
+      issue: unitPrice ? null : 'PRICE_UNAVAILABLE'
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { Money, ServiceError } from '@ecom/service';
+
+export type { Money };
+
+export interface Cart {
+  id: string;
+  userId: string | null;
+  tokenHash: string | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CartItem {
+  id: string;
+  cartId: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CartWithItems extends Cart {
+  items: CartItem[];
+}
+
+/** Dueño del carrito: el usuario autenticado o el invitado con su cart token (si ya tiene uno) */
+export type CartOwner = { userId: string } | { cartToken?: string };
+
+/** Producto tal como lo devuelve el catálogo (solo los campos que usa el carrito) */
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  price: Money | null;
+  /** Peso en gramos, para el envío */
+  weightGrams: number | null;
+  variants: CatalogVariant[];
+}
+
+export interface CatalogVariant {
+  id: string;
+  sku: string;
+  price: Money | null;
+  active: boolean;
+  options: Record<string, string>;
+}
+
+/**
+ * Motivo por el que una línea no suma al total
+ *
+ * - `PRODUCT_UNAVAILABLE`: el producto fue archivado o la variante desactivada
+ * - `PRICE_UNAVAILABLE`: no tiene precio en la lista elegida
+ * - `CURRENCY_MISMATCH`: su precio está en otra moneda que el resto del carrito
+ */
+export type CartItemIssue = 'PRODUCT_UNAVAILABLE' | 'PRICE_UNAVAILABLE' | 'CURRENCY_MISMATCH';
+
+export interface CartItemResponse {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  name: string | null;
+  sku: string | null;
+  options: Record<string, string>;
+  quantity: number;
+  unitPrice: Money | null;
+  lineTotal: Money | null;
+  /** Peso unitario en gramos según el catálogo (null si no está cargado) */
+  weightGrams: number | null;
+  issue: CartItemIssue | null;
+}
+
+export interface CartResponse {
+  id: string | null;
+  items: CartItemResponse[];
+  /** Unidades que suman al total */
+  itemCount: number;
+  subtotal: Money;
+  /** Cart token del invitado; solo se devuelve al crear el carrito */
+  cartToken?: string;
+  updatedAt: Date | null;
+}
+
+export interface AddItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/** Resultado de fusionar un carrito de invitado en el del usuario */
+export type MergeGuestCartResult =
+  | { status: 'MERGED'; cartId: string }
+  | { status: 'NOT_FOUND' }
+  | { status: 'TOO_MANY_ITEMS' };
+
+// Errores personalizados
+export class CartError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400
+  ) {
+    super(code, message, statusCode);
+    this.name = 'CartError';
+  }
+}
+
+export class ValidationError extends CartError {
+  constructor(message: string) {
+    super('VALIDATION_ERROR', message, 400);
+  }
+}
+
+export class NotFoundError extends CartError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class CatalogUnavailableError extends CartError {
+  constructor() {
+    super('CATALOG_UNAVAILABLE', 'El catálogo no está disponible, reintente en unos segundos', 503);
+  }
+}
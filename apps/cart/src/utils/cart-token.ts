@@ -0,0 +1,23 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Genera un cart token para un carrito de invitado
+ *
+ * @returns {string} 32 bytes aleatorios en base64url
+ */
+export function generateCartToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Calcula el hash con el que se guarda el cart token
+ *
+ * @param {string} token - Cart token en texto plano
+ * @returns {string} SHA-256 hexadecimal
+ *
+ * @description El token es aleatorio y largo, así que alcanza con un hash sin
+ * clave: quien lea la base no puede reconstruirlo para usar el carrito.
+ */
+export function hashCartToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CartRepository } from '../src/cart.repository';
+import { CartService } from '../src/services/cart.service';
+import { hashCartToken } from '../src/utils/cart-token';
+import { Cart, CartItem, NotFoundError, ValidationError } from '../src/types/index';
+import { config } from '../src/config';
+
+// Sin motor de Prisma: el repositorio usa un Prisma en memoria
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {}
+}));
+
+const USER_ID = 'user-1';
+const GUEST_CART_ID = 'guest-cart';
+const USER_CART_ID = 'user-cart';
+const LIMITS = { maxQuantity: 10, maxItems: 3 };
+
+type Line = [productId: string, variantId: string | null, quantity: number];
+
+/** Prisma en memoria: la transacción escribe sobre una copia que solo se confirma si el callback no lanza */
+class FakePrisma {
+  carts: Cart[] = [];
+  items: CartItem[] = [];
+
+  async $transaction<T>(callback: (tx: unknown) => Promise<T>): Promise<T> {
+    const carts = this.carts.map((cart) => ({ ...cart }));
+    let items = this.items.map((item) => ({ ...item }));
+    const itemsOf = (cartId: string) => items.filter((item) => item.cartId === cartId);
+
+    const tx = {
+      // SELECT ... FOR UPDATE del carrito de invitado
+      $queryRaw: async (_sql: TemplateStringsArray, cartId: string) =>
+        carts.filter((cart) => cart.id === cartId && cart.userId === null).map(({ id }) => ({ id })),
+      // INSERT ... ON CONFLICT ("cartId", "productId", "variantId") con NULLS NOT DISTINCT
+      $executeRaw: async (
+        _sql: TemplateStringsArray,
+        id: string,
+        cartId: string,
+        productId: string,
+        variantId: string | null,
+        quantity: number,
+        maxQuantity: number
+      ) => {
+        const existing = items.find((item) => item.cartId === cartId && item.productId === productId && item.variantId === variantId);
+        if (existing) {
+          existing.quantity = Math.min(existing.quantity + quantity, maxQuantity);
+        } else {
+          items.push({ id, cartId, productId, variantId, quantity, createdAt: new Date(), updatedAt: new Date() });
+        }
+        return 1;
+      },
+      cart: {
+        findUnique: async ({ where }: { where: { userId: string } }) => {
+          const cart = carts.find((candidate) => candidate.userId === where.userId);
+          return cart ? { ...cart, items: itemsOf(cart.id) } : null;
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Partial<Cart> }) =>
+          Object.assign(carts.find((cart) => cart.id === where.id)!, data),
+        delete: async ({ where }: { where: { id: string } }) => {
+          carts.splice(carts.findIndex((cart) => cart.id === where.id), 1);
+          items = items.filter((item) => item.cartId !== where.id);
+        }
+      },
+      cartItem: {
+        findMany: async ({ where }: { where: { cartId: string } }) => itemsOf(where.cartId)
+      }
+    };
+
+    const result = await callback(tx);
+    this.carts = carts;
+    this.items = items;
+    return result;
+  }
+
+  addCart(id: string, userId: string | null, lines: Line[]) {
+    const now = new Date();
+    this.carts.push({ id, userId, tokenHash: userId ? null : `hash-${id}`, expiresAt: userId ? null : now, createdAt: now, updatedAt: now });
+    for (const [productId, variantId, quantity] of lines) {
+      this.items.push({ id: `${id}-${this.items.length}`, cartId: id, productId, variantId, quantity, createdAt: now, updatedAt: now });
+    }
+  }
+
+  lines(cartId: string): Line[] {
+    return this.items.filter((item) => item.cartId === cartId).map((item) => [item.productId, item.variantId, item.quantity]);
+  }
+}
+
+describe('CartRepository.mergeGuestCart', () => {
+  let prisma: FakePrisma;
+  let repository: CartRepository;
+
+  beforeEach(() => {
+    prisma = new FakePrisma();
+    repository = Object.assign(new CartRepository(), { prisma });
+  });
+
+  it('suma las cantidades de las líneas repetidas y agrega las nuevas', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['remera', 'talle-m', 2], ['taza', null, 1]]);
+    prisma.addCart(GUEST_CART_ID, null, [['remera', 'talle-m', 3], ['taza', null, 4], ['gorra', null, 1]]);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toEqual({ status: 'MERGED', cartId: USER_CART_ID });
+    expect(prisma.lines(USER_CART_ID)).toEqual([['remera', 'talle-m', 5], ['taza', null, 5], ['gorra', null, 1]]);
+  });
+
+  it('otra variante del mismo producto es otra línea', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['remera', null, 1]]);
+    prisma.addCart(GUEST_CART_ID, null, [['remera', 'talle-m', 1]]);
+
+    await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS);
+
+    expect(prisma.lines(USER_CART_ID)).toEqual([['remera', null, 1], ['remera', 'talle-m', 1]]);
+  });
+
+  it('limita la cantidad sumada al máximo por línea', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['taza', null, 8]]);
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 7]]);
+
+    await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS);
+
+    expect(prisma.lines(USER_CART_ID)).toEqual([['taza', null, 10]]);
+  });
+
+  it('elimina el carrito de invitado al fusionarlo', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, []);
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 1]]);
+
+    await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS);
+
+    expect(prisma.carts.map((cart) => cart.id)).toEqual([USER_CART_ID]);
+    expect(prisma.lines(GUEST_CART_ID)).toEqual([]);
+  });
+
+  it('sin carrito del usuario, el de invitado pasa a ser suyo', async () => {
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 1]]);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toEqual({ status: 'MERGED', cartId: GUEST_CART_ID });
+    expect(prisma.carts).toMatchObject([{ id: GUEST_CART_ID, userId: USER_ID, tokenHash: null, expiresAt: null }]);
+  });
+
+  it('no fusiona nada si se superaría el máximo de líneas', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['remera', null, 1], ['taza', null, 1]]);
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 2], ['gorra', null, 1], ['media', null, 1]]);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toEqual({ status: 'TOO_MANY_ITEMS' });
+    expect(prisma.lines(USER_CART_ID)).toEqual([['remera', null, 1], ['taza', null, 1]]);
+    expect(prisma.lines(GUEST_CART_ID)).toHaveLength(3);
+  });
+
+  it('las líneas repetidas no cuentan dos veces para el máximo', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['remera', null, 1], ['taza', null, 1]]);
+    prisma.addCart(GUEST_CART_ID, null, [['remera', null, 1], ['taza', null, 1], ['gorra', null, 1]]);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toMatchObject({ status: 'MERGED' });
+  });
+
+  it('una segunda fusión del mismo carrito no lo encuentra ni suma de nuevo', async () => {
+    prisma.addCart(USER_CART_ID, USER_ID, [['taza', null, 1]]);
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 2]]);
+
+    await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toEqual({ status: 'NOT_FOUND' });
+    expect(prisma.lines(USER_CART_ID)).toEqual([['taza', null, 3]]);
+  });
+
+  it('un carrito de invitado que ya pasó a ser de un usuario no se vuelve a fusionar', async () => {
+    prisma.addCart(GUEST_CART_ID, null, [['taza', null, 2]]);
+    await repository.mergeGuestCart(GUEST_CART_ID, 'user-2', LIMITS);
+
+    expect(await repository.mergeGuestCart(GUEST_CART_ID, USER_ID, LIMITS)).toEqual({ status: 'NOT_FOUND' });
+  });
+});
+
+describe('CartService.mergeGuestCart', () => {
+  const guestCart = {
+    id: GUEST_CART_ID,
+    userId: null,
+    tokenHash: hashCartToken('token'),
+    expiresAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    items: []
+  };
+
+  const serviceWith = (repository: object): CartService => Object.assign(new CartService(), { cartRepository: repository });
+
+  it('rechaza un cart token sin carrito de invitado vigente', async () => {
+    const service = serviceWith({ findGuestCart: async () => null });
+
+    await expect(service.mergeGuestCart(USER_ID, 'token')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('rechaza la fusión que otra request ya hizo', async () => {
+    const service = serviceWith({ findGuestCart: async () => guestCart, mergeGuestCart: async () => ({ status: 'NOT_FOUND' }) });
+
+    await expect(service.mergeGuestCart(USER_ID, 'token')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('rechaza la fusión que superaría el máximo de líneas', async () => {
+    const service = serviceWith({ findGuestCart: async () => guestCart, mergeGuestCart: async () => ({ status: 'TOO_MANY_ITEMS' }) });
+
+    await expect(service.mergeGuestCart(USER_ID, 'token')).rejects.toThrow(
+      new ValidationError(`El carrito admite hasta ${config.cart.maxItems} productos distintos`)
+    );
+  });
+
+  it('busca el carrito por el hash del token y fusiona con los límites de la configuración', async () => {
+    const findGuestCart = vi.fn(async () => guestCart);
+    const mergeGuestCart = vi.fn(async () => ({ status: 'NOT_FOUND' }));
+    const service = serviceWith({ findGuestCart, mergeGuestCart });
+
+    await expect(service.mergeGuestCart(USER_ID, 'token')).rejects.toBeInstanceOf(NotFoundError);
+    expect(findGuestCart).toHaveBeenCalledWith(hashCartToken('token'), expect.any(Date));
+    expect(mergeGuestCart).toHaveBeenCalledWith(GUEST_CART_ID, USER_ID, {
+      maxQuantity: config.cart.maxQuantityPerItem,
+      maxItems: config.cart.maxItems
+    });
+  });
+});
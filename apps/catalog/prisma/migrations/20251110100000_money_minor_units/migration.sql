@@ -0,0 +1,72 @@
+-- Precios en unidades menores con moneda. Los precios existentes no tenían
+-- moneda: se asume USD (2 decimales) y se redondea al centavo.
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "priceMinor" INTEGER,
+ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+UPDATE "Product" SET "priceMinor" = ROUND("price"::numeric * 100);
+
+ALTER TABLE "Product" ALTER COLUMN "priceMinor" SET NOT NULL,
+ALTER COLUMN "currency" DROP DEFAULT,
+DROP COLUMN "price";
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN "priceMinor" INTEGER;
+
+UPDATE "ProductVariant" SET "priceMinor" = ROUND("price"::numeric * 100) WHERE "price" IS NOT NULL;
+
+ALTER TABLE "ProductVariant" DROP COLUMN "price";
+
+-- CreateTable
+CREATE TABLE "PriceList" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductPrice" (
+    "priceListId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "amountMinor" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductPrice_pkey" PRIMARY KEY ("priceListId","productId")
+);
+
+-- CreateTable
+CREATE TABLE "VariantPrice" (
+    "priceListId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "amountMinor" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VariantPrice_pkey" PRIMARY KEY ("priceListId","variantId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceList_code_key" ON "PriceList"("code");
+
+-- CreateIndex
+CREATE INDEX "ProductPrice_productId_idx" ON "ProductPrice"("productId");
+
+-- CreateIndex
+CREATE INDEX "VariantPrice_variantId_idx" ON "VariantPrice"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "ProductPrice" ADD CONSTRAINT "ProductPrice_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "PriceList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductPrice" ADD CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VariantPrice" ADD CONSTRAINT "VariantPrice_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "PriceList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VariantPrice" ADD CONSTRAINT "VariantPrice_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
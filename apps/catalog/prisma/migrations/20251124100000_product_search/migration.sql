@@ -0,0 +1,20 @@
+-- Búsqueda full-text de productos. Configuración en español que ignora
+-- acentos ('camion' encuentra 'camión'); la columna la mantiene Postgres.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION "product_search" (COPY = spanish);
+ALTER TEXT SEARCH CONFIGURATION "product_search"
+  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('product_search', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('product_search', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_currency_priceMinor_idx" ON "Product"("currency", "priceMinor");
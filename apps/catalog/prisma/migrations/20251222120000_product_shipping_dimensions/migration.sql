@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "weightGrams" INTEGER,
+ADD COLUMN "lengthMm" INTEGER,
+ADD COLUMN "widthMm" INTEGER,
+ADD COLUMN "heightMm" INTEGER;
+
+-- Peso y medidas positivos; las tres medidas se cargan juntas
+ALTER TABLE "Product" ADD CONSTRAINT "Product_shipping_dimensions_check" CHECK (
+    ("weightGrams" IS NULL OR "weightGrams" > 0)
+    AND (
+        ("lengthMm" IS NULL AND "widthMm" IS NULL AND "heightMm" IS NULL)
+        OR ("lengthMm" > 0 AND "widthMm" > 0 AND "heightMm" > 0)
+    )
+);
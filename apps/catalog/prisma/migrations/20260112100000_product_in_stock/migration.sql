@@ -0,0 +1,4 @@
+-- AlterTable
+-- Disponibilidad que informa el servicio de inventario; la primera sincronización
+-- del inventario completa la de los productos existentes
+ALTER TABLE "Product" ADD COLUMN "inStock" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,95 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { ProductController } from './product.controller';
+import { CategoryController } from './category.controller';
+import { VariantController } from './variant.controller';
+import { PriceListController } from './price-list.controller';
+import { ProductRepository } from './product.repository';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const productController = new ProductController();
+const categoryController = new CategoryController();
+const variantController = new VariantController();
+const priceListController = new PriceListController();
+const productRepository = new ProductRepository();
+const healthController = new HealthController('catalog-service', {
+  database: () => productRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Rutas públicas (lectura del catálogo)
+server.get('/products', productController.listProducts.bind(productController));
+server.get('/products/search', productController.searchProducts.bind(productController));
+server.get('/products/:id', productController.getProduct.bind(productController));
+server.get('/categories', categoryController.getTree.bind(categoryController));
+server.get('/categories/:slug', categoryController.getCategory.bind(categoryController));
+server.get('/categories/:slug/products', productController.listCategoryProducts.bind(productController));
+server.get('/price-lists', priceListController.listPriceLists.bind(priceListController));
+
+// Rutas de escritura (requieren el permiso catalog:write)
+server.register(async function (fastify) {
+  fastify.addHook('preHandler', requireAuth);
+  fastify.addHook('preHandler', requirePermission(PERMISSIONS.CATALOG_WRITE));
+
+  fastify.post('/products', productController.createProduct.bind(productController));
+  fastify.patch('/products/:id', productController.updateProduct.bind(productController));
+  fastify.delete('/products/:id', productController.deleteProduct.bind(productController));
+
+  fastify.put('/products/:id/options', variantController.setOptions.bind(variantController));
+  fastify.post('/products/:id/variants', variantController.createVariants.bind(variantController));
+  fastify.patch('/products/:id/variants', variantController.updateVariants.bind(variantController));
+
+  fastify.post('/categories', categoryController.createCategory.bind(categoryController));
+  fastify.patch('/categories/:id', categoryController.updateCategory.bind(categoryController));
+  fastify.delete('/categories/:id', categoryController.deleteCategory.bind(categoryController));
+
+  fastify.post('/price-lists', priceListController.createPriceList.bind(priceListController));
+  fastify.put('/price-lists/:code/prices', priceListController.setPrices.bind(priceListController));
+});
+
+// Disponibilidad de los productos (la informa el servicio de inventario con su token de servicio)
+server.register(async function (fastify) {
+  fastify.addHook('preHandler', requireAuth);
+  fastify.addHook('preHandler', requirePermission(PERMISSIONS.CATALOG_AVAILABILITY));
+
+  fastify.put('/products/availability', productController.setAvailability.bind(productController));
+});
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: statusCode === 500 ? 'Error interno del servidor' : error.message
+    }
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Catalog service listening on port ${config.port}`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
@@ -0,0 +1,168 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { CategoryService } from './services/category.service';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  categoryIdParamsSchema,
+  categorySlugParamsSchema
+} from './category.schemas';
+
+/**
+ * Controlador de categorías que maneja las peticiones HTTP
+ * y coordina con el servicio de categorías.
+ *
+ * @class CategoryController
+ * @description Lectura pública del árbol de categorías y gestión del árbol
+ * (alta, edición, movimiento y baja) para usuarios con catalog:write.
+ */
+export class CategoryController {
+  /** Servicio de categorías para lógica de negocio */
+  private categoryService: CategoryService;
+
+  /**
+   * Constructor del controlador de categorías
+   * Inicializa el servicio de categorías
+   */
+  constructor() {
+    this.categoryService = new CategoryService();
+  }
+
+  /**
+   * Endpoint para obtener el árbol completo de categorías
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Categorías raíz con sus subcategorías anidadas
+   *
+   * @throws {500} Error interno del servidor
+   */
+  async getTree(_: FastifyRequest, reply: FastifyReply) {
+    try {
+      const categories = await this.categoryService.getTree();
+
+      return reply.code(200).send({
+        success: true,
+        data: { categories }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para obtener una categoría por slug
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {slug}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Categoría con breadcrumbs y subcategorías directas
+   *
+   * @throws {400} Slug inválido
+   * @throws {404} Categoría no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async getCategory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { slug } = categorySlugParamsSchema.parse(request.params);
+
+      const category = await this.categoryService.getCategoryBySlug(slug);
+
+      return reply.code(200).send({
+        success: true,
+        data: { category }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear una categoría (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {name, slug?, description?, parentId?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Categoría creada
+   *
+   * @throws {400} Error de validación o categoría padre inexistente
+   * @throws {409} Slug en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createCategory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createCategorySchema.parse(request.body);
+
+      const category = await this.categoryService.createCategory(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { category }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar o mover una categoría (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body parcial {name?, slug?, description?, parentId?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Categoría actualizada
+   *
+   * @throws {400} Error de validación, padre inexistente o movimiento que generaría un ciclo
+   * @throws {404} Categoría no encontrada
+   * @throws {409} Slug en uso
+   * @throws {500} Error interno del servidor
+   */
+  async updateCategory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = categoryIdParamsSchema.parse(request.params);
+      const data = updateCategorySchema.parse(request.body);
+
+      const category = await this.categoryService.updateCategory(id, data);
+
+      return reply.code(200).send({
+        success: true,
+        data: { category }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para eliminar una categoría sin subcategorías (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de la eliminación
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Categoría no encontrada
+   * @throws {409} La categoría tiene subcategorías
+   * @throws {500} Error interno del servidor
+   */
+  async deleteCategory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = categoryIdParamsSchema.parse(request.params);
+
+      await this.categoryService.deleteCategory(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { id }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Category Controller');
+  }
+}
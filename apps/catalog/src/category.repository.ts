@@ -0,0 +1,140 @@
+import { PrismaClient } from '@prisma/client';
+import { Category, CategorySummary, CreateCategoryData, UpdateCategoryData } from './types/index';
+
+export class CategoryRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Crear categoría
+  async createCategory(data: CreateCategoryData): Promise<Category> {
+    return await this.prisma.category.create({
+      data,
+    });
+  }
+
+  // Buscar categoría por ID
+  async findCategoryById(id: string): Promise<Category | null> {
+    return await this.prisma.category.findUnique({
+      where: { id },
+    });
+  }
+
+  // Buscar categoría por slug
+  async findCategoryBySlug(slug: string): Promise<Category | null> {
+    return await this.prisma.category.findUnique({
+      where: { slug },
+    });
+  }
+
+  // Verificar si un slug ya está en uso
+  async slugExists(slug: string): Promise<boolean> {
+    const count = await this.prisma.category.count({
+      where: { slug },
+    });
+    return count > 0;
+  }
+
+  // Contar cuántos de los IDs corresponden a categorías existentes
+  async countCategories(ids: string[]): Promise<number> {
+    return await this.prisma.category.count({
+      where: { id: { in: ids } },
+    });
+  }
+
+  // Listar todas las categorías (para armar el árbol)
+  async findAllCategories(): Promise<Category[]> {
+    return await this.prisma.category.findMany({
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  // Listar las subcategorías directas
+  async findChildren(parentId: string): Promise<CategorySummary[]> {
+    return await this.prisma.category.findMany({
+      where: { parentId },
+      select: { id: true, name: true, slug: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  // Contar las subcategorías directas
+  async countChildren(parentId: string): Promise<number> {
+    return await this.prisma.category.count({
+      where: { parentId },
+    });
+  }
+
+  // Camino desde la raíz hasta la categoría (incluida).
+  // El camino recorrido corta la recursión si los datos tuvieran un ciclo
+  async findAncestors(id: string): Promise<CategorySummary[]> {
+    return await this.prisma.$queryRaw<CategorySummary[]>`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, name, slug, "parentId", 0 AS depth, ARRAY[id] AS path FROM "Category" WHERE id = ${id}
+        UNION ALL
+        SELECT c.id, c.name, c.slug, c."parentId", a.depth + 1, a.path || c.id
+        FROM "Category" c JOIN ancestors a ON c.id = a."parentId"
+        WHERE NOT c.id = ANY(a.path)
+      )
+      SELECT id, name, slug FROM ancestors ORDER BY depth DESC
+    `;
+  }
+
+  // IDs de la categoría y de todas sus descendientes
+  async findDescendantIds(id: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      WITH RECURSIVE descendants AS (
+        SELECT id FROM "Category" WHERE id = ${id}
+        UNION
+        SELECT c.id FROM "Category" c JOIN descendants d ON c."parentId" = d.id
+      )
+      SELECT id FROM descendants
+    `;
+    return rows.map((row) => row.id);
+  }
+
+  // Actualizar categoría
+  async updateCategory(id: string, data: UpdateCategoryData): Promise<Category> {
+    return await this.prisma.category.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Mover la categoría bajo otro padre (y actualizar el resto de los datos) en una transacción.
+  // Bloquea las escrituras en Category para que dos movimientos simultáneos no formen un ciclo;
+  // devuelve null si el padre es la misma categoría o una descendiente
+  async moveCategory(id: string, data: UpdateCategoryData & { parentId: string }): Promise<Category | null> {
+    return await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`LOCK TABLE "Category" IN SHARE ROW EXCLUSIVE MODE`;
+
+      const [cycle] = await tx.$queryRaw<{ id: string }[]>`
+        WITH RECURSIVE ancestors AS (
+          SELECT id, "parentId", ARRAY[id] AS path FROM "Category" WHERE id = ${data.parentId}
+          UNION ALL
+          SELECT c.id, c."parentId", a.path || c.id
+          FROM "Category" c JOIN ancestors a ON c.id = a."parentId"
+          WHERE NOT c.id = ANY(a.path)
+        )
+        SELECT id FROM ancestors WHERE id = ${id}
+      `;
+      if (cycle) {
+        return null;
+      }
+
+      return await tx.category.update({
+        where: { id },
+        data,
+      });
+    });
+  }
+
+  // Eliminar categoría (las asignaciones a productos se borran en cascada)
+  async deleteCategory(id: string): Promise<void> {
+    await this.prisma.category.delete({
+      where: { id },
+    });
+  }
+}
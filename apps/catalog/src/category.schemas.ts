@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Slug: minúsculas, números y guiones simples (ej: 'audio-y-video')
+export const slugSchema = z
+  .string()
+  .trim()
+  .min(1, 'Slug es requerido')
+  .max(100, 'Slug no puede superar 100 caracteres')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug solo puede contener minúsculas, números y guiones');
+
+// Schema para crear una categoría (el slug se genera del nombre si no se envía)
+export const createCategorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Nombre es requerido')
+    .max(100, 'Nombre no puede superar 100 caracteres'),
+  slug: slugSchema.optional(),
+  description: z
+    .string()
+    .trim()
+    .max(2000, 'Descripción no puede superar 2000 caracteres')
+    .nullable()
+    .optional(),
+  parentId: z
+    .string()
+    .uuid('ID de categoría padre inválido')
+    .nullable()
+    .optional(),
+});
+
+// Schema para actualizar una categoría (al menos un campo; parentId null la mueve a la raíz)
+export const updateCategorySchema = createCategorySchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debe indicar al menos un campo a actualizar',
+  });
+
+// Schema para el ID de categoría en la URL
+export const categoryIdParamsSchema = z.object({
+  id: z
+    .string()
+    .uuid('ID de categoría inválido'),
+});
+
+// Schema para el slug de categoría en la URL
+export const categorySlugParamsSchema = z.object({
+  slug: slugSchema,
+});
+
+// Tipos inferidos de los schemas
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type CategoryIdParams = z.infer<typeof categoryIdParamsSchema>;
+export type CategorySlugParams = z.infer<typeof categorySlugParamsSchema>;
@@ -0,0 +1,26 @@
+export const config = {
+  port: Number(process.env.PORT) || 3004,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  money: {
+    // Moneda de los productos que no indican una
+    defaultCurrency: process.env.DEFAULT_CURRENCY || 'USD'
+  },
+  pagination: {
+    defaultLimit: 20,
+    maxLimit: 100
+  },
+  // Disponibilidad informada por el servicio de inventario: máximo de productos por request
+  availability: {
+    maxBatchSize: 500
+  },
+  search: {
+    // Límites de los rangos de precio de la faceta, en unidades de la moneda
+    priceBuckets: [10, 25, 50, 100, 250, 500, 1000],
+    maxCategoryFacets: 30,
+    // Página máxima: más allá el OFFSET deja de ser barato
+    maxPage: 500
+  }
+}
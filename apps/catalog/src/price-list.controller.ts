@@ -0,0 +1,108 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PriceListService } from './services/price-list.service';
+import { createPriceListSchema, priceListParamsSchema, setPricesSchema } from './price-list.schemas';
+
+/**
+ * Controlador de listas de precios
+ *
+ * @class PriceListController
+ * @description Consulta pública de las listas disponibles y gestión de listas
+ * y precios para usuarios con catalog:write.
+ */
+export class PriceListController {
+  /** Servicio de listas de precios para lógica de negocio */
+  private priceListService: PriceListService;
+
+  /**
+   * Constructor del controlador de listas de precios
+   * Inicializa el servicio de listas de precios
+   */
+  constructor() {
+    this.priceListService = new PriceListService();
+  }
+
+  /**
+   * Endpoint para listar las listas de precios disponibles
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Listas con código, nombre y moneda
+   *
+   * @throws {500} Error interno del servidor
+   */
+  async listPriceLists(_: FastifyRequest, reply: FastifyReply) {
+    try {
+      const priceLists = await this.priceListService.listPriceLists();
+
+      return reply.code(200).send({
+        success: true,
+        data: { priceLists }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear una lista de precios (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {code, name, currency}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Lista creada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {409} Código en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createPriceList(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createPriceListSchema.parse(request.body);
+
+      const priceList = await this.priceListService.createPriceList(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { priceList }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cargar o quitar precios de una lista en lote (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {code} y body {prices: [{productId, variantId?, amount}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Cantidad de precios procesados
+   *
+   * @throws {400} Error de validación, producto o variante inexistente o monto inválido para la moneda
+   * @throws {404} Lista no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async setPrices(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { code } = priceListParamsSchema.parse(request.params);
+      const { prices } = setPricesSchema.parse(request.body);
+
+      const result = await this.priceListService.setPrices(code, prices);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Price List Controller');
+  }
+}
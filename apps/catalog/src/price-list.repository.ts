@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import { PriceList } from './types/index';
+
+export class PriceListRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Crear lista de precios
+  async createPriceList(data: { code: string; name: string; currency: string }): Promise<PriceList> {
+    return await this.prisma.priceList.create({
+      data,
+    });
+  }
+
+  // Buscar lista por código
+  async findPriceListByCode(code: string): Promise<PriceList | null> {
+    return await this.prisma.priceList.findUnique({
+      where: { code },
+    });
+  }
+
+  // Listar todas las listas de precios
+  async findAllPriceLists(): Promise<PriceList[]> {
+    return await this.prisma.priceList.findMany({
+      orderBy: { code: 'asc' },
+    });
+  }
+
+  // Precios de productos en la lista (productId -> monto)
+  async findProductPrices(priceListId: string, productIds: string[]): Promise<Map<string, number>> {
+    const rows = await this.prisma.productPrice.findMany({
+      where: { priceListId, productId: { in: productIds } },
+      select: { productId: true, amountMinor: true },
+    });
+    return new Map(rows.map((row) => [row.productId, row.amountMinor]));
+  }
+
+  // Precios de variantes en la lista (variantId -> monto)
+  async findVariantPrices(priceListId: string, variantIds: string[]): Promise<Map<string, number>> {
+    const rows = await this.prisma.variantPrice.findMany({
+      where: { priceListId, variantId: { in: variantIds } },
+      select: { variantId: true, amountMinor: true },
+    });
+    return new Map(rows.map((row) => [row.variantId, row.amountMinor]));
+  }
+
+  // Producto al que pertenece cada variante (variantId -> productId)
+  async findVariantOwners(variantIds: string[]): Promise<Map<string, string>> {
+    const rows = await this.prisma.productVariant.findMany({
+      where: { id: { in: variantIds } },
+      select: { id: true, productId: true },
+    });
+    return new Map(rows.map((row) => [row.id, row.productId]));
+  }
+
+  // Cargar (upsert) o quitar (amountMinor null) precios de la lista en una transacción
+  async setPrices(
+    priceListId: string,
+    prices: { productId: string; variantId?: string; amountMinor: number | null }[]
+  ): Promise<void> {
+    await this.prisma.$transaction(
+      prices.map(({ productId, variantId, amountMinor }) => {
+        if (variantId) {
+          const where = { priceListId_variantId: { priceListId, variantId } };
+          return amountMinor === null
+            ? this.prisma.variantPrice.deleteMany({ where: where.priceListId_variantId })
+            : this.prisma.variantPrice.upsert({
+                where,
+                create: { priceListId, variantId, amountMinor },
+                update: { amountMinor },
+              });
+        }
+
+        const where = { priceListId_productId: { priceListId, productId } };
+        return amountMinor === null
+          ? this.prisma.productPrice.deleteMany({ where: where.priceListId_productId })
+          : this.prisma.productPrice.upsert({
+              where,
+              create: { priceListId, productId, amountMinor },
+              update: { amountMinor },
+            });
+      })
+    );
+  }
+}
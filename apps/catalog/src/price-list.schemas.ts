@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '@ecom/service';
+
+// Monto decimal en texto para no perder precisión con Float (ej: '19.99')
+export const amountSchema = z
+  .string({ message: "Monto debe ser un decimal en texto, ej: '19.99'" })
+  .trim()
+  .regex(/^\d{1,10}(\.\d{1,3})?$/, "Monto debe ser un decimal en texto, ej: '19.99'");
+
+// Código de moneda ISO 4217 (ej: 'USD')
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isSupportedCurrency, 'Moneda inválida (código ISO 4217)');
+
+// Código de lista de precios (ej: 'eur', 'mayorista-ars')
+export const priceListCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Código de lista es requerido')
+  .max(50, 'Código de lista no puede superar 50 caracteres')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Código de lista solo puede contener minúsculas, números y guiones');
+
+// Schema para elegir la lista de precios (query ?priceList= o header X-Price-List)
+export const priceListSelectionSchema = z.object({
+  priceList: priceListCodeSchema.optional(),
+});
+
+// Schema para crear una lista de precios
+export const createPriceListSchema = z.object({
+  code: priceListCodeSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Nombre es requerido')
+    .max(100, 'Nombre no puede superar 100 caracteres'),
+  currency: currencySchema,
+});
+
+// Schema para el código de lista en la URL
+export const priceListParamsSchema = z.object({
+  code: priceListCodeSchema,
+});
+
+// Schema para cargar o quitar precios de una lista en lote
+export const setPricesSchema = z.object({
+  prices: z
+    .array(
+      z.object({
+        productId: z.string().uuid('ID de producto inválido'),
+        variantId: z.string().uuid('ID de variante inválido').optional(),
+        amount: amountSchema.nullable(),
+      })
+    )
+    .min(1, 'Debe indicar al menos un precio')
+    .max(500, 'Máximo 500 precios por request'),
+});
+
+// Tipos inferidos de los schemas
+export type PriceListSelection = z.infer<typeof priceListSelectionSchema>;
+export type CreatePriceListInput = z.infer<typeof createPriceListSchema>;
+export type PriceListParams = z.infer<typeof priceListParamsSchema>;
+export type SetPricesInput = z.infer<typeof setPricesSchema>;
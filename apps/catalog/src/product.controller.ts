@@ -0,0 +1,273 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { ProductService } from './services/product.service';
+import {
+  createProductSchema,
+  updateProductSchema,
+  productParamsSchema,
+  paginationQuerySchema,
+  listProductsQuerySchema,
+  searchProductsQuerySchema,
+  setAvailabilitySchema
+} from './product.schemas';
+import { categorySlugParamsSchema } from './category.schemas';
+import { priceListSelectionSchema } from './price-list.schemas';
+
+/**
+ * Controlador de productos que maneja las peticiones HTTP
+ * y coordina con el servicio de productos.
+ *
+ * @class ProductController
+ * @description Endpoints REST del catálogo. Las respuestas usan el formato
+ * `{ success, data }` y los errores `{ success, error: { code, message } }`.
+ * Las lecturas devuelven precios de la lista elegida con `?priceList=` o el
+ * header `X-Price-List` (sin lista, el precio base).
+ */
+export class ProductController {
+  /** Servicio de productos para lógica de negocio */
+  private productService: ProductService;
+
+  /**
+   * Constructor del controlador de productos
+   * Inicializa el servicio de productos
+   */
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Endpoint para listar productos activos
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {cursor?, limit?, category?, priceList?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Página de productos y el cursor de la siguiente
+   *
+   * @throws {400} Cursor, límite, slug o lista de precios inválidos
+   * @throws {404} Categoría no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async listProducts(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { cursor, limit, category } = listProductsQuerySchema.parse(request.query);
+      const priceList = this.getPriceList(request);
+
+      const result = await this.productService.listProducts(limit, cursor, category, priceList);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para buscar productos por texto, con filtros, orden y facetas
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {q?, category?, minPrice?, maxPrice?, currency?, inStock?, sort?, page?, limit?, priceList?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Página de productos, total y facetas (categorías, rangos de precio y disponibilidad)
+   *
+   * @throws {400} Parámetros de búsqueda, monto o lista de precios inválidos
+   * @throws {404} Categoría no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async searchProducts(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = searchProductsQuerySchema.parse(request.query);
+      const priceList = this.getPriceList(request);
+
+      const result = await this.productService.searchProducts(query, priceList);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para listar los productos de una categoría, incluidas sus subcategorías
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {slug} y query {cursor?, limit?, priceList?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Página de productos y el cursor de la siguiente
+   *
+   * @throws {400} Slug, cursor, límite o lista de precios inválidos
+   * @throws {404} Categoría no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async listCategoryProducts(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { slug } = categorySlugParamsSchema.parse(request.params);
+      const { cursor, limit } = paginationQuerySchema.parse(request.query);
+      const priceList = this.getPriceList(request);
+
+      const result = await this.productService.listProducts(limit, cursor, slug, priceList);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para obtener un producto
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y query {priceList?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Producto encontrado, con los breadcrumbs de sus categorías, opciones y variantes
+   *
+   * @throws {400} ID o lista de precios inválidos
+   * @throws {404} Producto no encontrado o archivado
+   * @throws {500} Error interno del servidor
+   */
+  async getProduct(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+      const priceList = this.getPriceList(request);
+
+      const product = await this.productService.getProduct(id, priceList);
+
+      return reply.code(200).send({
+        success: true,
+        data: { product }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear un producto (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {name, description?, price, currency?, weightGrams?, dimensions?, categoryIds?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Producto creado
+   *
+   * @throws {400} Error de validación de datos de entrada, precio inválido o categoría inexistente
+   * @throws {500} Error interno del servidor
+   */
+  async createProduct(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createProductSchema.parse(request.body);
+
+      const product = await this.productService.createProduct(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { product }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar un producto (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body parcial {name?, description?, price?, currency?, weightGrams?, dimensions?, categoryIds?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Producto actualizado
+   *
+   * @throws {400} ID inválido, error de validación de datos de entrada, precio inválido o categoría inexistente
+   * @throws {404} Producto no encontrado o archivado
+   * @throws {409} Cambio de moneda con variantes que tienen precio propio
+   * @throws {500} Error interno del servidor
+   */
+  async updateProduct(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+      const data = updateProductSchema.parse(request.body);
+
+      const product = await this.productService.updateProduct(id, data);
+
+      return reply.code(200).send({
+        success: true,
+        data: { product }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para archivar un producto (requiere el permiso catalog:write)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación del archivado
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Producto no encontrado o ya archivado
+   * @throws {500} Error interno del servidor
+   *
+   * @description Soft delete: el producto queda en la base con `archivedAt`
+   * pero deja de listarse y de poder consultarse.
+   */
+  async deleteProduct(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+
+      await this.productService.archiveProduct(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { id }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para que el servicio de inventario informe la disponibilidad de los
+   * productos (requiere el permiso catalog:availability)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {products: [{productId, inStock}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Cantidad de productos cuya disponibilidad cambió
+   *
+   * @throws {400} Datos de entrada inválidos
+   * @throws {500} Error interno del servidor
+   */
+  async setAvailability(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { products } = setAvailabilitySchema.parse(request.body);
+
+      const result = await this.productService.setAvailability(products);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Lista de precios elegida: query `priceList` o header `X-Price-List`
+   *
+   * @private
+   */
+  private getPriceList(request: FastifyRequest): string | undefined {
+    const { priceList } = request.query as { priceList?: string };
+    return priceListSelectionSchema.parse({ priceList: priceList ?? request.headers['x-price-list'] }).priceList;
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Product Controller');
+  }
+}
@@ -0,0 +1,118 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CreateProductData, ProductCursor, ProductFilters, ProductWithCategories, UpdateProductData } from './types/index';
+
+// Categorías asignadas, para armar la respuesta del producto
+const withCategories = {
+  categories: {
+    include: { category: true },
+    orderBy: { assignedAt: 'asc' },
+  },
+} satisfies Prisma.ProductInclude;
+
+export class ProductRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Crear producto
+  async createProduct({ categoryIds = [], ...data }: CreateProductData): Promise<ProductWithCategories> {
+    return await this.prisma.product.create({
+      data: {
+        ...data,
+        categories: { create: categoryIds.map((categoryId) => ({ categoryId })) },
+      },
+      include: withCategories,
+    });
+  }
+
+  // Buscar producto activo (no archivado) por ID
+  async findActiveProductById(id: string): Promise<ProductWithCategories | null> {
+    return await this.prisma.product.findFirst({
+      where: { id, archivedAt: null },
+      include: withCategories,
+    });
+  }
+
+  // Buscar productos activos por ID (sin orden garantizado)
+  async findActiveProductsByIds(ids: string[]): Promise<ProductWithCategories[]> {
+    return await this.prisma.product.findMany({
+      where: { id: { in: ids }, archivedAt: null },
+      include: withCategories,
+    });
+  }
+
+  // IDs de los productos activos entre los indicados
+  async findActiveProductIds(ids: string[]): Promise<string[]> {
+    const rows = await this.prisma.product.findMany({
+      where: { id: { in: ids }, archivedAt: null },
+      select: { id: true },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  // Listar productos activos, del más nuevo al más viejo, después de un cursor.
+  // El cursor es una posición (fecha, id): sigue valiendo aunque ese producto se haya archivado
+  async findActiveProducts(filters: ProductFilters, take: number, cursor?: ProductCursor): Promise<ProductWithCategories[]> {
+    return await this.prisma.product.findMany({
+      where: {
+        archivedAt: null,
+        ...(filters.categoryIds && { categories: { some: { categoryId: { in: filters.categoryIds } } } }),
+        ...(cursor && {
+          OR: [{ createdAt: { lt: cursor.createdAt } }, { createdAt: cursor.createdAt, id: { lt: cursor.id } }],
+        }),
+      },
+      include: withCategories,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+    });
+  }
+
+  // Actualizar producto activo (y reemplazar sus categorías si se indican); devuelve null si no existe o está archivado
+  async updateActiveProduct(id: string, { categoryIds, ...data }: UpdateProductData): Promise<ProductWithCategories | null> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.product.updateMany({
+        where: { id, archivedAt: null },
+        data,
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (categoryIds) {
+        await tx.productCategory.deleteMany({ where: { productId: id } });
+        await tx.productCategory.createMany({
+          data: categoryIds.map((categoryId) => ({ productId: id, categoryId })),
+        });
+      }
+
+      return await tx.product.findUnique({ where: { id }, include: withCategories });
+    });
+  }
+
+  // Archivar producto (soft delete); devuelve false si no existe o ya estaba archivado
+  async archiveProduct(id: string): Promise<boolean> {
+    const { count } = await this.prisma.product.updateMany({
+      where: { id, archivedAt: null },
+      data: { archivedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  // Marcar productos con o sin stock (sin tocar updatedAt: no es una edición del producto).
+  // Los IDs que no existen se ignoran
+  async setAvailability(productIds: string[], inStock: boolean): Promise<number> {
+    return await this.prisma.$executeRaw`
+      UPDATE "Product" SET "inStock" = ${inStock}
+      WHERE "id" IN (${Prisma.join(productIds)}) AND "inStock" <> ${inStock}
+    `;
+  }
+}
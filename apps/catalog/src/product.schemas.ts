@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { config } from './config';
+import { slugSchema } from './category.schemas';
+import { amountSchema, currencySchema } from './price-list.schemas';
+import { decodeProductCursor } from './utils/cursor';
+
+// Medida del paquete en milímetros
+const dimensionSchema = z
+  .number({ message: 'Medida inválida' })
+  .int('Las medidas van en milímetros enteros')
+  .min(1, 'Las medidas deben ser mayores a 0')
+  .max(10_000, 'Medida máxima 10 metros');
+
+// Schema para crear un producto
+export const createProductSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Nombre es requerido')
+    .max(200, 'Nombre no puede superar 200 caracteres'),
+  description: z
+    .string()
+    .trim()
+    .max(5000, 'Descripción no puede superar 5000 caracteres')
+    .nullable()
+    .optional(),
+  // Precio base; la moneda por defecto es config.money.defaultCurrency
+  price: amountSchema,
+  currency: currencySchema.optional(),
+  // Peso y medidas del paquete, para calcular el envío (null los borra)
+  weightGrams: z
+    .number({ message: 'Peso inválido' })
+    .int('El peso va en gramos enteros')
+    .min(1, 'El peso debe ser mayor a 0')
+    .max(1_000_000, 'Peso máximo 1000 kg')
+    .nullable()
+    .optional(),
+  dimensions: z
+    .object({
+      lengthMm: dimensionSchema,
+      widthMm: dimensionSchema,
+      heightMm: dimensionSchema,
+    })
+    .nullable()
+    .optional(),
+  categoryIds: z
+    .array(z.string().uuid('ID de categoría inválido'))
+    .max(20, 'Máximo 20 categorías por producto')
+    .transform((ids) => [...new Set(ids)])
+    .optional(),
+});
+
+// Schema para actualizar un producto (al menos un campo)
+export const updateProductSchema = createProductSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debe indicar al menos un campo a actualizar',
+  })
+  .refine((data) => data.currency === undefined || data.price !== undefined, {
+    message: 'Para cambiar la moneda hay que indicar el precio',
+    path: ['price'],
+  });
+
+// Schema para el ID de producto en la URL
+export const productParamsSchema = z.object({
+  id: z
+    .string()
+    .uuid('ID de producto inválido'),
+});
+
+// Schema de paginación por cursor
+export const paginationQuerySchema = z.object({
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeProductCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Cursor inválido' });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Límite debe ser mayor a 0')
+    .max(config.pagination.maxLimit, `Límite máximo ${config.pagination.maxLimit}`)
+    .default(config.pagination.defaultLimit),
+});
+
+// Schema para listar productos (filtro opcional por slug de categoría, incluye subcategorías)
+export const listProductsQuerySchema = paginationQuerySchema.extend({
+  category: slugSchema.optional(),
+});
+
+// Schema para buscar productos (texto, filtros, orden y paginación por página)
+export const searchProductsQuerySchema = z
+  .object({
+    q: z.string().trim().max(200, 'La búsqueda no puede superar 200 caracteres').optional(),
+    category: slugSchema.optional(),
+    // Rango de precio base en `currency` (por defecto config.money.defaultCurrency)
+    minPrice: amountSchema.optional(),
+    maxPrice: amountSchema.optional(),
+    currency: currencySchema.optional(),
+    inStock: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    sort: z.enum(['relevance', 'newest', 'price_asc', 'price_desc', 'name']).default('relevance'),
+    page: z.coerce
+      .number()
+      .int()
+      .min(1, 'Página debe ser mayor a 0')
+      .max(config.search.maxPage, `Página máxima ${config.search.maxPage}`)
+      .default(1),
+    limit: paginationQuerySchema.shape.limit,
+  })
+  .refine(
+    (query) => !query.minPrice || !query.maxPrice || Number(query.minPrice) <= Number(query.maxPrice),
+    { message: 'El precio mínimo no puede superar al máximo', path: ['minPrice'] }
+  );
+
+// Schema para la disponibilidad que informa el servicio de inventario
+export const setAvailabilitySchema = z.object({
+  products: z
+    .array(
+      z.object({
+        productId: z.string().uuid('ID de producto inválido'),
+        inStock: z.boolean({ message: 'inStock debe ser true o false' }),
+      })
+    )
+    .min(1, 'Debe indicar al menos un producto')
+    .max(config.availability.maxBatchSize, `Máximo ${config.availability.maxBatchSize} productos`),
+});
+
+// Tipos inferidos de los schemas
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type ProductParams = z.infer<typeof productParamsSchema>;
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+export type ListProductsQuery = z.infer<typeof listProductsQuerySchema>;
+export type SearchProductsQuery = z.infer<typeof searchProductsQuerySchema>;
+export type SetAvailabilityInput = z.infer<typeof setAvailabilitySchema>;
@@ -0,0 +1,124 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CategorySummary, ProductSearchFilters, ProductSearchSort } from './types/index';
+
+// Configuración de texto creada en la migración product_search (español, sin acentos)
+const TEXT_SEARCH_CONFIG = Prisma.sql`'product_search'::regconfig`;
+
+// Filtro que se omite al contar su propia faceta (así la faceta muestra las alternativas)
+type FacetFilter = 'category' | 'price' | 'availability';
+
+export class SearchRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // IDs de los productos que cumplen los filtros, en el orden pedido
+  async searchProductIds(filters: ProductSearchFilters, sort: ProductSearchSort, take: number, skip: number): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT p."id" FROM "Product" p
+      WHERE ${this.where(filters)}
+      ORDER BY ${this.orderBy(filters, sort)}
+      LIMIT ${take} OFFSET ${skip}
+    `;
+    return rows.map((row) => row.id);
+  }
+
+  // Cantidad de productos que cumplen los filtros
+  async countProducts(filters: ProductSearchFilters): Promise<number> {
+    const [{ total }] = await this.prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS "total" FROM "Product" p WHERE ${this.where(filters)}
+    `;
+    return total;
+  }
+
+  // Productos por categoría asignada, de la más a la menos frecuente
+  async countByCategory(filters: ProductSearchFilters, take: number): Promise<(CategorySummary & { count: number })[]> {
+    return await this.prisma.$queryRaw<(CategorySummary & { count: number })[]>`
+      SELECT c."id", c."name", c."slug", COUNT(*)::int AS "count"
+      FROM "ProductCategory" pc
+      JOIN "Category" c ON c."id" = pc."categoryId"
+      JOIN "Product" p ON p."id" = pc."productId"
+      WHERE ${this.where(filters, 'category')}
+      GROUP BY c."id"
+      ORDER BY "count" DESC, c."name" ASC
+      LIMIT ${take}
+    `;
+  }
+
+  // Productos de la moneda por rango de precio: el bucket i va de boundaries[i-1] a boundaries[i]
+  async countByPriceBucket(filters: ProductSearchFilters, boundaries: number[]): Promise<{ bucket: number; count: number }[]> {
+    return await this.prisma.$queryRaw<{ bucket: number; count: number }[]>`
+      SELECT width_bucket(p."priceMinor", ${boundaries}::int[]) AS "bucket", COUNT(*)::int AS "count"
+      FROM "Product" p
+      WHERE ${this.where(filters, 'price')} AND p."currency" = ${filters.currency}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+  }
+
+  // Productos con y sin stock disponible
+  async countByAvailability(filters: ProductSearchFilters): Promise<{ inStock: number; total: number }> {
+    const [counts] = await this.prisma.$queryRaw<{ inStock: number; total: number }[]>`
+      SELECT COUNT(*) FILTER (WHERE ${this.inStock()})::int AS "inStock", COUNT(*)::int AS "total"
+      FROM "Product" p
+      WHERE ${this.where(filters, 'availability')}
+    `;
+    return counts;
+  }
+
+  // Condiciones de búsqueda sobre el alias p de "Product"
+  private where(filters: ProductSearchFilters, omit?: FacetFilter): Prisma.Sql {
+    const conditions = [Prisma.sql`p."archivedAt" IS NULL`];
+
+    if (filters.query) {
+      conditions.push(Prisma.sql`p."searchVector" @@ websearch_to_tsquery(${TEXT_SEARCH_CONFIG}, ${filters.query})`);
+    }
+
+    if (omit !== 'category' && filters.categoryIds) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "ProductCategory" pc
+        WHERE pc."productId" = p."id" AND pc."categoryId" IN (${Prisma.join(filters.categoryIds)})
+      )`);
+    }
+
+    if (omit !== 'price' && (filters.minPriceMinor !== undefined || filters.maxPriceMinor !== undefined)) {
+      conditions.push(Prisma.sql`p."currency" = ${filters.currency}`);
+      if (filters.minPriceMinor !== undefined) {
+        conditions.push(Prisma.sql`p."priceMinor" >= ${filters.minPriceMinor}`);
+      }
+      if (filters.maxPriceMinor !== undefined) {
+        conditions.push(Prisma.sql`p."priceMinor" <= ${filters.maxPriceMinor}`);
+      }
+    }
+
+    if (omit !== 'availability' && filters.inStock !== undefined) {
+      conditions.push(filters.inStock ? this.inStock() : Prisma.sql`NOT ${this.inStock()}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  // El producto (o alguna de sus variantes) tiene stock disponible, según lo informó el inventario
+  private inStock(): Prisma.Sql {
+    return Prisma.sql`p."inStock"`;
+  }
+
+  // Orden de los resultados; el ID desempata para que la paginación sea estable
+  private orderBy(filters: ProductSearchFilters, sort: ProductSearchSort): Prisma.Sql {
+    switch (sort) {
+      case 'relevance':
+        return Prisma.sql`ts_rank_cd(p."searchVector", websearch_to_tsquery(${TEXT_SEARCH_CONFIG}, ${filters.query ?? ''})) DESC,
+          p."createdAt" DESC, p."id" DESC`;
+      case 'price_asc':
+        return Prisma.sql`p."priceMinor" ASC, p."id" ASC`;
+      case 'price_desc':
+        return Prisma.sql`p."priceMinor" DESC, p."id" DESC`;
+      case 'name':
+        return Prisma.sql`p."name" ASC, p."id" ASC`;
+      case 'newest':
+        return Prisma.sql`p."createdAt" DESC, p."id" DESC`;
+    }
+  }
+}
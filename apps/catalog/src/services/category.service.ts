@@ -0,0 +1,264 @@
+import { CategoryRepository } from '../category.repository';
+import {
+  Category,
+  CategoryDetailResponse,
+  CategoryResponse,
+  CategorySummary,
+  CategoryTreeNode,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../types/index';
+import { slugify } from '../utils/slug';
+
+/**
+ * Servicio de categorías del catálogo
+ *
+ * @class CategoryService
+ * @description Administra el árbol de categorías (cada categoría tiene a lo sumo
+ * un padre) y resuelve breadcrumbs y subcategorías para filtrar productos.
+ */
+export class CategoryService {
+  /** Repositorio para acceso a datos de categorías */
+  private categoryRepository: CategoryRepository;
+
+  /**
+   * Constructor del servicio de categorías
+   * Inicializa el repositorio de datos
+   */
+  constructor() {
+    this.categoryRepository = new CategoryRepository();
+  }
+
+  /**
+   * Devuelve el árbol completo de categorías
+   *
+   * @returns {Promise<CategoryTreeNode[]>} Categorías raíz con sus subcategorías anidadas, por nombre
+   */
+  async getTree(): Promise<CategoryTreeNode[]> {
+    const categories = await this.categoryRepository.findAllCategories();
+    const nodes = new Map<string, CategoryTreeNode>(
+      categories.map((category) => [
+        category.id,
+        { id: category.id, name: category.name, slug: category.slug, description: category.description, children: [] }
+      ])
+    );
+    const roots: CategoryTreeNode[] = [];
+
+    // findAllCategories ordena por nombre, así que cada nivel queda ordenado
+    for (const category of categories) {
+      const node = nodes.get(category.id)!;
+      const parent = category.parentId ? nodes.get(category.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Obtiene una categoría por slug con sus breadcrumbs y subcategorías directas
+   *
+   * @param {string} slug - Slug de la categoría
+   * @returns {Promise<CategoryDetailResponse>} Categoría encontrada
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   */
+  async getCategoryBySlug(slug: string): Promise<CategoryDetailResponse> {
+    const category = await this.findBySlugOrFail(slug);
+
+    const [breadcrumbs, children] = await Promise.all([
+      this.categoryRepository.findAncestors(category.id),
+      this.categoryRepository.findChildren(category.id)
+    ]);
+
+    return { ...this.formatCategory(category), breadcrumbs, children };
+  }
+
+  /**
+   * Crea una categoría
+   *
+   * @param {object} data - Nombre, slug (opcional, se genera del nombre), descripción y padre
+   * @returns {Promise<CategoryResponse>} Categoría creada
+   *
+   * @throws {ValidationError} Si el padre no existe o no se puede generar un slug
+   * @throws {ConflictError} Si el slug ya está en uso
+   */
+  async createCategory(data: {
+    name: string;
+    slug?: string;
+    description?: string | null;
+    parentId?: string | null;
+  }): Promise<CategoryResponse> {
+    const slug = data.slug ?? slugify(data.name);
+    if (!slug) {
+      throw new ValidationError('No se pudo generar un slug a partir del nombre; indicar uno');
+    }
+
+    await this.assertSlugAvailable(slug);
+
+    if (data.parentId) {
+      await this.assertParentExists(data.parentId);
+    }
+
+    const category = await this.categoryRepository.createCategory({ ...data, slug });
+    return this.formatCategory(category);
+  }
+
+  /**
+   * Actualiza una categoría; cambiar `parentId` mueve la categoría (con sus
+   * subcategorías) dentro del árbol y `null` la convierte en raíz
+   *
+   * @param {string} id - ID de la categoría
+   * @param {object} data - Campos a actualizar
+   * @returns {Promise<CategoryResponse>} Categoría actualizada
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   * @throws {ValidationError} Si el nuevo padre no existe o es la misma categoría o una descendiente
+   * @throws {ConflictError} Si el nuevo slug ya está en uso
+   */
+  async updateCategory(
+    id: string,
+    data: { name?: string; slug?: string; description?: string | null; parentId?: string | null }
+  ): Promise<CategoryResponse> {
+    const category = await this.categoryRepository.findCategoryById(id);
+    if (!category) {
+      throw new NotFoundError('Categoría no encontrada');
+    }
+
+    if (data.slug && data.slug !== category.slug) {
+      await this.assertSlugAvailable(data.slug);
+    }
+
+    if (!data.parentId) {
+      const updated = await this.categoryRepository.updateCategory(id, data);
+      return this.formatCategory(updated);
+    }
+
+    // Los ancestros del nuevo padre no pueden incluir a la categoría (evita ciclos);
+    // el repositorio lo verifica y mueve con la tabla bloqueada
+    await this.assertParentExists(data.parentId);
+    const moved = await this.categoryRepository.moveCategory(id, { ...data, parentId: data.parentId });
+    if (!moved) {
+      throw new ValidationError('Una categoría no puede moverse dentro de sí misma ni de sus subcategorías');
+    }
+
+    return this.formatCategory(moved);
+  }
+
+  /**
+   * Elimina una categoría sin subcategorías; los productos asignados solo pierden la asignación
+   *
+   * @param {string} id - ID de la categoría
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   * @throws {ConflictError} Si la categoría tiene subcategorías
+   */
+  async deleteCategory(id: string): Promise<void> {
+    const category = await this.categoryRepository.findCategoryById(id);
+    if (!category) {
+      throw new NotFoundError('Categoría no encontrada');
+    }
+
+    const children = await this.categoryRepository.countChildren(id);
+    if (children > 0) {
+      throw new ConflictError('La categoría tiene subcategorías; moverlas o eliminarlas primero');
+    }
+
+    await this.categoryRepository.deleteCategory(id);
+  }
+
+  /**
+   * Resuelve el slug de una categoría a su ID y los de todas sus descendientes
+   *
+   * @param {string} slug - Slug de la categoría
+   * @returns {Promise<string[]>} IDs para filtrar productos
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   */
+  async getCategoryTreeIds(slug: string): Promise<string[]> {
+    const category = await this.findBySlugOrFail(slug);
+    return await this.categoryRepository.findDescendantIds(category.id);
+  }
+
+  /**
+   * Devuelve el camino desde la raíz hasta cada categoría indicada
+   *
+   * @param {string[]} ids - IDs de categorías
+   * @returns {Promise<CategorySummary[][]>} Un breadcrumb por categoría, en el mismo orden
+   */
+  async getBreadcrumbs(ids: string[]): Promise<CategorySummary[][]> {
+    return await Promise.all(ids.map((id) => this.categoryRepository.findAncestors(id)));
+  }
+
+  /**
+   * Verifica que todas las categorías existan (para asignarlas a un producto)
+   *
+   * @param {string[]} ids - IDs de categorías sin repetir
+   *
+   * @throws {ValidationError} Si alguna no existe
+   */
+  async assertCategoriesExist(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const count = await this.categoryRepository.countCategories(ids);
+    if (count !== ids.length) {
+      throw new ValidationError('Una o más categorías no existen');
+    }
+  }
+
+  /**
+   * Busca una categoría por slug o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findBySlugOrFail(slug: string): Promise<Category> {
+    const category = await this.categoryRepository.findCategoryBySlug(slug);
+    if (!category) {
+      throw new NotFoundError('Categoría no encontrada');
+    }
+    return category;
+  }
+
+  /**
+   * Lanza ConflictError si el slug ya está en uso
+   *
+   * @private
+   */
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.categoryRepository.slugExists(slug)) {
+      throw new ConflictError('El slug ya está en uso');
+    }
+  }
+
+  /**
+   * Verifica que exista la categoría padre y devuelve su camino desde la raíz
+   *
+   * @private
+   */
+  private async assertParentExists(parentId: string): Promise<CategorySummary[]> {
+    const ancestors = await this.categoryRepository.findAncestors(parentId);
+    if (ancestors.length === 0) {
+      throw new ValidationError('Categoría padre no encontrada');
+    }
+    return ancestors;
+  }
+
+  /**
+   * Formatea una categoría para la respuesta
+   *
+   * @private
+   */
+  private formatCategory(category: Category): CategoryResponse {
+    return {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      parentId: category.parentId,
+      createdAt: category.createdAt,
+      updatedAt: category.updatedAt
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { toMinorUnits } from '@ecom/service';
+import { PriceListRepository } from '../price-list.repository';
+import { ProductRepository } from '../product.repository';
+import {
+  ConflictError,
+  NotFoundError,
+  PriceInput,
+  PriceList,
+  PriceListResponse,
+  ValidationError
+} from '../types/index';
+
+/**
+ * Servicio de listas de precios
+ *
+ * @class PriceListService
+ * @description Cada lista tiene una moneda y precios por producto y, opcionalmente,
+ * por variante. Sin lista elegida se usa el precio base del producto.
+ */
+export class PriceListService {
+  /** Repositorio para acceso a listas de precios */
+  private priceListRepository: PriceListRepository;
+
+  /** Repositorio de productos, para validar los productos de los precios */
+  private productRepository: ProductRepository;
+
+  /**
+   * Constructor del servicio de listas de precios
+   * Inicializa los repositorios de datos
+   */
+  constructor() {
+    this.priceListRepository = new PriceListRepository();
+    this.productRepository = new ProductRepository();
+  }
+
+  /**
+   * Lista todas las listas de precios
+   *
+   * @returns {Promise<PriceListResponse[]>} Listas ordenadas por código
+   */
+  async listPriceLists(): Promise<PriceListResponse[]> {
+    const priceLists = await this.priceListRepository.findAllPriceLists();
+    return priceLists.map((priceList) => this.formatPriceList(priceList));
+  }
+
+  /**
+   * Crea una lista de precios
+   *
+   * @param {object} data - Código, nombre y moneda ISO 4217
+   * @returns {Promise<PriceListResponse>} Lista creada
+   *
+   * @throws {ConflictError} Si el código ya está en uso
+   */
+  async createPriceList(data: { code: string; name: string; currency: string }): Promise<PriceListResponse> {
+    if (await this.priceListRepository.findPriceListByCode(data.code)) {
+      throw new ConflictError('El código de lista ya está en uso');
+    }
+
+    const priceList = await this.priceListRepository.createPriceList(data);
+    return this.formatPriceList(priceList);
+  }
+
+  /**
+   * Carga o quita precios de una lista en lote (todos o ninguno)
+   *
+   * @param {string} code - Código de la lista
+   * @param {PriceInput[]} prices - Producto, variante opcional y monto (null quita el precio)
+   * @returns {Promise<{updated: number}>} Cantidad de precios procesados
+   *
+   * @throws {NotFoundError} Si la lista no existe
+   * @throws {ValidationError} Si un producto no existe, una variante no es del producto
+   * o un monto tiene más decimales que la moneda de la lista
+   */
+  async setPrices(code: string, prices: PriceInput[]): Promise<{ updated: number }> {
+    const priceList = await this.priceListRepository.findPriceListByCode(code);
+    if (!priceList) {
+      throw new NotFoundError('Lista de precios no encontrada');
+    }
+
+    const productIds = [...new Set(prices.map((price) => price.productId))];
+    const activeIds = new Set(await this.productRepository.findActiveProductIds(productIds));
+    const missingProduct = productIds.find((id) => !activeIds.has(id));
+    if (missingProduct) {
+      throw new ValidationError(`Producto no encontrado: ${missingProduct}`);
+    }
+
+    const variantIds = prices.flatMap((price) => (price.variantId ? [price.variantId] : []));
+    const owners = await this.priceListRepository.findVariantOwners(variantIds);
+    const foreign = prices.find((price) => price.variantId && owners.get(price.variantId) !== price.productId);
+    if (foreign) {
+      throw new ValidationError(`La variante ${foreign.variantId} no pertenece al producto ${foreign.productId}`);
+    }
+
+    await this.priceListRepository.setPrices(
+      priceList.id,
+      prices.map(({ productId, variantId, amount }) => ({
+        productId,
+        variantId,
+        amountMinor: amount === null ? null : toMinorUnits(amount, priceList.currency)
+      }))
+    );
+
+    return { updated: prices.length };
+  }
+
+  /**
+   * Resuelve la lista de precios elegida por el cliente
+   *
+   * @param {string} [code] - Código de la lista (query `priceList` o header `X-Price-List`)
+   * @returns {Promise<PriceList | null>} Lista elegida, o null para usar el precio base
+   *
+   * @throws {ValidationError} Si la lista no existe
+   */
+  async resolvePriceList(code?: string): Promise<PriceList | null> {
+    if (!code) {
+      return null;
+    }
+
+    const priceList = await this.priceListRepository.findPriceListByCode(code);
+    if (!priceList) {
+      throw new ValidationError(`Lista de precios no encontrada: ${code}`);
+    }
+    return priceList;
+  }
+
+  /**
+   * Precios de productos en la lista
+   *
+   * @param {PriceList} priceList - Lista de precios
+   * @param {string[]} productIds - IDs de productos
+   * @returns {Promise<Map<string, number>>} productId -> monto en unidades menores (solo los que tienen precio)
+   */
+  async getProductPrices(priceList: PriceList, productIds: string[]): Promise<Map<string, number>> {
+    return await this.priceListRepository.findProductPrices(priceList.id, productIds);
+  }
+
+  /**
+   * Precios propios de variantes en la lista
+   *
+   * @param {PriceList} priceList - Lista de precios
+   * @param {string[]} variantIds - IDs de variantes
+   * @returns {Promise<Map<string, number>>} variantId -> monto en unidades menores (solo los que tienen precio)
+   */
+  async getVariantPrices(priceList: PriceList, variantIds: string[]): Promise<Map<string, number>> {
+    return await this.priceListRepository.findVariantPrices(priceList.id, variantIds);
+  }
+
+  /**
+   * Formatea una lista de precios para la respuesta
+   *
+   * @private
+   */
+  private formatPriceList(priceList: PriceList): PriceListResponse {
+    return {
+      code: priceList.code,
+      name: priceList.name,
+      currency: priceList.currency
+    };
+  }
+}
@@ -0,0 +1,342 @@
+import { toMinorUnits, toMoney } from '@ecom/service';
+import { ProductRepository } from '../product.repository';
+import { CategoryService } from './category.service';
+import { VariantService } from './variant.service';
+import { PriceListService } from './price-list.service';
+import { SearchService } from './search.service';
+import {
+  ConflictError,
+  CreateProductData,
+  CursorPagination,
+  Money,
+  NewProductInput,
+  NotFoundError,
+  PagePagination,
+  PriceList,
+  ProductAvailability,
+  ProductChanges,
+  ProductCursor,
+  ProductDetailResponse,
+  ProductDimensions,
+  ProductFilters,
+  ProductResponse,
+  ProductSearchFilters,
+  ProductSearchInput,
+  ProductWithCategories,
+  SearchFacets,
+  UpdateProductData
+} from '../types/index';
+import { encodeProductCursor } from '../utils/cursor';
+import { config } from '../config';
+
+/**
+ * Servicio de productos con la lógica de negocio del catálogo
+ *
+ * @class ProductService
+ * @description Alta, consulta, edición y archivado (soft delete) de productos.
+ * Los productos archivados no se listan ni se pueden consultar o editar.
+ */
+export class ProductService {
+  /** Repositorio para acceso a datos de productos */
+  private productRepository: ProductRepository;
+
+  /** Categorías para filtrar, asignar y armar breadcrumbs */
+  private categoryService: CategoryService;
+
+  /** Opciones y variantes para el detalle del producto */
+  private variantService: VariantService;
+
+  /** Listas de precios alternativas al precio base */
+  private priceListService: PriceListService;
+
+  /** Búsqueda full-text con filtros y facetas */
+  private searchService: SearchService;
+
+  /**
+   * Constructor del servicio de productos
+   * Inicializa el repositorio de datos y los servicios de categorías, variantes, precios y búsqueda
+   */
+  constructor() {
+    this.productRepository = new ProductRepository();
+    this.categoryService = new CategoryService();
+    this.variantService = new VariantService();
+    this.priceListService = new PriceListService();
+    this.searchService = new SearchService();
+  }
+
+  /**
+   * Crea un producto
+   *
+   * @param {NewProductInput} data - Nombre, descripción, precio decimal, moneda, peso, medidas y categorías
+   * @returns {Promise<ProductResponse>} Producto creado, con su precio base
+   *
+   * @throws {ValidationError} Si alguna categoría no existe o el precio tiene más decimales que la moneda
+   */
+  async createProduct({ price, currency = config.money.defaultCurrency, dimensions, ...data }: NewProductInput): Promise<ProductResponse> {
+    const priceMinor = toMinorUnits(price, currency);
+    await this.categoryService.assertCategoriesExist(data.categoryIds ?? []);
+
+    const product = await this.productRepository.createProduct({ ...data, ...this.toDimensionColumns(dimensions), priceMinor, currency });
+    return this.formatProduct(product, this.getBasePrice(product));
+  }
+
+  /**
+   * Lista productos activos con paginación por cursor
+   *
+   * @param {number} limit - Cantidad máxima de productos a devolver
+   * @param {ProductCursor} [cursor] - Posición del último producto de la página anterior
+   * @param {string} [categorySlug] - Solo productos de esta categoría o de sus subcategorías
+   * @param {string} [priceListCode] - Lista de precios; sin lista se usa el precio base
+   * @returns {Promise<{products: ProductResponse[], pagination: CursorPagination}>} Página de productos
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   * @throws {ValidationError} Si la lista de precios no existe
+   *
+   * @description
+   * Ordena del más nuevo al más viejo. Pide un producto extra para saber si hay
+   * otra página; `nextCursor` es null cuando no quedan más productos.
+   */
+  async listProducts(
+    limit: number,
+    cursor?: ProductCursor,
+    categorySlug?: string,
+    priceListCode?: string
+  ): Promise<{ products: ProductResponse[]; pagination: CursorPagination }> {
+    const priceList = await this.priceListService.resolvePriceList(priceListCode);
+
+    const filters: ProductFilters = {};
+    if (categorySlug) {
+      filters.categoryIds = await this.categoryService.getCategoryTreeIds(categorySlug);
+    }
+
+    const products = await this.productRepository.findActiveProducts(filters, limit + 1, cursor);
+    const hasMore = products.length > limit;
+    const page = hasMore ? products.slice(0, limit) : products;
+    const prices = await this.getPrices(page, priceList);
+
+    return {
+      products: page.map((product) => this.formatProduct(product, prices.get(product.id) ?? null)),
+      pagination: {
+        limit,
+        nextCursor: hasMore ? encodeProductCursor(page[page.length - 1]) : null
+      }
+    };
+  }
+
+  /**
+   * Busca productos activos por texto, con filtros, orden y facetas
+   *
+   * @param {ProductSearchInput} query - Texto, categoría, rango de precio, disponibilidad, orden y página
+   * @param {string} [priceListCode] - Lista de precios para mostrar; los filtros usan el precio base
+   * @returns {Promise<{products: ProductResponse[], pagination: PagePagination, facets: SearchFacets}>} Página de resultados y facetas
+   *
+   * @throws {NotFoundError} Si la categoría no existe
+   * @throws {ValidationError} Si la lista de precios no existe o un monto tiene más decimales que la moneda
+   *
+   * @description El rango de precio filtra por el precio base de los productos
+   * en la moneda indicada (los de otra moneda quedan afuera). La disponibilidad
+   * es la que informó el servicio de inventario (ver `setAvailability`).
+   */
+  async searchProducts(
+    { q, category, minPrice, maxPrice, currency = config.money.defaultCurrency, inStock, sort, page, limit }: ProductSearchInput,
+    priceListCode?: string
+  ): Promise<{ products: ProductResponse[]; pagination: PagePagination; facets: SearchFacets }> {
+    const priceList = await this.priceListService.resolvePriceList(priceListCode);
+
+    const filters: ProductSearchFilters = {
+      query: q || undefined,
+      currency,
+      minPriceMinor: minPrice === undefined ? undefined : toMinorUnits(minPrice, currency),
+      maxPriceMinor: maxPrice === undefined ? undefined : toMinorUnits(maxPrice, currency),
+      inStock
+    };
+    if (category) {
+      filters.categoryIds = await this.categoryService.getCategoryTreeIds(category);
+    }
+
+    const { productIds, total, facets } = await this.searchService.search(filters, sort, page, limit);
+
+    // Respetar el orden de la búsqueda
+    const found = new Map((await this.productRepository.findActiveProductsByIds(productIds)).map((product) => [product.id, product]));
+    const products = productIds.flatMap((id) => found.get(id) ?? []);
+    const prices = await this.getPrices(products, priceList);
+
+    return {
+      products: products.map((product) => this.formatProduct(product, prices.get(product.id) ?? null)),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      facets
+    };
+  }
+
+  /**
+   * Obtiene un producto activo con los breadcrumbs de sus categorías y su matriz de opciones y variantes
+   *
+   * @param {string} id - ID del producto
+   * @param {string} [priceListCode] - Lista de precios; sin lista se usa el precio base
+   * @returns {Promise<ProductDetailResponse>} Producto encontrado
+   *
+   * @throws {NotFoundError} Si el producto no existe o está archivado
+   * @throws {ValidationError} Si la lista de precios no existe
+   */
+  async getProduct(id: string, priceListCode?: string): Promise<ProductDetailResponse> {
+    const priceList = await this.priceListService.resolvePriceList(priceListCode);
+    const product = await this.productRepository.findActiveProductById(id);
+
+    if (!product) {
+      throw new NotFoundError('Producto no encontrado');
+    }
+
+    const price = (await this.getPrices([product], priceList)).get(product.id) ?? null;
+    const [breadcrumbs, optionMatrix] = await Promise.all([
+      this.categoryService.getBreadcrumbs(product.categories.map(({ category }) => category.id)),
+      this.variantService.getOptionMatrix(product, price, priceList)
+    ]);
+
+    return { ...this.formatProduct(product, price), breadcrumbs, ...optionMatrix };
+  }
+
+  /**
+   * Actualiza los campos indicados de un producto activo
+   *
+   * @param {string} id - ID del producto
+   * @param {ProductChanges} changes - Campos a actualizar (`categoryIds` reemplaza las categorías;
+   * `currency` exige `price`)
+   * @returns {Promise<ProductResponse>} Producto actualizado, con su precio base
+   *
+   * @throws {NotFoundError} Si el producto no existe o está archivado
+   * @throws {ValidationError} Si alguna categoría no existe o el precio tiene más decimales que la moneda
+   * @throws {ConflictError} Si cambia la moneda y hay variantes con precio propio
+   */
+  async updateProduct(id: string, { price, currency, dimensions, ...changes }: ProductChanges): Promise<ProductResponse> {
+    const current = await this.productRepository.findActiveProductById(id);
+    if (!current) {
+      throw new NotFoundError('Producto no encontrado');
+    }
+
+    const data: UpdateProductData = { ...changes, ...this.toDimensionColumns(dimensions) };
+    if (price !== undefined) {
+      data.currency = currency ?? current.currency;
+      data.priceMinor = toMinorUnits(price, data.currency);
+    }
+
+    // Los precios propios de las variantes están en la moneda del producto
+    if (data.currency && data.currency !== current.currency && (await this.variantService.hasPriceOverrides(id))) {
+      throw new ConflictError('Quitar los precios propios de las variantes antes de cambiar la moneda');
+    }
+
+    await this.categoryService.assertCategoriesExist(data.categoryIds ?? []);
+
+    const product = await this.productRepository.updateActiveProduct(id, data);
+
+    if (!product) {
+      throw new NotFoundError('Producto no encontrado');
+    }
+
+    return this.formatProduct(product, this.getBasePrice(product));
+  }
+
+  /**
+   * Archiva un producto (soft delete)
+   *
+   * @param {string} id - ID del producto
+   *
+   * @throws {NotFoundError} Si el producto no existe o ya estaba archivado
+   */
+  async archiveProduct(id: string): Promise<void> {
+    const archived = await this.productRepository.archiveProduct(id);
+
+    if (!archived) {
+      throw new NotFoundError('Producto no encontrado');
+    }
+  }
+
+  /**
+   * Actualiza la disponibilidad que informa el servicio de inventario
+   *
+   * @param {ProductAvailability[]} products - Productos con y sin stock disponible
+   * @returns {Promise<{updated: number}>} Cantidad de productos cuya disponibilidad cambió
+   *
+   * @description Los productos que no existen se ignoran: el inventario puede
+   * tener stock cargado de productos que el catálogo ya no tiene.
+   */
+  async setAvailability(products: ProductAvailability[]): Promise<{ updated: number }> {
+    const inStock = products.filter((product) => product.inStock).map((product) => product.productId);
+    const outOfStock = products.filter((product) => !product.inStock).map((product) => product.productId);
+
+    let updated = 0;
+    if (inStock.length > 0) {
+      updated += await this.productRepository.setAvailability(inStock, true);
+    }
+    if (outOfStock.length > 0) {
+      updated += await this.productRepository.setAvailability(outOfStock, false);
+    }
+
+    return { updated };
+  }
+
+  /**
+   * Precio de cada producto: el de la lista elegida o, sin lista, el precio base
+   * (los productos sin precio en la lista no aparecen en el mapa)
+   *
+   * @private
+   */
+  private async getPrices(products: ProductWithCategories[], priceList: PriceList | null): Promise<Map<string, Money>> {
+    if (!priceList) {
+      return new Map(products.map((product) => [product.id, this.getBasePrice(product)]));
+    }
+
+    const amounts = await this.priceListService.getProductPrices(priceList, products.map((product) => product.id));
+    return new Map([...amounts].map(([productId, amountMinor]) => [productId, toMoney(amountMinor, priceList.currency)]));
+  }
+
+  /**
+   * Precio base del producto en su moneda
+   *
+   * @private
+   */
+  private getBasePrice(product: ProductWithCategories): Money {
+    return toMoney(product.priceMinor, product.currency);
+  }
+
+  /**
+   * Columnas de las medidas del paquete (sin cambios si no se enviaron; null las borra)
+   *
+   * @private
+   */
+  private toDimensionColumns(dimensions: ProductDimensions | null | undefined): Pick<CreateProductData, 'lengthMm' | 'widthMm' | 'heightMm'> {
+    if (dimensions === undefined) {
+      return {};
+    }
+    return {
+      lengthMm: dimensions?.lengthMm ?? null,
+      widthMm: dimensions?.widthMm ?? null,
+      heightMm: dimensions?.heightMm ?? null
+    };
+  }
+
+  /**
+   * Formatea un producto para la respuesta (sin campos internos)
+   *
+   * @private
+   */
+  private formatProduct(product: ProductWithCategories, price: Money | null): ProductResponse {
+    return {
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      price,
+      weightGrams: product.weightGrams,
+      dimensions:
+        product.lengthMm !== null && product.widthMm !== null && product.heightMm !== null
+          ? { lengthMm: product.lengthMm, widthMm: product.widthMm, heightMm: product.heightMm }
+          : null,
+      categories: product.categories.map(({ category }) => ({
+        id: category.id,
+        name: category.name,
+        slug: category.slug
+      })),
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { formatMinorUnits, toMinorUnits } from '@ecom/service';
+import { SearchRepository } from '../search.repository';
+import { PriceRangeFacet, ProductSearchFilters, ProductSearchSort, SearchFacets } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Servicio de búsqueda de productos
+ *
+ * @class SearchService
+ * @description Búsqueda full-text sobre nombre y descripción con filtros,
+ * orden y facetas. Cada faceta se cuenta con todos los filtros menos el suyo,
+ * para mostrar cuántos resultados habría al cambiarlo.
+ */
+export class SearchService {
+  /** Repositorio con las consultas de búsqueda */
+  private searchRepository: SearchRepository;
+
+  /**
+   * Constructor del servicio de búsqueda
+   * Inicializa el repositorio de datos
+   */
+  constructor() {
+    this.searchRepository = new SearchRepository();
+  }
+
+  /**
+   * Busca productos activos
+   *
+   * @param {ProductSearchFilters} filters - Texto, categorías, rango de precio y disponibilidad
+   * @param {ProductSearchSort} sort - Orden; `relevance` sin texto ordena por más nuevos
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Productos por página
+   * @returns {Promise<{productIds: string[], total: number, facets: SearchFacets}>} IDs de la página, total y facetas
+   */
+  async search(
+    filters: ProductSearchFilters,
+    sort: ProductSearchSort,
+    page: number,
+    limit: number
+  ): Promise<{ productIds: string[]; total: number; facets: SearchFacets }> {
+    const effectiveSort = sort === 'relevance' && !filters.query ? 'newest' : sort;
+    const boundaries = config.search.priceBuckets.map((amount) => toMinorUnits(String(amount), filters.currency));
+
+    const [productIds, total, categories, priceBuckets, availability] = await Promise.all([
+      this.searchRepository.searchProductIds(filters, effectiveSort, limit, (page - 1) * limit),
+      this.searchRepository.countProducts(filters),
+      this.searchRepository.countByCategory(filters, config.search.maxCategoryFacets),
+      this.searchRepository.countByPriceBucket(filters, boundaries),
+      this.searchRepository.countByAvailability(filters)
+    ]);
+
+    return {
+      productIds,
+      total,
+      facets: {
+        categories,
+        price: {
+          currency: filters.currency,
+          ranges: priceBuckets.map(({ bucket, count }) => this.toPriceRange(bucket, count, boundaries, filters.currency))
+        },
+        availability: {
+          inStock: availability.inStock,
+          outOfStock: availability.total - availability.inStock
+        }
+      }
+    };
+  }
+
+  /**
+   * Convierte un bucket de `width_bucket` en un rango de montos
+   * (0: menos que el primer límite; el último: desde el último límite)
+   *
+   * @private
+   */
+  private toPriceRange(bucket: number, count: number, boundaries: number[], currency: string): PriceRangeFacet {
+    return {
+      from: bucket > 0 ? formatMinorUnits(boundaries[bucket - 1], currency) : null,
+      to: bucket < boundaries.length ? formatMinorUnits(boundaries[bucket], currency) : null,
+      count
+    };
+  }
+}
@@ -0,0 +1,321 @@
+import { toMinorUnits, toMoney } from '@ecom/service';
+import { ProductRepository } from '../product.repository';
+import { VariantRepository } from '../variant.repository';
+import { PriceListService } from './price-list.service';
+import {
+  ConflictError,
+  CreateVariantData,
+  Money,
+  NewVariantInput,
+  NotFoundError,
+  OptionInput,
+  OptionMatrix,
+  PriceList,
+  Product,
+  ProductOptionWithValues,
+  ProductVariantWithValues,
+  UpdateVariantData,
+  ValidationError,
+  VariantChanges,
+  VariantResponse
+} from '../types/index';
+
+/**
+ * Servicio de opciones y variantes de productos
+ *
+ * @class VariantService
+ * @description Un producto define opciones (ej: Talle y Color) con sus valores;
+ * cada variante elige un valor por opción y tiene SKU propio. No puede haber dos
+ * variantes del mismo producto con la misma combinación de valores.
+ */
+export class VariantService {
+  /** Repositorio para acceso a opciones y variantes */
+  private variantRepository: VariantRepository;
+
+  /** Repositorio de productos, para verificar que el producto esté activo */
+  private productRepository: ProductRepository;
+
+  /** Precios de variantes en listas de precios */
+  private priceListService: PriceListService;
+
+  /**
+   * Constructor del servicio de variantes
+   * Inicializa los repositorios de datos y el servicio de listas de precios
+   */
+  constructor() {
+    this.variantRepository = new VariantRepository();
+    this.productRepository = new ProductRepository();
+    this.priceListService = new PriceListService();
+  }
+
+  /**
+   * Devuelve las opciones del producto y todas sus variantes
+   *
+   * @param {Product} product - Producto
+   * @param {Money | null} productPrice - Precio del producto en la lista elegida, para variantes sin precio propio
+   * @param {PriceList | null} [priceList] - Lista de precios; null usa los precios base
+   * @returns {Promise<OptionMatrix>} Opciones con sus valores y variantes con el valor de cada opción
+   */
+  async getOptionMatrix(
+    product: Product,
+    productPrice: Money | null,
+    priceList: PriceList | null = null
+  ): Promise<OptionMatrix> {
+    const [options, variants] = await Promise.all([
+      this.variantRepository.findOptions(product.id),
+      this.variantRepository.findVariants(product.id)
+    ]);
+
+    // Precio propio de cada variante: el de la lista o, sin lista, el base (en la moneda del producto)
+    const ownPrices = priceList
+      ? await this.priceListService.getVariantPrices(priceList, variants.map((variant) => variant.id))
+      : new Map(variants.flatMap((variant) => (variant.priceMinor !== null ? [[variant.id, variant.priceMinor]] : [])));
+    const currency = priceList?.currency ?? product.currency;
+
+    return {
+      options: options.map((option) => ({
+        id: option.id,
+        name: option.name,
+        values: option.values.map(({ id, value }) => ({ id, value }))
+      })),
+      variants: variants.map((variant) => {
+        const own = ownPrices.get(variant.id);
+        return this.formatVariant(variant, own !== undefined ? toMoney(own, currency) : productPrice, own !== undefined);
+      })
+    };
+  }
+
+  /**
+   * Define las opciones de un producto, reemplazando las actuales
+   *
+   * @param {string} productId - ID del producto
+   * @param {OptionInput[]} options - Opciones en orden, cada una con sus valores en orden
+   * @returns {Promise<OptionMatrix>} Opciones y variantes resultantes
+   *
+   * @throws {NotFoundError} Si el producto no existe o está archivado
+   * @throws {ConflictError} Si el producto tiene variantes y se agregan o quitan opciones,
+   * o si se quita un valor que usa alguna variante
+   *
+   * @description Los valores existentes conservan su ID, así que renombrar un valor
+   * equivale a quitarlo y agregar otro.
+   */
+  async setOptions(productId: string, options: OptionInput[]): Promise<OptionMatrix> {
+    const product = await this.findProductOrFail(productId);
+
+    const [current, variantCount, usedValueIds] = await Promise.all([
+      this.variantRepository.findOptions(productId),
+      this.variantRepository.countVariants(productId),
+      this.variantRepository.findUsedOptionValueIds(productId)
+    ]);
+
+    // Cada variante tiene un valor por opción: con variantes, el set de opciones queda fijo
+    const currentNames = current.map((option) => option.name).sort().join('\n');
+    const newNames = options.map((option) => option.name).sort().join('\n');
+    if (variantCount > 0 && currentNames !== newNames) {
+      throw new ConflictError('No se pueden agregar ni quitar opciones de un producto con variantes');
+    }
+
+    const used = new Set(usedValueIds);
+    for (const option of current) {
+      const values = new Set(options.find((input) => input.name === option.name)?.values ?? []);
+      const removed = option.values.find((value) => used.has(value.id) && !values.has(value.value));
+      if (removed) {
+        throw new ConflictError(`El valor "${removed.value}" de ${option.name} está en uso por variantes`);
+      }
+    }
+
+    await this.variantRepository.replaceOptions(productId, options);
+    return this.getOptionMatrix(product, toMoney(product.priceMinor, product.currency));
+  }
+
+  /**
+   * Crea variantes en lote (todas o ninguna)
+   *
+   * @param {string} productId - ID del producto
+   * @param {NewVariantInput[]} variants - SKU, precio propio, código de barras, estado y valor por opción
+   * @returns {Promise<OptionMatrix>} Opciones y variantes resultantes
+   *
+   * @throws {NotFoundError} Si el producto no existe o está archivado
+   * @throws {ValidationError} Si una variante no indica un valor válido para cada opción,
+   * o si dos variantes del lote repiten combinación o código de barras
+   * @throws {ConflictError} Si la combinación ya existe o el SKU o código de barras están en uso
+   */
+  async createVariants(productId: string, variants: NewVariantInput[]): Promise<OptionMatrix> {
+    const product = await this.findProductOrFail(productId);
+
+    const [options, existing] = await Promise.all([
+      this.variantRepository.findOptions(productId),
+      this.variantRepository.findVariants(productId)
+    ]);
+
+    const existingKeys = new Set(existing.map((variant) => variant.combinationKey));
+    const batchKeys = new Set<string>();
+
+    const data: CreateVariantData[] = variants.map(({ options: selected, price, ...variant }) => {
+      const optionValueIds = this.resolveOptionValues(options, selected, variant.sku);
+      const combinationKey = [...optionValueIds].sort().join(':');
+
+      if (batchKeys.has(combinationKey)) {
+        throw new ValidationError(`Variante ${variant.sku}: combinación repetida en el lote`);
+      }
+      if (existingKeys.has(combinationKey)) {
+        throw new ConflictError(`Variante ${variant.sku}: ya existe una variante con esa combinación`);
+      }
+      batchKeys.add(combinationKey);
+
+      return {
+        ...variant,
+        priceMinor: price == null ? price : toMinorUnits(price, product.currency),
+        combinationKey,
+        optionValueIds
+      };
+    });
+
+    await this.assertIdentifiersAvailable(data);
+
+    await this.variantRepository.createVariants(productId, data);
+    return this.getOptionMatrix(product, toMoney(product.priceMinor, product.currency));
+  }
+
+  /**
+   * Actualiza variantes en lote (todas o ninguna); la combinación de opciones no se modifica
+   *
+   * @param {string} productId - ID del producto
+   * @param {VariantChanges[]} changes - ID de cada variante y campos a actualizar (`price` null quita el precio propio)
+   * @returns {Promise<OptionMatrix>} Opciones y variantes resultantes
+   *
+   * @throws {NotFoundError} Si el producto no existe o está archivado, o alguna variante no es del producto
+   * @throws {ValidationError} Si dos variantes del lote repiten código de barras o un precio tiene
+   * más decimales que la moneda del producto
+   * @throws {ConflictError} Si el SKU o código de barras están en uso por otra variante
+   */
+  async updateVariants(productId: string, changes: VariantChanges[]): Promise<OptionMatrix> {
+    const product = await this.findProductOrFail(productId);
+
+    const variants: UpdateVariantData[] = changes.map(({ price, ...variant }) => ({
+      ...variant,
+      priceMinor: price == null ? price : toMinorUnits(price, product.currency)
+    }));
+
+    const existing = new Set((await this.variantRepository.findVariants(productId)).map((variant) => variant.id));
+    const unknown = variants.find((variant) => !existing.has(variant.id));
+    if (unknown) {
+      throw new NotFoundError(`Variante no encontrada: ${unknown.id}`);
+    }
+
+    await this.assertIdentifiersAvailable(variants);
+
+    await this.variantRepository.updateVariants(productId, variants);
+    return this.getOptionMatrix(product, toMoney(product.priceMinor, product.currency));
+  }
+
+  /**
+   * Indica si alguna variante del producto tiene precio propio (en la moneda del producto)
+   *
+   * @param {string} productId - ID del producto
+   * @returns {Promise<boolean>} true si hay variantes con precio propio
+   */
+  async hasPriceOverrides(productId: string): Promise<boolean> {
+    return (await this.variantRepository.countVariantsWithPrice(productId)) > 0;
+  }
+
+  /**
+   * Busca un producto activo o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findProductOrFail(productId: string) {
+    const product = await this.productRepository.findActiveProductById(productId);
+    if (!product) {
+      throw new NotFoundError('Producto no encontrado');
+    }
+    return product;
+  }
+
+  /**
+   * Traduce `{ Talle: 'M', Color: 'Rojo' }` a los IDs de los valores; exige un valor por opción
+   *
+   * @private
+   */
+  private resolveOptionValues(
+    options: ProductOptionWithValues[],
+    selected: Record<string, string>,
+    sku: string
+  ): string[] {
+    const names = options.map((option) => option.name);
+    const unknown = Object.keys(selected).find((name) => !names.includes(name));
+    if (unknown) {
+      throw new ValidationError(`Variante ${sku}: el producto no tiene la opción ${unknown}`);
+    }
+
+    return options.map((option) => {
+      const value = selected[option.name];
+      if (value === undefined) {
+        throw new ValidationError(`Variante ${sku}: falta el valor de ${option.name}`);
+      }
+
+      const match = option.values.find((candidate) => candidate.value === value);
+      if (!match) {
+        throw new ValidationError(`Variante ${sku}: "${value}" no es un valor de ${option.name}`);
+      }
+      return match.id;
+    });
+  }
+
+  /**
+   * Verifica que los SKU y códigos de barras no los use otra variante
+   * (las variantes nuevas no tienen `id`, así que cualquier coincidencia es conflicto)
+   *
+   * @private
+   */
+  private async assertIdentifiersAvailable(
+    variants: { id?: string; sku?: string; barcode?: string | null }[]
+  ): Promise<void> {
+    const skus = variants.flatMap((variant) => (variant.sku ? [variant.sku] : []));
+    const barcodes = variants.flatMap((variant) => (variant.barcode ? [variant.barcode] : []));
+
+    if (new Set(barcodes).size !== barcodes.length) {
+      throw new ValidationError('Los códigos de barras no pueden repetirse');
+    }
+
+    const [skuOwners, barcodeOwners] = await Promise.all([
+      skus.length > 0 ? this.variantRepository.findVariantsBySku(skus) : [],
+      barcodes.length > 0 ? this.variantRepository.findVariantsByBarcode(barcodes) : []
+    ]);
+
+    const takenSku = skuOwners.find((owner) =>
+      variants.some((variant) => variant.sku === owner.sku && variant.id !== owner.id)
+    );
+    if (takenSku) {
+      throw new ConflictError(`El SKU ${takenSku.sku} ya está en uso`);
+    }
+
+    const takenBarcode = barcodeOwners.find((owner) =>
+      variants.some((variant) => variant.barcode === owner.barcode && variant.id !== owner.id)
+    );
+    if (takenBarcode) {
+      throw new ConflictError(`El código de barras ${takenBarcode.barcode} ya está en uso`);
+    }
+  }
+
+  /**
+   * Formatea una variante con su precio efectivo y el valor de cada opción
+   *
+   * @private
+   */
+  private formatVariant(variant: ProductVariantWithValues, price: Money | null, priceOverride: boolean): VariantResponse {
+    return {
+      id: variant.id,
+      sku: variant.sku,
+      barcode: variant.barcode,
+      price,
+      priceOverride,
+      active: variant.active,
+      options: Object.fromEntries(
+        [...variant.optionValues]
+          .sort((a, b) => a.optionValue.option.position - b.optionValue.option.position)
+          .map(({ optionValue }) => [optionValue.option.name, optionValue.value])
+      )
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import { Money, ServiceError } from '@ecom/service';
+
+export type { Money };
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string | null;
+  priceMinor: number;
+  currency: string;
+  weightGrams: number | null;
+  lengthMm: number | null;
+  widthMm: number | null;
+  heightMm: number | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Medidas del paquete del producto, en milímetros */
+export interface ProductDimensions {
+  lengthMm: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+export interface ProductWithCategories extends Product {
+  categories: { category: Category }[];
+}
+
+export interface ProductResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Precio de la lista elegida; null si el producto no tiene precio en esa lista */
+  price: Money | null;
+  /** Peso en gramos, para el envío */
+  weightGrams: number | null;
+  dimensions: ProductDimensions | null;
+  categories: CategorySummary[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductDetailResponse extends ProductResponse, OptionMatrix {
+  /** Camino desde la raíz hasta cada categoría asignada */
+  breadcrumbs: CategorySummary[][];
+}
+
+export interface NewProductInput {
+  name: string;
+  description?: string | null;
+  /** Monto decimal en texto (ej: '19.99') */
+  price: string;
+  currency?: string;
+  weightGrams?: number | null;
+  dimensions?: ProductDimensions | null;
+  /** Reemplaza las categorías asignadas */
+  categoryIds?: string[];
+}
+
+export type ProductChanges = Partial<NewProductInput>;
+
+export interface CreateProductData extends Omit<NewProductInput, 'price' | 'currency' | 'dimensions'> {
+  priceMinor: number;
+  currency: string;
+  lengthMm?: number | null;
+  widthMm?: number | null;
+  heightMm?: number | null;
+}
+
+export type UpdateProductData = Partial<CreateProductData>;
+
+export interface ProductFilters {
+  categoryIds?: string[];
+}
+
+/** Posición en el listado de productos (del más nuevo al más viejo) */
+export interface ProductCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export type ProductSearchSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'name';
+
+export interface ProductSearchInput {
+  q?: string;
+  /** Slug de categoría (incluye subcategorías) */
+  category?: string;
+  /** Montos decimales en `currency` */
+  minPrice?: string;
+  maxPrice?: string;
+  currency?: string;
+  inStock?: boolean;
+  sort: ProductSearchSort;
+  page: number;
+  limit: number;
+}
+
+/** Disponibilidad de un producto informada por el servicio de inventario */
+export interface ProductAvailability {
+  productId: string;
+  inStock: boolean;
+}
+
+export interface ProductSearchFilters {
+  /** Texto libre con sintaxis web ("frase exacta", -excluir, or) */
+  query?: string;
+  /** Categoría y sus subcategorías */
+  categoryIds?: string[];
+  /** Moneda del filtro y de la faceta de precio */
+  currency: string;
+  minPriceMinor?: number;
+  maxPriceMinor?: number;
+  inStock?: boolean;
+}
+
+export interface PriceRangeFacet {
+  /** Monto desde (incluido); null sin mínimo */
+  from: string | null;
+  /** Monto hasta (excluido); null sin máximo */
+  to: string | null;
+  count: number;
+}
+
+export interface SearchFacets {
+  /** Categorías asignadas directamente a los productos encontrados */
+  categories: (CategorySummary & { count: number })[];
+  price: { currency: string; ranges: PriceRangeFacet[] };
+  availability: { inStock: number; outOfStock: number };
+}
+
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CategorySummary {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface CategoryResponse extends CategorySummary {
+  description: string | null;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CategoryDetailResponse extends CategoryResponse {
+  breadcrumbs: CategorySummary[];
+  children: CategorySummary[];
+}
+
+export interface CategoryTreeNode extends CategorySummary {
+  description: string | null;
+  children: CategoryTreeNode[];
+}
+
+export interface CreateCategoryData {
+  name: string;
+  slug: string;
+  description?: string | null;
+  parentId?: string | null;
+}
+
+export type UpdateCategoryData = Partial<CreateCategoryData>;
+
+export interface ProductOptionWithValues {
+  id: string;
+  name: string;
+  position: number;
+  values: { id: string; value: string; position: number }[];
+}
+
+export interface ProductVariantWithValues {
+  id: string;
+  productId: string;
+  sku: string;
+  priceMinor: number | null;
+  barcode: string | null;
+  active: boolean;
+  combinationKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+  optionValues: { optionValue: { id: string; value: string; option: { name: string; position: number } } }[];
+}
+
+export interface OptionResponse {
+  id: string;
+  name: string;
+  values: { id: string; value: string }[];
+}
+
+export interface VariantResponse {
+  id: string;
+  sku: string;
+  barcode: string | null;
+  /** Precio efectivo: el propio de la variante o el del producto (null si no tiene precio en la lista) */
+  price: Money | null;
+  /** true si la variante define su propio precio */
+  priceOverride: boolean;
+  active: boolean;
+  /** Valor elegido para cada opción, ej: { Talle: 'M', Color: 'Rojo' } */
+  options: Record<string, string>;
+}
+
+export interface OptionMatrix {
+  options: OptionResponse[];
+  variants: VariantResponse[];
+}
+
+export interface OptionInput {
+  name: string;
+  values: string[];
+}
+
+export interface NewVariantInput {
+  sku: string;
+  /** Monto decimal en la moneda del producto; null usa el precio del producto */
+  price?: string | null;
+  barcode?: string | null;
+  active: boolean;
+  /** Valor elegido para cada opción del producto */
+  options: Record<string, string>;
+}
+
+export interface CreateVariantData extends Omit<NewVariantInput, 'options' | 'price'> {
+  priceMinor?: number | null;
+  combinationKey: string;
+  optionValueIds: string[];
+}
+
+export interface VariantChanges {
+  id: string;
+  sku?: string;
+  price?: string | null;
+  barcode?: string | null;
+  active?: boolean;
+}
+
+export interface UpdateVariantData extends Omit<VariantChanges, 'price'> {
+  priceMinor?: number | null;
+}
+
+export interface PriceList {
+  id: string;
+  code: string;
+  name: string;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PriceListResponse {
+  code: string;
+  name: string;
+  currency: string;
+}
+
+export interface PriceInput {
+  productId: string;
+  /** Sin variante el precio es del producto */
+  variantId?: string;
+  /** Monto decimal en la moneda de la lista; null quita el precio */
+  amount: string | null;
+}
+
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+}
+
+// Errores personalizados
+export class CatalogError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400
+  ) {
+    super(code, message, statusCode);
+    this.name = 'CatalogError';
+  }
+}
+
+export class NotFoundError extends CatalogError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class ValidationError extends CatalogError {
+  constructor(message: string) {
+    super('VALIDATION_ERROR', message, 400);
+  }
+}
+
+export class ConflictError extends CatalogError {
+  constructor(message: string) {
+    super('CONFLICT', message, 409);
+  }
+}
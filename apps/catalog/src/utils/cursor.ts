@@ -0,0 +1,28 @@
+import { ProductCursor } from '../types/index';
+
+/**
+ * Codifica la posición de un producto en el listado como cursor opaco
+ *
+ * @param {ProductCursor} cursor - Fecha de creación e ID del último producto de la página
+ * @returns {string} Cursor en base64url
+ */
+export function encodeProductCursor({ createdAt, id }: ProductCursor): string {
+  return Buffer.from(`${createdAt.toISOString()}|${id}`).toString('base64url');
+}
+
+/**
+ * Decodifica un cursor generado por `encodeProductCursor`
+ *
+ * @param {string} value - Cursor recibido en la query
+ * @returns {ProductCursor | null} Posición en el listado, o null si el cursor es inválido
+ */
+export function decodeProductCursor(value: string): ProductCursor | null {
+  const [createdAt, id, ...rest] = Buffer.from(value, 'base64url').toString().split('|');
+  const date = new Date(createdAt);
+
+  if (rest.length > 0 || !id || Number.isNaN(date.getTime()) || !/^[0-9a-f-]{36}$/i.test(id)) {
+    return null;
+  }
+
+  return { createdAt: date, id };
+}
@@ -0,0 +1,19 @@
+/**
+ * Genera un slug para URLs a partir de un texto
+ *
+ * @param {string} text - Texto de origen (ej: nombre de la categoría)
+ * @returns {string} Slug en minúsculas, sin acentos y separado por guiones
+ *
+ * @example
+ * ```typescript
+ * slugify('Electrónica y Audio'); // 'electronica-y-audio'
+ * ```
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,119 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { VariantService } from './services/variant.service';
+import { productParamsSchema } from './product.schemas';
+import { setOptionsSchema, createVariantsSchema, updateVariantsSchema } from './variant.schemas';
+
+/**
+ * Controlador de opciones y variantes de productos
+ *
+ * @class VariantController
+ * @description Endpoints de escritura (requieren catalog:write). Todos responden
+ * con la matriz resultante `{ options, variants }` del producto; la lectura se
+ * hace con el detalle del producto.
+ */
+export class VariantController {
+  /** Servicio de variantes para lógica de negocio */
+  private variantService: VariantService;
+
+  /**
+   * Constructor del controlador de variantes
+   * Inicializa el servicio de variantes
+   */
+  constructor() {
+    this.variantService = new VariantService();
+  }
+
+  /**
+   * Endpoint para definir las opciones de un producto (reemplaza las actuales)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {options: [{name, values}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Opciones y variantes del producto
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Producto no encontrado o archivado
+   * @throws {409} Cambio de opciones con variantes existentes o valor en uso
+   * @throws {500} Error interno del servidor
+   */
+  async setOptions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+      const { options } = setOptionsSchema.parse(request.body);
+
+      const result = await this.variantService.setOptions(id, options);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear variantes en lote
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {variants: [{sku, price?, barcode?, active?, options}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Opciones y variantes del producto
+   *
+   * @throws {400} Error de validación o combinación de opciones inválida
+   * @throws {404} Producto no encontrado o archivado
+   * @throws {409} Combinación existente, SKU o código de barras en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createVariants(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+      const { variants } = createVariantsSchema.parse(request.body);
+
+      const result = await this.variantService.createVariants(id, variants);
+
+      return reply.code(201).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar variantes en lote
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {variants: [{id, sku?, price?, barcode?, active?}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Opciones y variantes del producto
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Producto o variante no encontrados
+   * @throws {409} SKU o código de barras en uso
+   * @throws {500} Error interno del servidor
+   */
+  async updateVariants(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = productParamsSchema.parse(request.params);
+      const { variants } = updateVariantsSchema.parse(request.body);
+
+      const result = await this.variantService.updateVariants(id, variants);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Variant Controller');
+  }
+}
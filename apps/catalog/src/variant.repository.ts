@@ -0,0 +1,149 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CreateVariantData,
+  OptionInput,
+  ProductOptionWithValues,
+  ProductVariantWithValues,
+  UpdateVariantData
+} from './types/index';
+
+// Valores de opción de la variante, con el nombre de la opción
+const withOptionValues = {
+  optionValues: {
+    include: {
+      optionValue: {
+        select: { id: true, value: true, option: { select: { name: true, position: true } } },
+      },
+    },
+  },
+} satisfies Prisma.ProductVariantInclude;
+
+export class VariantRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Opciones del producto con sus valores, en el orden definido
+  async findOptions(productId: string): Promise<ProductOptionWithValues[]> {
+    return await this.prisma.productOption.findMany({
+      where: { productId },
+      select: {
+        id: true,
+        name: true,
+        position: true,
+        values: {
+          select: { id: true, value: true, position: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  // Reemplazar las opciones del producto: actualiza el orden, crea las nuevas y borra las que no están
+  async replaceOptions(productId: string, options: OptionInput[]): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const [position, { name, values }] of options.entries()) {
+        const option = await tx.productOption.upsert({
+          where: { productId_name: { productId, name } },
+          create: { productId, name, position },
+          update: { position },
+        });
+
+        for (const [valuePosition, value] of values.entries()) {
+          await tx.productOptionValue.upsert({
+            where: { optionId_value: { optionId: option.id, value } },
+            create: { optionId: option.id, value, position: valuePosition },
+            update: { position: valuePosition },
+          });
+        }
+
+        await tx.productOptionValue.deleteMany({
+          where: { optionId: option.id, value: { notIn: values } },
+        });
+      }
+
+      await tx.productOption.deleteMany({
+        where: { productId, name: { notIn: options.map((option) => option.name) } },
+      });
+    });
+  }
+
+  // Variantes del producto con sus valores de opción
+  async findVariants(productId: string): Promise<ProductVariantWithValues[]> {
+    return await this.prisma.productVariant.findMany({
+      where: { productId },
+      include: withOptionValues,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Contar variantes del producto
+  async countVariants(productId: string): Promise<number> {
+    return await this.prisma.productVariant.count({
+      where: { productId },
+    });
+  }
+
+  // Contar variantes del producto con precio propio
+  async countVariantsWithPrice(productId: string): Promise<number> {
+    return await this.prisma.productVariant.count({
+      where: { productId, priceMinor: { not: null } },
+    });
+  }
+
+  // IDs de los valores de opción usados por alguna variante del producto
+  async findUsedOptionValueIds(productId: string): Promise<string[]> {
+    const rows = await this.prisma.variantOptionValue.findMany({
+      where: { variant: { productId } },
+      select: { optionValueId: true },
+      distinct: ['optionValueId'],
+    });
+    return rows.map((row) => row.optionValueId);
+  }
+
+  // Variantes (de cualquier producto) que ya usan alguno de los SKU
+  async findVariantsBySku(skus: string[]): Promise<{ id: string; sku: string }[]> {
+    return await this.prisma.productVariant.findMany({
+      where: { sku: { in: skus } },
+      select: { id: true, sku: true },
+    });
+  }
+
+  // Variantes (de cualquier producto) que ya usan alguno de los códigos de barras
+  async findVariantsByBarcode(barcodes: string[]): Promise<{ id: string; barcode: string | null }[]> {
+    return await this.prisma.productVariant.findMany({
+      where: { barcode: { in: barcodes } },
+      select: { id: true, barcode: true },
+    });
+  }
+
+  // Crear variantes en una transacción (todas o ninguna)
+  async createVariants(productId: string, variants: CreateVariantData[]): Promise<void> {
+    await this.prisma.$transaction(
+      variants.map(({ optionValueIds, ...data }) =>
+        this.prisma.productVariant.create({
+          data: {
+            ...data,
+            productId,
+            optionValues: { create: optionValueIds.map((optionValueId) => ({ optionValueId })) },
+          },
+        })
+      )
+    );
+  }
+
+  // Actualizar variantes del producto en una transacción (todas o ninguna)
+  async updateVariants(productId: string, variants: UpdateVariantData[]): Promise<void> {
+    await this.prisma.$transaction(
+      variants.map(({ id, ...data }) =>
+        this.prisma.productVariant.updateMany({
+          where: { id, productId },
+          data,
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { amountSchema } from './price-list.schemas';
+
+// Nombre de opción o valor (ej: 'Talle', 'XL')
+const optionTextSchema = z
+  .string()
+  .trim()
+  .min(1, 'No puede estar vacío')
+  .max(50, 'No puede superar 50 caracteres');
+
+// SKU: letras, números, puntos, guiones y guiones bajos
+const skuSchema = z
+  .string()
+  .trim()
+  .min(1, 'SKU es requerido')
+  .max(64, 'SKU no puede superar 64 caracteres')
+  .regex(/^[A-Za-z0-9._-]+$/, 'SKU solo puede contener letras, números, puntos y guiones');
+
+// Código de barras (EAN/UPC/GTIN): solo dígitos
+const barcodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{8,14}$/, 'Código de barras debe tener entre 8 y 14 dígitos');
+
+const hasUniqueItems = (items: string[]) => new Set(items).size === items.length;
+
+// Schema para definir las opciones de un producto (reemplaza las actuales)
+export const setOptionsSchema = z.object({
+  options: z
+    .array(
+      z.object({
+        name: optionTextSchema,
+        values: z
+          .array(optionTextSchema)
+          .min(1, 'Cada opción necesita al menos un valor')
+          .max(50, 'Máximo 50 valores por opción')
+          .refine(hasUniqueItems, 'Los valores de una opción no pueden repetirse'),
+      })
+    )
+    .max(5, 'Máximo 5 opciones por producto')
+    .refine((options) => hasUniqueItems(options.map((option) => option.name)), 'Las opciones no pueden repetirse'),
+});
+
+// Schema para crear variantes en lote
+export const createVariantsSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        sku: skuSchema,
+        // Precio propio en la moneda del producto (null usa el del producto)
+        price: amountSchema.nullable().optional(),
+        barcode: barcodeSchema.nullable().optional(),
+        active: z.boolean().default(true),
+        // Valor elegido para cada opción del producto: { Talle: 'M', Color: 'Rojo' }
+        options: z.record(z.string(), optionTextSchema).default({}),
+      })
+    )
+    .min(1, 'Debe indicar al menos una variante')
+    .max(100, 'Máximo 100 variantes por request')
+    .refine((variants) => hasUniqueItems(variants.map((variant) => variant.sku)), 'Los SKU no pueden repetirse'),
+});
+
+// Schema para actualizar variantes en lote (la combinación de opciones no se modifica)
+export const updateVariantsSchema = z.object({
+  variants: z
+    .array(
+      z
+        .object({
+          id: z.string().uuid('ID de variante inválido'),
+          sku: skuSchema.optional(),
+          price: amountSchema.nullable().optional(),
+          barcode: barcodeSchema.nullable().optional(),
+          active: z.boolean().optional(),
+        })
+        .refine(({ id: _id, ...fields }) => Object.values(fields).some((value) => value !== undefined), {
+          message: 'Debe indicar al menos un campo a actualizar',
+        })
+    )
+    .min(1, 'Debe indicar al menos una variante')
+    .max(100, 'Máximo 100 variantes por request')
+    .refine((variants) => hasUniqueItems(variants.map((variant) => variant.id)), 'Las variantes no pueden repetirse')
+    .refine(
+      (variants) => hasUniqueItems(variants.flatMap((variant) => (variant.sku ? [variant.sku] : []))),
+      'Los SKU no pueden repetirse'
+    ),
+});
+
+// Tipos inferidos de los schemas
+export type SetOptionsInput = z.infer<typeof setOptionsSchema>;
+export type CreateVariantsInput = z.infer<typeof createVariantsSchema>;
+export type UpdateVariantsInput = z.infer<typeof updateVariantsSchema>;
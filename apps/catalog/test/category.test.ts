@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CategoryService } from '../src/services/category.service';
+import { Category, NotFoundError, UpdateCategoryData, ValidationError } from '../src/types/index';
+
+// Sin base de datos: el repositorio se reemplaza por un doble en memoria
+vi.mock('../src/category.repository');
+
+/** Repositorio en memoria con la misma semántica que las consultas recursivas de Prisma */
+class InMemoryCategoryRepository {
+  categories = new Map<string, Category>();
+
+  add(id: string, parentId: string | null = null) {
+    const now = new Date();
+    this.categories.set(id, { id, name: id, slug: id, description: null, parentId, createdAt: now, updatedAt: now });
+  }
+
+  async findCategoryById(id: string) {
+    return this.categories.get(id) ?? null;
+  }
+
+  async slugExists(slug: string) {
+    return [...this.categories.values()].some((category) => category.slug === slug);
+  }
+
+  // Camino desde la raíz hasta la categoría (incluida)
+  async findAncestors(id: string) {
+    const path: Category[] = [];
+    for (let current = this.categories.get(id); current && !path.includes(current); current = this.categories.get(current.parentId ?? '')) {
+      path.unshift(current);
+    }
+    return path.map(({ id, name, slug }) => ({ id, name, slug }));
+  }
+
+  async updateCategory(id: string, data: UpdateCategoryData) {
+    return Object.assign(this.categories.get(id)!, data);
+  }
+
+  // null si la categoría está entre los ancestros del nuevo padre (o es el padre)
+  async moveCategory(id: string, data: UpdateCategoryData & { parentId: string }) {
+    const ancestors = await this.findAncestors(data.parentId);
+    if (ancestors.some((ancestor) => ancestor.id === id)) {
+      return null;
+    }
+    return await this.updateCategory(id, data);
+  }
+}
+
+let repository: InMemoryCategoryRepository;
+let service: CategoryService;
+
+beforeEach(() => {
+  // ropa > hombre > remeras; calzado
+  repository = new InMemoryCategoryRepository();
+  repository.add('ropa');
+  repository.add('hombre', 'ropa');
+  repository.add('remeras', 'hombre');
+  repository.add('calzado');
+
+  service = new CategoryService();
+  Object.assign(service, { categoryRepository: repository });
+});
+
+describe('mover categorías', () => {
+  it('mueve una categoría bajo otro padre', async () => {
+    const moved = await service.updateCategory('hombre', { parentId: 'calzado' });
+
+    expect(moved.parentId).toBe('calzado');
+    expect((await repository.findAncestors('remeras')).map((category) => category.id)).toEqual(['calzado', 'hombre', 'remeras']);
+  });
+
+  it('no permite que una categoría sea su propio padre', async () => {
+    await expect(service.updateCategory('hombre', { parentId: 'hombre' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('no permite moverla dentro de una subcategoría propia', async () => {
+    await expect(service.updateCategory('ropa', { parentId: 'remeras' })).rejects.toThrow(
+      'Una categoría no puede moverse dentro de sí misma ni de sus subcategorías'
+    );
+
+    expect(repository.categories.get('ropa')!.parentId).toBeNull();
+  });
+
+  it('no aplica el resto de los cambios si el movimiento forma un ciclo', async () => {
+    await expect(service.updateCategory('ropa', { name: 'Indumentaria', parentId: 'hombre' })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(repository.categories.get('ropa')!.name).toBe('ropa');
+  });
+
+  it('rechaza un padre que no existe', async () => {
+    await expect(service.updateCategory('hombre', { parentId: 'inexistente' })).rejects.toThrow('Categoría padre no encontrada');
+  });
+
+  it('sin padre la categoría queda como raíz', async () => {
+    const moved = await service.updateCategory('remeras', { parentId: null });
+
+    expect(moved.parentId).toBeNull();
+  });
+
+  it('rechaza una categoría que no existe', async () => {
+    await expect(service.updateCategory('inexistente', { parentId: 'ropa' })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { decodeProductCursor, encodeProductCursor } from '../src/utils/cursor';
+
+const ID = '0b7e6a4e-3c1f-4d2a-9f5b-1a2b3c4d5e6f';
+const CREATED_AT = new Date('2025-03-14T15:09:26.535Z');
+
+const encode = (raw: string) => Buffer.from(raw).toString('base64url');
+
+describe('cursor de productos', () => {
+  it('decodifica el cursor que codifica', () => {
+    const cursor = encodeProductCursor({ createdAt: CREATED_AT, id: ID });
+
+    expect(decodeProductCursor(cursor)).toEqual({ createdAt: CREATED_AT, id: ID });
+  });
+
+  it('el cursor es base64url (sin caracteres a escapar en la query)', () => {
+    expect(encodeProductCursor({ createdAt: CREATED_AT, id: ID })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rechaza un cursor que no es base64url de fecha e ID', () => {
+    expect(decodeProductCursor('no-es-un-cursor')).toBeNull();
+    expect(decodeProductCursor('')).toBeNull();
+  });
+
+  it('rechaza un cursor sin ID', () => {
+    expect(decodeProductCursor(encode(CREATED_AT.toISOString()))).toBeNull();
+    expect(decodeProductCursor(encode(`${CREATED_AT.toISOString()}|`))).toBeNull();
+  });
+
+  it('rechaza una fecha inválida', () => {
+    expect(decodeProductCursor(encode(`ayer|${ID}`))).toBeNull();
+  });
+
+  it('rechaza un ID que no es UUID', () => {
+    expect(decodeProductCursor(encode(`${CREATED_AT.toISOString()}|1 OR 1=1`))).toBeNull();
+  });
+
+  it('rechaza partes de más', () => {
+    expect(decodeProductCursor(encode(`${CREATED_AT.toISOString()}|${ID}|extra`))).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { formatMinorUnits, ServiceError, toMinorUnits } from '@ecom/service';
+import { createProductSchema, searchProductsQuerySchema } from '../src/product.schemas';
+
+describe('precios en texto', () => {
+  it('acepta montos decimales en texto', () => {
+    const result = searchProductsQuerySchema.safeParse({ minPrice: ' 19.99 ', maxPrice: '1500' });
+
+    expect(result.success && [result.data.minPrice, result.data.maxPrice]).toEqual(['19.99', '1500']);
+  });
+
+  it('rechaza montos numéricos, negativos o con notación', () => {
+    for (const price of [19.99, '-1', '1e3', '19,99', '.5', '12345678901']) {
+      expect(searchProductsQuerySchema.safeParse({ minPrice: price }).success).toBe(false);
+    }
+  });
+
+  it('rechaza un mínimo mayor al máximo comparando como números', () => {
+    expect(searchProductsQuerySchema.safeParse({ minPrice: '100', maxPrice: '25.5' }).success).toBe(false);
+    expect(searchProductsQuerySchema.safeParse({ minPrice: '9.99', maxPrice: '10' }).success).toBe(true);
+  });
+
+  it('normaliza la moneda y rechaza las que no son ISO 4217', () => {
+    const result = searchProductsQuerySchema.safeParse({ currency: 'eur' });
+
+    expect(result.success && result.data.currency).toBe('EUR');
+    expect(searchProductsQuerySchema.safeParse({ currency: 'XXY' }).success).toBe(false);
+  });
+
+  it('el precio de un producto usa el mismo formato', () => {
+    expect(createProductSchema.shape.price.safeParse('0.5').success).toBe(true);
+    expect(createProductSchema.shape.price.safeParse(0.5).success).toBe(false);
+  });
+});
+
+describe('toMinorUnits', () => {
+  it('convierte según los decimales de la moneda', () => {
+    expect(toMinorUnits('19.99', 'USD')).toBe(1999);
+    expect(toMinorUnits('19.9', 'USD')).toBe(1990);
+    expect(toMinorUnits('19', 'USD')).toBe(1900);
+    expect(toMinorUnits('1500', 'JPY')).toBe(1500);
+    expect(toMinorUnits('1.234', 'BHD')).toBe(1234);
+  });
+
+  it('no pierde precisión como lo haría un Float', () => {
+    // 0.29 * 100 = 28.999999999999996
+    expect(toMinorUnits('0.29', 'USD')).toBe(29);
+    expect(toMinorUnits('1.005', 'BHD')).toBe(1005);
+  });
+
+  it('rechaza más decimales de los que admite la moneda', () => {
+    expect(() => toMinorUnits('19.999', 'USD')).toThrow(ServiceError);
+    expect(() => toMinorUnits('1.5', 'JPY')).toThrow('JPY admite hasta 0 decimales');
+  });
+
+  it('rechaza montos fuera del rango de la columna', () => {
+    expect(toMinorUnits('21474836.47', 'USD')).toBe(2147483647);
+    expect(() => toMinorUnits('21474836.48', 'USD')).toThrow('Monto fuera de rango');
+  });
+
+  it('vuelve al mismo monto con formatMinorUnits', () => {
+    expect(formatMinorUnits(toMinorUnits('0.05', 'USD'), 'USD')).toBe('0.05');
+    expect(formatMinorUnits(toMinorUnits('1500', 'JPY'), 'JPY')).toBe('1500');
+  });
+});
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProductService } from '../src/services/product.service';
+import { SearchRepository } from '../src/search.repository';
+import { NotFoundError, ProductSearchFilters } from '../src/types/index';
+import { config } from '../src/config';
+
+// Sin base de datos ni motor de Prisma: Prisma.sql sigue armando las consultas reales
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {}
+}));
+
+const EMPTY_FACETS = { categories: [], price: { currency: 'USD', ranges: [] }, availability: { inStock: 0, outOfStock: 0 } };
+
+describe('filtros de búsqueda de productos', () => {
+  let service: ProductService;
+  let search: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    search = vi.fn(async () => ({ productIds: [], total: 0, facets: EMPTY_FACETS }));
+
+    service = new ProductService();
+    Object.assign(service, {
+      searchService: { search },
+      categoryService: {
+        getCategoryTreeIds: async (slug: string) => {
+          if (slug !== 'ropa') {
+            throw new NotFoundError('Categoría no encontrada');
+          }
+          return ['ropa', 'hombre', 'remeras'];
+        }
+      },
+      productRepository: { findActiveProductsByIds: async () => [] }
+    });
+  });
+
+  const filtersFor = async (query: Partial<Parameters<ProductService['searchProducts']>[0]>) => {
+    await service.searchProducts({ sort: 'relevance', page: 1, limit: 20, ...query });
+    return search.mock.lastCall![0] as ProductSearchFilters;
+  };
+
+  it('convierte el rango de precio a unidades menores de la moneda', async () => {
+    expect(await filtersFor({ minPrice: '9.9', maxPrice: '100', currency: 'EUR' })).toMatchObject({
+      currency: 'EUR',
+      minPriceMinor: 990,
+      maxPriceMinor: 10000
+    });
+    expect(await filtersFor({ minPrice: '1500', currency: 'JPY' })).toMatchObject({ minPriceMinor: 1500 });
+  });
+
+  it('sin moneda usa la moneda por defecto', async () => {
+    expect(await filtersFor({ maxPrice: '5' })).toMatchObject({ currency: config.money.defaultCurrency, maxPriceMinor: 500 });
+  });
+
+  it('rechaza un monto con más decimales que la moneda', async () => {
+    await expect(filtersFor({ minPrice: '1.5', currency: 'JPY' })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('filtra por la categoría y sus subcategorías', async () => {
+    expect((await filtersFor({ category: 'ropa' })).categoryIds).toEqual(['ropa', 'hombre', 'remeras']);
+  });
+
+  it('rechaza una categoría que no existe', async () => {
+    await expect(filtersFor({ category: 'inexistente' })).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('un texto vacío no filtra y los filtros ausentes quedan sin definir', async () => {
+    expect(await filtersFor({ q: '' })).toEqual({
+      query: undefined,
+      currency: config.money.defaultCurrency,
+      minPriceMinor: undefined,
+      maxPriceMinor: undefined,
+      inStock: undefined
+    });
+  });
+
+  it('pasa el texto y la disponibilidad tal cual', async () => {
+    expect(await filtersFor({ q: '"remera lisa" -manga', inStock: false })).toMatchObject({ query: '"remera lisa" -manga', inStock: false });
+  });
+});
+
+describe('condiciones SQL de la búsqueda', () => {
+  let repository: SearchRepository;
+  let queries: Prisma.Sql[];
+
+  beforeEach(() => {
+    queries = [];
+    repository = new SearchRepository();
+    // Captura la consulta armada en lugar de ejecutarla
+    Object.assign(repository, {
+      prisma: {
+        $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+          queries.push(Prisma.sql(strings, ...values));
+          return [{ total: 0, inStock: 0 }];
+        }
+      }
+    });
+  });
+
+  const where = async (filters: Partial<ProductSearchFilters>, facet?: 'category' | 'price' | 'availability') => {
+    const full = { currency: 'USD', ...filters };
+    if (facet === 'category') {
+      await repository.countByCategory(full, 10);
+    } else if (facet === 'price') {
+      await repository.countByPriceBucket(full, [1000]);
+    } else if (facet === 'availability') {
+      await repository.countByAvailability(full);
+    } else {
+      await repository.countProducts(full);
+    }
+    return queries[0];
+  };
+
+  it('sin filtros solo excluye los archivados', async () => {
+    const query = await where({});
+
+    expect(query.text).toContain('p."archivedAt" IS NULL');
+    expect(query.text).not.toMatch(/searchVector|ProductCategory|priceMinor|inStock/);
+  });
+
+  it('busca el texto como parámetro', async () => {
+    const query = await where({ query: "'; DROP TABLE" });
+
+    expect(query.text).toContain('p."searchVector" @@ websearch_to_tsquery');
+    expect(query.values).toContain("'; DROP TABLE");
+  });
+
+  it('filtra por las categorías indicadas', async () => {
+    const query = await where({ categoryIds: ['a', 'b'] });
+
+    expect(query.text).toMatch(/pc."categoryId" IN \(\$\d+,\$\d+\)/);
+    expect(query.values).toEqual(expect.arrayContaining(['a', 'b']));
+  });
+
+  it('el rango de precio se limita a la moneda', async () => {
+    const query = await where({ currency: 'EUR', minPriceMinor: 990, maxPriceMinor: 10000 });
+
+    expect(query.text).toMatch(/p."currency" = \$\d+ AND p."priceMinor" >= \$\d+ AND p."priceMinor" <= \$\d+/);
+    expect(query.values).toEqual(['EUR', 990, 10000]);
+  });
+
+  it('un rango abierto solo aplica el límite indicado', async () => {
+    const query = await where({ minPriceMinor: 0 });
+
+    expect(query.text).toContain('p."priceMinor" >=');
+    expect(query.text).not.toContain('p."priceMinor" <=');
+  });
+
+  it('filtra por la disponibilidad informada por el inventario', async () => {
+    expect((await where({ inStock: true })).text).toMatch(/AND p."inStock"/);
+    queries = [];
+    expect((await where({ inStock: false })).text).toMatch(/AND NOT p."inStock"/);
+  });
+
+  it('cada faceta omite su propio filtro', async () => {
+    const filters = { categoryIds: ['a'], minPriceMinor: 100, inStock: true };
+
+    expect((await where(filters, 'category')).text).not.toContain('pc."categoryId" IN');
+    queries = [];
+    expect((await where(filters, 'price')).text).not.toContain('p."priceMinor" >=');
+    queries = [];
+    expect((await where(filters, 'availability')).text).not.toMatch(/AND p."inStock"/);
+  });
+});
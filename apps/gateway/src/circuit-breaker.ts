@@ -0,0 +1,98 @@
+/**
+ * Estado del circuito
+ *
+ * - `closed`: las requests pasan normalmente
+ * - `open`: las requests se rechazan sin contactar al upstream
+ * - `half-open`: pasó el tiempo de espera; se deja pasar una request de prueba
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Fallos consecutivos que abren el circuito */
+  failureThreshold: number;
+  /** Segundos que el circuito queda abierto antes de probar de nuevo */
+  resetTimeoutSeconds: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+}
+
+/**
+ * Circuit breaker por upstream
+ *
+ * @class CircuitBreaker
+ * @description Cuenta fallos consecutivos. Al llegar a `failureThreshold` abre
+ * el circuito y las requests fallan rápido durante `resetTimeoutSeconds`. Luego
+ * deja pasar una sola request: si funciona cierra el circuito, si falla lo
+ * vuelve a abrir.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Indica si se puede contactar al upstream y reserva la request de prueba
+   *
+   * @returns {boolean} false si el circuito está abierto
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.options.resetTimeoutSeconds * 1000) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /** Registra una respuesta sana del upstream y cierra el circuito */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** Registra un fallo; abre el circuito al superar el umbral o si falla la prueba */
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** Segundos hasta la próxima request de prueba (0 si el circuito está cerrado) */
+  getRetryAfter(): number {
+    if (this.state !== 'open') {
+      return this.state === 'closed' ? 0 : 1;
+    }
+
+    const remainingMs = this.openedAt! + this.options.resetTimeoutSeconds * 1000 - Date.now();
+    return Math.max(Math.ceil(remainingMs / 1000), 1);
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+}
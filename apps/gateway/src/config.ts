@@ -0,0 +1,65 @@
+export const config = {
+  port: Number(process.env.PORT) || 3003,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  // Proxies delante del gateway (ej: nginx) de los que se confía el X-Forwarded-For;
+  // sin proxies la IP del cliente es la de la conexión
+  trustedProxyHops: Number(process.env.TRUSTED_PROXY_HOPS) || 0,
+  // Servicios a los que el gateway reenvía requests
+  upstreams: {
+    auth: {
+      url: process.env.AUTH_SERVICE_URL || 'http://localhost:3002',
+      timeoutMs: Number(process.env.AUTH_SERVICE_TIMEOUT_MS) || 5000
+    },
+    catalog: {
+      url: process.env.CATALOG_SERVICE_URL || 'http://localhost:3004',
+      timeoutMs: Number(process.env.CATALOG_SERVICE_TIMEOUT_MS) || 5000
+    },
+    inventory: {
+      url: process.env.INVENTORY_SERVICE_URL || 'http://localhost:3005',
+      timeoutMs: Number(process.env.INVENTORY_SERVICE_TIMEOUT_MS) || 5000
+    },
+    cart: {
+      url: process.env.CART_SERVICE_URL || 'http://localhost:3006',
+      timeoutMs: Number(process.env.CART_SERVICE_TIMEOUT_MS) || 5000
+    },
+    orders: {
+      url: process.env.ORDERS_SERVICE_URL || 'http://localhost:3007',
+      timeoutMs: Number(process.env.ORDERS_SERVICE_TIMEOUT_MS) || 10000
+    },
+    payments: {
+      url: process.env.PAYMENTS_SERVICE_URL || 'http://localhost:3008',
+      timeoutMs: Number(process.env.PAYMENTS_SERVICE_TIMEOUT_MS) || 15000
+    },
+    promotions: {
+      url: process.env.PROMOTIONS_SERVICE_URL || 'http://localhost:3009',
+      timeoutMs: Number(process.env.PROMOTIONS_SERVICE_TIMEOUT_MS) || 5000
+    }
+  },
+  // Reintentos de requests idempotentes ante errores de red, timeouts y 502/503/504
+  retry: {
+    attempts: 2,
+    baseDelayMs: 100,
+    maxDelayMs: 1000
+  },
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeoutSeconds: 30
+  },
+  redis: {
+    url: process.env.REDIS_URL
+  },
+  rateLimit: {
+    // Límite por usuario (o IP si no hay sesión) sumando todas las rutas
+    perUser: {
+      max: 300,
+      windowSeconds: 60
+    },
+    // Límite por ruta cuando la ruta no declara uno propio
+    perRoute: {
+      max: 100,
+      windowSeconds: 60
+    }
+  }
+}
+
+export type UpstreamName = keyof typeof config.upstreams;
@@ -0,0 +1,86 @@
+import { FastifyInstance } from 'fastify';
+import { CircuitBreakerStatus } from './circuit-breaker';
+import { UpstreamName, config } from './config';
+import { getRateLimitStore } from './stores/rate-limit.store';
+import { breakers } from './upstream';
+
+export interface UpstreamHealth {
+  status: 'ready' | 'not_ready' | 'unreachable';
+  latencyMs: number;
+  circuit: CircuitBreakerStatus;
+}
+
+/**
+ * Consulta el `/health/ready` de un upstream midiendo la latencia
+ *
+ * @private
+ */
+async function checkUpstream(server: FastifyInstance, name: UpstreamName): Promise<UpstreamHealth> {
+  const startedAt = Date.now();
+  const circuit = breakers[name].getStatus();
+
+  try {
+    const response = await server.axios[name].get('/health/ready', { validateStatus: () => true });
+    return {
+      status: response.status === 200 ? 'ready' : 'not_ready',
+      latencyMs: Date.now() - startedAt,
+      circuit,
+    };
+  } catch {
+    return { status: 'unreachable', latencyMs: Date.now() - startedAt, circuit };
+  }
+}
+
+/**
+ * Registra los health checks del gateway
+ *
+ * @param {FastifyInstance} server - Instancia del gateway (con `fastify-axios` registrado)
+ *
+ * @description
+ * - `GET /health/live`: el proceso responde
+ * - `GET /health/ready`: el gateway puede atender. Informa el estado de Redis,
+ *   pero no falla si está caído porque el rate limiting sigue en memoria
+ * - `GET /health`: estado agregado con la readiness, latencia y circuit breaker
+ *   de cada upstream; 503 si alguno no está listo
+ */
+export function registerHealthRoutes(server: FastifyInstance) {
+  server.get('/health/live', async () => {
+    return { status: 'ok', service: 'gateway', timestamp: new Date().toISOString() };
+  });
+
+  server.get('/health/ready', async () => {
+    if (!config.redis.url) {
+      return { status: 'ready', service: 'gateway', checks: {} };
+    }
+
+    const startedAt = Date.now();
+    try {
+      await getRateLimitStore().ping();
+      return {
+        status: 'ready',
+        service: 'gateway',
+        checks: { redis: { status: 'up', latencyMs: Date.now() - startedAt } },
+      };
+    } catch (error) {
+      return {
+        status: 'ready',
+        service: 'gateway',
+        checks: { redis: { status: 'down', latencyMs: Date.now() - startedAt, error: (error as Error).message } },
+      };
+    }
+  });
+
+  server.get('/health', async (_request, reply) => {
+    const names = Object.keys(config.upstreams) as UpstreamName[];
+    const results = await Promise.all(names.map((name) => checkUpstream(server, name)));
+    const upstreams = Object.fromEntries(names.map((name, index) => [name, results[index]]));
+    const healthy = results.every((result) => result.status === 'ready');
+
+    return reply.code(healthy ? 200 : 503).send({
+      status: healthy ? 'ok' : 'degraded',
+      service: 'gateway',
+      timestamp: new Date().toISOString(),
+      upstreams,
+    });
+  });
+}
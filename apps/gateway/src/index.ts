@@ -1,52 +1,51 @@
 import Fastify from 'fastify';
+import { randomUUID } from 'crypto';
 import fastifyAxios from 'fastify-axios';
+import { authPlugin } from '@ecom/auth';
+import { config } from './config';
+import { routes } from './routes';
+import { registerProxyRoutes } from './proxy';
+import { registerHealthRoutes } from './health';
 
 const server = Fastify({
   logger: true,
+  // Usa el X-Request-Id del cliente o genera uno; aparece como reqId en los logs
+  requestIdHeader: 'x-request-id',
+  genReqId: () => randomUUID(),
+  // request.ip es la IP del cliente (rate limit y X-Forwarded-For hacia los servicios)
+  trustProxy: (_address, hop) => hop < config.trustedProxyHops,
 });
 
-// Registra el plugin de axios para hacer peticiones HTTP
-server.register(fastifyAxios, {
-  clients: {
-    authService: {
-      baseURL: 'http://localhost:3002', 
-    },
-  },
+// Devuelve el X-Request-Id en todas las respuestas
+server.addHook('onRequest', async (request, reply) => {
+  reply.header('x-request-id', request.id);
 });
 
-// Endpoint de salud
-server.get('/health', async (request, reply) => {
-  return { status: 'ok' };
+// Registra un cliente de axios por cada servicio upstream
+server.register(fastifyAxios, {
+  clients: Object.fromEntries(
+    Object.entries(config.upstreams).map(([name, { url, timeoutMs }]) => [name, { baseURL: url, timeout: timeoutMs }])
+  ),
 });
 
-// Delegar la petición de registro al servicio auth
-server.post('/api/auth/register', async (request, reply) => {
-  try {
-    const response = await server.axios.authService.post('/register', request.body);
-    reply.code(response.status).send(response.data);
-  } catch (error: any) {
-    reply.code(error.response?.status || 500).send(error.response?.data || { message: 'Internal Server Error' });
-  }
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, {
+  jwksUrl: config.authJwksUrl,
 });
 
-// Delegar la petición de login al servicio auth
-server.post('/api/auth/login', async (request, reply) => {
-  try {
-    const response = await server.axios.authService.post('/login', request.body);
-    reply.code(response.status).send(response.data);
-  } catch (error: any) {
-    reply.code(error.response?.status || 500).send(error.response?.data || { message: 'Internal Server Error' });
-    console.log(error);
-  }
-});
+// Health checks: /health/live, /health/ready y /health (estado de los upstreams)
+registerHealthRoutes(server);
+
+// Reenvía /api/auth/*, /api/catalog/*, /api/inventory/*, /api/cart/*, /api/orders/*, /api/payments/* y /api/promotions/* a sus servicios aplicando la política de cada ruta
+registerProxyRoutes(server, routes);
 
 const start = async () => {
   try {
-    await server.listen({ port: 3003 });
+    await server.listen({ port: config.port, host: '0.0.0.0' });
   } catch (err) {
     server.log.error(err);
     process.exit(1);
   }
 };
 
-start();
\ No newline at end of file
+start();
@@ -0,0 +1,81 @@
+import { FastifyRequest } from 'fastify';
+import { AuthHook, ROLES, requireAuth, requireRole } from '@ecom/auth';
+import { config } from './config';
+import { RateLimitRule, RouteAccess } from './routes';
+import { RateLimitStore, getRateLimitStore } from './stores/rate-limit.store';
+
+/** Roles con acceso a rutas `admin`: todos menos USER */
+const STAFF_ROLES = ROLES.filter((role) => role !== 'USER');
+
+/**
+ * Hooks que exigen el nivel de acceso de una ruta
+ *
+ * @param {RouteAccess} access - Nivel de acceso declarado en la tabla de rutas
+ * @returns {AuthHook[]} preHandlers a registrar (vacío para rutas públicas)
+ */
+export function accessHooks(access: RouteAccess): AuthHook[] {
+  switch (access) {
+    case 'public':
+      return [];
+    case 'authenticated':
+      return [requireAuth];
+    case 'admin':
+      return [requireRole(...STAFF_ROLES)];
+  }
+}
+
+/**
+ * Identidad a la que se le cuentan las requests: el usuario si hay sesión, si no la IP
+ *
+ * @private
+ */
+function getClientKey(request: FastifyRequest): string {
+  return request.user ? `user:${request.user.userId}` : `ip:${request.ip}`;
+}
+
+/**
+ * Crea un preHandler que aplica el límite de la ruta y el límite global por usuario
+ *
+ * @param {string} routeId - Identificador de la ruta en la tabla (clave del contador)
+ * @param {RateLimitRule} rule - Límite de la ruta
+ * @param {RateLimitStore} [store] - Store a usar (por defecto el compartido del proceso)
+ * @returns {AuthHook} Hook que responde 429 con `Retry-After` al superar un límite
+ *
+ * @description Agrega `X-RateLimit-Limit` y `X-RateLimit-Remaining` del límite de la ruta.
+ */
+export function createRateLimitHook(
+  routeId: string,
+  rule: RateLimitRule,
+  store: RateLimitStore = getRateLimitStore()
+): AuthHook {
+  const { perUser } = config.rateLimit;
+
+  return async function (request, reply) {
+    const client = getClientKey(request);
+
+    const [routeHit, userHit] = await Promise.all([
+      store.hit(`${routeId}:${client}`, rule.windowSeconds),
+      store.hit(`global:${client}`, perUser.windowSeconds),
+    ]);
+
+    reply.header('X-RateLimit-Limit', rule.max);
+    reply.header('X-RateLimit-Remaining', Math.max(rule.max - routeHit.count, 0));
+
+    const exceeded = [
+      routeHit.count > rule.max ? routeHit.ttl : 0,
+      userHit.count > perUser.max ? userHit.ttl : 0,
+    ];
+    const retryAfter = Math.max(...exceeded);
+
+    if (retryAfter > 0) {
+      return reply
+        .code(429)
+        .header('Retry-After', retryAfter)
+        .send({
+          success: false,
+          message: 'Demasiadas solicitudes. Intente nuevamente más tarde',
+          code: 'RATE_LIMITED'
+        });
+    }
+  };
+}
@@ -0,0 +1,184 @@
+import { FastifyInstance, FastifyReply, FastifyRequest, RouteShorthandOptions } from 'fastify';
+import { config } from './config';
+import { accessHooks, createRateLimitHook } from './policies';
+import { ProxyRoute, RoutePolicy } from './routes';
+import { UpstreamError, callUpstream, isRetryable } from './upstream';
+
+/** Headers propios de cada conexión que no se reenvían (RFC 9110, sección 7.6.1) */
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+/** Headers de identidad que solo puede escribir el gateway */
+const IDENTITY_HEADERS = ['x-user-id', 'x-user-role', 'x-user-permissions', 'x-session-id'];
+
+/**
+ * Copia los headers quitando los hop-by-hop y los indicados en `exclude`
+ *
+ * @param {Record<string, unknown>} headers - Headers de origen
+ * @param {string[]} [exclude] - Headers adicionales a quitar
+ * @returns {Record<string, string | string[]>} Headers a reenviar
+ */
+function filterHeaders(headers: Record<string, unknown>, exclude: string[] = []): Record<string, string | string[]> {
+  const filtered: Record<string, string | string[]> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (value === undefined || value === null || HOP_BY_HOP_HEADERS.has(key) || exclude.includes(key)) {
+      continue;
+    }
+    filtered[key] = Array.isArray(value) ? value.map(String) : String(value);
+  }
+
+  return filtered;
+}
+
+/**
+ * Headers de la request hacia el upstream
+ *
+ * @param {FastifyRequest} request - Request original
+ * @returns {Record<string, string | string[]>} Headers a enviar
+ *
+ * @description Agrega los `X-Forwarded-*` del cliente, el `X-Request-Id` y la
+ * identidad del usuario verificada por el gateway. Los headers de identidad que
+ * envíe el cliente se descartan siempre. La última IP del `X-Forwarded-For` es
+ * la del cliente según el gateway: los servicios confían solo en ese salto.
+ */
+function buildUpstreamHeaders(request: FastifyRequest): Record<string, string | string[]> {
+  const headers = filterHeaders(request.headers, ['host', ...IDENTITY_HEADERS]);
+  const forwardedFor = request.headers['x-forwarded-for'];
+
+  headers['x-request-id'] = request.id;
+  if (request.user) {
+    headers['x-user-id'] = request.user.userId;
+    headers['x-user-role'] = request.user.role;
+    headers['x-user-permissions'] = request.user.permissions.join(',');
+    if (request.user.sessionId) {
+      headers['x-session-id'] = request.user.sessionId;
+    }
+  }
+
+  headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${request.ip}` : request.ip;
+  headers['x-forwarded-proto'] = request.protocol;
+  if (request.headers.host) {
+    headers['x-forwarded-host'] = request.headers.host;
+  }
+
+  return headers;
+}
+
+/**
+ * Opciones de Fastify (preHandlers de rate limit y acceso) para una política
+ *
+ * @private
+ */
+function policyOptions(routeId: string, policy: RoutePolicy): RouteShorthandOptions {
+  return {
+    preHandler: [
+      createRateLimitHook(routeId, policy.rateLimit ?? config.rateLimit.perRoute),
+      ...accessHooks(policy.access),
+    ],
+  };
+}
+
+/**
+ * Crea el handler que reenvía la request al upstream de la ruta
+ *
+ * @private
+ */
+function createProxyHandler(server: FastifyInstance, route: ProxyRoute) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = request.url.slice(route.prefix.length);
+
+    try {
+      const response = await callUpstream(
+        route.upstream,
+        server.axios[route.upstream],
+        {
+          method: request.method,
+          url: path.startsWith('/') ? path : `/${path}`,
+          headers: buildUpstreamHeaders(request),
+          data: request.body,
+          responseType: 'stream',
+          decompress: false,
+          maxRedirects: 0,
+          validateStatus: () => true,
+        },
+        isRetryable(request.method, request.body)
+      );
+
+      return reply
+        .code(response.status)
+        .headers(filterHeaders(response.headers))
+        .send(response.data);
+    } catch (error) {
+      const upstreamError = error instanceof UpstreamError
+        ? error
+        : new UpstreamError(502, 'BAD_GATEWAY', 'Servicio no disponible');
+
+      request.log.error({ err: error, upstream: route.upstream }, 'Fallo al contactar el upstream');
+
+      if (upstreamError.retryAfter) {
+        reply.header('Retry-After', upstreamError.retryAfter);
+      }
+
+      return reply.code(upstreamError.statusCode).send({
+        success: false,
+        message: upstreamError.message,
+        code: upstreamError.code
+      });
+    }
+  };
+}
+
+/**
+ * Registra las rutas de la tabla con su política y el reenvío al upstream
+ *
+ * @param {FastifyInstance} server - Instancia del gateway (con `fastify-axios` y `authPlugin` registrados)
+ * @param {ProxyRoute[]} routes - Tabla de rutas
+ *
+ * @description
+ * - Cada entrada de `paths` se registra como ruta propia; el resto del prefijo
+ *   usa la política del prefijo (Fastify prioriza la ruta más específica)
+ * - Antes de reenviar aplica el rate limit y exige el nivel de acceso declarado
+ * - Reenvía método, headers (incluido `Authorization`), query y body sin modificarlos
+ * - El body no se parsea: se pasa como stream al upstream
+ * - La respuesta del upstream (status, headers y body) se devuelve como stream
+ * - Timeouts, reintentos y circuit breaker por upstream (ver `callUpstream`):
+ *   responde 503, 504 o 502 con `{ success, message, code }` si el upstream falla
+ */
+export function registerProxyRoutes(server: FastifyInstance, routes: ProxyRoute[]) {
+  server.register(async function (proxy) {
+    // Los bodies se reenvían tal cual, sin parsear
+    proxy.removeAllContentTypeParsers();
+    proxy.addContentTypeParser('*', function (_request, payload, done) {
+      done(null, payload);
+    });
+
+    for (const route of routes) {
+      const handler = createProxyHandler(server, route);
+
+      for (const policy of route.paths ?? []) {
+        const url = `${route.prefix}${policy.path}`;
+        const options = policyOptions(`${route.upstream}:${policy.path}`, policy);
+
+        if (policy.methods) {
+          proxy.route({ method: policy.methods, url, ...options, handler });
+        } else {
+          proxy.all(url, options, handler);
+        }
+      }
+
+      const options = policyOptions(`${route.upstream}:*`, route);
+      proxy.all(route.prefix, options, handler);
+      proxy.all(`${route.prefix}/*`, options, handler);
+    }
+  });
+}
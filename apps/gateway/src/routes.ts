@@ -0,0 +1,140 @@
+import { HTTPMethods } from 'fastify';
+import { UpstreamName } from './config';
+
+/**
+ * Nivel de acceso que exige el gateway antes de reenviar
+ *
+ * - `public`: sin token
+ * - `authenticated`: access token válido
+ * - `admin`: access token de un rol de staff (el servicio verifica el permiso puntual)
+ */
+export type RouteAccess = 'public' | 'authenticated' | 'admin';
+
+export interface RateLimitRule {
+  max: number;
+  windowSeconds: number;
+}
+
+/** Política que aplica el gateway a una ruta */
+export interface RoutePolicy {
+  access: RouteAccess;
+  /** Límite por usuario (o IP) para esta ruta; por defecto `config.rateLimit.perRoute` */
+  rateLimit?: RateLimitRule;
+}
+
+/** Subruta con una política distinta a la del prefijo */
+export interface PathPolicy extends RoutePolicy {
+  /** Ruta relativa al prefijo, con la sintaxis de Fastify (`/sessions/:id`, `/admin/*`) */
+  path: string;
+  /** Métodos a los que aplica; por defecto todos */
+  methods?: HTTPMethods[];
+}
+
+/**
+ * Ruta del gateway: todo lo que empieza con `prefix` se reenvía a `upstream`
+ * quitando el prefijo (`/api/auth/login` → auth `/login`).
+ *
+ * @description La política del prefijo aplica a todo lo que no coincide con
+ * una entrada de `paths`.
+ */
+export interface ProxyRoute extends RoutePolicy {
+  prefix: string;
+  upstream: UpstreamName;
+  paths?: PathPolicy[];
+}
+
+/** Límite para endpoints sensibles a fuerza bruta o abuso de emails */
+const strictLimit: RateLimitRule = { max: 10, windowSeconds: 60 };
+
+/** Tabla de rutas del gateway */
+export const routes: ProxyRoute[] = [
+  {
+    prefix: '/api/auth',
+    upstream: 'auth',
+    access: 'authenticated',
+    paths: [
+      { path: '/register', access: 'public', rateLimit: strictLimit },
+      { path: '/login', access: 'public', rateLimit: strictLimit },
+      { path: '/refresh', access: 'public' },
+      { path: '/logout', access: 'public' },
+      { path: '/verify-email', access: 'public', rateLimit: strictLimit },
+      { path: '/resend-verification', access: 'public', rateLimit: strictLimit },
+      { path: '/forgot-password', access: 'public', rateLimit: strictLimit },
+      { path: '/reset-password', access: 'public', rateLimit: strictLimit },
+      { path: '/.well-known/jwks.json', access: 'public' },
+      { path: '/change-password', access: 'authenticated', rateLimit: strictLimit },
+      { path: '/admin/*', access: 'admin' },
+    ],
+  },
+  {
+    prefix: '/api/catalog',
+    upstream: 'catalog',
+    access: 'public',
+    paths: [
+      { path: '/products', methods: ['POST'], access: 'admin' },
+      { path: '/products/:id', methods: ['PATCH', 'DELETE'], access: 'admin' },
+      { path: '/products/:id/options', methods: ['PUT'], access: 'admin' },
+      { path: '/products/:id/variants', methods: ['POST', 'PATCH'], access: 'admin' },
+      { path: '/products/availability', methods: ['PUT'], access: 'admin' },
+      { path: '/categories', methods: ['POST'], access: 'admin' },
+      { path: '/categories/:id', methods: ['PATCH', 'DELETE'], access: 'admin' },
+      { path: '/price-lists', methods: ['POST'], access: 'admin' },
+      { path: '/price-lists/:code/prices', methods: ['PUT'], access: 'admin' },
+    ],
+  },
+  {
+    prefix: '/api/inventory',
+    upstream: 'inventory',
+    access: 'authenticated',
+    paths: [
+      { path: '/availability', methods: ['GET'], access: 'public' },
+      { path: '/locations', access: 'admin' },
+      { path: '/locations/:id', access: 'admin' },
+      { path: '/stock', access: 'admin' },
+      { path: '/items', access: 'admin' },
+      { path: '/reports/*', access: 'admin' },
+    ],
+  },
+  {
+    // Sin token opera sobre el carrito de invitado del header X-Cart-Token
+    prefix: '/api/cart',
+    upstream: 'cart',
+    access: 'public',
+    paths: [
+      { path: '/merge', methods: ['POST'], access: 'authenticated' },
+    ],
+  },
+  {
+    prefix: '/api/orders',
+    upstream: 'orders',
+    access: 'authenticated',
+    paths: [
+      { path: '/admin', access: 'admin' },
+      { path: '/admin/*', access: 'admin' },
+    ],
+  },
+  {
+    prefix: '/api/payments',
+    upstream: 'payments',
+    access: 'authenticated',
+    paths: [
+      // Los proveedores no tienen token: el servicio verifica la firma del body
+      { path: '/webhooks/:provider', methods: ['POST'], access: 'public' },
+      { path: '/admin', access: 'admin' },
+      { path: '/admin/*', access: 'admin' },
+    ],
+  },
+  {
+    // La evaluación de un carrito es pública; con sesión se controlan los límites por usuario
+    prefix: '/api/promotions',
+    upstream: 'promotions',
+    access: 'public',
+    paths: [
+      { path: '/admin', access: 'admin' },
+      { path: '/admin/*', access: 'admin' },
+      // Canjes: solo el servicio de órdenes, que llama al servicio directamente
+      { path: '/redemptions', access: 'admin' },
+      { path: '/redemptions/*', access: 'admin' },
+    ],
+  },
+];
@@ -0,0 +1,104 @@
+import Redis from 'ioredis';
+import { config } from '../config';
+
+export interface RateLimitHit {
+  /** Requests contadas en la ventana actual, incluida esta */
+  count: number;
+  /** Segundos hasta que se reinicia la ventana */
+  ttl: number;
+}
+
+/**
+ * Almacenamiento de contadores de rate limiting por ventana fija
+ *
+ * @interface RateLimitStore
+ * @description Abstrae el backend (Redis o memoria). Las claves expiran solas
+ * al terminar la ventana.
+ */
+export interface RateLimitStore {
+  /** Cuenta una request para la clave y devuelve el estado de la ventana */
+  hit(key: string, windowSeconds: number): Promise<RateLimitHit>;
+  /** Verifica que el backend responda */
+  ping(): Promise<void>;
+}
+
+/**
+ * Store en memoria (no se comparte entre instancias del gateway)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let current = this.counters.get(key);
+
+    if (!current || current.expiresAt <= now) {
+      this.evictExpired(now);
+      current = { count: 0, expiresAt: now + windowSeconds * 1000 };
+      this.counters.set(key, current);
+    }
+
+    current.count += 1;
+    return { count: current.count, ttl: Math.ceil((current.expiresAt - now) / 1000) };
+  }
+
+  async ping(): Promise<void> {}
+
+  /** Libera los contadores vencidos para que el mapa no crezca sin límite */
+  private evictExpired(now: number) {
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store respaldado por Redis, compartido entre instancias del gateway
+ *
+ * @description Si Redis no responde, cuenta en memoria para no bloquear el tráfico.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private redis: Redis,
+    private fallback: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    try {
+      const [[, count], , [, ttl]] = (await this.redis
+        .multi()
+        .incr(`ratelimit:${key}`)
+        .expire(`ratelimit:${key}`, windowSeconds, 'NX')
+        .ttl(`ratelimit:${key}`)
+        .exec()) as [[Error | null, number], [Error | null, number], [Error | null, number]];
+
+      return { count, ttl: ttl > 0 ? ttl : windowSeconds };
+    } catch {
+      return this.fallback.hit(key, windowSeconds);
+    }
+  }
+
+  /** A diferencia de `hit`, no usa el fallback: informa si Redis está caído */
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Devuelve el store de rate limiting compartido por todo el proceso
+ *
+ * @returns {RateLimitStore} Redis si `REDIS_URL` está configurada, memoria en caso contrario
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = config.redis.url
+      ? new RedisRateLimitStore(new Redis(config.redis.url, { maxRetriesPerRequest: 1 }))
+      : new MemoryRateLimitStore();
+  }
+
+  return store;
+}
@@ -0,0 +1,124 @@
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse, isAxiosError } from 'axios';
+import { Readable } from 'stream';
+import { CircuitBreaker } from './circuit-breaker';
+import { UpstreamName, config } from './config';
+
+/** Métodos que se pueden repetir sin efectos adicionales (RFC 9110, sección 9.2.2) */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Respuestas que indican un upstream caído o saturado */
+const UNHEALTHY_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Error al contactar un upstream, con el status y código que devuelve el gateway
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/** Circuit breaker de cada upstream, compartido por todas las rutas */
+export const breakers = Object.fromEntries(
+  Object.keys(config.upstreams).map((name) => [name, new CircuitBreaker(config.circuitBreaker)])
+) as Record<UpstreamName, CircuitBreaker>;
+
+/**
+ * Indica si una request se puede reintentar: método idempotente y sin body
+ * (un body en stream ya consumido no se puede volver a enviar)
+ *
+ * @param {string} method - Método HTTP
+ * @param {unknown} body - Body de la request
+ * @returns {boolean} true si se puede reintentar
+ */
+export function isRetryable(method: string, body: unknown): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase()) && body === undefined;
+}
+
+/**
+ * Espera exponencial con jitter entre reintentos
+ *
+ * @private
+ */
+function backoff(attempt: number): Promise<void> {
+  const { baseDelayMs, maxDelayMs } = config.retry;
+  const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return new Promise((resolve) => setTimeout(resolve, delay / 2 + Math.random() * (delay / 2)));
+}
+
+/**
+ * Convierte un error de axios en la respuesta que devuelve el gateway
+ *
+ * @private
+ */
+function toUpstreamError(error: unknown): UpstreamError {
+  if (isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+    return new UpstreamError(504, 'GATEWAY_TIMEOUT', 'El servicio no respondió a tiempo');
+  }
+
+  return new UpstreamError(502, 'BAD_GATEWAY', 'Servicio no disponible');
+}
+
+/**
+ * Envía una request a un upstream con circuit breaker y reintentos
+ *
+ * @param {UpstreamName} name - Upstream destino
+ * @param {AxiosInstance} client - Cliente axios del upstream (con su timeout)
+ * @param {AxiosRequestConfig} request - Request a enviar
+ * @param {boolean} retryable - Si se puede reintentar (ver `isRetryable`)
+ * @returns {Promise<AxiosResponse>} Respuesta del upstream
+ *
+ * @throws {UpstreamError} 503 si el circuito está abierto, 504 por timeout o 502 si no hay respuesta
+ *
+ * @description
+ * - Errores de red, timeouts y respuestas 502/503/504 cuentan como fallos del circuito
+ * - Solo las requests `retryable` se reintentan (`config.retry.attempts` veces, con backoff)
+ * - Si el último intento responde 502/503/504, esa respuesta se devuelve tal cual
+ */
+export async function callUpstream(
+  name: UpstreamName,
+  client: AxiosInstance,
+  request: AxiosRequestConfig,
+  retryable: boolean
+): Promise<AxiosResponse> {
+  const breaker = breakers[name];
+  const attempts = retryable ? config.retry.attempts + 1 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (!breaker.tryAcquire()) {
+      throw new UpstreamError(503, 'SERVICE_UNAVAILABLE', 'Servicio temporalmente no disponible', breaker.getRetryAfter());
+    }
+
+    try {
+      const response = await client.request(request);
+
+      if (!UNHEALTHY_STATUSES.has(response.status)) {
+        breaker.recordSuccess();
+        return response;
+      }
+
+      breaker.recordFailure();
+      if (attempt >= attempts) {
+        return response;
+      }
+
+      // Descartar el body de la respuesta que no se va a devolver
+      if (response.data instanceof Readable) {
+        response.data.destroy();
+      }
+    } catch (error) {
+      breaker.recordFailure();
+      if (attempt >= attempts) {
+        throw toUpstreamError(error);
+      }
+    }
+
+    await backoff(attempt - 1);
+  }
+}
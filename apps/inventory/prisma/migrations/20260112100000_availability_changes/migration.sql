@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AvailabilityChange" (
+    "productId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityChange_pkey" PRIMARY KEY ("productId")
+);
+
+-- CreateIndex
+CREATE INDEX "AvailabilityChange_changedAt_idx" ON "AvailabilityChange"("changedAt");
+
+-- Informar al catálogo la disponibilidad de todos los productos con stock cargado
+INSERT INTO "AvailabilityChange" ("productId")
+SELECT DISTINCT "productId" FROM "InventoryItem";
@@ -0,0 +1,92 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { InventoryController } from './inventory.controller';
+import { ReservationController } from './reservation.controller';
+import { InventoryRepository } from './inventory.repository';
+import { startAvailabilitySync } from './jobs/availability-sync';
+import { startReservationExpiry } from './jobs/reservation-expiry';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const inventoryController = new InventoryController();
+const reservationController = new ReservationController();
+const inventoryRepository = new InventoryRepository();
+const healthController = new HealthController('inventory-service', {
+  database: () => inventoryRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Rutas públicas (disponibilidad para la tienda)
+server.get('/availability', inventoryController.getAvailability.bind(inventoryController));
+
+// Rutas protegidas
+server.register(async function (fastify) {
+  // Exigir access token válido; las rutas de gestión declaran el permiso que exigen
+  fastify.addHook('preHandler', requireAuth);
+
+  const canRead = { preHandler: requirePermission(PERMISSIONS.INVENTORY_READ) };
+  const canManage = { preHandler: requirePermission(PERMISSIONS.INVENTORY_MANAGE) };
+
+  // Ubicaciones
+  fastify.get('/locations', canRead, inventoryController.listLocations.bind(inventoryController));
+  fastify.post('/locations', canManage, inventoryController.createLocation.bind(inventoryController));
+  fastify.patch('/locations/:id', canManage, inventoryController.updateLocation.bind(inventoryController));
+
+  // Stock
+  fastify.get('/items', canRead, inventoryController.getItems.bind(inventoryController));
+  fastify.put('/stock', canManage, inventoryController.setStock.bind(inventoryController));
+  fastify.get('/reports/low-stock', canRead, inventoryController.getLowStockReport.bind(inventoryController));
+
+  // Reservas (cada usuario sobre las suyas)
+  fastify.post('/reservations', reservationController.reserve.bind(reservationController));
+  fastify.get('/reservations/:id', reservationController.getReservation.bind(reservationController));
+  fastify.post('/reservations/:id/commit', reservationController.commit.bind(reservationController));
+  fastify.post('/reservations/:id/release', reservationController.release.bind(reservationController));
+});
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: statusCode === 500 ? 'Error interno del servidor' : error.message
+    }
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    // Liberar periódicamente el stock de las reservas vencidas. El hook onClose se
+    // registra antes de listen: Fastify no admite hooks nuevos una vez que escucha
+    const stopReservationExpiry = startReservationExpiry(server.log);
+    server.addHook('onClose', async () => stopReservationExpiry());
+
+    // Informar al catálogo los productos cuyo disponible cambió
+    const stopAvailabilitySync = startAvailabilitySync(server.log);
+    server.addHook('onClose', async () => stopAvailabilitySync());
+
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Inventory service listening on port ${config.port}`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
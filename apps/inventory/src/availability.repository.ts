@@ -0,0 +1,56 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AvailabilityChange } from './types/index';
+
+// Registrar que cambió el disponible de los productos de estos artículos, dentro de la
+// transacción del cambio de stock. Por orden de producto, como los bloqueos de stock
+export async function recordAvailabilityChanges(tx: Prisma.TransactionClient, itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) {
+    return;
+  }
+
+  await tx.$executeRaw`
+    INSERT INTO "AvailabilityChange" ("productId", "version", "changedAt")
+    SELECT DISTINCT "productId", 1, NOW() FROM "InventoryItem"
+    WHERE "id" IN (${Prisma.join(itemIds)})
+    ORDER BY "productId"
+    ON CONFLICT ("productId")
+    DO UPDATE SET "version" = "AvailabilityChange"."version" + 1, "changedAt" = EXCLUDED."changedAt"
+  `;
+}
+
+export class AvailabilityRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Cambios pendientes de informar al catálogo, del más viejo al más nuevo
+  async findPendingChanges(take: number): Promise<AvailabilityChange[]> {
+    return await this.prisma.availabilityChange.findMany({
+      select: { productId: true, version: true },
+      orderBy: [{ changedAt: 'asc' }, { productId: 'asc' }],
+      take,
+    });
+  }
+
+  // Productos (entre los indicados) con stock sin reservar en alguna ubicación activa
+  async findProductsInStock(productIds: string[]): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ productId: string }[]>`
+      SELECT DISTINCT i."productId"
+      FROM "InventoryItem" i
+      JOIN "StockLevel" sl ON sl."itemId" = i."id"
+      JOIN "Location" l ON l."id" = sl."locationId"
+      WHERE i."productId" IN (${Prisma.join(productIds)}) AND l."active" AND sl."onHand" > sl."reserved"
+    `;
+    return rows.map((row) => row.productId);
+  }
+
+  // Borrar los cambios ya informados. Los que volvieron a cambiar mientras tanto
+  // (otra versión) quedan para la próxima pasada
+  async deleteChanges(changes: AvailabilityChange[]): Promise<void> {
+    await this.prisma.availabilityChange.deleteMany({
+      where: { OR: changes.map(({ productId, version }) => ({ productId, version })) },
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { ServiceTokenProvider, createServiceTokenProvider } from '@ecom/auth';
+import { ProductAvailability, ServiceUnavailableError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Cliente HTTP del servicio de catálogo
+ *
+ * @class CatalogClient
+ * @description Informa al catálogo qué productos tienen stock, con el token de
+ * servicio del inventario (catalog:availability).
+ */
+export class CatalogClient {
+  /** Token de servicio del inventario */
+  private getServiceToken: ServiceTokenProvider;
+
+  /**
+   * Constructor del cliente de catálogo
+   * Inicializa el proveedor del token de servicio
+   */
+  constructor() {
+    this.getServiceToken = createServiceTokenProvider(config.serviceAuth);
+  }
+
+  /**
+   * Actualiza la disponibilidad de los productos en el catálogo
+   *
+   * @param {ProductAvailability[]} products - Productos con y sin stock disponible
+   *
+   * @throws {ServiceUnavailableError} Si el servicio de catálogo o el servicio auth no responden o fallan
+   */
+  async setAvailability(products: ProductAvailability[]): Promise<void> {
+    let authorization: string;
+    try {
+      authorization = `Bearer ${await this.getServiceToken()}`;
+    } catch {
+      throw new ServiceUnavailableError('autenticación');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.catalog.url}/products/availability`, {
+        method: 'PUT',
+        headers: { authorization, 'content-type': 'application/json' },
+        body: JSON.stringify({ products }),
+        signal: AbortSignal.timeout(config.catalog.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('catálogo');
+    }
+
+    if (response.status !== 200) {
+      throw new ServiceUnavailableError('catálogo');
+    }
+  }
+}
@@ -0,0 +1,35 @@
+export const config = {
+  port: Number(process.env.PORT) || 3005,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  reservations: {
+    defaultTtlSeconds: 15 * 60,
+    maxTtlSeconds: 60 * 60,
+    maxLines: 50,
+    maxQuantityPerLine: 100,
+    // Cada cuánto se liberan las reservas vencidas, y cuántas por pasada
+    expirySweepSeconds: Number(process.env.RESERVATION_SWEEP_SECONDS) || 30,
+    expiryBatchSize: 100
+  },
+  reports: {
+    lowStockLimit: 200
+  },
+  // Servicio de catálogo: se le informa qué productos tienen stock (filtro y faceta de la búsqueda)
+  catalog: {
+    url: process.env.CATALOG_SERVICE_URL || 'http://localhost:3004',
+    timeoutMs: Number(process.env.CATALOG_SERVICE_TIMEOUT_MS) || 3000
+  },
+  // Token de servicio (client credentials) para actualizar la disponibilidad en el catálogo
+  serviceAuth: {
+    tokenUrl: `${process.env.AUTH_SERVICE_URL || 'http://localhost:3002'}/service-token`,
+    clientId: 'inventory',
+    clientSecret: process.env.INVENTORY_SERVICE_SECRET
+  },
+  availabilitySync: {
+    // Cada cuánto se informan al catálogo los productos cuyo disponible cambió, y cuántos por pasada
+    sweepSeconds: Number(process.env.AVAILABILITY_SYNC_SECONDS) || 5,
+    batchSize: 200
+  }
+}
@@ -0,0 +1,217 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { InventoryService } from './services/inventory.service';
+import {
+  availabilityQuerySchema,
+  createLocationSchema,
+  itemsQuerySchema,
+  locationParamsSchema,
+  lowStockQuerySchema,
+  setStockSchema,
+  updateLocationSchema
+} from './inventory.schemas';
+
+/**
+ * Controlador de inventario
+ *
+ * @class InventoryController
+ * @description Consulta pública de disponibilidad, y gestión de ubicaciones y
+ * stock para usuarios con inventory:read / inventory:manage.
+ */
+export class InventoryController {
+  /** Servicio de inventario para lógica de negocio */
+  private inventoryService: InventoryService;
+
+  /**
+   * Constructor del controlador de inventario
+   * Inicializa el servicio de inventario
+   */
+  constructor() {
+    this.inventoryService = new InventoryService();
+  }
+
+  /**
+   * Endpoint para listar las ubicaciones (requiere el permiso inventory:read)
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Ubicaciones ordenadas por código
+   *
+   * @throws {500} Error interno del servidor
+   */
+  async listLocations(_: FastifyRequest, reply: FastifyReply) {
+    try {
+      const locations = await this.inventoryService.listLocations();
+
+      return reply.code(200).send({
+        success: true,
+        data: { locations }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear una ubicación (requiere el permiso inventory:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {code, name, active?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Ubicación creada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {409} Código en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createLocation(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createLocationSchema.parse(request.body);
+
+      const location = await this.inventoryService.createLocation(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { location }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar una ubicación (requiere el permiso inventory:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {name?, active?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Ubicación actualizada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Ubicación no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async updateLocation(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = locationParamsSchema.parse(request.params);
+      const data = updateLocationSchema.parse(request.body);
+
+      const location = await this.inventoryService.updateLocation(id, data);
+
+      return reply.code(200).send({
+        success: true,
+        data: { location }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para fijar el stock físico en lote (requiere el permiso inventory:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {entries: [{productId, variantId?, locationId, onHand, sku?, lowStockThreshold?}]}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Cantidad de registros procesados
+   *
+   * @throws {400} Error de validación o ubicación inexistente
+   * @throws {409} Algún stock quedaría por debajo de lo reservado
+   * @throws {500} Error interno del servidor
+   */
+  async setStock(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { entries } = setStockSchema.parse(request.body);
+
+      const result = await this.inventoryService.setStock(entries);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para consultar el stock de un producto y sus variantes (requiere el permiso inventory:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {productId}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Artículos con onHand, reservado y disponible por ubicación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async getItems(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { productId } = itemsQuerySchema.parse(request.query);
+
+      const items = await this.inventoryService.getItems(productId);
+
+      return reply.code(200).send({
+        success: true,
+        data: { items }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint público para consultar la disponibilidad de un producto o variante
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {productId, variantId?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Cantidad disponible y si hay stock
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async getAvailability(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const ref = availabilityQuerySchema.parse(request.query);
+
+      const availability = await this.inventoryService.getAvailability(ref);
+
+      return reply.code(200).send({
+        success: true,
+        data: availability
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint del reporte de stock bajo (requiere el permiso inventory:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Artículos cuyo disponible no supera su umbral
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async getLowStockReport(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { limit } = lowStockQuerySchema.parse(request.query);
+
+      const items = await this.inventoryService.getLowStockReport(limit);
+
+      return reply.code(200).send({
+        success: true,
+        data: { items }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Inventory Controller');
+  }
+}
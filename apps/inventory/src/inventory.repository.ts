@@ -0,0 +1,183 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { recordAvailabilityChanges } from './availability.repository';
+import { InventoryItemWithLevels, ItemRef, Location, LowStockRow, SetStockEntry, StockConflict } from './types/index';
+
+// Niveles de stock con su ubicación, para armar la respuesta del artículo
+const withLevels = {
+  levels: {
+    include: { location: true },
+    orderBy: { location: { code: 'asc' } },
+  },
+} satisfies Prisma.InventoryItemInclude;
+
+const itemKey = (ref: ItemRef) => `${ref.productId}:${ref.variantId ?? ''}`;
+
+export class InventoryRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Crear ubicación
+  async createLocation(data: { code: string; name: string; active: boolean }): Promise<Location> {
+    return await this.prisma.location.create({ data });
+  }
+
+  // Actualizar ubicación. Activarla o desactivarla cambia el disponible de los artículos que tienen stock ahí
+  async updateLocation(id: string, data: { name?: string; active?: boolean }): Promise<Location> {
+    return await this.prisma.$transaction(async (tx) => {
+      const location = await tx.location.update({ where: { id }, data });
+
+      if (data.active !== undefined) {
+        const levels = await tx.stockLevel.findMany({ where: { locationId: id }, select: { itemId: true } });
+        await recordAvailabilityChanges(tx, levels.map((level) => level.itemId));
+      }
+
+      return location;
+    });
+  }
+
+  // Listar ubicaciones por código
+  async findLocations(): Promise<Location[]> {
+    return await this.prisma.location.findMany({ orderBy: { code: 'asc' } });
+  }
+
+  // Buscar ubicación por ID
+  async findLocationById(id: string): Promise<Location | null> {
+    return await this.prisma.location.findUnique({ where: { id } });
+  }
+
+  // Buscar ubicación por código
+  async findLocationByCode(code: string): Promise<Location | null> {
+    return await this.prisma.location.findUnique({ where: { code } });
+  }
+
+  // IDs de las ubicaciones existentes entre las indicadas
+  async findLocationIds(ids: string[]): Promise<string[]> {
+    const rows = await this.prisma.location.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  // Artículos de un producto (el producto y sus variantes) con el stock por ubicación
+  async findItemsByProduct(productId: string): Promise<InventoryItemWithLevels[]> {
+    return await this.prisma.inventoryItem.findMany({
+      where: { productId },
+      include: withLevels,
+      orderBy: [{ variantId: { sort: 'asc', nulls: 'first' } }],
+    });
+  }
+
+  // Buscar artículo por producto y variante (variantId null = el producto)
+  async findItem(ref: ItemRef): Promise<InventoryItemWithLevels | null> {
+    return await this.prisma.inventoryItem.findFirst({
+      where: { productId: ref.productId, variantId: ref.variantId ?? null },
+      include: withLevels,
+    });
+  }
+
+  // Buscar artículos por producto y variante
+  async findItems(refs: ItemRef[]): Promise<{ id: string; productId: string; variantId: string | null }[]> {
+    return await this.prisma.inventoryItem.findMany({
+      where: { OR: refs.map((ref) => ({ productId: ref.productId, variantId: ref.variantId ?? null })) },
+      select: { id: true, productId: true, variantId: true },
+    });
+  }
+
+  // Fijar el stock físico en lote. Si algún registro quedaría por debajo de lo
+  // reservado no aplica ninguno y devuelve los conflictos
+  async setStock(entries: SetStockEntry[]): Promise<StockConflict[]> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Crear los artículos que falten (ON CONFLICT evita duplicados entre requests concurrentes)
+      for (const entry of entries) {
+        await tx.$executeRaw`
+          INSERT INTO "InventoryItem" ("id", "productId", "variantId", "updatedAt")
+          VALUES (${randomUUID()}, ${entry.productId}, ${entry.variantId ?? null}, NOW())
+          ON CONFLICT ("productId", "variantId") DO NOTHING
+        `;
+      }
+
+      const items = await tx.inventoryItem.findMany({
+        where: { OR: entries.map((entry) => ({ productId: entry.productId, variantId: entry.variantId ?? null })) },
+        select: { id: true, productId: true, variantId: true },
+      });
+      const itemIds = new Map(items.map((item) => [itemKey(item), item.id]));
+
+      // Bloquear los niveles existentes (mismo orden que las reservas) para que no cambie lo reservado
+      const levels = await tx.$queryRaw<{ itemId: string; locationId: string; reserved: number }[]>`
+        SELECT "itemId", "locationId", "reserved" FROM "StockLevel"
+        WHERE "itemId" IN (${Prisma.join(items.map((item) => item.id))})
+        ORDER BY "itemId", "locationId"
+        FOR UPDATE
+      `;
+      const reserved = new Map(levels.map((level) => [`${level.itemId}@${level.locationId}`, level.reserved]));
+
+      const conflicts: StockConflict[] = [];
+      for (const entry of entries) {
+        const current = reserved.get(`${itemIds.get(itemKey(entry))}@${entry.locationId}`) ?? 0;
+        if (entry.onHand < current) {
+          conflicts.push({
+            productId: entry.productId,
+            variantId: entry.variantId ?? null,
+            locationId: entry.locationId,
+            onHand: entry.onHand,
+            reserved: current,
+          });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return conflicts;
+      }
+
+      for (const entry of entries) {
+        const itemId = itemIds.get(itemKey(entry))!;
+
+        await tx.$executeRaw`
+          INSERT INTO "StockLevel" ("itemId", "locationId", "onHand", "reserved", "updatedAt")
+          VALUES (${itemId}, ${entry.locationId}, ${entry.onHand}, 0, NOW())
+          ON CONFLICT ("itemId", "locationId")
+          DO UPDATE SET "onHand" = EXCLUDED."onHand", "updatedAt" = EXCLUDED."updatedAt"
+        `;
+
+        if (entry.sku !== undefined || entry.lowStockThreshold !== undefined) {
+          await tx.inventoryItem.update({
+            where: { id: itemId },
+            data: { sku: entry.sku, lowStockThreshold: entry.lowStockThreshold },
+          });
+        }
+      }
+
+      await recordAvailabilityChanges(tx, items.map((item) => item.id));
+
+      return conflicts;
+    });
+  }
+
+  // Artículos cuyo disponible (en ubicaciones activas) no supera su umbral, del más escaso al menos
+  async findLowStockItems(limit: number): Promise<LowStockRow[]> {
+    return await this.prisma.$queryRaw<LowStockRow[]>`
+      SELECT i."id", i."productId", i."variantId", i."sku", i."lowStockThreshold",
+             COALESCE(SUM(sl."onHand"), 0)::int AS "onHand",
+             COALESCE(SUM(sl."reserved"), 0)::int AS "reserved",
+             COALESCE(SUM(sl."onHand" - sl."reserved"), 0)::int AS "available"
+      FROM "InventoryItem" i
+      LEFT JOIN "StockLevel" sl
+        ON sl."itemId" = i."id"
+       AND sl."locationId" IN (SELECT "id" FROM "Location" WHERE "active")
+      GROUP BY i."id"
+      HAVING COALESCE(SUM(sl."onHand" - sl."reserved"), 0) <= i."lowStockThreshold"
+      ORDER BY "available" ASC, i."id" ASC
+      LIMIT ${limit}
+    `;
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { config } from './config';
+
+const idSchema = z.string().uuid('ID inválido');
+
+// Código de ubicación (ej: 'DEP-CENTRAL')
+const locationCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{2,32}$/, 'Código debe tener entre 2 y 32 letras, números, guiones o guiones bajos');
+
+// Cantidad entera no negativa
+const quantitySchema = z
+  .number()
+  .int('Debe ser un número entero')
+  .min(0, 'No puede ser negativo')
+  .max(1_000_000, 'No puede superar 1.000.000');
+
+// Producto (sin variantes) o variante del catálogo
+const itemRefSchema = z.object({
+  productId: idSchema,
+  variantId: idSchema.nullable().optional(),
+});
+
+const itemKey = (item: z.infer<typeof itemRefSchema>) => `${item.productId}:${item.variantId ?? ''}`;
+
+// Schema para crear una ubicación
+export const createLocationSchema = z.object({
+  code: locationCodeSchema,
+  name: z.string().trim().min(1, 'Nombre es requerido').max(100, 'Nombre no puede superar 100 caracteres'),
+  active: z.boolean().default(true),
+});
+
+// Schema para actualizar una ubicación
+export const updateLocationSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Nombre es requerido').max(100, 'Nombre no puede superar 100 caracteres'),
+    active: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'Debe indicar al menos un campo');
+
+export const locationParamsSchema = z.object({
+  id: idSchema,
+});
+
+// Schema para fijar el stock físico (onHand) en lote
+export const setStockSchema = z.object({
+  entries: z
+    .array(
+      itemRefSchema.extend({
+        locationId: idSchema,
+        onHand: quantitySchema,
+        sku: z.string().trim().min(1).max(64).optional(),
+        lowStockThreshold: quantitySchema.optional(),
+      })
+    )
+    .min(1, 'Debe indicar al menos un registro')
+    .max(500, 'Máximo 500 registros por request')
+    .refine(
+      (entries) => new Set(entries.map((entry) => `${itemKey(entry)}@${entry.locationId}`)).size === entries.length,
+      'No se puede repetir el mismo artículo y ubicación'
+    ),
+});
+
+// Schema para consultar el stock de un producto (todas sus variantes)
+export const itemsQuerySchema = z.object({
+  productId: idSchema,
+});
+
+// Schema para consultar la disponibilidad de un artículo
+export const availabilityQuerySchema = itemRefSchema;
+
+// Schema para el reporte de stock bajo
+export const lowStockQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(config.reports.lowStockLimit).default(config.reports.lowStockLimit),
+});
+
+// Schema para reservar stock
+export const reserveSchema = z.object({
+  lines: z
+    .array(
+      itemRefSchema.extend({
+        quantity: z
+          .number()
+          .int('Debe ser un número entero')
+          .min(1, 'Debe reservar al menos una unidad')
+          .max(config.reservations.maxQuantityPerLine, `Máximo ${config.reservations.maxQuantityPerLine} unidades por línea`),
+      })
+    )
+    .min(1, 'Debe indicar al menos una línea')
+    .max(config.reservations.maxLines, `Máximo ${config.reservations.maxLines} líneas por reserva`),
+  // Segundos hasta que la reserva vence y se libera el stock
+  ttlSeconds: z
+    .number()
+    .int()
+    .min(60, 'El TTL mínimo es 60 segundos')
+    .max(config.reservations.maxTtlSeconds, `El TTL máximo es ${config.reservations.maxTtlSeconds} segundos`)
+    .default(config.reservations.defaultTtlSeconds),
+  reference: z.string().trim().min(1).max(100).optional(),
+});
+
+export const reservationParamsSchema = z.object({
+  id: idSchema,
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type SetStockInput = z.infer<typeof setStockSchema>;
+export type ReserveInput = z.infer<typeof reserveSchema>;
@@ -0,0 +1,26 @@
+import { FastifyBaseLogger } from 'fastify';
+import { startSweepJob } from '@ecom/service';
+import { AvailabilityService } from '../services/availability.service';
+import { config } from '../config';
+
+/**
+ * Inicia la sincronización periódica de la disponibilidad con el catálogo
+ *
+ * @param {FastifyBaseLogger} log - Logger del servidor
+ * @returns {() => void} Función que detiene el job
+ *
+ * @description Cada `sweepSeconds` informa hasta `batchSize` productos cuyo
+ * disponible cambió. Si el catálogo no responde, los cambios se reintentan en
+ * la pasada siguiente.
+ */
+export function startAvailabilitySync(log: FastifyBaseLogger): () => void {
+  const availabilityService = new AvailabilityService();
+  const { sweepSeconds, batchSize } = config.availabilitySync;
+
+  return startSweepJob(log, {
+    intervalSeconds: sweepSeconds,
+    sweep: () => availabilityService.syncAvailability(batchSize),
+    doneMessage: 'disponibilidad informada al catálogo',
+    errorMessage: 'falla al informar la disponibilidad al catálogo'
+  });
+}
@@ -0,0 +1,26 @@
+import { FastifyBaseLogger } from 'fastify';
+import { startSweepJob } from '@ecom/service';
+import { ReservationService } from '../services/reservation.service';
+import { config } from '../config';
+
+/**
+ * Inicia la expiración periódica de reservas vencidas
+ *
+ * @param {FastifyBaseLogger} log - Logger del servidor
+ * @returns {() => void} Función que detiene el job
+ *
+ * @description Cada `expirySweepSeconds` expira hasta `expiryBatchSize` reservas
+ * por pasada. Es seguro correrlo en varias instancias: cada reserva se libera
+ * una sola vez.
+ */
+export function startReservationExpiry(log: FastifyBaseLogger): () => void {
+  const reservationService = new ReservationService();
+  const { expirySweepSeconds, expiryBatchSize } = config.reservations;
+
+  return startSweepJob(log, {
+    intervalSeconds: expirySweepSeconds,
+    sweep: () => reservationService.expireReservations(expiryBatchSize),
+    doneMessage: 'reservas vencidas liberadas',
+    errorMessage: 'falla al expirar reservas'
+  });
+}
@@ -0,0 +1,158 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PERMISSIONS, hasPermission } from '@ecom/auth';
+import { sendErrorResponse } from '@ecom/service';
+import { ReservationService } from './services/reservation.service';
+import { reservationParamsSchema, reserveSchema } from './inventory.schemas';
+import { ReservationActor } from './types/index';
+
+/**
+ * Controlador de reservas de stock
+ *
+ * @class ReservationController
+ * @description Reservas con TTL para usuarios autenticados. Cada usuario opera
+ * sobre sus propias reservas; inventory:read permite ver las ajenas e
+ * inventory:manage confirmarlas o liberarlas.
+ */
+export class ReservationController {
+  /** Servicio de reservas para lógica de negocio */
+  private reservationService: ReservationService;
+
+  /**
+   * Constructor del controlador de reservas
+   * Inicializa el servicio de reservas
+   */
+  constructor() {
+    this.reservationService = new ReservationService();
+  }
+
+  /**
+   * Endpoint para reservar stock (requiere autenticación)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {lines: [{productId, variantId?, quantity}], ttlSeconds?, reference?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Reserva activa con vencimiento y asignación por ubicación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {409} Stock insuficiente (con el detalle de faltantes)
+   * @throws {500} Error interno del servidor
+   */
+  async reserve(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = reserveSchema.parse(request.body);
+
+      const reservation = await this.reservationService.reserve(request.user!.userId, data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { reservation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para consultar una reserva (propia, o cualquiera con inventory:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Reserva con estado y líneas
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Reserva no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async getReservation(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = reservationParamsSchema.parse(request.params);
+
+      const reservation = await this.reservationService.getReservation(
+        id,
+        this.getActor(request, hasPermission(request.user!.permissions, PERMISSIONS.INVENTORY_READ))
+      );
+
+      return reply.code(200).send({
+        success: true,
+        data: { reservation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para confirmar una reserva (propia, o cualquiera con inventory:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Reserva confirmada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Reserva no encontrada
+   * @throws {409} La reserva venció o ya no está activa
+   * @throws {500} Error interno del servidor
+   */
+  async commit(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = reservationParamsSchema.parse(request.params);
+
+      const reservation = await this.reservationService.commit(id, this.getActor(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { reservation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para liberar una reserva (propia, o cualquiera con inventory:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Reserva liberada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Reserva no encontrada
+   * @throws {409} La reserva ya no está activa
+   * @throws {500} Error interno del servidor
+   */
+  async release(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = reservationParamsSchema.parse(request.params);
+
+      const reservation = await this.reservationService.release(id, this.getActor(request));
+
+      return reply.code(200).send({
+        success: true,
+        data: { reservation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Usuario de la request y si puede operar sobre reservas ajenas
+   * (por defecto, con inventory:manage)
+   *
+   * @private
+   */
+  private getActor(
+    request: FastifyRequest,
+    canManage = hasPermission(request.user!.permissions, PERMISSIONS.INVENTORY_MANAGE)
+  ): ReservationActor {
+    return { userId: request.user!.userId, canManage };
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Reservation Controller');
+  }
+}
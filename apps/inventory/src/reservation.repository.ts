@@ -0,0 +1,142 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { recordAvailabilityChanges } from './availability.repository';
+import { Allocation, ReservationWithLines } from './types/index';
+import { AllocationResult, AvailableLevel, allocateStock } from './utils/allocation';
+
+// Líneas con su artículo, para armar la respuesta de la reserva
+const withLines = {
+  lines: {
+    select: { itemId: true, locationId: true, quantity: true, item: true },
+    orderBy: [{ itemId: 'asc' }, { locationId: 'asc' }],
+  },
+} satisfies Prisma.ReservationInclude;
+
+export interface CreateReservationData {
+  userId: string;
+  reference: string | null;
+  expiresAt: Date;
+}
+
+export class ReservationRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Reservar stock: bloquea los niveles de los artículos (FOR UPDATE) mientras asigna
+  // por ubicación, así dos reservas concurrentes no pueden tomar las mismas unidades.
+  // Si algún artículo no alcanza no reserva nada y devuelve los faltantes
+  async reserve(
+    lines: { itemId: string; quantity: number }[],
+    data: CreateReservationData
+  ): Promise<{ reservation: ReservationWithLines | null; shortages: AllocationResult['shortages'] }> {
+    return await this.prisma.$transaction(async (tx) => {
+      const levels = await tx.$queryRaw<AvailableLevel[]>`
+        SELECT sl."itemId", sl."locationId", sl."onHand" - sl."reserved" AS "available"
+        FROM "StockLevel" sl
+        JOIN "Location" l ON l."id" = sl."locationId"
+        WHERE sl."itemId" IN (${Prisma.join(lines.map((line) => line.itemId))}) AND l."active"
+        ORDER BY sl."itemId", sl."locationId"
+        FOR UPDATE OF sl
+      `;
+
+      const { allocations, shortages } = allocateStock(lines, levels);
+      if (shortages.length > 0) {
+        return { reservation: null, shortages };
+      }
+
+      for (const allocation of allocations) {
+        await tx.stockLevel.update({
+          where: { itemId_locationId: { itemId: allocation.itemId, locationId: allocation.locationId } },
+          data: { reserved: { increment: allocation.quantity } },
+        });
+      }
+
+      await recordAvailabilityChanges(tx, allocations.map((allocation) => allocation.itemId));
+
+      const reservation = await tx.reservation.create({
+        data: { ...data, lines: { create: allocations } },
+        include: withLines,
+      });
+
+      return { reservation, shortages };
+    });
+  }
+
+  // Buscar reserva por ID
+  async findReservationById(id: string): Promise<ReservationWithLines | null> {
+    return await this.prisma.reservation.findUnique({ where: { id }, include: withLines });
+  }
+
+  // Confirmar reserva activa y no vencida: descuenta el stock físico y lo reservado
+  // (el disponible no cambia). Devuelve null si la reserva ya no estaba activa (confirmación o liberación concurrente)
+  async commitReservation(id: string, now: Date): Promise<ReservationWithLines | null> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.reservation.updateMany({
+        where: { id, status: 'ACTIVE', expiresAt: { gt: now } },
+        data: { status: 'COMMITTED', committedAt: now },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const reservation = await tx.reservation.findUniqueOrThrow({ where: { id }, include: withLines });
+      await this.applyToLevels(tx, reservation.lines, (quantity) => ({
+        onHand: { decrement: quantity },
+        reserved: { decrement: quantity },
+      }));
+
+      return reservation;
+    });
+  }
+
+  // Liberar reserva activa (RELEASED) o vencida (EXPIRED): devuelve lo reservado al disponible.
+  // Devuelve null si la reserva ya no estaba activa
+  async releaseReservation(id: string, status: 'RELEASED' | 'EXPIRED', now: Date): Promise<ReservationWithLines | null> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.reservation.updateMany({
+        where: { id, status: 'ACTIVE', ...(status === 'EXPIRED' && { expiresAt: { lte: now } }) },
+        data: { status, releasedAt: now },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const reservation = await tx.reservation.findUniqueOrThrow({ where: { id }, include: withLines });
+      await this.applyToLevels(tx, reservation.lines, (quantity) => ({
+        reserved: { decrement: quantity },
+      }));
+      await recordAvailabilityChanges(tx, reservation.lines.map((line) => line.itemId));
+
+      return reservation;
+    });
+  }
+
+  // IDs de reservas activas ya vencidas, de la más vieja a la más nueva
+  async findExpiredReservationIds(now: Date, take: number): Promise<string[]> {
+    const rows = await this.prisma.reservation.findMany({
+      where: { status: 'ACTIVE', expiresAt: { lte: now } },
+      select: { id: true },
+      orderBy: { expiresAt: 'asc' },
+      take,
+    });
+    return rows.map((row) => row.id);
+  }
+
+  // Actualizar los niveles de las líneas (ya ordenadas por artículo y ubicación, como el bloqueo al reservar)
+  private async applyToLevels(
+    tx: Prisma.TransactionClient,
+    lines: Allocation[],
+    data: (quantity: number) => Prisma.StockLevelUpdateInput
+  ): Promise<void> {
+    for (const line of lines) {
+      await tx.stockLevel.update({
+        where: { itemId_locationId: { itemId: line.itemId, locationId: line.locationId } },
+        data: data(line.quantity),
+      });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { AvailabilityRepository } from '../availability.repository';
+import { CatalogClient } from '../clients/catalog.client';
+
+/**
+ * Servicio de sincronización de disponibilidad con el catálogo
+ *
+ * @class AvailabilityService
+ * @description El catálogo filtra y cuenta los productos con stock sin leer
+ * las tablas del inventario: cada cambio de stock registra el producto en la
+ * misma transacción y este servicio le informa al catálogo la disponibilidad
+ * actual de los productos registrados.
+ */
+export class AvailabilityService {
+  /** Repositorio de cambios de disponibilidad */
+  private availabilityRepository: AvailabilityRepository;
+
+  /** Cliente del servicio de catálogo */
+  private catalogClient: CatalogClient;
+
+  /**
+   * Constructor del servicio de disponibilidad
+   * Inicializa el repositorio de datos y el cliente del catálogo
+   */
+  constructor() {
+    this.availabilityRepository = new AvailabilityRepository();
+    this.catalogClient = new CatalogClient();
+  }
+
+  /**
+   * Informa al catálogo la disponibilidad de una tanda de productos que cambiaron
+   *
+   * @param {number} batchSize - Máximo de productos a informar
+   * @returns {Promise<number>} Cantidad de productos informados
+   *
+   * @throws {ServiceUnavailableError} Si el catálogo no responde (los cambios quedan para la próxima pasada)
+   *
+   * @description Se informa la disponibilidad actual, no la del momento del
+   * cambio, así que informar dos veces el mismo producto no tiene efecto. Un
+   * producto que vuelve a cambiar mientras se informa se informa de nuevo en la
+   * próxima pasada.
+   */
+  async syncAvailability(batchSize: number): Promise<number> {
+    const changes = await this.availabilityRepository.findPendingChanges(batchSize);
+    if (changes.length === 0) {
+      return 0;
+    }
+
+    const productIds = changes.map((change) => change.productId);
+    const inStock = new Set(await this.availabilityRepository.findProductsInStock(productIds));
+
+    await this.catalogClient.setAvailability(productIds.map((productId) => ({ productId, inStock: inStock.has(productId) })));
+    await this.availabilityRepository.deleteChanges(changes);
+
+    return changes.length;
+  }
+}
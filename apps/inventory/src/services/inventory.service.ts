@@ -0,0 +1,198 @@
+import { InventoryRepository } from '../inventory.repository';
+import {
+  AvailabilityResponse,
+  ConflictError,
+  InventoryItemResponse,
+  InventoryItemWithLevels,
+  ItemRef,
+  Location,
+  LocationResponse,
+  LowStockRow,
+  NotFoundError,
+  SetStockEntry,
+  StockBelowReservedError,
+  ValidationError
+} from '../types/index';
+
+/**
+ * Servicio de inventario
+ *
+ * @class InventoryService
+ * @description Ubicaciones y stock por artículo. Un artículo es una variante del
+ * catálogo o, para productos sin variantes, el producto (variantId null). Por
+ * ubicación se guarda el stock físico (onHand) y lo reservado; el disponible es
+ * la diferencia y solo cuenta en ubicaciones activas.
+ */
+export class InventoryService {
+  /** Repositorio para acceso a ubicaciones y stock */
+  private inventoryRepository: InventoryRepository;
+
+  /**
+   * Constructor del servicio de inventario
+   * Inicializa el repositorio de datos
+   */
+  constructor() {
+    this.inventoryRepository = new InventoryRepository();
+  }
+
+  /**
+   * Lista las ubicaciones
+   *
+   * @returns {Promise<LocationResponse[]>} Ubicaciones ordenadas por código
+   */
+  async listLocations(): Promise<LocationResponse[]> {
+    const locations = await this.inventoryRepository.findLocations();
+    return locations.map((location) => this.formatLocation(location));
+  }
+
+  /**
+   * Crea una ubicación
+   *
+   * @param {object} data - Código, nombre y si está activa
+   * @returns {Promise<LocationResponse>} Ubicación creada
+   *
+   * @throws {ConflictError} Si el código ya está en uso
+   */
+  async createLocation(data: { code: string; name: string; active: boolean }): Promise<LocationResponse> {
+    if (await this.inventoryRepository.findLocationByCode(data.code)) {
+      throw new ConflictError('El código de ubicación ya está en uso');
+    }
+
+    const location = await this.inventoryRepository.createLocation(data);
+    return this.formatLocation(location);
+  }
+
+  /**
+   * Actualiza el nombre o el estado de una ubicación
+   *
+   * @param {string} id - ID de la ubicación
+   * @param {object} data - Campos a actualizar
+   * @returns {Promise<LocationResponse>} Ubicación actualizada
+   *
+   * @throws {NotFoundError} Si la ubicación no existe
+   *
+   * @description Desactivar una ubicación saca su stock del disponible y de las
+   * nuevas reservas; las reservas activas sobre ella se pueden confirmar igual.
+   */
+  async updateLocation(id: string, data: { name?: string; active?: boolean }): Promise<LocationResponse> {
+    if (!(await this.inventoryRepository.findLocationById(id))) {
+      throw new NotFoundError('Ubicación no encontrada');
+    }
+
+    const location = await this.inventoryRepository.updateLocation(id, data);
+    return this.formatLocation(location);
+  }
+
+  /**
+   * Fija el stock físico de artículos por ubicación en lote (todos o ninguno)
+   *
+   * @param {SetStockEntry[]} entries - Artículo, ubicación, onHand y opcionalmente SKU y umbral de stock bajo
+   * @returns {Promise<{updated: number}>} Cantidad de registros procesados
+   *
+   * @throws {ValidationError} Si alguna ubicación no existe
+   * @throws {StockBelowReservedError} Si algún onHand queda por debajo de lo reservado
+   *
+   * @description Los artículos se crean al cargarles stock por primera vez. El
+   * SKU y el umbral se guardan en el artículo, no en la ubicación.
+   */
+  async setStock(entries: SetStockEntry[]): Promise<{ updated: number }> {
+    const locationIds = [...new Set(entries.map((entry) => entry.locationId))];
+    const existing = await this.inventoryRepository.findLocationIds(locationIds);
+    const missing = locationIds.filter((id) => !existing.includes(id));
+
+    if (missing.length > 0) {
+      throw new ValidationError(`Ubicaciones inexistentes: ${missing.join(', ')}`);
+    }
+
+    const conflicts = await this.inventoryRepository.setStock(entries);
+    if (conflicts.length > 0) {
+      throw new StockBelowReservedError(conflicts);
+    }
+
+    return { updated: entries.length };
+  }
+
+  /**
+   * Obtiene el stock de un producto y sus variantes
+   *
+   * @param {string} productId - ID del producto en el catálogo
+   * @returns {Promise<InventoryItemResponse[]>} Artículos con totales y detalle por ubicación
+   */
+  async getItems(productId: string): Promise<InventoryItemResponse[]> {
+    const items = await this.inventoryRepository.findItemsByProduct(productId);
+    return items.map((item) => this.formatItem(item));
+  }
+
+  /**
+   * Obtiene la cantidad disponible de un artículo
+   *
+   * @param {ItemRef} ref - Producto y variante opcional
+   * @returns {Promise<AvailabilityResponse>} Disponible en ubicaciones activas
+   */
+  async getAvailability(ref: ItemRef): Promise<AvailabilityResponse> {
+    const item = await this.inventoryRepository.findItem(ref);
+    const available = item ? this.formatItem(item).available : 0;
+
+    return {
+      productId: ref.productId,
+      variantId: ref.variantId ?? null,
+      tracked: item !== null,
+      available,
+      inStock: available > 0
+    };
+  }
+
+  /**
+   * Reporte de artículos con stock bajo
+   *
+   * @param {number} limit - Máximo de artículos a devolver
+   * @returns {Promise<LowStockRow[]>} Artículos cuyo disponible no supera su umbral, del más escaso al menos
+   */
+  async getLowStockReport(limit: number): Promise<LowStockRow[]> {
+    return await this.inventoryRepository.findLowStockItems(limit);
+  }
+
+  /**
+   * Formatea un artículo con sus totales (solo ubicaciones activas) y el detalle por ubicación
+   *
+   * @private
+   */
+  private formatItem(item: InventoryItemWithLevels): InventoryItemResponse {
+    const locations = item.levels.map((level) => ({
+      locationId: level.locationId,
+      code: level.location.code,
+      active: level.location.active,
+      onHand: level.onHand,
+      reserved: level.reserved,
+      available: level.onHand - level.reserved
+    }));
+    const active = locations.filter((location) => location.active);
+    const sum = (key: 'onHand' | 'reserved' | 'available') => active.reduce((total, location) => total + location[key], 0);
+
+    return {
+      id: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      sku: item.sku,
+      lowStockThreshold: item.lowStockThreshold,
+      onHand: sum('onHand'),
+      reserved: sum('reserved'),
+      available: sum('available'),
+      locations
+    };
+  }
+
+  /**
+   * Formatea una ubicación para la respuesta
+   *
+   * @private
+   */
+  private formatLocation(location: Location): LocationResponse {
+    return {
+      id: location.id,
+      code: location.code,
+      name: location.name,
+      active: location.active
+    };
+  }
+}
@@ -0,0 +1,229 @@
+import { InventoryRepository } from '../inventory.repository';
+import { ReservationRepository } from '../reservation.repository';
+import {
+  ConflictError,
+  InsufficientStockError,
+  NotFoundError,
+  ReservationActor,
+  ReservationResponse,
+  ReservationWithLines,
+  ReserveLineInput,
+  Shortage
+} from '../types/index';
+
+/**
+ * Servicio de reservas de stock
+ *
+ * @class ReservationService
+ * @description Una reserva aparta stock por un tiempo (TTL) hasta que se
+ * confirma (descuenta el stock físico) o se libera (vuelve al disponible). Las
+ * reservas que vencen sin confirmarse se liberan solas con `expireReservations`.
+ */
+export class ReservationService {
+  /** Repositorio para acceso a reservas */
+  private reservationRepository: ReservationRepository;
+
+  /** Repositorio de inventario, para resolver los artículos de las líneas */
+  private inventoryRepository: InventoryRepository;
+
+  /**
+   * Constructor del servicio de reservas
+   * Inicializa los repositorios de datos
+   */
+  constructor() {
+    this.reservationRepository = new ReservationRepository();
+    this.inventoryRepository = new InventoryRepository();
+  }
+
+  /**
+   * Reserva stock de uno o más artículos (todo o nada)
+   *
+   * @param {string} userId - Usuario que reserva
+   * @param {object} data - Líneas (artículo y cantidad), TTL en segundos y referencia opcional
+   * @returns {Promise<ReservationResponse>} Reserva activa con la asignación por ubicación
+   *
+   * @throws {InsufficientStockError} Si algún artículo no tiene disponible suficiente
+   *
+   * @description Las líneas repetidas del mismo artículo se suman. Cada línea
+   * puede repartirse entre varias ubicaciones activas.
+   */
+  async reserve(
+    userId: string,
+    data: { lines: ReserveLineInput[]; ttlSeconds: number; reference?: string }
+  ): Promise<ReservationResponse> {
+    const requested = new Map<string, ReserveLineInput>();
+    for (const line of data.lines) {
+      const key = `${line.productId}:${line.variantId ?? ''}`;
+      const current = requested.get(key);
+      requested.set(key, { ...line, quantity: (current?.quantity ?? 0) + line.quantity });
+    }
+
+    const items = await this.inventoryRepository.findItems([...requested.values()]);
+    const itemIds = new Map(items.map((item) => [`${item.productId}:${item.variantId ?? ''}`, item.id]));
+
+    // Artículos sin inventario cargado: no hay nada que reservar
+    const untracked: Shortage[] = [...requested.entries()]
+      .filter(([key]) => !itemIds.has(key))
+      .map(([, line]) => this.toShortage(line, 0));
+
+    if (untracked.length > 0) {
+      throw new InsufficientStockError(untracked);
+    }
+
+    const lines = [...requested.entries()].map(([key, line]) => ({ itemId: itemIds.get(key)!, quantity: line.quantity }));
+    const { reservation, shortages } = await this.reservationRepository.reserve(lines, {
+      userId,
+      reference: data.reference ?? null,
+      expiresAt: new Date(Date.now() + data.ttlSeconds * 1000)
+    });
+
+    if (!reservation) {
+      const byItemId = new Map(items.map((item) => [item.id, item]));
+      throw new InsufficientStockError(
+        shortages.map((shortage) => ({
+          productId: byItemId.get(shortage.itemId)!.productId,
+          variantId: byItemId.get(shortage.itemId)!.variantId,
+          requested: shortage.requested,
+          available: shortage.available
+        }))
+      );
+    }
+
+    return this.formatReservation(reservation);
+  }
+
+  /**
+   * Obtiene una reserva
+   *
+   * @param {string} id - ID de la reserva
+   * @param {ReservationActor} actor - Usuario que consulta y si puede ver reservas ajenas
+   * @returns {Promise<ReservationResponse>} Reserva con sus líneas
+   *
+   * @throws {NotFoundError} Si la reserva no existe o es de otro usuario
+   */
+  async getReservation(id: string, actor: ReservationActor): Promise<ReservationResponse> {
+    const reservation = await this.findOwnReservation(id, actor);
+    return this.formatReservation(reservation);
+  }
+
+  /**
+   * Confirma una reserva activa: el stock reservado sale del stock físico
+   *
+   * @param {string} id - ID de la reserva
+   * @param {ReservationActor} actor - Dueño de la reserva o usuario con inventory:manage
+   * @returns {Promise<ReservationResponse>} Reserva confirmada
+   *
+   * @throws {NotFoundError} Si la reserva no existe o es de otro usuario
+   * @throws {ConflictError} Si la reserva venció o ya fue confirmada o liberada
+   */
+  async commit(id: string, actor: ReservationActor): Promise<ReservationResponse> {
+    await this.findOwnReservation(id, actor);
+
+    const reservation = await this.reservationRepository.commitReservation(id, new Date());
+    if (!reservation) {
+      throw new ConflictError('La reserva no está activa o ya venció');
+    }
+
+    return this.formatReservation(reservation);
+  }
+
+  /**
+   * Libera una reserva activa: el stock reservado vuelve al disponible
+   *
+   * @param {string} id - ID de la reserva
+   * @param {ReservationActor} actor - Dueño de la reserva o usuario con inventory:manage
+   * @returns {Promise<ReservationResponse>} Reserva liberada
+   *
+   * @throws {NotFoundError} Si la reserva no existe o es de otro usuario
+   * @throws {ConflictError} Si la reserva ya fue confirmada, liberada o expirada
+   */
+  async release(id: string, actor: ReservationActor): Promise<ReservationResponse> {
+    await this.findOwnReservation(id, actor);
+
+    const reservation = await this.reservationRepository.releaseReservation(id, 'RELEASED', new Date());
+    if (!reservation) {
+      throw new ConflictError('La reserva no está activa');
+    }
+
+    return this.formatReservation(reservation);
+  }
+
+  /**
+   * Expira las reservas activas vencidas y libera su stock
+   *
+   * @param {number} batchSize - Máximo de reservas a procesar
+   * @returns {Promise<number>} Cantidad de reservas expiradas
+   *
+   * @description Cada reserva se expira en su propia transacción; si otra
+   * request la confirmó o liberó antes, se saltea.
+   */
+  async expireReservations(batchSize: number): Promise<number> {
+    const now = new Date();
+    const ids = await this.reservationRepository.findExpiredReservationIds(now, batchSize);
+
+    let expired = 0;
+    for (const id of ids) {
+      if (await this.reservationRepository.releaseReservation(id, 'EXPIRED', now)) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Busca una reserva del usuario (o cualquiera si puede gestionar el inventario)
+   *
+   * @private
+   */
+  private async findOwnReservation(id: string, actor: ReservationActor): Promise<ReservationWithLines> {
+    const reservation = await this.reservationRepository.findReservationById(id);
+
+    // Las reservas ajenas se informan como inexistentes para no revelar IDs válidos
+    if (!reservation || (reservation.userId !== actor.userId && !actor.canManage)) {
+      throw new NotFoundError('Reserva no encontrada');
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Arma el faltante de un artículo para el error de stock insuficiente
+   *
+   * @private
+   */
+  private toShortage(line: ReserveLineInput, available: number): Shortage {
+    return {
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      requested: line.quantity,
+      available
+    };
+  }
+
+  /**
+   * Formatea una reserva para la respuesta. Una reserva activa vencida que el
+   * job todavía no procesó se informa como EXPIRED
+   *
+   * @private
+   */
+  private formatReservation(reservation: ReservationWithLines): ReservationResponse {
+    const expired = reservation.status === 'ACTIVE' && reservation.expiresAt <= new Date();
+
+    return {
+      id: reservation.id,
+      status: expired ? 'EXPIRED' : reservation.status,
+      reference: reservation.reference,
+      expiresAt: reservation.expiresAt,
+      lines: reservation.lines.map((line) => ({
+        productId: line.item.productId,
+        variantId: line.item.variantId,
+        locationId: line.locationId,
+        quantity: line.quantity
+      })),
+      committedAt: reservation.committedAt,
+      releasedAt: reservation.releasedAt,
+      createdAt: reservation.createdAt
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import { ServiceError } from '@ecom/service';
+
+export type ReservationStatus = 'ACTIVE' | 'COMMITTED' | 'RELEASED' | 'EXPIRED';
+
+export interface Location {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InventoryItem {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  lowStockThreshold: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StockLevel {
+  itemId: string;
+  locationId: string;
+  onHand: number;
+  reserved: number;
+  updatedAt: Date;
+}
+
+export interface InventoryItemWithLevels extends InventoryItem {
+  levels: (StockLevel & { location: Location })[];
+}
+
+/** Producto (sin variantes) o variante del catálogo */
+export interface ItemRef {
+  productId: string;
+  variantId?: string | null;
+}
+
+export interface StockQuantities {
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export interface LocationResponse {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+}
+
+export interface InventoryItemResponse extends StockQuantities {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  lowStockThreshold: number;
+  locations: (StockQuantities & { locationId: string; code: string; active: boolean })[];
+}
+
+export interface AvailabilityResponse {
+  productId: string;
+  variantId: string | null;
+  /** false si el artículo no tiene inventario cargado */
+  tracked: boolean;
+  available: number;
+  inStock: boolean;
+}
+
+export interface LowStockRow {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  lowStockThreshold: number;
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export interface SetStockEntry extends ItemRef {
+  locationId: string;
+  onHand: number;
+  sku?: string;
+  lowStockThreshold?: number;
+}
+
+/** Registro que no se pudo fijar porque quedaría menos stock que lo reservado */
+export interface StockConflict extends ItemRef {
+  locationId: string;
+  onHand: number;
+  reserved: number;
+}
+
+export interface ReserveLineInput extends ItemRef {
+  quantity: number;
+}
+
+export interface Allocation {
+  itemId: string;
+  locationId: string;
+  quantity: number;
+}
+
+export interface Shortage extends ItemRef {
+  requested: number;
+  available: number;
+}
+
+/** Producto cuyo disponible cambió; `version` cuenta los cambios desde la última sincronización */
+export interface AvailabilityChange {
+  productId: string;
+  version: number;
+}
+
+/** Disponibilidad de un producto que se informa al catálogo */
+export interface ProductAvailability {
+  productId: string;
+  inStock: boolean;
+}
+
+export interface Reservation {
+  id: string;
+  userId: string;
+  reference: string | null;
+  status: ReservationStatus;
+  expiresAt: Date;
+  committedAt: Date | null;
+  releasedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReservationWithLines extends Reservation {
+  lines: (Allocation & { item: InventoryItem })[];
+}
+
+export interface ReservationResponse {
+  id: string;
+  status: ReservationStatus;
+  reference: string | null;
+  expiresAt: Date;
+  lines: { productId: string; variantId: string | null; locationId: string; quantity: number }[];
+  committedAt: Date | null;
+  releasedAt: Date | null;
+  createdAt: Date;
+}
+
+/** Quién opera sobre una reserva: el dueño o alguien con inventory:manage */
+export interface ReservationActor {
+  userId: string;
+  canManage: boolean;
+}
+
+// Errores personalizados
+export class InventoryError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400,
+    details?: unknown
+  ) {
+    super(code, message, statusCode, details);
+    this.name = 'InventoryError';
+  }
+}
+
+export class ValidationError extends InventoryError {
+  constructor(message: string) {
+    super('VALIDATION_ERROR', message, 400);
+  }
+}
+
+export class NotFoundError extends InventoryError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class ConflictError extends InventoryError {
+  constructor(message: string) {
+    super('CONFLICT', message, 409);
+  }
+}
+
+export class StockBelowReservedError extends InventoryError {
+  constructor(conflicts: StockConflict[]) {
+    super('STOCK_BELOW_RESERVED', 'El stock no puede quedar por debajo de lo reservado', 409, { conflicts });
+  }
+}
+
+export class InsufficientStockError extends InventoryError {
+  constructor(shortages: Shortage[]) {
+    super('INSUFFICIENT_STOCK', 'Stock insuficiente', 409, { shortages });
+  }
+}
+
+export class ServiceUnavailableError extends InventoryError {
+  constructor(service: string) {
+    super('SERVICE_UNAVAILABLE', `El servicio de ${service} no está disponible, reintente en unos segundos`, 503);
+  }
+}
@@ -0,0 +1,51 @@
+import { Allocation } from '../types/index';
+
+export interface AvailableLevel {
+  itemId: string;
+  locationId: string;
+  available: number;
+}
+
+export interface AllocationResult {
+  allocations: Allocation[];
+  /** Artículos sin stock suficiente, con lo que había disponible */
+  shortages: { itemId: string; requested: number; available: number }[];
+}
+
+/**
+ * Reparte la cantidad pedida de cada artículo entre sus ubicaciones
+ *
+ * @param {{ itemId: string; quantity: number }[]} lines - Cantidad pedida por artículo (sin repetidos)
+ * @param {AvailableLevel[]} levels - Disponible por artículo y ubicación activa
+ * @returns {AllocationResult} Asignaciones, o los faltantes si algún artículo no alcanza
+ *
+ * @description Empieza por la ubicación con más disponible para partir el
+ * pedido en la menor cantidad de ubicaciones posible. Si falta stock de algún
+ * artículo no se asigna nada.
+ */
+export function allocateStock(lines: { itemId: string; quantity: number }[], levels: AvailableLevel[]): AllocationResult {
+  const allocations: Allocation[] = [];
+  const shortages: AllocationResult['shortages'] = [];
+
+  for (const line of lines) {
+    const candidates = levels
+      .filter((level) => level.itemId === line.itemId && level.available > 0)
+      .sort((a, b) => b.available - a.available || a.locationId.localeCompare(b.locationId));
+    const available = candidates.reduce((total, level) => total + level.available, 0);
+
+    if (available < line.quantity) {
+      shortages.push({ itemId: line.itemId, requested: line.quantity, available });
+      continue;
+    }
+
+    let pending = line.quantity;
+    for (const level of candidates) {
+      if (pending === 0) break;
+      const quantity = Math.min(pending, level.available);
+      allocations.push({ itemId: line.itemId, locationId: level.locationId, quantity });
+      pending -= quantity;
+    }
+  }
+
+  return shortages.length > 0 ? { allocations: [], shortages } : { allocations, shortages };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { allocateStock } from '../src/utils/allocation';
+
+describe('allocateStock', () => {
+  it('asigna todo a una ubicación si alcanza', () => {
+    const result = allocateStock(
+      [{ itemId: 'item-1', quantity: 5 }],
+      [
+        { itemId: 'item-1', locationId: 'loc-a', available: 3 },
+        { itemId: 'item-1', locationId: 'loc-b', available: 8 }
+      ]
+    );
+
+    expect(result).toEqual({
+      allocations: [{ itemId: 'item-1', locationId: 'loc-b', quantity: 5 }],
+      shortages: []
+    });
+  });
+
+  it('reparte entre ubicaciones empezando por la de más disponible', () => {
+    const result = allocateStock(
+      [{ itemId: 'item-1', quantity: 10 }],
+      [
+        { itemId: 'item-1', locationId: 'loc-a', available: 2 },
+        { itemId: 'item-1', locationId: 'loc-b', available: 6 },
+        { itemId: 'item-1', locationId: 'loc-c', available: 4 }
+      ]
+    );
+
+    expect(result.allocations).toEqual([
+      { itemId: 'item-1', locationId: 'loc-b', quantity: 6 },
+      { itemId: 'item-1', locationId: 'loc-c', quantity: 4 }
+    ]);
+  });
+
+  it('desempata por ubicación para que el reparto sea estable', () => {
+    const result = allocateStock(
+      [{ itemId: 'item-1', quantity: 4 }],
+      [
+        { itemId: 'item-1', locationId: 'loc-b', available: 3 },
+        { itemId: 'item-1', locationId: 'loc-a', available: 3 }
+      ]
+    );
+
+    expect(result.allocations).toEqual([
+      { itemId: 'item-1', locationId: 'loc-a', quantity: 3 },
+      { itemId: 'item-1', locationId: 'loc-b', quantity: 1 }
+    ]);
+  });
+
+  it('ignora las ubicaciones de otros artículos y las que no tienen disponible', () => {
+    const result = allocateStock(
+      [
+        { itemId: 'item-1', quantity: 2 },
+        { itemId: 'item-2', quantity: 1 }
+      ],
+      [
+        { itemId: 'item-1', locationId: 'loc-a', available: 0 },
+        { itemId: 'item-1', locationId: 'loc-b', available: 2 },
+        { itemId: 'item-2', locationId: 'loc-a', available: 5 }
+      ]
+    );
+
+    expect(result.allocations).toEqual([
+      { itemId: 'item-1', locationId: 'loc-b', quantity: 2 },
+      { itemId: 'item-2', locationId: 'loc-a', quantity: 1 }
+    ]);
+  });
+
+  it('no asigna nada si falta stock de algún artículo e informa cada faltante', () => {
+    const result = allocateStock(
+      [
+        { itemId: 'item-1', quantity: 2 },
+        { itemId: 'item-2', quantity: 5 },
+        { itemId: 'item-3', quantity: 1 }
+      ],
+      [
+        { itemId: 'item-1', locationId: 'loc-a', available: 10 },
+        { itemId: 'item-2', locationId: 'loc-a', available: 1 },
+        { itemId: 'item-2', locationId: 'loc-b', available: 2 }
+      ]
+    );
+
+    expect(result).toEqual({
+      allocations: [],
+      shortages: [
+        { itemId: 'item-2', requested: 5, available: 3 },
+        { itemId: 'item-3', requested: 1, available: 0 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "discountMinor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "promotions" JSONB NOT NULL DEFAULT '[]';
+
+-- El descuento nunca supera el subtotal
+ALTER TABLE "Order" ADD CONSTRAINT "Order_discount_check" CHECK ("discountMinor" >= 0 AND "discountMinor" <= "subtotalMinor");
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "ShippingRateBasis" AS ENUM ('WEIGHT', 'PRICE');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "shippingMethod" TEXT,
+ADD COLUMN "shippingMinor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "shippingDiscountMinor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxMinor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxIncludedMinor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxes" JSONB NOT NULL DEFAULT '[]';
+
+-- El total es el subtotal menos descuentos, más el envío y los impuestos no incluidos
+ALTER TABLE "Order" ADD CONSTRAINT "Order_total_check" CHECK (
+    "shippingDiscountMinor" >= 0 AND "shippingDiscountMinor" <= "shippingMinor"
+    AND "taxMinor" >= 0 AND "taxIncludedMinor" >= 0
+    AND "totalMinor" = "subtotalMinor" - "discountMinor" + "shippingMinor" - "shippingDiscountMinor" + "taxMinor"
+);
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "region" TEXT,
+    "name" TEXT NOT NULL,
+    "rateBasisPoints" INTEGER NOT NULL,
+    "inclusive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "TaxRate_rate_check" CHECK ("rateBasisPoints" > 0 AND "rateBasisPoints" <= 10000)
+);
+
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "basis" "ShippingRateBasis" NOT NULL,
+    "currency" TEXT NOT NULL,
+    "countries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "minDays" INTEGER,
+    "maxDays" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "methodId" TEXT NOT NULL,
+    "minValue" INTEGER NOT NULL,
+    "maxValue" INTEGER,
+    "amountMinor" INTEGER NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "ShippingRate_range_check" CHECK ("minValue" >= 0 AND ("maxValue" IS NULL OR "maxValue" > "minValue") AND "amountMinor" >= 0)
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRate_country_idx" ON "TaxRate"("country");
+
+-- Una tasa por país y región (la del país tiene región null)
+CREATE UNIQUE INDEX "TaxRate_country_region_key" ON "TaxRate"("country", COALESCE("region", ''));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingMethod_code_key" ON "ShippingMethod"("code");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_methodId_minValue_idx" ON "ShippingRate"("methodId", "minValue");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_methodId_fkey" FOREIGN KEY ("methodId") REFERENCES "ShippingMethod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { OrderService } from './services/order.service';
+import { orderParamsSchema, refundSchema, searchOrdersQuerySchema, transitionSchema } from './order.schemas';
+
+/**
+ * Controlador de administración de órdenes
+ *
+ * @class AdminController
+ * @description Búsqueda y cambios de estado de órdenes de cualquier usuario.
+ * Cada ruta declara en app.ts el permiso que exige (orders:read,
+ * orders:manage u orders:refund).
+ */
+export class AdminController {
+  /** Servicio de órdenes para lógica de negocio */
+  private orderService: OrderService;
+
+  /**
+   * Constructor del controlador de administración
+   * Inicializa el servicio de órdenes
+   */
+  constructor() {
+    this.orderService = new OrderService();
+  }
+
+  /**
+   * Endpoint para buscar órdenes (requiere orders:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {status?, userId?, productId?, createdFrom?, createdTo?, page?, limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Órdenes (más recientes primero) con paginación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async searchOrders(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { page, limit, ...filters } = searchOrdersQuerySchema.parse(request.query);
+
+      const result = await this.orderService.searchOrders(filters, page, limit);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver cualquier orden con su historial (requiere orders:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Orden
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Orden no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async getOrder(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = orderParamsSchema.parse(request.params);
+
+      const order = await this.orderService.getOrder(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cambiar el estado de una orden (requiere orders:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {status, note?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Orden con el nuevo estado
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Orden no encontrada
+   * @throws {409} Transición inválida (con las permitidas), orden vencida o reserva de stock no activa
+   * @throws {503} Inventario no disponible al confirmar el pago
+   * @throws {500} Error interno del servidor
+   */
+  async transitionOrder(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = orderParamsSchema.parse(request.params);
+      const { status, note } = transitionSchema.parse(request.body);
+
+      const order = await this.orderService.transitionOrder(request.user!.userId, id, status, note);
+
+      return reply.code(200).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para marcar una orden como reembolsada (requiere orders:refund)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body {note?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Orden reembolsada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Orden no encontrada
+   * @throws {409} La orden no está pagada
+   * @throws {500} Error interno del servidor
+   */
+  async refundOrder(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = orderParamsSchema.parse(request.params);
+      const { note } = refundSchema.parse(request.body ?? {});
+
+      const order = await this.orderService.transitionOrder(request.user!.userId, id, 'REFUNDED', note);
+
+      return reply.code(200).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Admin Controller');
+  }
+}
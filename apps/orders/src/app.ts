@@ -0,0 +1,96 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { OrderController } from './order.controller';
+import { AdminController } from './admin.controller';
+import { PricingController } from './pricing.controller';
+import { OrderRepository } from './order.repository';
+import { startOrderExpiry } from './jobs/order-expiry';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const orderController = new OrderController();
+const adminController = new AdminController();
+const pricingController = new PricingController();
+const orderRepository = new OrderRepository();
+const healthController = new HealthController('orders-service', {
+  database: () => orderRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Rutas protegidas
+server.register(async function (fastify) {
+  // Exigir access token válido; las rutas de administración declaran el permiso que exigen
+  fastify.addHook('preHandler', requireAuth);
+
+  const canRead = { preHandler: requirePermission(PERMISSIONS.ORDERS_READ) };
+  const canManage = { preHandler: requirePermission(PERMISSIONS.ORDERS_MANAGE) };
+  const canRefund = { preHandler: requirePermission(PERMISSIONS.ORDERS_REFUND) };
+  const canManagePricing = { preHandler: requirePermission(PERMISSIONS.PRICING_MANAGE) };
+
+  // Órdenes del usuario autenticado; el gateway las expone en /api/orders
+  fastify.post('/', orderController.checkout.bind(orderController));
+  fastify.post('/quote', orderController.quote.bind(orderController));
+  fastify.get('/', orderController.listOrders.bind(orderController));
+  fastify.get('/:id', orderController.getOrder.bind(orderController));
+  fastify.post('/:id/cancel', orderController.cancelOrder.bind(orderController));
+
+  // Administración (/api/orders/admin en el gateway)
+  fastify.get('/admin', canRead, adminController.searchOrders.bind(adminController));
+  fastify.get('/admin/:id', canRead, adminController.getOrder.bind(adminController));
+  fastify.post('/admin/:id/transitions', canManage, adminController.transitionOrder.bind(adminController));
+  fastify.post('/admin/:id/refund', canRefund, adminController.refundOrder.bind(adminController));
+
+  // Impuestos y envíos que usa la cotización y el checkout
+  fastify.get('/admin/tax-rates', canManagePricing, pricingController.listTaxRates.bind(pricingController));
+  fastify.post('/admin/tax-rates', canManagePricing, pricingController.createTaxRate.bind(pricingController));
+  fastify.patch('/admin/tax-rates/:id', canManagePricing, pricingController.updateTaxRate.bind(pricingController));
+  fastify.delete('/admin/tax-rates/:id', canManagePricing, pricingController.deleteTaxRate.bind(pricingController));
+  fastify.get('/admin/shipping-methods', canManagePricing, pricingController.listShippingMethods.bind(pricingController));
+  fastify.post('/admin/shipping-methods', canManagePricing, pricingController.createShippingMethod.bind(pricingController));
+  fastify.get('/admin/shipping-methods/:id', canManagePricing, pricingController.getShippingMethod.bind(pricingController));
+  fastify.patch('/admin/shipping-methods/:id', canManagePricing, pricingController.updateShippingMethod.bind(pricingController));
+  fastify.delete('/admin/shipping-methods/:id', canManagePricing, pricingController.deleteShippingMethod.bind(pricingController));
+});
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: statusCode === 500 ? 'Error interno del servidor' : error.message
+    }
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    // Cancelar periódicamente las órdenes con el pago vencido. El hook onClose se
+    // registra antes de listen: Fastify no admite hooks nuevos una vez que escucha
+    const stopOrderExpiry = startOrderExpiry(server.log);
+    server.addHook('onClose', async () => stopOrderExpiry());
+
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Orders service listening on port ${config.port}`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
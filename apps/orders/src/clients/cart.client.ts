@@ -0,0 +1,67 @@
+import { CartSnapshot, ServiceUnavailableError, ValidationError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Cliente HTTP del servicio de carrito
+ *
+ * @class CartClient
+ * @description Opera sobre el carrito del usuario reenviando su access token,
+ * así el servicio de carrito resuelve el dueño igual que para el cliente.
+ */
+export class CartClient {
+  /**
+   * Obtiene el carrito del usuario con los precios vigentes
+   *
+   * @param {string} authorization - Header Authorization de la request
+   * @param {string} [priceList] - Código de lista de precios; sin lista, el precio base
+   * @returns {Promise<CartSnapshot>} Carrito (sin líneas si no existe)
+   *
+   * @throws {ValidationError} Si el carrito rechaza la lista de precios
+   * @throws {ServiceUnavailableError} Si el carrito (o el catálogo detrás) no responde
+   */
+  async getCart(authorization: string, priceList?: string): Promise<CartSnapshot> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.cart.url}/`, {
+        headers: { authorization, ...(priceList && { 'x-price-list': priceList }) },
+        signal: AbortSignal.timeout(config.cart.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('carrito');
+    }
+
+    const body = (await response.json().catch(() => null)) as any;
+
+    if (response.status === 400 && body?.error?.message) {
+      throw new ValidationError(body.error.message);
+    }
+
+    if (!response.ok || !body?.data?.cart) {
+      throw new ServiceUnavailableError('carrito');
+    }
+
+    return body.data.cart as CartSnapshot;
+  }
+
+  /**
+   * Vacía el carrito del usuario después del checkout
+   *
+   * @param {string} authorization - Header Authorization de la request
+   * @returns {Promise<boolean>} true si se vació
+   *
+   * @description No lanza errores: la orden ya está creada y un carrito que
+   * quedó con productos no la invalida.
+   */
+  async clearCart(authorization: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${config.cart.url}/`, {
+        method: 'DELETE',
+        headers: { authorization },
+        signal: AbortSignal.timeout(config.cart.timeoutMs)
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
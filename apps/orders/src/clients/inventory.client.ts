@@ -0,0 +1,133 @@
+import { ServiceTokenProvider, createServiceTokenProvider } from '@ecom/auth';
+import { ConflictError, ServiceUnavailableError, ValidationError } from '../types/index';
+import { config } from '../config';
+
+export interface ReserveLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+/**
+ * Cliente HTTP de las reservas del servicio de inventario
+ *
+ * @class InventoryClient
+ * @description Las reservas se crean con el access token del comprador (quedan a
+ * su nombre); se confirman y liberan con el token de servicio de órdenes
+ * (inventory:manage), porque pagos y vencimientos no tienen un usuario detrás.
+ */
+export class InventoryClient {
+  /** Token de servicio de órdenes */
+  private getServiceToken: ServiceTokenProvider;
+
+  /**
+   * Constructor del cliente de inventario
+   * Inicializa el proveedor del token de servicio
+   */
+  constructor() {
+    this.getServiceToken = createServiceTokenProvider({ ...config.serviceAuth, timeoutMs: config.inventory.timeoutMs });
+  }
+
+  /**
+   * Reserva stock para las líneas de una orden
+   *
+   * @param {string} authorization - Header Authorization del comprador
+   * @param {ReserveLine[]} lines - Productos y cantidades
+   * @param {number} ttlSeconds - Segundos hasta que la reserva vence
+   * @param {string} reference - Referencia de la reserva (ID de la orden)
+   * @returns {Promise<string>} ID de la reserva
+   *
+   * @throws {ConflictError} 409 INSUFFICIENT_STOCK con el detalle de faltantes
+   * @throws {ValidationError} Si el inventario rechaza las líneas
+   * @throws {ServiceUnavailableError} Si el inventario no responde o falla
+   */
+  async reserve(authorization: string, lines: ReserveLine[], ttlSeconds: number, reference: string): Promise<string> {
+    const { status, body } = await this.request(authorization, 'POST', '/reservations', { lines, ttlSeconds, reference });
+
+    if (status === 409) {
+      throw new ConflictError('INSUFFICIENT_STOCK', 'No hay stock suficiente para algunos productos', body?.error?.details);
+    }
+
+    if (status === 400) {
+      throw new ValidationError(body?.error?.message ?? 'Reserva de stock inválida', body?.error?.details);
+    }
+
+    if (status !== 201 || !body?.data?.reservation?.id) {
+      throw new ServiceUnavailableError('inventario');
+    }
+
+    return body.data.reservation.id as string;
+  }
+
+  /**
+   * Confirma una reserva: el stock reservado se descuenta
+   *
+   * @param {string} reservationId - ID de la reserva
+   *
+   * @throws {ConflictError} 409 RESERVATION_NOT_ACTIVE si la reserva venció o se liberó
+   * @throws {ServiceUnavailableError} Si el inventario o el servicio auth no responden
+   */
+  async commit(reservationId: string): Promise<void> {
+    const { status } = await this.request(await this.serviceAuthorization(), 'POST', `/reservations/${encodeURIComponent(reservationId)}/commit`);
+
+    if (status === 404 || status === 409) {
+      throw new ConflictError('RESERVATION_NOT_ACTIVE', 'La reserva de stock de la orden ya no está activa');
+    }
+
+    if (status !== 200) {
+      throw new ServiceUnavailableError('inventario');
+    }
+  }
+
+  /**
+   * Libera una reserva para devolver el stock
+   *
+   * @param {string} reservationId - ID de la reserva
+   * @returns {Promise<boolean>} true si se liberó ahora
+   *
+   * @description No lanza errores: una reserva que no se pudo liberar vence
+   * sola y el inventario devuelve el stock.
+   */
+  async release(reservationId: string): Promise<boolean> {
+    try {
+      const { status } = await this.request(await this.serviceAuthorization(), 'POST', `/reservations/${encodeURIComponent(reservationId)}/release`);
+      return status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Header Authorization con el token de servicio
+   *
+   * @private
+   */
+  private async serviceAuthorization(): Promise<string> {
+    try {
+      return `Bearer ${await this.getServiceToken()}`;
+    } catch {
+      throw new ServiceUnavailableError('autenticación');
+    }
+  }
+
+  /**
+   * Envía una request al inventario y devuelve el status y el body (si es JSON)
+   *
+   * @private
+   */
+  private async request(authorization: string, method: string, path: string, payload?: unknown): Promise<{ status: number; body: any }> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.inventory.url}${path}`, {
+        method,
+        headers: { authorization, ...(payload !== undefined && { 'content-type': 'application/json' }) },
+        body: payload !== undefined ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(config.inventory.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('inventario');
+    }
+
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+}
@@ -0,0 +1,202 @@
+import { ServiceTokenProvider, createServiceTokenProvider } from '@ecom/auth';
+import { ConflictError, ServiceUnavailableError, ValidationError } from '../types/index';
+import { PromotionResult } from '../pricing/steps';
+import { config } from '../config';
+
+export interface PromotionLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  unitPriceMinor: number;
+}
+
+/**
+ * Cliente HTTP del servicio de promociones
+ *
+ * @class PromotionsClient
+ * @description Evalúa los descuentos de una cotización con el token del
+ * comprador, y registra y libera los canjes de una orden con el token de
+ * servicio de órdenes (promotions:redeem). El servicio de promociones vuelve a
+ * evaluar el carrito y controla los límites de uso.
+ */
+export class PromotionsClient {
+  /** Token de servicio de órdenes */
+  private getServiceToken: ServiceTokenProvider;
+
+  /**
+   * Constructor del cliente de promociones
+   * Inicializa el proveedor del token de servicio
+   */
+  constructor() {
+    this.getServiceToken = createServiceTokenProvider({ ...config.serviceAuth, timeoutMs: config.promotions.timeoutMs });
+  }
+
+  /**
+   * Evalúa las promociones que aplicarían a las líneas de una cotización, sin canjearlas
+   *
+   * @param {string} authorization - Header Authorization del comprador (para los límites por usuario)
+   * @param {string[]} codes - Cupones ingresados
+   * @param {string} currency - Moneda de los precios
+   * @param {PromotionLine[]} lines - Líneas con su precio unitario
+   * @returns {Promise<PromotionResult>} Descuento total, promociones aplicadas y cupones rechazados con el motivo
+   *
+   * @throws {ValidationError} Si el servicio de promociones rechaza los datos
+   * @throws {ServiceUnavailableError} Si el servicio de promociones no responde
+   */
+  async evaluate(authorization: string, codes: string[], currency: string, lines: PromotionLine[]): Promise<PromotionResult> {
+    const { status, body } = await this.send(authorization, 'POST', '/evaluate', { codes, cart: this.toCart(currency, lines) });
+
+    if (status === 400) {
+      throw new ValidationError(body?.error?.message ?? 'Códigos de promoción inválidos', body?.error?.details);
+    }
+
+    const evaluation = body?.data?.evaluation;
+    if (status !== 200 || !evaluation) {
+      throw new ServiceUnavailableError('promociones');
+    }
+
+    return this.toResult(evaluation);
+  }
+
+  /**
+   * Canjea las promociones que aplican a las líneas de una orden
+   *
+   * @param {string} orderId - ID de la orden
+   * @param {string} userId - Comprador
+   * @param {string[]} codes - Cupones ingresados
+   * @param {string} currency - Moneda de los precios
+   * @param {PromotionLine[]} lines - Líneas con su precio unitario
+   * @returns {Promise<PromotionResult>} Descuento total y promociones aplicadas
+   *
+   * @throws {ConflictError} 409 PROMOTION_NOT_APPLICABLE con los motivos si algún cupón no aplica
+   * @throws {ValidationError} Si el servicio de promociones rechaza los datos
+   * @throws {ServiceUnavailableError} Si el servicio de promociones o el servicio auth no responden
+   */
+  async redeem(
+    orderId: string,
+    userId: string,
+    codes: string[],
+    currency: string,
+    lines: PromotionLine[]
+  ): Promise<PromotionResult> {
+    const { status, body } = await this.request('POST', '/redemptions', {
+      orderId,
+      userId,
+      codes,
+      cart: this.toCart(currency, lines)
+    });
+
+    if (status === 409) {
+      throw new ConflictError(
+        body?.error?.code ?? 'PROMOTION_NOT_APPLICABLE',
+        body?.error?.message ?? 'Algunos códigos no se pueden aplicar',
+        body?.error?.details
+      );
+    }
+
+    if (status === 400) {
+      throw new ValidationError(body?.error?.message ?? 'Códigos de promoción inválidos', body?.error?.details);
+    }
+
+    const evaluation = body?.data?.evaluation;
+    if (status !== 201 || !evaluation) {
+      throw new ServiceUnavailableError('promociones');
+    }
+
+    return this.toResult(evaluation);
+  }
+
+  /**
+   * Libera los canjes de una orden para que vuelvan a contar en los límites de uso
+   *
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<boolean>} true si el servicio de promociones confirmó la liberación
+   *
+   * @description No lanza errores: un canje que no se pudo liberar solo deja
+   * un uso de menos disponible para el cupón.
+   */
+  async release(orderId: string): Promise<boolean> {
+    try {
+      const { status } = await this.request('POST', `/redemptions/${encodeURIComponent(orderId)}/release`);
+      return status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Carrito en el formato del servicio de promociones (solo los campos que evalúa)
+   *
+   * @private
+   */
+  private toCart(currency: string, lines: PromotionLine[]) {
+    return {
+      currency,
+      items: lines.map(({ productId, variantId, quantity, unitPriceMinor }) => ({ productId, variantId, quantity, unitPriceMinor }))
+    };
+  }
+
+  /**
+   * Convierte la evaluación del servicio de promociones en unidades menores
+   *
+   * @private
+   */
+  private toResult(evaluation: any): PromotionResult {
+    return {
+      discountMinor: evaluation.discount.amountMinor,
+      promotions: evaluation.applied.map((applied: any) => ({
+        promotionId: applied.promotionId,
+        name: applied.name,
+        code: applied.code,
+        type: applied.type,
+        discountMinor: applied.discount.amountMinor,
+        freeShipping: applied.freeShipping,
+        detail: applied.detail
+      })),
+      rejected: evaluation.rejected.map(({ promotionId, name, code, reason, message }: any) => ({
+        promotionId,
+        name,
+        code,
+        reason,
+        message
+      }))
+    };
+  }
+
+  /**
+   * Envía una request con el token de servicio y devuelve el status y el body (si es JSON)
+   *
+   * @private
+   */
+  private async request(method: string, path: string, payload?: unknown): Promise<{ status: number; body: any }> {
+    let authorization: string;
+    try {
+      authorization = `Bearer ${await this.getServiceToken()}`;
+    } catch {
+      throw new ServiceUnavailableError('autenticación');
+    }
+
+    return await this.send(authorization, method, path, payload);
+  }
+
+  /**
+   * Envía una request con el Authorization indicado y devuelve el status y el body (si es JSON)
+   *
+   * @private
+   */
+  private async send(authorization: string, method: string, path: string, payload?: unknown): Promise<{ status: number; body: any }> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.promotions.url}${path}`, {
+        method,
+        headers: { authorization, ...(payload !== undefined && { 'content-type': 'application/json' }) },
+        body: payload !== undefined ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(config.promotions.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('promociones');
+    }
+
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+}
@@ -0,0 +1,40 @@
+export const config = {
+  port: Number(process.env.PORT) || 3007,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  // Servicio de carrito: de donde sale el contenido y los precios de la orden
+  cart: {
+    url: process.env.CART_SERVICE_URL || 'http://localhost:3006',
+    timeoutMs: Number(process.env.CART_SERVICE_TIMEOUT_MS) || 5000
+  },
+  // Servicio de inventario: reserva el stock al crear la orden
+  inventory: {
+    url: process.env.INVENTORY_SERVICE_URL || 'http://localhost:3005',
+    timeoutMs: Number(process.env.INVENTORY_SERVICE_TIMEOUT_MS) || 3000
+  },
+  // Servicio de promociones: descuentos de cupones y promociones automáticas
+  promotions: {
+    url: process.env.PROMOTIONS_SERVICE_URL || 'http://localhost:3009',
+    timeoutMs: Number(process.env.PROMOTIONS_SERVICE_TIMEOUT_MS) || 3000
+  },
+  // Token de servicio (client credentials) para confirmar y liberar reservas y
+  // canjes de promociones sin el token del comprador (los pagos llegan desde el servicio de pagos)
+  serviceAuth: {
+    tokenUrl: `${process.env.AUTH_SERVICE_URL || 'http://localhost:3002'}/service-token`,
+    clientId: 'orders',
+    clientSecret: process.env.ORDERS_SERVICE_SECRET
+  },
+  checkout: {
+    // Plazo para pagar una orden; es también el TTL de la reserva de stock (máximo 1 hora en inventario)
+    paymentTimeoutSeconds: 60 * 60,
+    // Cada cuánto se cancelan las órdenes pendientes vencidas, y cuántas por pasada
+    expirySweepSeconds: Number(process.env.ORDER_SWEEP_SECONDS) || 60,
+    expiryBatchSize: 100
+  },
+  pagination: {
+    defaultLimit: 20,
+    maxLimit: 100
+  }
+}
@@ -0,0 +1,26 @@
+import { FastifyBaseLogger } from 'fastify';
+import { startSweepJob } from '@ecom/service';
+import { OrderService } from '../services/order.service';
+import { config } from '../config';
+
+/**
+ * Inicia la cancelación periódica de órdenes pendientes con el pago vencido
+ *
+ * @param {FastifyBaseLogger} log - Logger del servidor
+ * @returns {() => void} Función que detiene el job
+ *
+ * @description Cada `expirySweepSeconds` cancela hasta `expiryBatchSize`
+ * órdenes por pasada. Es seguro correrlo en varias instancias: cada orden se
+ * cancela una sola vez.
+ */
+export function startOrderExpiry(log: FastifyBaseLogger): () => void {
+  const orderService = new OrderService();
+  const { expirySweepSeconds, expiryBatchSize } = config.checkout;
+
+  return startSweepJob(log, {
+    intervalSeconds: expirySweepSeconds,
+    sweep: () => orderService.expireOrders(expiryBatchSize),
+    doneMessage: 'órdenes con el pago vencido canceladas',
+    errorMessage: 'falla al cancelar órdenes vencidas'
+  });
+}
@@ -0,0 +1,181 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { OrderService } from './services/order.service';
+import { checkoutSchema, idempotencyKeySchema, listOrdersQuerySchema, orderParamsSchema, quoteSchema } from './order.schemas';
+
+/**
+ * Controlador de órdenes del comprador
+ *
+ * @class OrderController
+ * @description Checkout y consulta de las órdenes propias. Todas las rutas
+ * requieren autenticación; las órdenes ajenas se informan como inexistentes.
+ */
+export class OrderController {
+  /** Servicio de órdenes para lógica de negocio */
+  private orderService: OrderService;
+
+  /**
+   * Constructor del controlador de órdenes
+   * Inicializa el servicio de órdenes
+   */
+  constructor() {
+    this.orderService = new OrderService();
+  }
+
+  /**
+   * Endpoint de checkout: crea una orden con el contenido del carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con header Idempotency-Key y body {shippingAddress, shippingMethod, priceList?, promotionCodes?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con la orden pendiente de pago, o 200 con la misma orden si la clave ya se usó
+   *
+   * @throws {400} Error de validación, Idempotency-Key ausente o carrito vacío
+   * @throws {409} Productos del carrito no disponibles, stock insuficiente, cupón que no aplica o método de envío no disponible (con detalle)
+   * @throws {422} Idempotency-Key reutilizada con otro body
+   * @throws {503} Carrito, inventario o promociones no disponibles
+   * @throws {500} Error interno del servidor
+   *
+   * @description Las respuestas repetidas llevan el header `Idempotent-Replayed: true`.
+   */
+  async checkout(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const idempotencyKey = idempotencyKeySchema.parse(request.headers['idempotency-key']);
+      const data = checkoutSchema.parse(request.body);
+
+      const { order, replayed } = await this.orderService.checkout(
+        request.user!.userId,
+        request.headers.authorization!,
+        idempotencyKey,
+        data
+      );
+
+      if (replayed) {
+        reply.header('idempotent-replayed', 'true');
+      }
+
+      return reply.code(replayed ? 200 : 201).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cotizar el carrito antes de pagar
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {shippingAddress, shippingMethod?, priceList?, promotionCodes?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Desglose con descuentos, opciones de envío, impuestos y total
+   *
+   * @throws {400} Error de validación o carrito vacío
+   * @throws {409} Productos del carrito no disponibles o método de envío no disponible (con detalle)
+   * @throws {503} Carrito o promociones no disponibles
+   * @throws {500} Error interno del servidor
+   *
+   * @description No reserva stock ni canjea cupones: los cupones que no aplican
+   * vuelven en `rejectedPromotions` con el motivo.
+   */
+  async quote(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = quoteSchema.parse(request.body);
+
+      const quote = await this.orderService.quote(request.headers.authorization!, data);
+
+      return reply.code(200).send({
+        success: true,
+        data: { quote }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para listar las órdenes propias
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {status?, page?, limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Órdenes (más recientes primero) con paginación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async listOrders(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { status, page, limit } = listOrdersQuerySchema.parse(request.query);
+
+      const result = await this.orderService.listUserOrders(request.user!.userId, status, page, limit);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver una orden propia con su historial de estados
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Orden
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Orden no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async getOrder(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = orderParamsSchema.parse(request.params);
+
+      const order = await this.orderService.getUserOrder(request.user!.userId, id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para cancelar una orden propia pendiente de pago
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Orden cancelada
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Orden no encontrada
+   * @throws {409} La orden ya no está pendiente
+   * @throws {500} Error interno del servidor
+   */
+  async cancelOrder(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = orderParamsSchema.parse(request.params);
+
+      const order = await this.orderService.cancelUserOrder(request.user!.userId, id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { order }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Order Controller');
+  }
+}
@@ -0,0 +1,117 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { NewOrder, Order, OrderFilters, OrderStatus, OrderWithDetails, OrderWithItems } from './types/index';
+import { STATUS_TIMESTAMPS } from './utils/order-state';
+
+// Líneas en el orden del carrito
+const withItems = {
+  items: { orderBy: { position: 'asc' } },
+} satisfies Prisma.OrderInclude;
+
+// Líneas e historial de estados
+const withDetails = {
+  ...withItems,
+  events: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.OrderInclude;
+
+export class OrderRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Buscar orden por ID, con líneas e historial
+  async findOrderById(id: string): Promise<OrderWithDetails | null> {
+    return await this.prisma.order.findUnique({ where: { id }, include: withDetails });
+  }
+
+  // Buscar la orden creada por un usuario con una Idempotency-Key
+  async findOrderByIdempotencyKey(userId: string, idempotencyKey: string): Promise<OrderWithDetails | null> {
+    return await this.prisma.order.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      include: withDetails,
+    });
+  }
+
+  // Crear la orden con sus líneas y el evento de creación.
+  // Devuelve null si otra request ya creó una orden con la misma Idempotency-Key
+  async createOrder({ items, shippingAddress, promotions, taxes, ...order }: NewOrder): Promise<OrderWithDetails | null> {
+    try {
+      return await this.prisma.order.create({
+        data: {
+          ...order,
+          shippingAddress: shippingAddress as unknown as Prisma.InputJsonObject,
+          promotions: promotions as unknown as Prisma.InputJsonArray,
+          taxes: taxes as unknown as Prisma.InputJsonArray,
+          items: { create: items.map((item) => ({ ...item, options: item.options as Prisma.InputJsonObject })) },
+          events: { create: { toStatus: 'PENDING', actorId: order.userId } },
+        },
+        include: withDetails,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Listar órdenes con filtros y paginación (más recientes primero)
+  async findOrders(filters: OrderFilters, skip: number, take: number): Promise<{ orders: OrderWithItems[]; total: number }> {
+    const where: Prisma.OrderWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.productId && { items: { some: { productId: filters.productId } } }),
+      ...((filters.createdFrom || filters.createdTo) && {
+        createdAt: { gte: filters.createdFrom, lte: filters.createdTo },
+      }),
+    };
+
+    const [orders, total] = await this.prisma.$transaction([
+      this.prisma.order.findMany({ where, skip, take, include: withItems, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return { orders, total };
+  }
+
+  // Cambiar el estado solo si la orden sigue en el estado esperado, y registrar el evento.
+  // Devuelve false si otra request la cambió antes
+  async transitionOrder(
+    id: string,
+    from: OrderStatus,
+    to: Exclude<OrderStatus, 'PENDING'>,
+    actorId: string | null,
+    note: string | null,
+    at: Date
+  ): Promise<boolean> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id, status: from },
+        data: { status: to, [STATUS_TIMESTAMPS[to]]: at },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.orderEvent.create({ data: { orderId: id, fromStatus: from, toStatus: to, actorId, note, createdAt: at } });
+      return true;
+    });
+  }
+
+  // Órdenes pendientes cuyo plazo de pago venció, con sus promociones para liberar los canjes
+  async findExpiredOrders(now: Date, take: number): Promise<Pick<Order, 'id' | 'promotions'>[]> {
+    return await this.prisma.order.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: now } },
+      select: { id: true, promotions: true },
+      orderBy: { expiresAt: 'asc' },
+      take,
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { config } from './config';
+import { shippingMethodCodeSchema } from './pricing.schemas';
+
+const ORDER_STATUSES = ['PENDING', 'PAID', 'FULFILLED', 'DELIVERED', 'CANCELLED', 'REFUNDED'] as const;
+
+const optionalText = (max: number) => z.string().trim().min(1).max(max).optional();
+
+// Dirección de envío que se copia en la orden
+const shippingAddressSchema = z.object({
+  fullName: z.string().trim().min(1, 'Nombre requerido').max(200),
+  line1: z.string().trim().min(1, 'Dirección requerida').max(200),
+  line2: optionalText(200),
+  city: z.string().trim().min(1, 'Ciudad requerida').max(100),
+  state: optionalText(100),
+  postalCode: z.string().trim().min(1, 'Código postal requerido').max(20),
+  country: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/, 'País inválido (código ISO 3166-1 de 2 letras)')
+    .transform((country) => country.toUpperCase()),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9 ()-]{6,20}$/, 'Teléfono inválido')
+    .optional(),
+});
+
+// Schema para el checkout
+export const checkoutSchema = z.object({
+  shippingAddress: shippingAddressSchema,
+  // Lista de precios con la que se cobra (la misma que usa el carrito); sin lista, el precio base
+  priceList: z.string().trim().min(1).max(50).optional(),
+  // Cupones de descuento (ej: 'VERANO25'); las promociones automáticas se aplican siempre
+  promotionCodes: z
+    .array(
+      z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z0-9_-]{3,32}$/, 'Código de promoción inválido')
+    )
+    .max(5, 'Máximo 5 códigos de promoción')
+    .optional(),
+  // Método de envío elegido entre las opciones de la cotización (ej: 'standard')
+  shippingMethod: shippingMethodCodeSchema,
+});
+
+// Schema para cotizar el carrito antes de pagar; sin método de envío se devuelven las opciones sin cobrar envío
+export const quoteSchema = checkoutSchema.extend({
+  shippingMethod: shippingMethodCodeSchema.optional(),
+});
+
+// Header Idempotency-Key del checkout (ej: un UUID generado por el cliente)
+export const idempotencyKeySchema = z
+  .string({ required_error: 'Falta el header Idempotency-Key' })
+  .regex(/^[\x21-\x7E]{1,255}$/, 'Idempotency-Key inválida (hasta 255 caracteres ASCII visibles)');
+
+const pageSchema = z.coerce.number().int().min(1, 'Página debe ser mayor a 0').default(1);
+
+const limitSchema = z.coerce
+  .number()
+  .int()
+  .min(1, 'Límite debe ser mayor a 0')
+  .max(config.pagination.maxLimit, `Límite máximo ${config.pagination.maxLimit}`)
+  .default(config.pagination.defaultLimit);
+
+// Schema para el listado de órdenes propias
+export const listOrdersQuerySchema = z.object({
+  status: z.enum(ORDER_STATUSES, { message: 'Estado inválido' }).optional(),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+// Schema para la búsqueda de órdenes (staff)
+export const searchOrdersQuerySchema = listOrdersQuerySchema
+  .extend({
+    userId: z.string().uuid('ID de usuario inválido').optional(),
+    productId: z.string().uuid('ID de producto inválido').optional(),
+    createdFrom: z.coerce.date({ message: 'Fecha inválida' }).optional(),
+    createdTo: z.coerce.date({ message: 'Fecha inválida' }).optional(),
+  })
+  .refine((data) => !data.createdFrom || !data.createdTo || data.createdFrom <= data.createdTo, {
+    message: 'createdFrom debe ser anterior a createdTo',
+    path: ['createdFrom'],
+  });
+
+// Schema para el ID de orden en la URL
+export const orderParamsSchema = z.object({
+  id: z.string().uuid('ID de orden inválido'),
+});
+
+// Schema para cambiar el estado de una orden (staff); el reembolso tiene su propio endpoint
+export const transitionSchema = z.object({
+  status: z.enum(['PAID', 'FULFILLED', 'DELIVERED', 'CANCELLED'], { message: 'Estado inválido' }),
+  note: optionalText(500),
+});
+
+// Schema para reembolsar una orden (staff)
+export const refundSchema = z.object({
+  note: optionalText(500),
+});
+
+// Tipos inferidos de los schemas
+export type CheckoutBody = z.infer<typeof checkoutSchema>;
+export type SearchOrdersQuery = z.infer<typeof searchOrdersQuerySchema>;
+export type TransitionBody = z.infer<typeof transitionSchema>;
@@ -0,0 +1,273 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PricingService } from './services/pricing.service';
+import {
+  createShippingMethodSchema,
+  createTaxRateSchema,
+  listTaxRatesQuerySchema,
+  pricingParamsSchema,
+  updateShippingMethodSchema,
+  updateTaxRateSchema
+} from './pricing.schemas';
+
+/**
+ * Controlador de administración de impuestos y envíos
+ *
+ * @class PricingController
+ * @description Tasas de impuestos por país y región, y métodos de envío con
+ * sus tarifas. Todas las rutas exigen el permiso pricing:manage (ver app.ts).
+ */
+export class PricingController {
+  /** Servicio de precios para lógica de negocio */
+  private pricingService: PricingService;
+
+  /**
+   * Constructor del controlador de precios
+   * Inicializa el servicio de precios
+   */
+  constructor() {
+    this.pricingService = new PricingService();
+  }
+
+  /**
+   * Endpoint para listar las tasas de impuestos
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {country?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Tasas por país y región
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async listTaxRates(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { country } = listTaxRatesQuerySchema.parse(request.query);
+
+      const taxRates = await this.pricingService.listTaxRates(country);
+
+      return reply.code(200).send({
+        success: true,
+        data: { taxRates }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear una tasa de impuestos
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {country, region?, name, rate, inclusive?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con la tasa creada
+   *
+   * @throws {400} Error de validación o tasa fuera de rango
+   * @throws {409} El país y la región ya tienen una tasa
+   * @throws {500} Error interno del servidor
+   */
+  async createTaxRate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createTaxRateSchema.parse(request.body);
+
+      const taxRate = await this.pricingService.createTaxRate(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { taxRate }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar una tasa de impuestos
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body con los campos a cambiar
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Tasa actualizada
+   *
+   * @throws {400} Error de validación o tasa fuera de rango
+   * @throws {404} Tasa no encontrada
+   * @throws {409} El país y la región ya tienen otra tasa
+   * @throws {500} Error interno del servidor
+   */
+  async updateTaxRate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = pricingParamsSchema.parse(request.params);
+      const changes = updateTaxRateSchema.parse(request.body);
+
+      const taxRate = await this.pricingService.updateTaxRate(id, changes);
+
+      return reply.code(200).send({
+        success: true,
+        data: { taxRate }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para eliminar una tasa de impuestos
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de la eliminación
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Tasa no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async deleteTaxRate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = pricingParamsSchema.parse(request.params);
+
+      await this.pricingService.deleteTaxRate(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { id }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para listar los métodos de envío
+   *
+   * @param {FastifyRequest} _request - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Métodos de envío con sus tarifas
+   *
+   * @throws {500} Error interno del servidor
+   */
+  async listShippingMethods(_request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const shippingMethods = await this.pricingService.listShippingMethods();
+
+      return reply.code(200).send({
+        success: true,
+        data: { shippingMethods }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver un método de envío
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Método de envío con sus tarifas
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Método no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async getShippingMethod(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = pricingParamsSchema.parse(request.params);
+
+      const shippingMethod = await this.pricingService.getShippingMethod(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { shippingMethod }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para crear un método de envío
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {code, name, basis, currency, countries?, minDays?, maxDays?, active?, rates}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con el método creado
+   *
+   * @throws {400} Error de validación o tarifas inválidas
+   * @throws {409} Código en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createShippingMethod(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createShippingMethodSchema.parse(request.body);
+
+      const shippingMethod = await this.pricingService.createShippingMethod(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { shippingMethod }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar un método de envío
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body con los campos a cambiar (rates reemplaza la tabla)
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Método actualizado
+   *
+   * @throws {400} Error de validación o tarifas inválidas
+   * @throws {404} Método no encontrado
+   * @throws {409} Código en uso
+   * @throws {500} Error interno del servidor
+   */
+  async updateShippingMethod(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = pricingParamsSchema.parse(request.params);
+      const changes = updateShippingMethodSchema.parse(request.body);
+
+      const shippingMethod = await this.pricingService.updateShippingMethod(id, changes);
+
+      return reply.code(200).send({
+        success: true,
+        data: { shippingMethod }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para eliminar un método de envío
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de la eliminación
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Método no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async deleteShippingMethod(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = pricingParamsSchema.parse(request.params);
+
+      await this.pricingService.deleteShippingMethod(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { id }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Pricing Controller');
+  }
+}
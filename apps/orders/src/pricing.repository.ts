@@ -0,0 +1,123 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ShippingMethodData, ShippingMethodWithRates, TaxRate, TaxRateData } from './types/index';
+
+// Tramos de menor a mayor
+const withRates = {
+  rates: { orderBy: { minValue: 'asc' }, select: { minValue: true, maxValue: true, amountMinor: true } },
+} satisfies Prisma.ShippingMethodInclude;
+
+export class PricingRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Tasas del país y de la región (primero la del país)
+  async findTaxRates(country: string, region: string | null): Promise<TaxRate[]> {
+    return await this.prisma.taxRate.findMany({
+      where: { country, OR: [{ region: null }, ...(region ? [{ region }] : [])] },
+      orderBy: { region: { sort: 'asc', nulls: 'first' } },
+    });
+  }
+
+  // Listar tasas, opcionalmente de un país
+  async listTaxRates(country?: string): Promise<TaxRate[]> {
+    return await this.prisma.taxRate.findMany({
+      where: country ? { country } : {},
+      orderBy: [{ country: 'asc' }, { region: { sort: 'asc', nulls: 'first' } }],
+    });
+  }
+
+  // Buscar tasa por ID
+  async findTaxRateById(id: string): Promise<TaxRate | null> {
+    return await this.prisma.taxRate.findUnique({ where: { id } });
+  }
+
+  // Crear tasa. Devuelve null si el país y la región ya tienen una
+  async createTaxRate(data: TaxRateData): Promise<TaxRate | null> {
+    try {
+      return await this.prisma.taxRate.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Actualizar tasa. Devuelve null si el país y la región ya tienen otra
+  async updateTaxRate(id: string, data: Partial<TaxRateData>): Promise<TaxRate | null> {
+    try {
+      return await this.prisma.taxRate.update({ where: { id }, data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Eliminar tasa
+  async deleteTaxRate(id: string): Promise<void> {
+    await this.prisma.taxRate.delete({ where: { id } });
+  }
+
+  // Métodos activos en la moneda que llegan al país (sin países = todos)
+  async findAvailableShippingMethods(country: string, currency: string): Promise<ShippingMethodWithRates[]> {
+    return await this.prisma.shippingMethod.findMany({
+      where: { active: true, currency, OR: [{ countries: { isEmpty: true } }, { countries: { has: country } }] },
+      include: withRates,
+    });
+  }
+
+  // Listar métodos de envío con sus tarifas
+  async listShippingMethods(): Promise<ShippingMethodWithRates[]> {
+    return await this.prisma.shippingMethod.findMany({ include: withRates, orderBy: { code: 'asc' } });
+  }
+
+  // Buscar método de envío por ID, con sus tarifas
+  async findShippingMethodById(id: string): Promise<ShippingMethodWithRates | null> {
+    return await this.prisma.shippingMethod.findUnique({ where: { id }, include: withRates });
+  }
+
+  // Crear método con sus tarifas. Devuelve null si el código está en uso
+  async createShippingMethod({ rates, ...method }: ShippingMethodData): Promise<ShippingMethodWithRates | null> {
+    try {
+      return await this.prisma.shippingMethod.create({
+        data: { ...method, rates: { create: rates } },
+        include: withRates,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Actualizar método; si vienen tarifas reemplazan a las anteriores en la misma operación.
+  // Devuelve null si el código está en uso
+  async updateShippingMethod(
+    id: string,
+    { rates, ...method }: Partial<ShippingMethodData>
+  ): Promise<ShippingMethodWithRates | null> {
+    try {
+      return await this.prisma.shippingMethod.update({
+        where: { id },
+        data: { ...method, ...(rates && { rates: { deleteMany: {}, create: rates } }) },
+        include: withRates,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Eliminar método (las tarifas se borran en cascada)
+  async deleteShippingMethod(id: string): Promise<void> {
+    await this.prisma.shippingMethod.delete({ where: { id } });
+  }
+}
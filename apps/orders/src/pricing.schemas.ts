@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '@ecom/service';
+
+const SHIPPING_RATE_BASES = ['WEIGHT', 'PRICE'] as const;
+
+// Código de método de envío (ej: 'standard', 'express-24h')
+export const shippingMethodCodeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9_-]{2,40}$/, 'Código de método de envío inválido');
+
+const countrySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, 'País inválido (código ISO 3166-1 de 2 letras)')
+  .transform((country) => country.toUpperCase());
+
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isSupportedCurrency, 'Moneda inválida (código ISO 4217)');
+
+const amountSchema = z
+  .string({ message: "Monto debe ser un decimal en texto, ej: '19.99'" })
+  .trim()
+  .regex(/^\d{1,10}(\.\d{1,3})?$/, "Monto debe ser un decimal en texto, ej: '19.99'");
+
+// Gramos (tarifas por peso) o monto decimal en texto (tarifas por precio)
+const rateBoundSchema = z.union([z.number().int().min(0).max(100_000_000), amountSchema], {
+  message: "Límite inválido: gramos (número entero) o monto en texto, ej: '50.00'",
+});
+
+const deliveryDaysSchema = z.number().int().min(0).max(365).nullable().optional();
+
+// Región de la dirección de envío (mismo texto que `state`, ej: 'CA'); se guarda en mayúsculas
+const regionSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .transform((region) => region.toUpperCase());
+
+// Schema para crear una tasa de impuestos
+export const createTaxRateSchema = z.object({
+  country: countrySchema,
+  // Sin región, la tasa aplica a todo el país (se suma a la de la región si existe)
+  region: regionSchema.nullable().optional(),
+  name: z.string().trim().min(1, 'Nombre requerido').max(100),
+  // Porcentaje con hasta 2 decimales (ej: '21' o '10.5')
+  rate: z
+    .string({ message: "Tasa debe ser un porcentaje en texto, ej: '21' o '10.5'" })
+    .trim()
+    .regex(/^\d{1,3}(\.\d{1,2})?$/, "Tasa debe ser un porcentaje en texto, ej: '21' o '10.5'"),
+  // true: el precio ya incluye el impuesto (ej: IVA en Europa); false: se suma al total
+  inclusive: z.boolean().optional(),
+});
+
+// Schema para actualizar una tasa de impuestos (al menos un campo)
+export const updateTaxRateSchema = createTaxRateSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debe indicar al menos un campo a actualizar',
+  });
+
+// Schema para el listado de tasas
+export const listTaxRatesQuerySchema = z.object({
+  country: countrySchema.optional(),
+});
+
+// Tramo de una tarifa de envío: aplica desde min (inclusive) hasta max (exclusivo); sin max, sin límite
+const shippingRateSchema = z.object({
+  min: rateBoundSchema,
+  max: rateBoundSchema.nullable().optional(),
+  price: amountSchema,
+});
+
+const shippingMethodFields = {
+  code: shippingMethodCodeSchema,
+  name: z.string().trim().min(1, 'Nombre requerido').max(100),
+  basis: z.enum(SHIPPING_RATE_BASES, { message: 'Base inválida (WEIGHT o PRICE)' }),
+  currency: currencySchema,
+  // Países de destino; vacío = todos
+  countries: z.array(countrySchema).max(250),
+  minDays: deliveryDaysSchema,
+  maxDays: deliveryDaysSchema,
+  active: z.boolean(),
+  rates: z.array(shippingRateSchema).min(1, 'Debe tener al menos una tarifa').max(50),
+};
+
+// Schema para crear un método de envío
+export const createShippingMethodSchema = z.object({
+  ...shippingMethodFields,
+  countries: shippingMethodFields.countries.optional(),
+  active: shippingMethodFields.active.optional(),
+});
+
+// Schema para actualizar un método de envío (al menos un campo; rates reemplaza la tabla completa)
+export const updateShippingMethodSchema = z
+  .object(shippingMethodFields)
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debe indicar al menos un campo a actualizar',
+  });
+
+// Schema para el ID de una tasa o método en la URL
+export const pricingParamsSchema = z.object({
+  id: z.string().uuid('ID inválido'),
+});
@@ -0,0 +1,95 @@
+import { OrderPromotion, PromotionRejection, ShippingAddress, ShippingOption, TaxLine } from '../types/index';
+
+/** Línea a cotizar, con su precio unitario en la moneda del pedido */
+export interface PricingLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  unitPriceMinor: number;
+  /** Peso unitario en gramos (null si el producto no lo tiene cargado) */
+  weightGrams: number | null;
+}
+
+export interface PricingRequest {
+  currency: string;
+  lines: PricingLine[];
+  shippingAddress: ShippingAddress;
+  /** Método de envío elegido; sin método no se cobra envío */
+  shippingMethod?: string;
+}
+
+/** Desglose del precio de un pedido, en unidades menores de su moneda */
+export interface PriceBreakdown {
+  currency: string;
+  subtotalMinor: number;
+  discountMinor: number;
+  promotions: OrderPromotion[];
+  rejectedPromotions: PromotionRejection[];
+  /** Alguna promoción bonifica el envío */
+  freeShipping: boolean;
+  /** Métodos de envío disponibles para el pedido */
+  shippingOptions: ShippingOption[];
+  shipping: { method: string; amountMinor: number; discountMinor: number } | null;
+  taxes: TaxLine[];
+  /** Impuestos que se suman al total */
+  taxMinor: number;
+  /** Impuestos ya incluidos en los precios */
+  taxIncludedMinor: number;
+  totalMinor: number;
+}
+
+/**
+ * Paso del pipeline de precios: completa su parte del desglose con lo que
+ * calcularon los pasos anteriores (ej: el envío usa el subtotal con descuentos)
+ */
+export interface PricingStep {
+  apply(request: PricingRequest, breakdown: PriceBreakdown): Promise<void>;
+}
+
+/**
+ * Calcula el precio de un pedido ejecutando los pasos en orden
+ *
+ * @param {PricingStep[]} steps - Pasos a ejecutar (ej: promociones, envío, impuestos)
+ * @param {PricingRequest} request - Líneas, moneda, dirección y método de envío
+ * @returns {Promise<PriceBreakdown>} Desglose con el total
+ *
+ * @description El total es el subtotal menos los descuentos, más el envío
+ * (menos su bonificación) y los impuestos que no están incluidos en los precios.
+ */
+export async function runPricingPipeline(steps: PricingStep[], request: PricingRequest): Promise<PriceBreakdown> {
+  const breakdown: PriceBreakdown = {
+    currency: request.currency,
+    subtotalMinor: request.lines.reduce((sum, line) => sum + line.unitPriceMinor * line.quantity, 0),
+    discountMinor: 0,
+    promotions: [],
+    rejectedPromotions: [],
+    freeShipping: false,
+    shippingOptions: [],
+    shipping: null,
+    taxes: [],
+    taxMinor: 0,
+    taxIncludedMinor: 0,
+    totalMinor: 0
+  };
+
+  for (const step of steps) {
+    await step.apply(request, breakdown);
+  }
+
+  breakdown.totalMinor = netMerchandiseMinor(breakdown) + netShippingMinor(breakdown) + breakdown.taxMinor;
+  return breakdown;
+}
+
+/**
+ * Subtotal menos los descuentos de las promociones
+ */
+export function netMerchandiseMinor(breakdown: PriceBreakdown): number {
+  return breakdown.subtotalMinor - breakdown.discountMinor;
+}
+
+/**
+ * Costo del envío elegido menos su bonificación (0 sin envío)
+ */
+export function netShippingMinor(breakdown: PriceBreakdown): number {
+  return breakdown.shipping ? breakdown.shipping.amountMinor - breakdown.shipping.discountMinor : 0;
+}
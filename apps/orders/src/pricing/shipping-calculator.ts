@@ -0,0 +1,69 @@
+import { ShippingOption, ShippingRate } from '../types/index';
+import { PricingRepository } from '../pricing.repository';
+
+/** Lo que se envía y a dónde */
+export interface Parcel {
+  country: string;
+  currency: string;
+  /** Peso total en gramos; null si algún producto no tiene peso cargado */
+  weightGrams: number | null;
+  /** Valor de los productos con descuentos, en unidades menores */
+  valueMinor: number;
+}
+
+/** Cotiza los métodos de envío de un paquete (reemplazable por un proveedor externo) */
+export interface ShippingCalculator {
+  quote(parcel: Parcel): Promise<ShippingOption[]>;
+}
+
+/**
+ * Calculador de envío a partir de las tablas de tarifas de cada método
+ *
+ * @class TableShippingCalculator
+ * @description Cada método cobra según el peso o el valor del pedido. Los
+ * métodos por peso no se ofrecen si algún producto no tiene peso cargado.
+ */
+export class TableShippingCalculator implements ShippingCalculator {
+  /** Repositorio de métodos de envío */
+  private pricingRepository: PricingRepository;
+
+  /**
+   * Constructor del calculador de envío
+   * Inicializa el repositorio de métodos de envío
+   */
+  constructor() {
+    this.pricingRepository = new PricingRepository();
+  }
+
+  /**
+   * Cotiza los métodos activos que llegan al país del paquete en su moneda
+   *
+   * @param {Parcel} parcel - Destino, moneda, peso y valor
+   * @returns {Promise<ShippingOption[]>} Métodos con tarifa para el paquete, del más barato al más caro
+   */
+  async quote(parcel: Parcel): Promise<ShippingOption[]> {
+    const methods = await this.pricingRepository.findAvailableShippingMethods(parcel.country, parcel.currency);
+
+    return methods
+      .flatMap((method) => {
+        const value = method.basis === 'WEIGHT' ? parcel.weightGrams : parcel.valueMinor;
+        const rate = value === null ? undefined : findRate(method.rates, value);
+
+        return rate
+          ? [{ method: method.code, name: method.name, amountMinor: rate.amountMinor, minDays: method.minDays, maxDays: method.maxDays }]
+          : [];
+      })
+      .sort((a, b) => a.amountMinor - b.amountMinor);
+  }
+}
+
+/**
+ * Busca el tramo de tarifa que corresponde a un valor
+ *
+ * @param {ShippingRate[]} rates - Tramos del método
+ * @param {number} value - Gramos o unidades menores
+ * @returns {ShippingRate | undefined} Tramo con minValue <= valor < maxValue, o undefined si ninguno cubre el valor
+ */
+export function findRate(rates: ShippingRate[], value: number): ShippingRate | undefined {
+  return rates.find((rate) => rate.minValue <= value && (rate.maxValue === null || value < rate.maxValue));
+}
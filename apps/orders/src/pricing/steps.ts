@@ -0,0 +1,101 @@
+import { ConflictError, OrderPromotion, PromotionRejection } from '../types/index';
+import { PricingRequest, PricingStep, netMerchandiseMinor, netShippingMinor } from './pipeline';
+import { ShippingCalculator } from './shipping-calculator';
+import { TaxCalculator } from './tax-calculator';
+
+/** Descuentos que resolvió el servicio de promociones */
+export interface PromotionResult {
+  discountMinor: number;
+  promotions: OrderPromotion[];
+  rejected: PromotionRejection[];
+}
+
+/** Obtiene los descuentos de un pedido (evaluación en la cotización, canje en el checkout) */
+export type PromotionResolver = (request: PricingRequest) => Promise<PromotionResult>;
+
+/**
+ * Paso de promociones: descuentos sobre los productos y envío gratis
+ *
+ * @param {PromotionResolver} resolve - Evalúa o canjea las promociones del pedido
+ * @returns {PricingStep} Paso del pipeline
+ */
+export function promotionsStep(resolve: PromotionResolver): PricingStep {
+  return {
+    async apply(request, breakdown) {
+      const result = await resolve(request);
+
+      breakdown.discountMinor = result.discountMinor;
+      breakdown.promotions = result.promotions;
+      breakdown.rejectedPromotions = result.rejected;
+      breakdown.freeShipping = result.promotions.some((promotion) => promotion.freeShipping);
+    }
+  };
+}
+
+/**
+ * Paso de envío: métodos disponibles y costo del método elegido
+ *
+ * @param {ShippingCalculator} calculator - Cotizador de envíos
+ * @returns {PricingStep} Paso del pipeline
+ *
+ * @throws {ConflictError} SHIPPING_METHOD_UNAVAILABLE si el método elegido no llega al destino o no cubre el pedido
+ */
+export function shippingStep(calculator: ShippingCalculator): PricingStep {
+  return {
+    async apply(request, breakdown) {
+      const weights = request.lines.map((line) => (line.weightGrams === null ? null : line.weightGrams * line.quantity));
+
+      breakdown.shippingOptions = await calculator.quote({
+        country: request.shippingAddress.country,
+        currency: request.currency,
+        weightGrams: weights.includes(null) ? null : weights.reduce<number>((sum, grams) => sum + grams!, 0),
+        valueMinor: netMerchandiseMinor(breakdown)
+      });
+
+      if (!request.shippingMethod) {
+        return;
+      }
+
+      const option = breakdown.shippingOptions.find((candidate) => candidate.method === request.shippingMethod);
+      if (!option) {
+        throw new ConflictError(
+          'SHIPPING_METHOD_UNAVAILABLE',
+          'El método de envío no está disponible para esta dirección y pedido',
+          { available: breakdown.shippingOptions.map((candidate) => candidate.method) }
+        );
+      }
+
+      breakdown.shipping = {
+        method: option.method,
+        amountMinor: option.amountMinor,
+        discountMinor: breakdown.freeShipping ? option.amountMinor : 0
+      };
+    }
+  };
+}
+
+/**
+ * Paso de impuestos: se calculan sobre los productos y el envío, con descuentos
+ *
+ * @param {TaxCalculator} calculator - Calculador de impuestos
+ * @returns {PricingStep} Paso del pipeline
+ */
+export function taxStep(calculator: TaxCalculator): PricingStep {
+  return {
+    async apply(request, breakdown) {
+      breakdown.taxes = await calculator.calculate({
+        country: request.shippingAddress.country,
+        region: request.shippingAddress.state ?? null,
+        taxableMinor: netMerchandiseMinor(breakdown) + netShippingMinor(breakdown)
+      });
+
+      for (const tax of breakdown.taxes) {
+        if (tax.inclusive) {
+          breakdown.taxIncludedMinor += tax.amountMinor;
+        } else {
+          breakdown.taxMinor += tax.amountMinor;
+        }
+      }
+    }
+  };
+}
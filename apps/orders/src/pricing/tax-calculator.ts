@@ -0,0 +1,95 @@
+import { TaxLine, TaxRate } from '../types/index';
+import { PricingRepository } from '../pricing.repository';
+
+/** Lo que se grava de un pedido y dónde se entrega */
+export interface TaxableOrder {
+  country: string;
+  region: string | null;
+  /** Productos y envío, con descuentos, en unidades menores */
+  taxableMinor: number;
+}
+
+/** Calcula los impuestos de un pedido (reemplazable por un proveedor externo) */
+export interface TaxCalculator {
+  calculate(order: TaxableOrder): Promise<TaxLine[]>;
+}
+
+/**
+ * Calculador de impuestos a partir de la tabla de tasas por país y región
+ *
+ * @class TableTaxCalculator
+ * @description Aplica juntas la tasa del país (sin región) y la de la región
+ * de la dirección de envío, si existen.
+ */
+export class TableTaxCalculator implements TaxCalculator {
+  /** Repositorio de tasas de impuestos */
+  private pricingRepository: PricingRepository;
+
+  /**
+   * Constructor del calculador de impuestos
+   * Inicializa el repositorio de tasas
+   */
+  constructor() {
+    this.pricingRepository = new PricingRepository();
+  }
+
+  /**
+   * Calcula los impuestos de un pedido con las tasas de su destino
+   *
+   * @param {TaxableOrder} order - País, región y monto gravado
+   * @returns {Promise<TaxLine[]>} Un impuesto por tasa (vacío si el destino no tiene tasas)
+   */
+  async calculate(order: TaxableOrder): Promise<TaxLine[]> {
+    const rates = await this.pricingRepository.findTaxRates(order.country, order.region?.toUpperCase() ?? null);
+    return computeTaxLines(rates, order.taxableMinor);
+  }
+}
+
+/**
+ * Calcula el monto de cada tasa sobre un monto gravado
+ *
+ * @param {Pick<TaxRate, 'name' | 'rateBasisPoints' | 'inclusive'>[]} rates - Tasas a aplicar
+ * @param {number} taxableMinor - Monto gravado en unidades menores
+ * @returns {TaxLine[]} Impuestos en el orden de las tasas
+ *
+ * @description Las tasas incluidas en el precio se separan del monto con la
+ * tasa combinada (precio / (1 + tasas)) y se reparten en proporción a cada
+ * tasa; la última se queda con el resto del redondeo para que la suma cierre.
+ * Las tasas no incluidas se calculan sobre el monto sin los impuestos incluidos.
+ */
+export function computeTaxLines(
+  rates: Pick<TaxRate, 'name' | 'rateBasisPoints' | 'inclusive'>[],
+  taxableMinor: number
+): TaxLine[] {
+  const inclusive = rates.filter((rate) => rate.inclusive);
+  const inclusiveBasisPoints = inclusive.reduce((sum, rate) => sum + rate.rateBasisPoints, 0);
+  const includedMinor =
+    inclusiveBasisPoints > 0 ? taxableMinor - Math.round((taxableMinor * 10_000) / (10_000 + inclusiveBasisPoints)) : 0;
+
+  let remainingMinor = includedMinor;
+  const netMinor = taxableMinor - includedMinor;
+
+  return rates.map((rate) => {
+    let amountMinor: number;
+    if (!rate.inclusive) {
+      amountMinor = Math.round((netMinor * rate.rateBasisPoints) / 10_000);
+    } else if (rate === inclusive[inclusive.length - 1]) {
+      amountMinor = remainingMinor;
+    } else {
+      amountMinor = Math.floor((includedMinor * rate.rateBasisPoints) / inclusiveBasisPoints);
+      remainingMinor -= amountMinor;
+    }
+
+    return { name: rate.name, rateBasisPoints: rate.rateBasisPoints, inclusive: rate.inclusive, amountMinor };
+  });
+}
+
+/**
+ * Tasa en puntos básicos como porcentaje en texto
+ *
+ * @param {number} basisPoints - Tasa (ej: 1050)
+ * @returns {string} Porcentaje con 2 decimales (ej: '10.50')
+ */
+export function formatRate(basisPoints: number): string {
+  return `${Math.floor(basisPoints / 100)}.${String(basisPoints % 100).padStart(2, '0')}`;
+}
@@ -0,0 +1,613 @@
+import { randomUUID } from 'crypto';
+import { toMoney } from '@ecom/service';
+import { OrderRepository } from '../order.repository';
+import { CartClient } from '../clients/cart.client';
+import { InventoryClient } from '../clients/inventory.client';
+import { PromotionsClient } from '../clients/promotions.client';
+import { PriceBreakdown, PricingRequest, PricingStep, runPricingPipeline } from '../pricing/pipeline';
+import { PromotionResolver, promotionsStep, shippingStep, taxStep } from '../pricing/steps';
+import { ShippingCalculator, TableShippingCalculator } from '../pricing/shipping-calculator';
+import { TableTaxCalculator, TaxCalculator, formatRate } from '../pricing/tax-calculator';
+import {
+  CartSnapshot,
+  CheckoutInput,
+  ConflictError,
+  IdempotencyKeyReusedError,
+  NewOrder,
+  NotFoundError,
+  OrderFilters,
+  OrderPromotion,
+  OrderResponse,
+  OrderStatus,
+  OrderWithDetails,
+  OrderWithItems,
+  Pagination,
+  QuoteInput,
+  QuoteResponse,
+  ShippingAddress,
+  TaxLine,
+  TaxLineResponse,
+  ValidationError
+} from '../types/index';
+import { assertTransition } from '../utils/order-state';
+import { hashRequest } from '../utils/idempotency';
+import { config } from '../config';
+
+/**
+ * Servicio de órdenes
+ *
+ * @class OrderService
+ * @description Convierte el carrito del usuario en una orden con los precios
+ * congelados y el stock reservado, y gestiona su ciclo de vida con la máquina
+ * de estados de `utils/order-state`.
+ */
+export class OrderService {
+  /** Repositorio para acceso a órdenes */
+  private orderRepository: OrderRepository;
+
+  /** Carrito, de donde salen las líneas y precios de la orden */
+  private cartClient: CartClient;
+
+  /** Inventario, para reservar y confirmar el stock */
+  private inventoryClient: InventoryClient;
+
+  /** Promociones, para evaluar y canjear los descuentos de la orden */
+  private promotionsClient: PromotionsClient;
+
+  /** Costo de los métodos de envío */
+  private shippingCalculator: ShippingCalculator;
+
+  /** Impuestos según el destino */
+  private taxCalculator: TaxCalculator;
+
+  /**
+   * Constructor del servicio de órdenes
+   * Inicializa el repositorio de datos, los clientes de carrito, inventario y
+   * promociones, y los calculadores de envío e impuestos
+   */
+  constructor() {
+    this.orderRepository = new OrderRepository();
+    this.cartClient = new CartClient();
+    this.inventoryClient = new InventoryClient();
+    this.promotionsClient = new PromotionsClient();
+    this.shippingCalculator = new TableShippingCalculator();
+    this.taxCalculator = new TableTaxCalculator();
+  }
+
+  /**
+   * Cotiza el carrito con descuentos, envío e impuestos, sin crear la orden
+   *
+   * @param {string} authorization - Header Authorization del comprador (para carrito y promociones)
+   * @param {QuoteInput} input - Dirección de envío, método de envío opcional, lista de precios y cupones
+   * @returns {Promise<QuoteResponse>} Desglose con las opciones de envío y el total que se cobraría
+   *
+   * @throws {ValidationError} Si el carrito está vacío
+   * @throws {ConflictError} CART_HAS_ISSUES si alguna línea no se puede comprar,
+   * SHIPPING_METHOD_UNAVAILABLE si el método elegido no está entre las opciones
+   * @throws {ServiceUnavailableError} Si el carrito o las promociones no responden
+   *
+   * @description Usa el mismo pipeline de precios que el checkout, pero evalúa
+   * las promociones sin canjearlas: los cupones que no aplican vuelven en
+   * `rejectedPromotions` en lugar de cortar la cotización.
+   */
+  async quote(authorization: string, input: QuoteInput): Promise<QuoteResponse> {
+    const cart = await this.getPurchasableCart(authorization, input.priceList);
+    const items = this.toOrderItems(cart);
+    const promotionCodes = input.promotionCodes ?? [];
+
+    const breakdown = await runPricingPipeline(
+      this.pricingSteps((request) =>
+        this.promotionsClient.evaluate(authorization, promotionCodes, request.currency, request.lines)
+      ),
+      this.toPricingRequest(cart, input.shippingAddress, input.shippingMethod)
+    );
+
+    const { currency } = breakdown;
+    return {
+      items: items.map(({ position, unitPriceMinor, lineTotalMinor, ...item }) => ({
+        ...item,
+        options: item.options as Record<string, string>,
+        unitPrice: toMoney(unitPriceMinor, currency),
+        lineTotal: toMoney(lineTotalMinor, currency)
+      })),
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: toMoney(breakdown.subtotalMinor, currency),
+      discount: toMoney(breakdown.discountMinor, currency),
+      promotions: breakdown.promotions.map(({ discountMinor, ...promotion }) => ({
+        ...promotion,
+        discount: toMoney(discountMinor, currency)
+      })),
+      rejectedPromotions: breakdown.rejectedPromotions,
+      shippingOptions: breakdown.shippingOptions.map(({ amountMinor, ...option }) => ({
+        ...option,
+        price: toMoney(amountMinor, currency)
+      })),
+      shipping: breakdown.shipping && {
+        method: breakdown.shipping.method,
+        amount: toMoney(breakdown.shipping.amountMinor, currency),
+        discount: toMoney(breakdown.shipping.discountMinor, currency)
+      },
+      taxes: breakdown.taxes.map((tax) => this.formatTaxLine(tax, currency)),
+      tax: toMoney(breakdown.taxMinor, currency),
+      taxIncluded: toMoney(breakdown.taxIncludedMinor, currency),
+      total: toMoney(breakdown.totalMinor, currency)
+    };
+  }
+
+  /**
+   * Crea una orden con el contenido actual del carrito (checkout)
+   *
+   * @param {string} userId - Comprador
+   * @param {string} authorization - Header Authorization del comprador (para carrito e inventario)
+   * @param {string} idempotencyKey - Header Idempotency-Key
+   * @param {CheckoutInput} input - Dirección y método de envío, lista de precios y cupones
+   * @returns {Promise<{order: OrderResponse, replayed: boolean}>} Orden pendiente de pago; `replayed` si ya existía para la clave
+   *
+   * @throws {IdempotencyKeyReusedError} Si la clave ya se usó con otro body
+   * @throws {ValidationError} Si el carrito está vacío
+   * @throws {ConflictError} CART_HAS_ISSUES si alguna línea no se puede comprar, INSUFFICIENT_STOCK si falta stock,
+   * PROMOTION_NOT_APPLICABLE si algún cupón no aplica, SHIPPING_METHOD_UNAVAILABLE si el método de envío no está disponible
+   * @throws {ServiceUnavailableError} Si el carrito, el inventario o las promociones no responden
+   *
+   * @description
+   * - La misma clave con el mismo body devuelve la orden ya creada, sin volver a reservar
+   * - Los precios, nombres y SKUs se copian del carrito en la moneda de la lista elegida
+   * - Las promociones se canjean después de reservar el stock; el descuento queda
+   *   congelado en la orden y los canjes se liberan si la orden se cancela
+   * - El envío y los impuestos se calculan con el mismo pipeline que la cotización
+   *   y quedan congelados en la orden con su desglose
+   * - El stock queda reservado hasta `paymentTimeoutSeconds`; si la orden no se paga
+   *   en ese plazo se cancela y el inventario libera la reserva
+   * - El carrito se vacía al final; si falla, la orden igual queda creada
+   */
+  async checkout(
+    userId: string,
+    authorization: string,
+    idempotencyKey: string,
+    input: CheckoutInput
+  ): Promise<{ order: OrderResponse; replayed: boolean }> {
+    const promotionCodes = input.promotionCodes ?? [];
+    const requestHash = hashRequest({
+      shippingAddress: input.shippingAddress,
+      shippingMethod: input.shippingMethod,
+      priceList: input.priceList ?? null,
+      // Sin cupones el hash no cambia respecto de las órdenes anteriores a las promociones
+      ...(promotionCodes.length > 0 && { promotionCodes })
+    });
+
+    const existing = await this.orderRepository.findOrderByIdempotencyKey(userId, idempotencyKey);
+    if (existing) {
+      return this.replay(existing, requestHash);
+    }
+
+    const cart = await this.getPurchasableCart(authorization, input.priceList);
+    const items = this.toOrderItems(cart);
+
+    const orderId = randomUUID();
+    const { paymentTimeoutSeconds } = config.checkout;
+    const reservationId = await this.inventoryClient.reserve(
+      authorization,
+      items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+      paymentTimeoutSeconds,
+      orderId
+    );
+
+    let breakdown: PriceBreakdown;
+    try {
+      breakdown = await runPricingPipeline(
+        this.pricingSteps((request) =>
+          this.promotionsClient.redeem(orderId, userId, promotionCodes, request.currency, request.lines)
+        ),
+        this.toPricingRequest(cart, input.shippingAddress, input.shippingMethod)
+      );
+    } catch (error) {
+      await this.releaseCheckout(orderId, reservationId);
+      throw error;
+    }
+
+    let order: OrderWithDetails | null;
+    try {
+      order = await this.orderRepository.createOrder({
+        id: orderId,
+        userId,
+        currency: breakdown.currency,
+        subtotalMinor: breakdown.subtotalMinor,
+        discountMinor: breakdown.discountMinor,
+        totalMinor: breakdown.totalMinor,
+        itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+        shippingAddress: input.shippingAddress,
+        priceList: input.priceList ?? null,
+        shippingMethod: breakdown.shipping!.method,
+        shippingMinor: breakdown.shipping!.amountMinor,
+        shippingDiscountMinor: breakdown.shipping!.discountMinor,
+        taxMinor: breakdown.taxMinor,
+        taxIncludedMinor: breakdown.taxIncludedMinor,
+        taxes: breakdown.taxes,
+        promotions: breakdown.promotions,
+        reservationId,
+        idempotencyKey,
+        requestHash,
+        expiresAt: new Date(Date.now() + paymentTimeoutSeconds * 1000),
+        items
+      });
+    } catch (error) {
+      await this.releaseCheckout(orderId, reservationId);
+      throw error;
+    }
+
+    // Otra request con la misma clave creó la orden primero: se devuelve esa
+    if (!order) {
+      await this.releaseCheckout(orderId, reservationId);
+      return this.replay((await this.orderRepository.findOrderByIdempotencyKey(userId, idempotencyKey))!, requestHash);
+    }
+
+    await this.cartClient.clearCart(authorization);
+    return { order: this.formatOrderResponse(order), replayed: false };
+  }
+
+  /**
+   * Lista las órdenes de un usuario (más recientes primero)
+   *
+   * @param {string} userId - Usuario dueño de las órdenes
+   * @param {OrderStatus} [status] - Filtrar por estado
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Órdenes por página
+   * @returns {Promise<{orders: OrderResponse[], pagination: Pagination}>} Página de órdenes
+   */
+  async listUserOrders(
+    userId: string,
+    status: OrderStatus | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ orders: OrderResponse[]; pagination: Pagination }> {
+    return await this.listOrders({ userId, status }, page, limit);
+  }
+
+  /**
+   * Obtiene una orden del usuario con su historial
+   *
+   * @param {string} userId - Usuario dueño de la orden
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<OrderResponse>} Orden con líneas e historial de estados
+   *
+   * @throws {NotFoundError} Si la orden no existe o es de otro usuario
+   */
+  async getUserOrder(userId: string, orderId: string): Promise<OrderResponse> {
+    return this.formatOrderResponse(await this.findUserOrder(userId, orderId));
+  }
+
+  /**
+   * Cancela una orden propia que todavía no se pagó
+   *
+   * @param {string} userId - Comprador
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<OrderResponse>} Orden cancelada
+   *
+   * @throws {NotFoundError} Si la orden no existe o es de otro usuario
+   * @throws {InvalidTransitionError} Si la orden ya no está pendiente
+   */
+  async cancelUserOrder(userId: string, orderId: string): Promise<OrderResponse> {
+    const order = await this.findUserOrder(userId, orderId);
+    return await this.applyTransition(order, 'CANCELLED', userId, 'Cancelada por el cliente');
+  }
+
+  /**
+   * Busca órdenes de cualquier usuario (staff)
+   *
+   * @param {OrderFilters} filters - Usuario, estado, producto y rango de fechas de creación
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Órdenes por página
+   * @returns {Promise<{orders: OrderResponse[], pagination: Pagination}>} Página de órdenes
+   */
+  async searchOrders(filters: OrderFilters, page: number, limit: number): Promise<{ orders: OrderResponse[]; pagination: Pagination }> {
+    return await this.listOrders(filters, page, limit);
+  }
+
+  /**
+   * Obtiene cualquier orden con su historial (staff)
+   *
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<OrderResponse>} Orden con líneas e historial de estados
+   *
+   * @throws {NotFoundError} Si la orden no existe
+   */
+  async getOrder(orderId: string): Promise<OrderResponse> {
+    return this.formatOrderResponse(await this.findOrderOrFail(orderId));
+  }
+
+  /**
+   * Cambia el estado de una orden (staff)
+   *
+   * @param {string} actorId - Usuario de staff (o servicio) que hace el cambio
+   * @param {string} orderId - ID de la orden
+   * @param {OrderStatus} to - Nuevo estado
+   * @param {string} [note] - Motivo o comentario para el historial
+   * @returns {Promise<OrderResponse>} Orden con el nuevo estado
+   *
+   * @throws {NotFoundError} Si la orden no existe
+   * @throws {InvalidTransitionError} Si la máquina de estados no permite el cambio
+   * @throws {ConflictError} ORDER_EXPIRED, RESERVATION_NOT_ACTIVE u ORDER_CHANGED
+   * @throws {ServiceUnavailableError} Si el inventario no responde al confirmar el pago
+   */
+  async transitionOrder(actorId: string, orderId: string, to: OrderStatus, note?: string): Promise<OrderResponse> {
+    const order = await this.findOrderOrFail(orderId);
+    return await this.applyTransition(order, to, actorId, note ?? null);
+  }
+
+  /**
+   * Cancela las órdenes pendientes cuyo plazo de pago venció
+   *
+   * @param {number} batchSize - Máximo de órdenes a procesar
+   * @returns {Promise<number>} Cantidad de órdenes canceladas
+   *
+   * @description No libera las reservas: vencen a la vez que la orden y el
+   * inventario devuelve el stock por su cuenta. Sí libera los canjes de
+   * promociones, que no vencen. Si otra request pagó o canceló la orden antes,
+   * se saltea.
+   */
+  async expireOrders(batchSize: number): Promise<number> {
+    const now = new Date();
+    const orders = await this.orderRepository.findExpiredOrders(now, batchSize);
+
+    let expired = 0;
+    for (const { id, promotions } of orders) {
+      if (await this.orderRepository.transitionOrder(id, 'PENDING', 'CANCELLED', null, 'Venció el plazo de pago', now)) {
+        expired++;
+        if ((promotions as OrderPromotion[]).length > 0) {
+          await this.promotionsClient.release(id);
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Valida y aplica un cambio de estado con sus efectos sobre la reserva de stock
+   *
+   * @private
+   *
+   * @description
+   * - `PAID`: confirma la reserva antes de cambiar el estado (el stock se descuenta)
+   * - `CANCELLED`: libera la reserva y los canjes de promociones después de cambiar el estado
+   * - El cambio solo se aplica si la orden sigue en el estado leído; si no, ORDER_CHANGED
+   */
+  private async applyTransition(
+    order: OrderWithDetails,
+    to: OrderStatus,
+    actorId: string,
+    note: string | null
+  ): Promise<OrderResponse> {
+    assertTransition(order.status, to);
+    const now = new Date();
+
+    if (to === 'PAID') {
+      if (order.expiresAt && order.expiresAt <= now) {
+        throw new ConflictError('ORDER_EXPIRED', 'Venció el plazo de pago de la orden');
+      }
+      if (order.reservationId) {
+        await this.inventoryClient.commit(order.reservationId);
+      }
+    }
+
+    // assertTransition ya descartó PENDING como destino
+    const applied = await this.orderRepository.transitionOrder(order.id, order.status, to as Exclude<OrderStatus, 'PENDING'>, actorId, note, now);
+    if (!applied) {
+      throw new ConflictError('ORDER_CHANGED', 'La orden cambió de estado; consúltela de nuevo');
+    }
+
+    if (to === 'CANCELLED' && order.reservationId) {
+      await this.inventoryClient.release(order.reservationId);
+    }
+    if (to === 'CANCELLED' && (order.promotions as OrderPromotion[]).length > 0) {
+      await this.promotionsClient.release(order.id);
+    }
+
+    return this.formatOrderResponse((await this.orderRepository.findOrderById(order.id))!);
+  }
+
+  /**
+   * Deshace la reserva de stock y los canjes de un checkout que no llegó a crear la orden
+   *
+   * @private
+   */
+  private async releaseCheckout(orderId: string, reservationId: string): Promise<void> {
+    await Promise.all([this.inventoryClient.release(reservationId), this.promotionsClient.release(orderId)]);
+  }
+
+  /**
+   * Devuelve la orden creada antes con la misma Idempotency-Key
+   *
+   * @private
+   */
+  private replay(order: OrderWithDetails, requestHash: string): { order: OrderResponse; replayed: boolean } {
+    if (order.requestHash !== requestHash) {
+      throw new IdempotencyKeyReusedError();
+    }
+    return { order: this.formatOrderResponse(order), replayed: true };
+  }
+
+  /**
+   * Página de órdenes con los filtros dados
+   *
+   * @private
+   */
+  private async listOrders(filters: OrderFilters, page: number, limit: number): Promise<{ orders: OrderResponse[]; pagination: Pagination }> {
+    const { orders, total } = await this.orderRepository.findOrders(filters, (page - 1) * limit, limit);
+
+    return {
+      orders: orders.map((order) => this.formatOrderResponse(order)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Busca una orden por ID o falla
+   *
+   * @private
+   */
+  private async findOrderOrFail(orderId: string): Promise<OrderWithDetails> {
+    const order = await this.orderRepository.findOrderById(orderId);
+    if (!order) {
+      throw new NotFoundError('Orden no encontrada');
+    }
+    return order;
+  }
+
+  /**
+   * Busca una orden del usuario; las ajenas se informan como inexistentes
+   *
+   * @private
+   */
+  private async findUserOrder(userId: string, orderId: string): Promise<OrderWithDetails> {
+    const order = await this.orderRepository.findOrderById(orderId);
+    if (!order || order.userId !== userId) {
+      throw new NotFoundError('Orden no encontrada');
+    }
+    return order;
+  }
+
+  /**
+   * Obtiene el carrito del comprador y verifica que se pueda comprar
+   *
+   * @private
+   */
+  private async getPurchasableCart(authorization: string, priceList: string | undefined): Promise<CartSnapshot> {
+    const cart = await this.cartClient.getCart(authorization, priceList);
+    if (cart.items.length === 0) {
+      throw new ValidationError('El carrito está vacío');
+    }
+
+    const issues = cart.items.filter((item) => item.issue);
+    if (issues.length > 0) {
+      throw new ConflictError(
+        'CART_HAS_ISSUES',
+        'Algunos productos del carrito no se pueden comprar',
+        issues.map(({ id, productId, variantId, issue }) => ({ itemId: id, productId, variantId, issue }))
+      );
+    }
+
+    return cart;
+  }
+
+  /**
+   * Copia las líneas del carrito con sus precios congelados
+   *
+   * @private
+   */
+  private toOrderItems(cart: CartSnapshot): NewOrder['items'] {
+    return cart.items.map((item, position) => ({
+      position,
+      productId: item.productId,
+      variantId: item.variantId,
+      name: item.name!,
+      sku: item.sku,
+      options: item.options,
+      quantity: item.quantity,
+      unitPriceMinor: item.unitPrice!.amountMinor,
+      lineTotalMinor: item.unitPrice!.amountMinor * item.quantity
+    }));
+  }
+
+  /**
+   * Datos del carrito que necesita el pipeline de precios
+   *
+   * @private
+   */
+  private toPricingRequest(
+    cart: CartSnapshot,
+    shippingAddress: ShippingAddress,
+    shippingMethod: string | undefined
+  ): PricingRequest {
+    return {
+      currency: cart.items[0].unitPrice!.currency,
+      lines: cart.items.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPriceMinor: item.unitPrice!.amountMinor,
+        weightGrams: item.weightGrams
+      })),
+      shippingAddress,
+      shippingMethod
+    };
+  }
+
+  /**
+   * Pasos del pipeline de precios: promociones, envío (con el envío gratis ya
+   * resuelto) e impuestos (sobre el monto con descuentos)
+   *
+   * @private
+   */
+  private pricingSteps(resolvePromotions: PromotionResolver): PricingStep[] {
+    return [promotionsStep(resolvePromotions), shippingStep(this.shippingCalculator), taxStep(this.taxCalculator)];
+  }
+
+  /**
+   * Formatea un impuesto para la respuesta
+   *
+   * @private
+   */
+  private formatTaxLine({ amountMinor, ...tax }: TaxLine, currency: string): TaxLineResponse {
+    return { ...tax, rate: formatRate(tax.rateBasisPoints), amount: toMoney(amountMinor, currency) };
+  }
+
+  /**
+   * Formatea la orden para la respuesta (el historial solo en el detalle)
+   *
+   * @private
+   */
+  private formatOrderResponse(order: OrderWithItems | OrderWithDetails): OrderResponse {
+    return {
+      id: order.id,
+      userId: order.userId,
+      status: order.status,
+      items: order.items.map((item) => ({
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        name: item.name,
+        sku: item.sku,
+        options: item.options as Record<string, string>,
+        quantity: item.quantity,
+        unitPrice: toMoney(item.unitPriceMinor, order.currency),
+        lineTotal: toMoney(item.lineTotalMinor, order.currency)
+      })),
+      itemCount: order.itemCount,
+      subtotal: toMoney(order.subtotalMinor, order.currency),
+      discount: toMoney(order.discountMinor, order.currency),
+      shipping: order.shippingMethod
+        ? {
+            method: order.shippingMethod,
+            amount: toMoney(order.shippingMinor, order.currency),
+            discount: toMoney(order.shippingDiscountMinor, order.currency)
+          }
+        : null,
+      taxes: (order.taxes as TaxLine[]).map((tax) => this.formatTaxLine(tax, order.currency)),
+      tax: toMoney(order.taxMinor, order.currency),
+      taxIncluded: toMoney(order.taxIncludedMinor, order.currency),
+      total: toMoney(order.totalMinor, order.currency),
+      promotions: (order.promotions as OrderPromotion[]).map(({ discountMinor, ...promotion }) => ({
+        ...promotion,
+        discount: toMoney(discountMinor, order.currency)
+      })),
+      shippingAddress: order.shippingAddress as ShippingAddress,
+      expiresAt: order.status === 'PENDING' ? order.expiresAt : null,
+      paidAt: order.paidAt,
+      fulfilledAt: order.fulfilledAt,
+      deliveredAt: order.deliveredAt,
+      cancelledAt: order.cancelledAt,
+      refundedAt: order.refundedAt,
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+      ...('events' in order && {
+        events: order.events.map(({ fromStatus, toStatus, actorId, note, createdAt }) => ({ fromStatus, toStatus, actorId, note, createdAt }))
+      })
+    };
+  }
+}
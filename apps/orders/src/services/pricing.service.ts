@@ -0,0 +1,361 @@
+import { toMinorUnits, toMoney } from '@ecom/service';
+import { PricingRepository } from '../pricing.repository';
+import {
+  ConflictError,
+  NotFoundError,
+  ShippingMethodChanges,
+  ShippingMethodData,
+  ShippingMethodInput,
+  ShippingMethodResponse,
+  ShippingMethodWithRates,
+  ShippingRate,
+  ShippingRateBasis,
+  ShippingRateInput,
+  TaxRate,
+  TaxRateChanges,
+  TaxRateData,
+  TaxRateInput,
+  TaxRateResponse,
+  ValidationError
+} from '../types/index';
+import { formatRate } from '../pricing/tax-calculator';
+
+/**
+ * Servicio de administración de impuestos y envíos
+ *
+ * @class PricingService
+ * @description Mantiene las tablas de tasas de impuestos por país y región y
+ * los métodos de envío con sus tarifas, que usa el pipeline de precios de
+ * `pricing/` al cotizar y al crear órdenes.
+ */
+export class PricingService {
+  /** Repositorio de tasas y métodos de envío */
+  private pricingRepository: PricingRepository;
+
+  /**
+   * Constructor del servicio de precios
+   * Inicializa el repositorio de datos
+   */
+  constructor() {
+    this.pricingRepository = new PricingRepository();
+  }
+
+  /**
+   * Lista las tasas de impuestos
+   *
+   * @param {string} [country] - Filtrar por país
+   * @returns {Promise<TaxRateResponse[]>} Tasas por país, primero la de todo el país
+   */
+  async listTaxRates(country?: string): Promise<TaxRateResponse[]> {
+    const rates = await this.pricingRepository.listTaxRates(country);
+    return rates.map((rate) => this.formatTaxRate(rate));
+  }
+
+  /**
+   * Crea una tasa de impuestos
+   *
+   * @param {TaxRateInput} input - País, región opcional, nombre, porcentaje y si está incluida en los precios
+   * @returns {Promise<TaxRateResponse>} Tasa creada
+   *
+   * @throws {ValidationError} Si la tasa no está entre 0 y 100% (exclusivo el 0)
+   * @throws {ConflictError} TAX_RATE_EXISTS si el país y la región ya tienen una tasa
+   */
+  async createTaxRate(input: TaxRateInput): Promise<TaxRateResponse> {
+    const data: TaxRateData = {
+      country: input.country,
+      region: input.region ?? null,
+      name: input.name,
+      rateBasisPoints: this.toBasisPoints(input.rate),
+      inclusive: input.inclusive ?? false
+    };
+
+    const rate = await this.pricingRepository.createTaxRate(data);
+    if (!rate) {
+      throw this.taxRateExists(data);
+    }
+
+    return this.formatTaxRate(rate);
+  }
+
+  /**
+   * Actualiza una tasa de impuestos
+   *
+   * @param {string} id - ID de la tasa
+   * @param {TaxRateChanges} changes - Campos a cambiar (region null la aplica a todo el país)
+   * @returns {Promise<TaxRateResponse>} Tasa actualizada
+   *
+   * @throws {NotFoundError} Si la tasa no existe
+   * @throws {ValidationError} Si la tasa no está entre 0 y 100% (exclusivo el 0)
+   * @throws {ConflictError} TAX_RATE_EXISTS si el país y la región ya tienen otra tasa
+   *
+   * @description Las órdenes ya creadas conservan los impuestos con que se cobraron.
+   */
+  async updateTaxRate(id: string, changes: TaxRateChanges): Promise<TaxRateResponse> {
+    const existing = await this.findTaxRateOrFail(id);
+
+    const { rate: percent, ...fields } = changes;
+    const data: Partial<TaxRateData> = {
+      ...fields,
+      ...(percent !== undefined && { rateBasisPoints: this.toBasisPoints(percent) })
+    };
+
+    const rate = await this.pricingRepository.updateTaxRate(id, data);
+    if (!rate) {
+      throw this.taxRateExists({ ...existing, ...data });
+    }
+
+    return this.formatTaxRate(rate);
+  }
+
+  /**
+   * Elimina una tasa de impuestos
+   *
+   * @param {string} id - ID de la tasa
+   *
+   * @throws {NotFoundError} Si la tasa no existe
+   */
+  async deleteTaxRate(id: string): Promise<void> {
+    await this.findTaxRateOrFail(id);
+    await this.pricingRepository.deleteTaxRate(id);
+  }
+
+  /**
+   * Lista los métodos de envío con sus tarifas
+   *
+   * @returns {Promise<ShippingMethodResponse[]>} Métodos ordenados por código
+   */
+  async listShippingMethods(): Promise<ShippingMethodResponse[]> {
+    const methods = await this.pricingRepository.listShippingMethods();
+    return methods.map((method) => this.formatShippingMethod(method));
+  }
+
+  /**
+   * Obtiene un método de envío con sus tarifas
+   *
+   * @param {string} id - ID del método
+   * @returns {Promise<ShippingMethodResponse>} Método de envío
+   *
+   * @throws {NotFoundError} Si el método no existe
+   */
+  async getShippingMethod(id: string): Promise<ShippingMethodResponse> {
+    return this.formatShippingMethod(await this.findShippingMethodOrFail(id));
+  }
+
+  /**
+   * Crea un método de envío con su tabla de tarifas
+   *
+   * @param {ShippingMethodInput} input - Código, nombre, base (WEIGHT o PRICE), moneda, países, plazo y tarifas
+   * @returns {Promise<ShippingMethodResponse>} Método creado
+   *
+   * @throws {ValidationError} Si las tarifas no corresponden a la base, se superponen, o el plazo es inválido
+   * @throws {ConflictError} SHIPPING_METHOD_EXISTS si el código está en uso
+   *
+   * @description Sin países, el método llega a todos los destinos.
+   */
+  async createShippingMethod(input: ShippingMethodInput): Promise<ShippingMethodResponse> {
+    const data: ShippingMethodData = {
+      code: input.code,
+      name: input.name,
+      basis: input.basis,
+      currency: input.currency,
+      countries: input.countries ?? [],
+      minDays: input.minDays ?? null,
+      maxDays: input.maxDays ?? null,
+      active: input.active ?? true,
+      rates: this.toShippingRates(input.basis, input.currency, input.rates)
+    };
+    this.validateDeliveryDays(data.minDays, data.maxDays);
+
+    const method = await this.pricingRepository.createShippingMethod(data);
+    if (!method) {
+      throw new ConflictError('SHIPPING_METHOD_EXISTS', `Ya existe un método de envío con el código ${data.code}`);
+    }
+
+    return this.formatShippingMethod(method);
+  }
+
+  /**
+   * Actualiza un método de envío
+   *
+   * @param {string} id - ID del método
+   * @param {ShippingMethodChanges} changes - Campos a cambiar; `rates` reemplaza la tabla completa
+   * @returns {Promise<ShippingMethodResponse>} Método actualizado
+   *
+   * @throws {NotFoundError} Si el método no existe
+   * @throws {ValidationError} Si cambia la base o la moneda sin enviar las tarifas, o las tarifas son inválidas
+   * @throws {ConflictError} SHIPPING_METHOD_EXISTS si el código está en uso
+   *
+   * @description Las órdenes ya creadas conservan el costo de envío con que se cobraron.
+   */
+  async updateShippingMethod(id: string, changes: ShippingMethodChanges): Promise<ShippingMethodResponse> {
+    const existing = await this.findShippingMethodOrFail(id);
+
+    const { rates, ...fields } = changes;
+    const merged = { ...existing, ...fields };
+
+    // Las tarifas están en gramos o en unidades menores de la moneda: no se reinterpretan
+    if (!rates && (merged.basis !== existing.basis || merged.currency !== existing.currency)) {
+      throw new ValidationError('Al cambiar basis o currency hay que enviar las tarifas (rates)');
+    }
+    this.validateDeliveryDays(merged.minDays, merged.maxDays);
+
+    const method = await this.pricingRepository.updateShippingMethod(id, {
+      ...fields,
+      ...(rates && { rates: this.toShippingRates(merged.basis, merged.currency, rates) })
+    });
+    if (!method) {
+      throw new ConflictError('SHIPPING_METHOD_EXISTS', `Ya existe un método de envío con el código ${merged.code}`);
+    }
+
+    return this.formatShippingMethod(method);
+  }
+
+  /**
+   * Elimina un método de envío
+   *
+   * @param {string} id - ID del método
+   *
+   * @throws {NotFoundError} Si el método no existe
+   *
+   * @description Las órdenes conservan el código del método; para dejar de
+   * ofrecerlo sin borrarlo alcanza con desactivarlo.
+   */
+  async deleteShippingMethod(id: string): Promise<void> {
+    await this.findShippingMethodOrFail(id);
+    await this.pricingRepository.deleteShippingMethod(id);
+  }
+
+  /**
+   * Busca una tasa o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findTaxRateOrFail(id: string): Promise<TaxRate> {
+    const rate = await this.pricingRepository.findTaxRateById(id);
+    if (!rate) {
+      throw new NotFoundError('Tasa de impuestos no encontrada');
+    }
+    return rate;
+  }
+
+  /**
+   * Busca un método de envío o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findShippingMethodOrFail(id: string): Promise<ShippingMethodWithRates> {
+    const method = await this.pricingRepository.findShippingMethodById(id);
+    if (!method) {
+      throw new NotFoundError('Método de envío no encontrado');
+    }
+    return method;
+  }
+
+  /**
+   * Error de tasa duplicada para el país y la región
+   *
+   * @private
+   */
+  private taxRateExists({ country, region }: Pick<TaxRateData, 'country' | 'region'>): ConflictError {
+    return new ConflictError(
+      'TAX_RATE_EXISTS',
+      region ? `Ya existe una tasa para ${country}/${region}` : `Ya existe una tasa para todo ${country}`
+    );
+  }
+
+  /**
+   * Convierte un porcentaje en texto (ej: '10.5') a puntos básicos (1050)
+   *
+   * @private
+   */
+  private toBasisPoints(percent: string): number {
+    const [units, fraction = ''] = percent.split('.');
+    const basisPoints = Number(units) * 100 + Number(fraction.padEnd(2, '0'));
+
+    if (basisPoints <= 0 || basisPoints > 10_000) {
+      throw new ValidationError('La tasa debe ser mayor a 0 y hasta 100');
+    }
+
+    return basisPoints;
+  }
+
+  /**
+   * Valida que el plazo mínimo de entrega no supere al máximo
+   *
+   * @private
+   */
+  private validateDeliveryDays(minDays: number | null, maxDays: number | null): void {
+    if (minDays !== null && maxDays !== null && minDays > maxDays) {
+      throw new ValidationError('minDays no puede ser mayor que maxDays');
+    }
+  }
+
+  /**
+   * Convierte los tramos del admin a gramos o unidades menores y valida que no se superpongan
+   *
+   * @private
+   */
+  private toShippingRates(basis: ShippingRateBasis, currency: string, inputs: ShippingRateInput[]): ShippingRate[] {
+    const toValue = (value: number | string): number => {
+      if (basis === 'WEIGHT') {
+        if (typeof value !== 'number') {
+          throw new ValidationError('Los tramos por peso van en gramos (números enteros)');
+        }
+        return value;
+      }
+
+      if (typeof value !== 'string') {
+        throw new ValidationError("Los tramos por precio van como montos decimales en texto, ej: '50.00'");
+      }
+      return toMinorUnits(value, currency);
+    };
+
+    const rates = inputs
+      .map((input) => ({
+        minValue: toValue(input.min),
+        maxValue: input.max === undefined || input.max === null ? null : toValue(input.max),
+        amountMinor: toMinorUnits(input.price, currency)
+      }))
+      .sort((a, b) => a.minValue - b.minValue);
+
+    rates.forEach((rate, index) => {
+      if (rate.maxValue !== null && rate.maxValue <= rate.minValue) {
+        throw new ValidationError('El máximo de cada tramo debe ser mayor que su mínimo');
+      }
+
+      const next = rates[index + 1];
+      if (next && (rate.maxValue === null || rate.maxValue > next.minValue)) {
+        throw new ValidationError('Los tramos de tarifas se superponen');
+      }
+    });
+
+    return rates;
+  }
+
+  /**
+   * Formatea la tasa para la respuesta
+   *
+   * @private
+   */
+  private formatTaxRate(rate: TaxRate): TaxRateResponse {
+    return { ...rate, rate: formatRate(rate.rateBasisPoints) };
+  }
+
+  /**
+   * Formatea el método de envío para la respuesta (los tramos por precio como montos)
+   *
+   * @private
+   */
+  private formatShippingMethod({ rates, ...method }: ShippingMethodWithRates): ShippingMethodResponse {
+    const toValue = (value: number) => (method.basis === 'WEIGHT' ? value : toMoney(value, method.currency));
+
+    return {
+      ...method,
+      rates: rates.map((rate) => ({
+        min: toValue(rate.minValue),
+        max: rate.maxValue === null ? null : toValue(rate.maxValue),
+        price: toMoney(rate.amountMinor, method.currency)
+      }))
+    };
+  }
+}
@@ -0,0 +1,423 @@
+import { Money, ServiceError } from '@ecom/service';
+
+export type { Money };
+
+export type OrderStatus = 'PENDING' | 'PAID' | 'FULFILLED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
+
+export type ShippingRateBasis = 'WEIGHT' | 'PRICE';
+
+export interface ShippingAddress {
+  fullName: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  /** Código ISO 3166-1 alfa-2 */
+  country: string;
+  phone?: string;
+}
+
+/** Promoción aplicada a la orden, tal como la devolvió el servicio de promociones */
+export interface OrderPromotion {
+  promotionId: string;
+  name: string;
+  /** Cupón ingresado; null si la promoción es automática */
+  code: string | null;
+  type: string;
+  discountMinor: number;
+  freeShipping: boolean;
+  detail: string;
+}
+
+/** Impuesto aplicado a la orden */
+export interface TaxLine {
+  name: string;
+  /** Tasa en puntos básicos (2100 = 21%) */
+  rateBasisPoints: number;
+  /** true: ya estaba incluido en los precios; false: se sumó al total */
+  inclusive: boolean;
+  amountMinor: number;
+}
+
+export interface Order {
+  id: string;
+  userId: string;
+  status: OrderStatus;
+  currency: string;
+  subtotalMinor: number;
+  discountMinor: number;
+  totalMinor: number;
+  itemCount: number;
+  shippingAddress: unknown;
+  priceList: string | null;
+  shippingMethod: string | null;
+  shippingMinor: number;
+  shippingDiscountMinor: number;
+  taxMinor: number;
+  taxIncludedMinor: number;
+  taxes: unknown;
+  promotions: unknown;
+  reservationId: string | null;
+  idempotencyKey: string;
+  requestHash: string;
+  expiresAt: Date | null;
+  paidAt: Date | null;
+  fulfilledAt: Date | null;
+  deliveredAt: Date | null;
+  cancelledAt: Date | null;
+  refundedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrderItem {
+  id: string;
+  orderId: string;
+  position: number;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  sku: string | null;
+  options: unknown;
+  quantity: number;
+  unitPriceMinor: number;
+  lineTotalMinor: number;
+}
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface OrderWithItems extends Order {
+  items: OrderItem[];
+}
+
+export interface OrderWithDetails extends OrderWithItems {
+  events: OrderEvent[];
+}
+
+/** Datos para crear la orden (las líneas ya con su precio) */
+export interface NewOrder {
+  id: string;
+  userId: string;
+  currency: string;
+  subtotalMinor: number;
+  discountMinor: number;
+  totalMinor: number;
+  itemCount: number;
+  shippingAddress: ShippingAddress;
+  priceList: string | null;
+  shippingMethod: string;
+  shippingMinor: number;
+  shippingDiscountMinor: number;
+  taxMinor: number;
+  taxIncludedMinor: number;
+  taxes: TaxLine[];
+  promotions: OrderPromotion[];
+  reservationId: string;
+  idempotencyKey: string;
+  requestHash: string;
+  expiresAt: Date;
+  items: Omit<OrderItem, 'id' | 'orderId'>[];
+}
+
+export interface CheckoutInput {
+  shippingAddress: ShippingAddress;
+  priceList?: string;
+  /** Cupones a aplicar; las promociones automáticas se aplican siempre */
+  promotionCodes?: string[];
+  /** Código del método de envío */
+  shippingMethod: string;
+}
+
+/** Datos para cotizar el carrito; sin método de envío se cotiza sin envío */
+export interface QuoteInput extends Omit<CheckoutInput, 'shippingMethod'> {
+  shippingMethod?: string;
+}
+
+/** Cupón o promoción que no aplicó, con el motivo que informa el servicio de promociones */
+export interface PromotionRejection {
+  promotionId: string | null;
+  name: string | null;
+  code: string | null;
+  reason: string;
+  message: string;
+}
+
+export interface TaxRate {
+  id: string;
+  /** Código ISO 3166-1 alfa-2 */
+  country: string;
+  /** Región en mayúsculas; null para la tasa de todo el país */
+  region: string | null;
+  name: string;
+  rateBasisPoints: number;
+  inclusive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TaxRateData = Omit<TaxRate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface TaxRateInput {
+  country: string;
+  region?: string | null;
+  name: string;
+  /** Porcentaje decimal en texto (ej: '21' o '10.5') */
+  rate: string;
+  inclusive?: boolean;
+}
+
+export type TaxRateChanges = Partial<TaxRateInput>;
+
+export interface ShippingMethod {
+  id: string;
+  code: string;
+  name: string;
+  basis: ShippingRateBasis;
+  currency: string;
+  countries: string[];
+  minDays: number | null;
+  maxDays: number | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Tramo de tarifa: aplica si minValue <= valor < maxValue (gramos o unidades menores) */
+export interface ShippingRate {
+  minValue: number;
+  maxValue: number | null;
+  amountMinor: number;
+}
+
+export interface ShippingMethodWithRates extends ShippingMethod {
+  rates: ShippingRate[];
+}
+
+export interface ShippingMethodData extends Omit<ShippingMethod, 'id' | 'createdAt' | 'updatedAt'> {
+  rates: ShippingRate[];
+}
+
+/** Tramo tal como llega al admin: gramos (WEIGHT) o montos decimales en texto (PRICE) */
+export interface ShippingRateInput {
+  min: number | string;
+  max?: number | string | null;
+  price: string;
+}
+
+export interface ShippingMethodInput {
+  code: string;
+  name: string;
+  basis: ShippingRateBasis;
+  currency: string;
+  countries?: string[];
+  minDays?: number | null;
+  maxDays?: number | null;
+  active?: boolean;
+  /** Reemplaza la tabla de tarifas */
+  rates: ShippingRateInput[];
+}
+
+export type ShippingMethodChanges = Partial<ShippingMethodInput>;
+
+/** Método de envío disponible para un pedido, con su costo */
+export interface ShippingOption {
+  method: string;
+  name: string;
+  amountMinor: number;
+  minDays: number | null;
+  maxDays: number | null;
+}
+
+export interface OrderFilters {
+  userId?: string;
+  status?: OrderStatus;
+  productId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/** Carrito tal como lo devuelve el servicio de carrito (solo los campos que usa el checkout) */
+export interface CartSnapshot {
+  id: string | null;
+  items: {
+    id: string;
+    productId: string;
+    variantId: string | null;
+    name: string | null;
+    sku: string | null;
+    options: Record<string, string>;
+    quantity: number;
+    unitPrice: Money | null;
+    weightGrams: number | null;
+    issue: string | null;
+  }[];
+}
+
+export interface OrderItemResponse {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  sku: string | null;
+  options: Record<string, string>;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;
+}
+
+export interface OrderPromotionResponse extends Omit<OrderPromotion, 'discountMinor'> {
+  discount: Money;
+}
+
+export interface TaxLineResponse extends Omit<TaxLine, 'amountMinor'> {
+  /** Tasa en porcentaje (ej: '21.00') */
+  rate: string;
+  amount: Money;
+}
+
+export interface ShippingChargeResponse {
+  method: string;
+  amount: Money;
+  /** Descuento por envío gratis */
+  discount: Money;
+}
+
+export interface ShippingOptionResponse extends Omit<ShippingOption, 'amountMinor'> {
+  price: Money;
+}
+
+/** Cotización del carrito con el detalle de descuentos, envío e impuestos */
+export interface QuoteResponse {
+  items: Omit<OrderItemResponse, 'id'>[];
+  itemCount: number;
+  subtotal: Money;
+  discount: Money;
+  promotions: OrderPromotionResponse[];
+  rejectedPromotions: PromotionRejection[];
+  /** Métodos de envío disponibles para la dirección y el pedido */
+  shippingOptions: ShippingOptionResponse[];
+  /** Envío elegido; null si no se indicó método */
+  shipping: ShippingChargeResponse | null;
+  taxes: TaxLineResponse[];
+  /** Impuestos que se suman al total */
+  tax: Money;
+  /** Impuestos ya incluidos en los precios */
+  taxIncluded: Money;
+  total: Money;
+}
+
+export interface TaxRateResponse extends TaxRate {
+  /** Tasa en porcentaje (ej: '21.00') */
+  rate: string;
+}
+
+export interface ShippingRateResponse {
+  /** Gramos (WEIGHT) o monto (PRICE) */
+  min: number | Money;
+  max: number | Money | null;
+  price: Money;
+}
+
+export interface ShippingMethodResponse extends ShippingMethod {
+  rates: ShippingRateResponse[];
+}
+
+export interface OrderEventResponse {
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface OrderResponse {
+  id: string;
+  userId: string;
+  status: OrderStatus;
+  items: OrderItemResponse[];
+  itemCount: number;
+  subtotal: Money;
+  discount: Money;
+  shipping: ShippingChargeResponse | null;
+  taxes: TaxLineResponse[];
+  tax: Money;
+  taxIncluded: Money;
+  total: Money;
+  promotions: OrderPromotionResponse[];
+  shippingAddress: ShippingAddress;
+  expiresAt: Date | null;
+  paidAt: Date | null;
+  fulfilledAt: Date | null;
+  deliveredAt: Date | null;
+  cancelledAt: Date | null;
+  refundedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Historial de estados; solo en el detalle de la orden */
+  events?: OrderEventResponse[];
+}
+
+// Errores personalizados
+export class OrderError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400,
+    details?: unknown
+  ) {
+    super(code, message, statusCode, details);
+    this.name = 'OrderError';
+  }
+}
+
+export class ValidationError extends OrderError {
+  constructor(message: string, details?: unknown) {
+    super('VALIDATION_ERROR', message, 400, details);
+  }
+}
+
+export class NotFoundError extends OrderError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class ConflictError extends OrderError {
+  constructor(code: string, message: string, details?: unknown) {
+    super(code, message, 409, details);
+  }
+}
+
+export class InvalidTransitionError extends OrderError {
+  constructor(from: OrderStatus, to: OrderStatus, allowed: OrderStatus[]) {
+    super('INVALID_TRANSITION', `No se puede pasar una orden de ${from} a ${to}`, 409, { from, to, allowed });
+  }
+}
+
+export class IdempotencyKeyReusedError extends OrderError {
+  constructor() {
+    super('IDEMPOTENCY_KEY_REUSED', 'La Idempotency-Key ya se usó con otros datos', 422);
+  }
+}
+
+export class ServiceUnavailableError extends OrderError {
+  constructor(service: string) {
+    super('SERVICE_UNAVAILABLE', `El servicio de ${service} no está disponible, reintente en unos segundos`, 503);
+  }
+}
@@ -0,0 +1,11 @@
+import { createHash } from 'crypto';
+
+/**
+ * Hash del body de una request, para detectar una Idempotency-Key reutilizada con otros datos
+ *
+ * @param {unknown} body - Body ya validado (con las claves en el orden del schema)
+ * @returns {string} SHA-256 en hex
+ */
+export function hashRequest(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
@@ -0,0 +1,43 @@
+import { InvalidTransitionError, OrderStatus } from '../types/index';
+
+/**
+ * Transiciones válidas desde cada estado
+ *
+ * @description
+ * - `PENDING` → `PAID` al cobrar, o `CANCELLED` (el cliente, staff o el vencimiento del pago)
+ * - `PAID` → `FULFILLED` al despachar, o `REFUNDED` si se devuelve el dinero antes
+ * - `FULFILLED` → `DELIVERED` al entregar, o `REFUNDED`
+ * - `DELIVERED` → `REFUNDED` (devolución)
+ * - `CANCELLED` y `REFUNDED` son finales
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['FULFILLED', 'REFUNDED'],
+  FULFILLED: ['DELIVERED', 'REFUNDED'],
+  DELIVERED: ['REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+/** Columna con la fecha en que la orden llegó a cada estado */
+export const STATUS_TIMESTAMPS = {
+  PAID: 'paidAt',
+  FULFILLED: 'fulfilledAt',
+  DELIVERED: 'deliveredAt',
+  CANCELLED: 'cancelledAt',
+  REFUNDED: 'refundedAt',
+} as const satisfies Record<Exclude<OrderStatus, 'PENDING'>, string>;
+
+/**
+ * Verifica que la orden pueda pasar de un estado a otro
+ *
+ * @param {OrderStatus} from - Estado actual
+ * @param {OrderStatus} to - Estado pedido
+ *
+ * @throws {InvalidTransitionError} Si la transición no está permitida (con las permitidas en el detalle)
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!ORDER_TRANSITIONS[from].includes(to)) {
+    throw new InvalidTransitionError(from, to, [...ORDER_TRANSITIONS[from]]);
+  }
+}
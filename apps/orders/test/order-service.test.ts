@@ -0,0 +1,388 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OrderService } from '../src/services/order.service';
+import { STATUS_TIMESTAMPS } from '../src/utils/order-state';
+import {
+  CartSnapshot,
+  CheckoutInput,
+  IdempotencyKeyReusedError,
+  InvalidTransitionError,
+  NewOrder,
+  OrderPromotion,
+  OrderStatus,
+  OrderWithDetails,
+  ValidationError
+} from '../src/types/index';
+import { config } from '../src/config';
+
+// Sin base de datos ni servicios remotos: se reemplazan por dobles en memoria
+vi.mock('../src/order.repository');
+vi.mock('../src/pricing.repository');
+vi.mock('../src/clients/cart.client');
+vi.mock('../src/clients/inventory.client');
+vi.mock('../src/clients/promotions.client');
+
+const USER_ID = 'user-1';
+const AUTHORIZATION = 'Bearer token';
+const KEY = 'checkout-1';
+
+const INPUT: CheckoutInput = {
+  shippingAddress: { fullName: 'Ana Pérez', line1: 'Calle 123', city: 'Rosario', postalCode: '2000', country: 'AR' },
+  shippingMethod: 'standard'
+};
+
+const PROMOTION: OrderPromotion = {
+  promotionId: 'promo-1',
+  name: 'Bienvenida',
+  code: 'BIENVENIDA',
+  type: 'PERCENTAGE',
+  discountMinor: 100,
+  freeShipping: false,
+  detail: '10% de descuento'
+};
+
+/** Repositorio en memoria con la misma semántica que el de Prisma (clave única por usuario e Idempotency-Key) */
+class InMemoryOrderRepository {
+  orders = new Map<string, OrderWithDetails>();
+
+  async findOrderById(id: string) {
+    const order = this.orders.get(id);
+    return order ? structuredClone(order) : null;
+  }
+
+  async findOrderByIdempotencyKey(userId: string, idempotencyKey: string) {
+    const order = [...this.orders.values()].find((candidate) => candidate.userId === userId && candidate.idempotencyKey === idempotencyKey);
+    return order ? structuredClone(order) : null;
+  }
+
+  async createOrder({ items, ...order }: NewOrder) {
+    if (await this.findOrderByIdempotencyKey(order.userId, order.idempotencyKey)) {
+      return null;
+    }
+
+    const now = new Date();
+    this.orders.set(order.id, {
+      ...order,
+      status: 'PENDING',
+      paidAt: null,
+      fulfilledAt: null,
+      deliveredAt: null,
+      cancelledAt: null,
+      refundedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      items: items.map((item) => ({ ...item, id: `${order.id}-${item.position}`, orderId: order.id })),
+      events: [{ id: `${order.id}-0`, orderId: order.id, fromStatus: null, toStatus: 'PENDING', actorId: order.userId, note: null, createdAt: now }]
+    });
+    return await this.findOrderById(order.id);
+  }
+
+  async transitionOrder(id: string, from: OrderStatus, to: Exclude<OrderStatus, 'PENDING'>, actorId: string | null, note: string | null, at: Date) {
+    const order = this.orders.get(id);
+    if (!order || order.status !== from) {
+      return false;
+    }
+
+    Object.assign(order, { status: to, [STATUS_TIMESTAMPS[to]]: at });
+    order.events.push({ id: `${id}-${order.events.length}`, orderId: id, fromStatus: from, toStatus: to, actorId, note, createdAt: at });
+    return true;
+  }
+
+  async findExpiredOrders(now: Date, take: number) {
+    return [...this.orders.values()]
+      .filter((order) => order.status === 'PENDING' && order.expiresAt! <= now)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, take)
+      .map(({ id, promotions }) => ({ id, promotions }));
+  }
+}
+
+const cartWith = (...lines: [productId: string, quantity: number, amountMinor: number][]): CartSnapshot => ({
+  id: 'cart-1',
+  items: lines.map(([productId, quantity, amountMinor], index) => ({
+    id: `item-${index}`,
+    productId,
+    variantId: null,
+    name: productId,
+    sku: null,
+    options: {},
+    quantity,
+    unitPrice: { amount: String(amountMinor / 100), amountMinor, currency: 'USD' },
+    weightGrams: 500,
+    issue: null
+  }))
+});
+
+let repository: InMemoryOrderRepository;
+let service: OrderService;
+let cart: CartSnapshot;
+let promotions: OrderPromotion[];
+
+const cartClient = { getCart: vi.fn(async () => cart), clearCart: vi.fn(async () => true) };
+const inventoryClient = {
+  reserve: vi.fn(async () => `reservation-${inventoryClient.reserve.mock.calls.length}`),
+  commit: vi.fn(async () => undefined),
+  release: vi.fn(async () => true)
+};
+const promotionsClient = {
+  redeem: vi.fn(async () => ({ discountMinor: promotions.reduce((sum, { discountMinor }) => sum + discountMinor, 0), promotions, rejected: [] })),
+  release: vi.fn(async () => true)
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  cart = cartWith(['remera', 2, 1500], ['taza', 1, 800]);
+  promotions = [];
+
+  repository = new InMemoryOrderRepository();
+  service = new OrderService();
+  Object.assign(service, {
+    orderRepository: repository,
+    cartClient,
+    inventoryClient,
+    promotionsClient,
+    shippingCalculator: { quote: async () => [{ method: 'standard', name: 'Estándar', amountMinor: 500, minDays: 2, maxDays: 5 }] },
+    taxCalculator: { calculate: async () => [] }
+  });
+});
+
+/** Crea una orden pendiente por checkout y la devuelve tal como quedó guardada */
+const placeOrder = async (key = KEY) => {
+  const { order } = await service.checkout(USER_ID, AUTHORIZATION, key, INPUT);
+  return repository.orders.get(order.id)!;
+};
+
+describe('checkout idempotente', () => {
+  it('crea la orden con el stock reservado, los precios congelados y vacía el carrito', async () => {
+    const { order, replayed } = await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+
+    expect(replayed).toBe(false);
+    expect(order).toMatchObject({ status: 'PENDING', itemCount: 3, subtotal: { amountMinor: 3800 }, total: { amountMinor: 4300 } });
+    expect(inventoryClient.reserve).toHaveBeenCalledWith(
+      AUTHORIZATION,
+      [{ productId: 'remera', variantId: null, quantity: 2 }, { productId: 'taza', variantId: null, quantity: 1 }],
+      config.checkout.paymentTimeoutSeconds,
+      order.id
+    );
+    expect(repository.orders.get(order.id)!.reservationId).toBe('reservation-1');
+    expect(cartClient.clearCart).toHaveBeenCalledOnce();
+  });
+
+  it('la misma clave con el mismo body devuelve la orden ya creada sin volver a reservar', async () => {
+    const first = await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+    cart = cartWith(['otro', 1, 100]);
+
+    const second = await service.checkout(USER_ID, AUTHORIZATION, KEY, { ...INPUT, shippingAddress: { ...INPUT.shippingAddress } });
+
+    expect(second).toEqual({ order: first.order, replayed: true });
+    expect(inventoryClient.reserve).toHaveBeenCalledOnce();
+    expect(promotionsClient.redeem).toHaveBeenCalledOnce();
+    expect(repository.orders.size).toBe(1);
+  });
+
+  it('la misma clave con otro body es un error', async () => {
+    await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+
+    await expect(service.checkout(USER_ID, AUTHORIZATION, KEY, { ...INPUT, shippingMethod: 'express' })).rejects.toBeInstanceOf(
+      IdempotencyKeyReusedError
+    );
+    await expect(service.checkout(USER_ID, AUTHORIZATION, KEY, { ...INPUT, promotionCodes: ['BIENVENIDA'] })).rejects.toBeInstanceOf(
+      IdempotencyKeyReusedError
+    );
+    expect(inventoryClient.reserve).toHaveBeenCalledOnce();
+  });
+
+  it('sin cupones, una lista vacía es el mismo body', async () => {
+    await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+
+    expect((await service.checkout(USER_ID, AUTHORIZATION, KEY, { ...INPUT, promotionCodes: [] })).replayed).toBe(true);
+  });
+
+  it('la clave es por usuario', async () => {
+    await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+
+    expect((await service.checkout('user-2', AUTHORIZATION, KEY, INPUT)).replayed).toBe(false);
+    expect(repository.orders.size).toBe(2);
+  });
+
+  it('si otra request con la misma clave crea la orden primero, devuelve esa y libera lo que reservó', async () => {
+    const first = await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+    // La segunda request buscó la clave antes de que la primera creara la orden
+    vi.spyOn(repository, 'findOrderByIdempotencyKey').mockResolvedValueOnce(null);
+
+    const second = await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+
+    expect(second).toEqual({ order: first.order, replayed: true });
+    expect(repository.orders.size).toBe(1);
+
+    // Reservó stock y canjeó promociones para una orden que no se creó
+    const losingOrderId = inventoryClient.reserve.mock.lastCall!.at(-1);
+    expect(losingOrderId).not.toBe(first.order.id);
+    expect(inventoryClient.release).toHaveBeenCalledExactlyOnceWith('reservation-2');
+    expect(promotionsClient.release).toHaveBeenCalledExactlyOnceWith(losingOrderId);
+    expect(cartClient.clearCart).toHaveBeenCalledOnce();
+  });
+
+  it('si otra request creó la orden primero con otro body, es un error y libera lo que reservó', async () => {
+    await service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT);
+    vi.spyOn(repository, 'findOrderByIdempotencyKey').mockResolvedValueOnce(null);
+
+    await expect(service.checkout(USER_ID, AUTHORIZATION, KEY, { ...INPUT, priceList: 'mayorista' })).rejects.toBeInstanceOf(
+      IdempotencyKeyReusedError
+    );
+    expect(inventoryClient.release).toHaveBeenCalledExactlyOnceWith('reservation-2');
+    expect(repository.orders.size).toBe(1);
+  });
+
+  it('si falla el canje de promociones libera la reserva y no crea la orden', async () => {
+    promotionsClient.redeem.mockRejectedValueOnce(new Error('promociones caído'));
+
+    await expect(service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT)).rejects.toThrow('promociones caído');
+    expect(inventoryClient.release).toHaveBeenCalledExactlyOnceWith('reservation-1');
+    expect(promotionsClient.release).toHaveBeenCalledOnce();
+    expect(repository.orders.size).toBe(0);
+  });
+
+  it('un carrito vacío no reserva nada', async () => {
+    cart = cartWith();
+
+    await expect(service.checkout(USER_ID, AUTHORIZATION, KEY, INPUT)).rejects.toBeInstanceOf(ValidationError);
+    expect(inventoryClient.reserve).not.toHaveBeenCalled();
+  });
+});
+
+describe('estados de la orden', () => {
+  it('al pagar confirma la reserva y registra el evento', async () => {
+    const order = await placeOrder();
+
+    const paid = await service.transitionOrder('payments', order.id, 'PAID', 'Pago aprobado');
+
+    expect(paid.status).toBe('PAID');
+    expect(paid.paidAt).toBeInstanceOf(Date);
+    expect(inventoryClient.commit).toHaveBeenCalledExactlyOnceWith('reservation-1');
+    expect(paid.events!.map(({ fromStatus, toStatus }) => [fromStatus, toStatus])).toEqual([[null, 'PENDING'], ['PENDING', 'PAID']]);
+  });
+
+  it('recorre el ciclo de despacho y entrega', async () => {
+    const order = await placeOrder();
+
+    for (const status of ['PAID', 'FULFILLED', 'DELIVERED', 'REFUNDED'] as const) {
+      expect((await service.transitionOrder('staff', order.id, status)).status).toBe(status);
+    }
+  });
+
+  it('al cancelar libera la reserva y los canjes de promociones', async () => {
+    promotions = [PROMOTION];
+    const order = await placeOrder();
+
+    const cancelled = await service.cancelUserOrder(USER_ID, order.id);
+
+    expect(cancelled).toMatchObject({ status: 'CANCELLED', expiresAt: null });
+    expect(inventoryClient.release).toHaveBeenCalledExactlyOnceWith('reservation-1');
+    expect(promotionsClient.release).toHaveBeenCalledExactlyOnceWith(order.id);
+  });
+
+  it('sin promociones no libera canjes al cancelar', async () => {
+    const order = await placeOrder();
+
+    await service.cancelUserOrder(USER_ID, order.id);
+
+    expect(promotionsClient.release).not.toHaveBeenCalled();
+  });
+
+  it('rechaza una transición inválida sin efectos sobre el stock', async () => {
+    const order = await placeOrder();
+
+    await expect(service.transitionOrder('staff', order.id, 'FULFILLED')).rejects.toBeInstanceOf(InvalidTransitionError);
+    await service.transitionOrder('staff', order.id, 'PAID');
+    await expect(service.cancelUserOrder(USER_ID, order.id)).rejects.toBeInstanceOf(InvalidTransitionError);
+
+    expect(inventoryClient.release).not.toHaveBeenCalled();
+    expect(repository.orders.get(order.id)!.status).toBe('PAID');
+  });
+
+  it('no cobra una orden con el plazo de pago vencido', async () => {
+    const order = await placeOrder();
+    order.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.transitionOrder('payments', order.id, 'PAID')).rejects.toMatchObject({ code: 'ORDER_EXPIRED' });
+    expect(inventoryClient.commit).not.toHaveBeenCalled();
+  });
+
+  it('si la orden cambió después de leerla no aplica el cambio ni libera la reserva', async () => {
+    const order = await placeOrder();
+    const stale = await repository.findOrderById(order.id);
+    await repository.transitionOrder(order.id, 'PENDING', 'PAID', 'payments', null, new Date());
+    vi.spyOn(repository, 'findOrderById').mockResolvedValueOnce(stale);
+
+    await expect(service.cancelUserOrder(USER_ID, order.id)).rejects.toMatchObject({ code: 'ORDER_CHANGED' });
+    expect(inventoryClient.release).not.toHaveBeenCalled();
+  });
+
+  it('un usuario no puede cancelar la orden de otro', async () => {
+    const order = await placeOrder();
+
+    await expect(service.cancelUserOrder('user-2', order.id)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(repository.orders.get(order.id)!.status).toBe('PENDING');
+  });
+});
+
+describe('vencimiento del plazo de pago', () => {
+  const expire = (order: OrderWithDetails, secondsAgo: number) => {
+    order.expiresAt = new Date(Date.now() - secondsAgo * 1000);
+  };
+
+  it('cancela las órdenes pendientes vencidas y deja las vigentes', async () => {
+    const expired = await placeOrder('a');
+    const current = await placeOrder('b');
+    expire(expired, 1);
+
+    expect(await service.expireOrders(10)).toBe(1);
+    expect(repository.orders.get(expired.id)).toMatchObject({ status: 'CANCELLED', cancelledAt: expect.any(Date) });
+    expect(repository.orders.get(expired.id)!.events.at(-1)).toMatchObject({ actorId: null, note: 'Venció el plazo de pago' });
+    expect(repository.orders.get(current.id)!.status).toBe('PENDING');
+  });
+
+  it('no libera la reserva (vence sola) pero sí los canjes de promociones', async () => {
+    promotions = [PROMOTION];
+    const withPromotion = await placeOrder('a');
+    promotions = [];
+    const withoutPromotion = await placeOrder('b');
+    expire(withPromotion, 1);
+    expire(withoutPromotion, 1);
+
+    expect(await service.expireOrders(10)).toBe(2);
+    expect(inventoryClient.release).not.toHaveBeenCalled();
+    expect(promotionsClient.release).toHaveBeenCalledExactlyOnceWith(withPromotion.id);
+  });
+
+  it('procesa como máximo el lote indicado, las más vencidas primero', async () => {
+    const orders = [await placeOrder('a'), await placeOrder('b'), await placeOrder('c')];
+    orders.forEach((order, index) => expire(order, index + 1));
+
+    expect(await service.expireOrders(2)).toBe(2);
+    expect(orders.map((order) => order.status)).toEqual(['PENDING', 'CANCELLED', 'CANCELLED']);
+    expect(await service.expireOrders(2)).toBe(1);
+  });
+
+  it('saltea las órdenes que se pagaron mientras tanto', async () => {
+    promotions = [PROMOTION];
+    const order = await placeOrder();
+    expire(order, 1);
+    const [found] = await repository.findExpiredOrders(new Date(), 10);
+    await repository.transitionOrder(order.id, 'PENDING', 'PAID', 'payments', null, new Date());
+    vi.spyOn(repository, 'findExpiredOrders').mockResolvedValueOnce([found]);
+
+    expect(await service.expireOrders(10)).toBe(0);
+    expect(order.status).toBe('PAID');
+    expect(promotionsClient.release).not.toHaveBeenCalled();
+  });
+
+  it('una orden vencida ya no se puede pagar', async () => {
+    const order = await placeOrder();
+    expire(order, 1);
+    await service.expireOrders(10);
+
+    await expect(service.transitionOrder('payments', order.id, 'PAID')).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(inventoryClient.commit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ORDER_TRANSITIONS, assertTransition } from '../src/utils/order-state';
+import { InvalidTransitionError, OrderStatus } from '../src/types/index';
+
+const STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[];
+
+const allowed: [OrderStatus, OrderStatus][] = [
+  ['PENDING', 'PAID'],
+  ['PENDING', 'CANCELLED'],
+  ['PAID', 'FULFILLED'],
+  ['PAID', 'REFUNDED'],
+  ['FULFILLED', 'DELIVERED'],
+  ['FULFILLED', 'REFUNDED'],
+  ['DELIVERED', 'REFUNDED']
+];
+
+describe('assertTransition', () => {
+  it.each(allowed)('permite %s → %s', (from, to) => {
+    expect(() => assertTransition(from, to)).not.toThrow();
+  });
+
+  it('rechaza el resto de las transiciones, incluida la que no cambia de estado', () => {
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        if (!allowed.some(([a, b]) => a === from && b === to)) {
+          expect(() => assertTransition(from, to), `${from} → ${to}`).toThrow(InvalidTransitionError);
+        }
+      }
+    }
+  });
+
+  it('CANCELLED y REFUNDED son finales', () => {
+    expect(ORDER_TRANSITIONS.CANCELLED).toEqual([]);
+    expect(ORDER_TRANSITIONS.REFUNDED).toEqual([]);
+  });
+
+  it('una orden pagada no se puede cancelar, solo reembolsar', () => {
+    expect(() => assertTransition('PAID', 'CANCELLED')).toThrow(InvalidTransitionError);
+  });
+
+  it('informa las transiciones permitidas en el detalle', () => {
+    try {
+      assertTransition('FULFILLED', 'PAID');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({
+        code: 'INVALID_TRANSITION',
+        statusCode: 409,
+        details: { from: 'FULFILLED', to: 'PAID', allowed: ['DELIVERED', 'REFUNDED'] }
+      });
+    }
+  });
+});
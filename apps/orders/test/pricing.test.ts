@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { computeTaxLines, formatRate } from '../src/pricing/tax-calculator';
+import { findRate } from '../src/pricing/shipping-calculator';
+
+const rate = (name: string, rateBasisPoints: number, inclusive: boolean) => ({ name, rateBasisPoints, inclusive });
+
+const amounts = (lines: { amountMinor: number }[]) => lines.map((line) => line.amountMinor);
+
+describe('computeTaxLines', () => {
+  it('separa un impuesto incluido del precio', () => {
+    // 121.00 con IVA 21% incluido: 100.00 + 21.00
+    expect(amounts(computeTaxLines([rate('IVA', 2100, true)], 12100))).toEqual([2100]);
+  });
+
+  it('calcula un impuesto no incluido sobre el monto', () => {
+    expect(amounts(computeTaxLines([rate('Sales tax', 825, false)], 10000))).toEqual([825]);
+  });
+
+  it('reparte los incluidos en proporción y deja el resto del redondeo en el último', () => {
+    // 10.01 con 5% + 5% incluidos: 0.91 de impuestos, 0.45 + 0.46
+    const lines = computeTaxLines([rate('Federal', 500, true), rate('Provincial', 500, true)], 1001);
+
+    expect(amounts(lines)).toEqual([45, 46]);
+  });
+
+  it('la suma de los incluidos cierra con el monto separado', () => {
+    const lines = computeTaxLines([rate('A', 500, true), rate('B', 1000, true), rate('C', 700, false)], 1000);
+
+    // Neto: round(1000 / 1.15) = 870; incluidos: 130 = 43 + 87
+    expect(amounts(lines)).toEqual([43, 87, 61]);
+    expect(lines[0].amountMinor + lines[1].amountMinor).toBe(1000 - 870);
+  });
+
+  it('calcula los no incluidos sobre el monto sin los incluidos', () => {
+    const [included, excluded] = computeTaxLines([rate('IVA', 2100, true), rate('Extra', 1000, false)], 12100);
+
+    expect(included.amountMinor).toBe(2100);
+    expect(excluded.amountMinor).toBe(1000);
+  });
+
+  it('mantiene el orden y los datos de cada tasa', () => {
+    const lines = computeTaxLines([rate('Extra', 1000, false), rate('IVA', 2100, true)], 0);
+
+    expect(lines).toEqual([
+      { name: 'Extra', rateBasisPoints: 1000, inclusive: false, amountMinor: 0 },
+      { name: 'IVA', rateBasisPoints: 2100, inclusive: true, amountMinor: 0 }
+    ]);
+  });
+
+  it('sin tasas no hay impuestos', () => {
+    expect(computeTaxLines([], 5000)).toEqual([]);
+  });
+});
+
+describe('formatRate', () => {
+  it('muestra los puntos básicos como porcentaje con 2 decimales', () => {
+    expect(formatRate(2100)).toBe('21.00');
+    expect(formatRate(1050)).toBe('10.50');
+    expect(formatRate(5)).toBe('0.05');
+  });
+});
+
+describe('findRate', () => {
+  const rates = [
+    { minValue: 0, maxValue: 1000, amountMinor: 500 },
+    { minValue: 1000, maxValue: null, amountMinor: 900 }
+  ];
+
+  it('incluye el mínimo del tramo y excluye el máximo', () => {
+    expect(findRate(rates, 0)?.amountMinor).toBe(500);
+    expect(findRate(rates, 999)?.amountMinor).toBe(500);
+    expect(findRate(rates, 1000)?.amountMinor).toBe(900);
+  });
+
+  it('el último tramo sin máximo cubre cualquier valor', () => {
+    expect(findRate(rates, 1_000_000)?.amountMinor).toBe(900);
+  });
+
+  it('devuelve undefined si ningún tramo cubre el valor', () => {
+    expect(findRate([{ minValue: 500, maxValue: 2000, amountMinor: 300 }], 100)).toBeUndefined();
+    expect(findRate([{ minValue: 500, maxValue: 2000, amountMinor: 300 }], 2000)).toBeUndefined();
+  });
+});
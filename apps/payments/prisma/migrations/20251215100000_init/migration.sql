@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'AUTHORIZED', 'SUCCEEDED', 'FAILED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "PaymentOperation" AS ENUM ('CREATE_INTENT', 'CAPTURE', 'REFUND');
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerPaymentId" TEXT,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "amountMinor" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "failureCode" TEXT,
+    "authorizedAt" TIMESTAMP(3),
+    "succeededAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "Payment_amountMinor_check" CHECK ("amountMinor" > 0)
+);
+
+-- CreateTable
+CREATE TABLE "PaymentAttempt" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "operation" "PaymentOperation" NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "amountMinor" INTEGER NOT NULL,
+    "errorCode" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_provider_providerPaymentId_key" ON "Payment"("provider", "providerPaymentId");
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_createdAt_idx" ON "Payment"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Payment_userId_createdAt_idx" ON "Payment"("userId", "createdAt");
+
+-- CreateIndex: un solo pago activo por orden (Prisma no modela índices parciales)
+CREATE UNIQUE INDEX "Payment_orderId_active_key" ON "Payment"("orderId") WHERE "status" IN ('PENDING', 'AUTHORIZED', 'SUCCEEDED');
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_paymentId_createdAt_idx" ON "PaymentAttempt"("paymentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_provider_eventId_key" ON "WebhookEvent"("provider", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentAttempt" ADD CONSTRAINT "PaymentAttempt_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
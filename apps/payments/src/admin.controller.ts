@@ -0,0 +1,143 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PaymentService } from './services/payment.service';
+import { paymentParamsSchema, searchPaymentsQuerySchema } from './payment.schemas';
+
+/**
+ * Controlador de administración de pagos
+ *
+ * @class AdminController
+ * @description Consulta, captura y reembolso de pagos de cualquier usuario.
+ * Cada ruta declara en app.ts el permiso que exige (orders:read,
+ * orders:manage u orders:refund).
+ */
+export class AdminController {
+  /** Servicio de pagos para lógica de negocio */
+  private paymentService: PaymentService;
+
+  /**
+   * Constructor del controlador de administración
+   * Inicializa el servicio de pagos
+   */
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Endpoint para buscar pagos (requiere orders:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {orderId?, userId?, status?, page?, limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Pagos (más recientes primero) con paginación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async searchPayments(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { page, limit, ...filters } = searchPaymentsQuerySchema.parse(request.query);
+
+      const result = await this.paymentService.searchPayments(filters, page, limit);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver un pago con sus intentos ante el proveedor (requiere orders:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Pago con `attempts`
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Pago no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async getPayment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = paymentParamsSchema.parse(request.params);
+
+      const payment = await this.paymentService.getPaymentDetail(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { payment }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para capturar un pago autorizado (requiere orders:manage)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Pago cobrado
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Pago no encontrado
+   * @throws {409} El pago no está autorizado o el proveedor rechazó la captura
+   * @throws {502} El proveedor de pagos no pudo procesar la captura
+   * @throws {500} Error interno del servidor
+   */
+  async capturePayment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = paymentParamsSchema.parse(request.params);
+
+      const payment = await this.paymentService.capturePayment(id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Pago capturado exitosamente',
+        data: { payment }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para reembolsar un pago cobrado (requiere orders:refund)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Pago reembolsado
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Pago no encontrado
+   * @throws {409} El pago no está cobrado o el proveedor rechazó el reembolso
+   * @throws {502} El proveedor de pagos no pudo procesar el reembolso
+   * @throws {500} Error interno del servidor
+   */
+  async refundPayment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = paymentParamsSchema.parse(request.params);
+
+      const payment = await this.paymentService.refundPayment(id);
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Pago reembolsado exitosamente',
+        data: { payment }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Admin Controller', 'flat');
+  }
+}
@@ -0,0 +1,92 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { PaymentController } from './payment.controller';
+import { AdminController } from './admin.controller';
+import { WebhookController } from './webhook.controller';
+import { PaymentRepository } from './payment.repository';
+import { getPaymentProvider } from './providers/payment-provider';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const paymentController = new PaymentController();
+const adminController = new AdminController();
+const webhookController = new WebhookController();
+const paymentRepository = new PaymentRepository();
+const healthController = new HealthController('payments-service', {
+  database: () => paymentRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Webhooks de los proveedores (públicos, autenticados por la firma)
+server.register(async function (fastify) {
+  // La firma se calcula sobre el body exacto: no parsear el JSON
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_, body, done) => done(null, body));
+
+  fastify.post('/webhooks/:provider', webhookController.handleWebhook.bind(webhookController));
+});
+
+// Rutas protegidas
+server.register(async function (fastify) {
+  // Exigir access token válido; las rutas de administración declaran el permiso que exigen
+  fastify.addHook('preHandler', requireAuth);
+
+  const canRead = { preHandler: requirePermission(PERMISSIONS.ORDERS_READ) };
+  const canManage = { preHandler: requirePermission(PERMISSIONS.ORDERS_MANAGE) };
+  const canRefund = { preHandler: requirePermission(PERMISSIONS.ORDERS_REFUND) };
+
+  // Pagos del usuario autenticado; el gateway los expone en /api/payments
+  fastify.post('/', paymentController.createPayment.bind(paymentController));
+  fastify.get('/:id', paymentController.getPayment.bind(paymentController));
+
+  // Administración (/api/payments/admin en el gateway)
+  fastify.get('/admin', canRead, adminController.searchPayments.bind(adminController));
+  fastify.get('/admin/:id', canRead, adminController.getPayment.bind(adminController));
+  fastify.post('/admin/:id/capture', canManage, adminController.capturePayment.bind(adminController));
+  fastify.post('/admin/:id/refund', canRefund, adminController.refundPayment.bind(adminController));
+});
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    message: statusCode === 500 ? 'Error interno del servidor' : error.message,
+    ...(statusCode !== 500 && { code: error.code })
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    // El proveedor fake entrega sus webhooks a la ruta de este mismo proceso
+    const provider = getPaymentProvider();
+    if (provider instanceof FakePaymentProvider) {
+      provider.setDelivery(async (payload, headers) => {
+        const response = await server.inject({ method: 'POST', url: `/webhooks/${provider.name}`, headers, payload });
+        return response.statusCode;
+      });
+    }
+
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Payments service listening on port ${config.port} (provider: ${provider.name}, capture: ${config.payments.captureMode})`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
@@ -0,0 +1,158 @@
+import { ServiceTokenProvider, createServiceTokenProvider } from '@ecom/auth';
+import { OrderSnapshot, OrderStatus, ServiceUnavailableError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Cliente HTTP del servicio de órdenes
+ *
+ * @class OrdersClient
+ * @description Las órdenes del comprador se leen con su access token (el
+ * servicio de órdenes oculta las ajenas); los cambios de estado se hacen con el
+ * token de servicio de pagos (orders:read, orders:manage, orders:refund).
+ */
+export class OrdersClient {
+  /** Token de servicio de pagos */
+  private getServiceToken: ServiceTokenProvider;
+
+  /**
+   * Constructor del cliente de órdenes
+   * Inicializa el proveedor del token de servicio
+   */
+  constructor() {
+    this.getServiceToken = createServiceTokenProvider(config.serviceAuth);
+  }
+
+  /**
+   * Obtiene una orden del comprador
+   *
+   * @param {string} authorization - Header Authorization del comprador
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<OrderSnapshot | null>} Orden, o null si no existe o es de otro usuario
+   *
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes no responde o falla
+   */
+  async getUserOrder(authorization: string, orderId: string): Promise<OrderSnapshot | null> {
+    const { status, body } = await this.request(authorization, 'GET', `/${encodeURIComponent(orderId)}`);
+    return this.toOrder(status, body);
+  }
+
+  /**
+   * Obtiene cualquier orden con el token de servicio
+   *
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<OrderSnapshot | null>} Orden, o null si no existe
+   *
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes o el servicio auth no responden
+   */
+  async getOrder(orderId: string): Promise<OrderSnapshot | null> {
+    const { status, body } = await this.request(await this.serviceAuthorization(), 'GET', `/admin/${encodeURIComponent(orderId)}`);
+    return this.toOrder(status, body);
+  }
+
+  /**
+   * Cambia el estado de una orden (ej: PAID al confirmarse el pago)
+   *
+   * @param {string} orderId - ID de la orden
+   * @param {OrderStatus} status - Estado destino
+   * @param {string} note - Nota para el historial de la orden
+   * @returns {Promise<boolean>} true si se aplicó; false si la orden no admite el cambio (409)
+   *
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes o el servicio auth no responden
+   */
+  async transitionOrder(orderId: string, status: Exclude<OrderStatus, 'PENDING' | 'REFUNDED'>, note: string): Promise<boolean> {
+    const { status: code } = await this.request(
+      await this.serviceAuthorization(),
+      'POST',
+      `/admin/${encodeURIComponent(orderId)}/transitions`,
+      { status, note }
+    );
+    return this.toApplied(code);
+  }
+
+  /**
+   * Marca una orden como reembolsada
+   *
+   * @param {string} orderId - ID de la orden
+   * @param {string} note - Nota para el historial de la orden
+   * @returns {Promise<boolean>} true si se aplicó; false si la orden no admite el reembolso (409)
+   *
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes o el servicio auth no responden
+   */
+  async refundOrder(orderId: string, note: string): Promise<boolean> {
+    const { status } = await this.request(
+      await this.serviceAuthorization(),
+      'POST',
+      `/admin/${encodeURIComponent(orderId)}/refund`,
+      { note }
+    );
+    return this.toApplied(status);
+  }
+
+  /**
+   * Orden de una respuesta de lectura
+   *
+   * @private
+   */
+  private toOrder(status: number, body: any): OrderSnapshot | null {
+    if (status === 404) {
+      return null;
+    }
+
+    if (status !== 200 || !body?.data?.order) {
+      throw new ServiceUnavailableError('órdenes');
+    }
+
+    return body.data.order as OrderSnapshot;
+  }
+
+  /**
+   * Resultado de un cambio de estado
+   *
+   * @private
+   */
+  private toApplied(status: number): boolean {
+    if (status === 409) {
+      return false;
+    }
+
+    if (status !== 200) {
+      throw new ServiceUnavailableError('órdenes');
+    }
+
+    return true;
+  }
+
+  /**
+   * Header Authorization con el token de servicio
+   *
+   * @private
+   */
+  private async serviceAuthorization(): Promise<string> {
+    try {
+      return `Bearer ${await this.getServiceToken()}`;
+    } catch {
+      throw new ServiceUnavailableError('autenticación');
+    }
+  }
+
+  /**
+   * Envía una request al servicio de órdenes y devuelve el status y el body (si es JSON)
+   *
+   * @private
+   */
+  private async request(authorization: string, method: string, path: string, payload?: unknown): Promise<{ status: number; body: any }> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.orders.url}${path}`, {
+        method,
+        headers: { authorization, ...(payload !== undefined && { 'content-type': 'application/json' }) },
+        body: payload !== undefined ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(config.orders.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('órdenes');
+    }
+
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+}
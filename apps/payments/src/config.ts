@@ -0,0 +1,35 @@
+export const config = {
+  port: Number(process.env.PORT) || 3008,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  // Servicio de órdenes: de donde sale el monto a cobrar y a quien se avisa del pago
+  orders: {
+    url: process.env.ORDERS_SERVICE_URL || 'http://localhost:3007',
+    timeoutMs: Number(process.env.ORDERS_SERVICE_TIMEOUT_MS) || 10000
+  },
+  // Token de servicio (client credentials) para cambiar el estado de las órdenes
+  // desde los webhooks, que no tienen un usuario detrás
+  serviceAuth: {
+    tokenUrl: `${process.env.AUTH_SERVICE_URL || 'http://localhost:3002'}/service-token`,
+    clientId: 'payments',
+    clientSecret: process.env.PAYMENTS_SERVICE_SECRET
+  },
+  payments: {
+    // Proveedor de pagos; por ahora solo `fake` (determinístico, sin red)
+    provider: process.env.PAYMENT_PROVIDER || 'fake',
+    // `automatic` cobra al crear el pago; `manual` solo autoriza y staff captura después
+    captureMode: (process.env.PAYMENT_CAPTURE_MODE === 'manual' ? 'manual' : 'automatic') as 'automatic' | 'manual'
+  },
+  fake: {
+    // Secret con el que el proveedor fake firma sus webhooks (obligatorio: la ruta de webhooks es pública)
+    webhookSecret: process.env.FAKE_PAYMENTS_WEBHOOK_SECRET!,
+    // Antigüedad máxima aceptada de la firma de un webhook
+    webhookToleranceSeconds: 5 * 60
+  },
+  pagination: {
+    defaultLimit: 20,
+    maxLimit: 100
+  }
+}
@@ -0,0 +1,101 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PERMISSIONS, hasPermission } from '@ecom/auth';
+import { sendErrorResponse } from '@ecom/service';
+import { PaymentService } from './services/payment.service';
+import { createPaymentSchema, paymentParamsSchema } from './payment.schemas';
+
+/**
+ * Controlador de pagos del comprador
+ *
+ * @class PaymentController
+ * @description Pago de las órdenes propias. Todas las rutas requieren
+ * autenticación; los pagos ajenos se informan como inexistentes.
+ */
+export class PaymentController {
+  /** Servicio de pagos para lógica de negocio */
+  private paymentService: PaymentService;
+
+  /**
+   * Constructor del controlador de pagos
+   * Inicializa el servicio de pagos
+   */
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Endpoint para pagar una orden propia pendiente
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {orderId, paymentMethod}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con el pago (AUTHORIZED, SUCCEEDED o FAILED con `failureCode`)
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {404} Orden no encontrada
+   * @throws {409} La orden no está pendiente o ya tiene un pago en curso
+   * @throws {502} El proveedor de pagos no pudo procesar el pago
+   * @throws {503} Servicio de órdenes no disponible
+   * @throws {500} Error interno del servidor
+   *
+   * @description La orden pasa a PAID cuando llega el webhook del proveedor,
+   * no con esta respuesta.
+   */
+  async createPayment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createPaymentSchema.parse(request.body);
+
+      const payment = await this.paymentService.createPayment(
+        request.user!.userId,
+        request.headers.authorization!,
+        data
+      );
+
+      return reply.code(201).send({
+        success: true,
+        message: payment.status === 'FAILED' ? 'Pago rechazado' : 'Pago creado exitosamente',
+        data: { payment }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver un pago propio (o cualquiera con orders:read)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Pago
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Pago no encontrado
+   * @throws {500} Error interno del servidor
+   */
+  async getPayment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = paymentParamsSchema.parse(request.params);
+
+      const payment = await this.paymentService.getPayment(
+        request.user!.userId,
+        hasPermission(request.user!.permissions, PERMISSIONS.ORDERS_READ),
+        id
+      );
+
+      return reply.code(200).send({
+        success: true,
+        data: { payment }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Payment Controller', 'flat');
+  }
+}
@@ -0,0 +1,123 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  NewPayment,
+  NewPaymentAttempt,
+  Payment,
+  PaymentFilters,
+  PaymentStatus,
+  PaymentWithAttempts
+} from './types/index';
+import { STATUS_TIMESTAMPS, statusesBefore } from './utils/payment-state';
+
+// Intentos en el orden en que se hicieron
+const withAttempts = {
+  attempts: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.PaymentInclude;
+
+export class PaymentRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Buscar pago por ID
+  async findPaymentById(id: string): Promise<Payment | null> {
+    return await this.prisma.payment.findUnique({ where: { id } });
+  }
+
+  // Buscar pago por ID, con sus intentos
+  async findPaymentWithAttempts(id: string): Promise<PaymentWithAttempts | null> {
+    return await this.prisma.payment.findUnique({ where: { id }, include: withAttempts });
+  }
+
+  // Crear un pago pendiente.
+  // Devuelve null si la orden ya tiene un pago activo (índice único parcial)
+  async createPayment(payment: NewPayment): Promise<Payment | null> {
+    try {
+      return await this.prisma.payment.create({ data: payment });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Guardar el ID que asignó el proveedor
+  async setProviderPaymentId(id: string, providerPaymentId: string): Promise<void> {
+    await this.prisma.payment.update({ where: { id }, data: { providerPaymentId } });
+  }
+
+  // Pasar el pago a un estado solo si todavía puede llegar a él.
+  // Devuelve false si ya estaba ahí o más adelante (otra request o webhook se adelantó)
+  async transitionPayment(
+    id: string,
+    to: Exclude<PaymentStatus, 'PENDING'>,
+    failureCode: string | null = null,
+    at: Date = new Date()
+  ): Promise<boolean> {
+    const { count } = await this.prisma.payment.updateMany({
+      where: { id, status: { in: statusesBefore(to) } },
+      data: { status: to, [STATUS_TIMESTAMPS[to]]: at, ...(to === 'FAILED' && { failureCode }) },
+    });
+
+    return count === 1;
+  }
+
+  // Registrar una llamada al proveedor
+  async createAttempt(attempt: NewPaymentAttempt): Promise<void> {
+    await this.prisma.paymentAttempt.create({ data: attempt });
+  }
+
+  // Listar pagos con filtros, más recientes primero
+  async findPayments(filters: PaymentFilters, skip: number, take: number): Promise<{ payments: Payment[]; total: number }> {
+    const where: Prisma.PaymentWhereInput = {
+      orderId: filters.orderId,
+      userId: filters.userId,
+      status: filters.status,
+    };
+
+    const [payments, total] = await this.prisma.$transaction([
+      this.prisma.payment.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], skip, take }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    return { payments, total };
+  }
+
+  // Registrar un webhook recibido.
+  // Devuelve si ya se había procesado (reintento o entrega duplicada del proveedor)
+  async recordWebhookEvent(provider: string, eventId: string, type: string, payload: unknown): Promise<{ processed: boolean }> {
+    try {
+      await this.prisma.webhookEvent.create({
+        data: { provider, eventId, type, payload: payload as Prisma.InputJsonValue },
+      });
+      return { processed: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.webhookEvent.findUnique({
+      where: { provider_eventId: { provider, eventId } },
+      select: { processedAt: true },
+    });
+
+    return { processed: existing?.processedAt != null };
+  }
+
+  // Marcar un webhook como procesado
+  async markWebhookProcessed(provider: string, eventId: string): Promise<void> {
+    await this.prisma.webhookEvent.update({
+      where: { provider_eventId: { provider, eventId } },
+      data: { processedAt: new Date() },
+    });
+  }
+}
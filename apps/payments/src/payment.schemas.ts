@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { config } from './config';
+
+const PAYMENT_STATUSES = ['PENDING', 'AUTHORIZED', 'SUCCEEDED', 'FAILED', 'REFUNDED'] as const;
+
+// Schema para pagar una orden propia
+export const createPaymentSchema = z.object({
+  orderId: z.string().uuid('ID de orden inválido'),
+  // Medio de pago tokenizado por el proveedor en el cliente (nunca datos de tarjeta)
+  paymentMethod: z.string().trim().min(1, 'Medio de pago requerido').max(255),
+});
+
+const pageSchema = z.coerce.number().int().min(1, 'Página debe ser mayor a 0').default(1);
+
+const limitSchema = z.coerce
+  .number()
+  .int()
+  .min(1, 'Límite debe ser mayor a 0')
+  .max(config.pagination.maxLimit, `Límite máximo ${config.pagination.maxLimit}`)
+  .default(config.pagination.defaultLimit);
+
+// Schema para la búsqueda de pagos (staff)
+export const searchPaymentsQuerySchema = z.object({
+  orderId: z.string().uuid('ID de orden inválido').optional(),
+  userId: z.string().uuid('ID de usuario inválido').optional(),
+  status: z.enum(PAYMENT_STATUSES, { message: 'Estado inválido' }).optional(),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+// Schema para el ID de pago en la URL
+export const paymentParamsSchema = z.object({
+  id: z.string().uuid('ID de pago inválido'),
+});
+
+// Schema para el proveedor en la URL de webhooks
+export const webhookParamsSchema = z.object({
+  provider: z.string().regex(/^[a-z0-9-]{1,50}$/, 'Proveedor inválido'),
+});
+
+// Tipos inferidos de los schemas
+export type CreatePaymentBody = z.infer<typeof createPaymentSchema>;
+export type SearchPaymentsQuery = z.infer<typeof searchPaymentsQuerySchema>;
@@ -0,0 +1,202 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { ProviderError, ValidationError, WebhookSignatureError } from '../types/index';
+import type {
+  CreateIntentParams,
+  IntentResult,
+  OperationResult,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventType,
+  ProviderPaymentRef
+} from './payment-provider';
+
+/** Entrega un webhook firmado (body crudo y headers) y devuelve el status HTTP de la respuesta */
+export type WebhookDelivery = (rawBody: Buffer, headers: Record<string, string>) => Promise<number>;
+
+/** Header con la firma: `t=<unix>,v1=<hmac-sha256 hex de "<t>.<body>">` */
+export const FAKE_SIGNATURE_HEADER = 'fake-signature';
+
+// Medios de pago de prueba y el rechazo que producen (null: el pago se aprueba)
+const TEST_PAYMENT_METHODS: Record<string, { failureCode: string; failureMessage: string } | null> = {
+  pm_fake_success: null,
+  pm_fake_declined: { failureCode: 'card_declined', failureMessage: 'La tarjeta fue rechazada' },
+  pm_fake_insufficient_funds: { failureCode: 'insufficient_funds', failureMessage: 'Fondos insuficientes' },
+};
+
+// Medio de pago que simula al proveedor caído
+const PROVIDER_ERROR_METHOD = 'pm_fake_provider_error';
+
+// Reintentos de entrega de un webhook que no respondió 2xx (segundos de espera antes de cada uno)
+const DELIVERY_RETRY_DELAYS = [1, 5, 30];
+
+/**
+ * Proveedor de pagos falso para desarrollo y tests
+ *
+ * @class FakePaymentProvider
+ * @description No usa la red: el resultado depende solo del medio de pago
+ * (`pm_fake_success`, `pm_fake_declined`, `pm_fake_insufficient_funds`,
+ * `pm_fake_provider_error`) y los IDs se derivan del pago, así que la misma
+ * operación produce siempre los mismos IDs y eventos. Los webhooks se firman
+ * como los de un proveedor real y se entregan en el mismo proceso con
+ * `setDelivery`, reintentando si la respuesta no es 2xx.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private delivery: WebhookDelivery | null = null;
+
+  constructor(
+    private webhookSecret: string,
+    private toleranceSeconds: number
+  ) {}
+
+  /**
+   * Define cómo se entregan los webhooks (sin entrega, los eventos se descartan)
+   *
+   * @param {WebhookDelivery} delivery - Función que envía el webhook a la ruta del servicio
+   */
+  setDelivery(delivery: WebhookDelivery): void {
+    this.delivery = delivery;
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<IntentResult> {
+    if (params.paymentMethod === PROVIDER_ERROR_METHOD) {
+      throw new ProviderError('processing_error', 'El proveedor de pagos no pudo procesar la operación');
+    }
+
+    const providerPaymentId = `pi_fake_${this.digest(params.reference)}`;
+    const ref = { ...params, providerPaymentId };
+    const rejection = Object.hasOwn(TEST_PAYMENT_METHODS, params.paymentMethod)
+      ? TEST_PAYMENT_METHODS[params.paymentMethod]
+      : { failureCode: 'invalid_payment_method', failureMessage: 'Medio de pago desconocido' };
+
+    if (rejection) {
+      this.emit('payment.failed', ref, rejection.failureCode);
+      return { providerPaymentId, status: 'FAILED', ...rejection };
+    }
+
+    if (params.captureMode === 'manual') {
+      this.emit('payment.authorized', ref);
+      return { providerPaymentId, status: 'AUTHORIZED' };
+    }
+
+    this.emit('payment.succeeded', ref);
+    return { providerPaymentId, status: 'SUCCEEDED' };
+  }
+
+  async capture(payment: ProviderPaymentRef): Promise<OperationResult> {
+    this.emit('payment.succeeded', payment);
+    return { success: true };
+  }
+
+  async refund(payment: ProviderPaymentRef): Promise<OperationResult> {
+    this.emit('refund.succeeded', payment);
+    return { success: true };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    const parts = new Map(
+      (typeof header === 'string' ? header : '').split(',').map((part) => part.split('=', 2) as [string, string])
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = Buffer.from(parts.get('v1') ?? '', 'hex');
+
+    if (!Number.isInteger(timestamp) || signature.length === 0) {
+      throw new WebhookSignatureError('Falta la firma del webhook');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > this.toleranceSeconds) {
+      throw new WebhookSignatureError('La firma del webhook venció');
+    }
+
+    const expected = this.sign(timestamp, rawBody);
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new WebhookSignatureError();
+    }
+
+    try {
+      const payload = JSON.parse(rawBody.toString('utf8'));
+      const object = payload.data.object;
+
+      return {
+        id: String(payload.id),
+        type: String(payload.type),
+        providerPaymentId: String(object.id),
+        reference: String(object.reference),
+        failureCode: object.failureCode ?? undefined,
+        payload
+      };
+    } catch {
+      throw new ValidationError('Webhook con formato inválido');
+    }
+  }
+
+  /**
+   * Firma y entrega un evento después de que la operación actual responde
+   *
+   * @private
+   */
+  private emit(type: ProviderEventType, payment: ProviderPaymentRef, failureCode?: string): void {
+    if (!this.delivery) return;
+
+    const body = Buffer.from(JSON.stringify({
+      id: `evt_fake_${this.digest(`${payment.providerPaymentId}:${type}`)}`,
+      type,
+      data: {
+        object: {
+          id: payment.providerPaymentId,
+          reference: payment.reference,
+          amountMinor: payment.amountMinor,
+          currency: payment.currency,
+          failureCode: failureCode ?? null
+        }
+      }
+    }));
+
+    this.deliver(body, 0);
+  }
+
+  /**
+   * Entrega un webhook y lo reintenta mientras la respuesta no sea 2xx
+   *
+   * @private
+   */
+  private deliver(body: Buffer, attempt: number): void {
+    const delaySeconds = attempt === 0 ? 0 : DELIVERY_RETRY_DELAYS[attempt - 1];
+
+    const timer = setTimeout(async () => {
+      // La firma se calcula en cada entrega, como en un proveedor real
+      const timestamp = Math.floor(Date.now() / 1000);
+      const headers = {
+        'content-type': 'application/json',
+        [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, body).toString('hex')}`
+      };
+
+      const status = await this.delivery!(body, headers).catch(() => 0);
+      if ((status < 200 || status >= 300) && attempt < DELIVERY_RETRY_DELAYS.length) {
+        this.deliver(body, attempt + 1);
+      }
+    }, delaySeconds * 1000);
+
+    timer.unref();
+  }
+
+  /**
+   * HMAC-SHA256 de `<timestamp>.<body>` con el secret de webhooks
+   *
+   * @private
+   */
+  private sign(timestamp: number, body: Buffer): Buffer {
+    return createHmac('sha256', this.webhookSecret).update(`${timestamp}.`).update(body).digest();
+  }
+
+  /**
+   * Sufijo determinístico para los IDs del proveedor
+   *
+   * @private
+   */
+  private digest(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 24);
+  }
+}
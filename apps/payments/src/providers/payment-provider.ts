@@ -0,0 +1,98 @@
+import { IncomingHttpHeaders } from 'http';
+import { config } from '../config';
+import { FakePaymentProvider } from './fake.provider';
+
+export type CaptureMode = 'automatic' | 'manual';
+
+export interface CreateIntentParams {
+  /** ID del pago en este servicio; el proveedor lo devuelve en los webhooks */
+  reference: string;
+  amountMinor: number;
+  currency: string;
+  paymentMethod: string;
+  captureMode: CaptureMode;
+}
+
+/** Pago ya creado en el proveedor, para capturarlo o reembolsarlo */
+export interface ProviderPaymentRef {
+  providerPaymentId: string;
+  reference: string;
+  amountMinor: number;
+  currency: string;
+}
+
+export interface IntentResult {
+  providerPaymentId: string;
+  /** `AUTHORIZED` con captura manual, `SUCCEEDED` con automática, `FAILED` si se rechazó el medio de pago */
+  status: 'AUTHORIZED' | 'SUCCEEDED' | 'FAILED';
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface OperationResult {
+  success: boolean;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+/** Tipos de evento que procesa el servicio; el resto se registra y se ignora */
+export type ProviderEventType = 'payment.authorized' | 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+/** Webhook ya verificado y traducido al formato del servicio */
+export interface ProviderEvent {
+  /** ID del evento en el proveedor (se usa para deduplicar) */
+  id: string;
+  type: ProviderEventType | string;
+  providerPaymentId: string;
+  /** ID del pago en este servicio */
+  reference: string;
+  failureCode?: string;
+  /** Evento tal como llegó, para guardarlo */
+  payload: unknown;
+}
+
+/**
+ * Proveedor de pagos (pasarela)
+ *
+ * @interface PaymentProvider
+ * @description Abstrae la pasarela usada por el servicio. Los rechazos del
+ * medio de pago se devuelven como resultado; los errores del proveedor (caído,
+ * timeout) se lanzan como ProviderError. El resultado definitivo de cada
+ * operación llega por webhook.
+ */
+export interface PaymentProvider {
+  /** Nombre del proveedor; es el `:provider` de la ruta de webhooks */
+  readonly name: string;
+  /** Crea el intent de pago y lo autoriza (y lo captura, si la captura es automática) */
+  createIntent(params: CreateIntentParams): Promise<IntentResult>;
+  /** Captura un pago autorizado */
+  capture(payment: ProviderPaymentRef): Promise<OperationResult>;
+  /** Reembolsa el total de un pago cobrado */
+  refund(payment: ProviderPaymentRef): Promise<OperationResult>;
+  /**
+   * Verifica la firma de un webhook y lo traduce
+   *
+   * @throws {WebhookSignatureError} Si la firma falta, no coincide o es muy vieja
+   */
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderEvent;
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Devuelve el proveedor de pagos compartido por todo el proceso
+ *
+ * @returns {PaymentProvider} El configurado en `PAYMENT_PROVIDER`
+ *
+ * @throws {Error} Si el proveedor configurado no existe
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    if (config.payments.provider !== 'fake') {
+      throw new Error(`Proveedor de pagos desconocido: ${config.payments.provider}`);
+    }
+    provider = new FakePaymentProvider(config.fake.webhookSecret, config.fake.webhookToleranceSeconds);
+  }
+
+  return provider;
+}
@@ -0,0 +1,18 @@
+import { startServer } from './app';
+import { config } from './config';
+
+// Validar variables de entorno críticas (con el proveedor fake, también el secret de sus webhooks)
+const requiredEnvVars = ['DATABASE_URL', ...(config.payments.provider === 'fake' ? ['FAKE_PAYMENTS_WEBHOOK_SECRET'] : [])];
+const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
+
+if (missingEnvVars.length > 0) {
+  console.error('variables de entorno críticas:', missingEnvVars.join(', '));
+  console.error('por favor setear estas variables de entorno antes de iniciar el servidor.');
+  process.exit(1);
+}
+
+// Iniciar servidor
+startServer().catch((error) => {
+  console.error('falla al iniciar payments service:', error);
+  process.exit(1);
+});
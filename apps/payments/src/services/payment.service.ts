@@ -0,0 +1,418 @@
+import { IncomingHttpHeaders } from 'http';
+import { toMoney } from '@ecom/service';
+import { PaymentRepository } from '../payment.repository';
+import { OrdersClient } from '../clients/orders.client';
+import { PaymentProvider, ProviderEvent, getPaymentProvider } from '../providers/payment-provider';
+import {
+  ConflictError,
+  CreatePaymentInput,
+  NotFoundError,
+  Pagination,
+  Payment,
+  PaymentFilters,
+  PaymentOperation,
+  PaymentResponse,
+  PaymentWithAttempts,
+  ProviderError,
+  WebhookResult
+} from '../types/index';
+import { config } from '../config';
+
+// Estados de la orden en los que el pago ya se registró
+const PAID_ORDER_STATUSES = ['PAID', 'FULFILLED', 'DELIVERED', 'REFUNDED'];
+
+/**
+ * Servicio de pagos
+ *
+ * @class PaymentService
+ * @description Cobra las órdenes pendientes a través del proveedor configurado.
+ * Cada llamada al proveedor queda registrada como intento. El estado de la
+ * orden solo cambia con los webhooks del proveedor, que se procesan una sola
+ * vez aunque lleguen repetidos.
+ */
+export class PaymentService {
+  /** Repositorio para acceso a datos de pagos */
+  private paymentRepository: PaymentRepository;
+  /** Cliente del servicio de órdenes */
+  private ordersClient: OrdersClient;
+  /** Proveedor de pagos */
+  private provider: PaymentProvider;
+
+  /**
+   * Constructor del servicio de pagos
+   *
+   * @param {PaymentProvider} [provider] - Proveedor a usar (por defecto el compartido del proceso)
+   */
+  constructor(provider: PaymentProvider = getPaymentProvider()) {
+    this.paymentRepository = new PaymentRepository();
+    this.ordersClient = new OrdersClient();
+    this.provider = provider;
+  }
+
+  /**
+   * Crea el pago de una orden propia pendiente y lo envía al proveedor
+   *
+   * @param {string} userId - Comprador
+   * @param {string} authorization - Header Authorization del comprador (para leer la orden)
+   * @param {CreatePaymentInput} input - Orden y medio de pago
+   * @returns {Promise<PaymentResponse>} Pago autorizado, cobrado o rechazado
+   *
+   * @throws {NotFoundError} Si la orden no existe o es de otro usuario
+   * @throws {ConflictError} ORDER_NOT_PAYABLE si la orden no está pendiente;
+   * PAYMENT_IN_PROGRESS si ya tiene un pago en curso o cobrado
+   * @throws {ProviderError} Si el proveedor no pudo procesar el pago (se puede reintentar)
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes no responde
+   *
+   * @description Un rechazo del medio de pago no es un error: el pago queda
+   * FAILED con su `failureCode` y el comprador puede intentar con otro medio.
+   */
+  async createPayment(userId: string, authorization: string, input: CreatePaymentInput): Promise<PaymentResponse> {
+    const order = await this.ordersClient.getUserOrder(authorization, input.orderId);
+    if (!order) {
+      throw new NotFoundError('Orden no encontrada');
+    }
+
+    if (order.status !== 'PENDING') {
+      throw new ConflictError('ORDER_NOT_PAYABLE', 'La orden no está pendiente de pago');
+    }
+
+    const payment = await this.paymentRepository.createPayment({
+      orderId: order.id,
+      userId,
+      provider: this.provider.name,
+      amountMinor: order.total.amountMinor,
+      currency: order.total.currency
+    });
+    if (!payment) {
+      throw new ConflictError('PAYMENT_IN_PROGRESS', 'La orden ya tiene un pago en curso o cobrado');
+    }
+
+    try {
+      const result = await this.provider.createIntent({
+        reference: payment.id,
+        amountMinor: payment.amountMinor,
+        currency: payment.currency,
+        paymentMethod: input.paymentMethod,
+        captureMode: config.payments.captureMode
+      });
+
+      await this.paymentRepository.setProviderPaymentId(payment.id, result.providerPaymentId);
+      await this.recordAttempt(payment, 'CREATE_INTENT', result.status !== 'FAILED', result.failureCode, result.failureMessage);
+      await this.paymentRepository.transitionPayment(payment.id, result.status, result.failureCode ?? null);
+    } catch (error) {
+      // Liberar la orden para otro intento: el pago nunca llegó al proveedor
+      if (error instanceof ProviderError) {
+        await this.recordAttempt(payment, 'CREATE_INTENT', false, error.providerCode, error.message);
+        await this.paymentRepository.transitionPayment(payment.id, 'FAILED', error.providerCode);
+      }
+      throw error;
+    }
+
+    return this.formatPaymentResponse((await this.paymentRepository.findPaymentById(payment.id))!);
+  }
+
+  /**
+   * Obtiene un pago propio, o cualquiera si el usuario puede ver todas las órdenes
+   *
+   * @param {string} userId - Usuario de la request
+   * @param {boolean} canReadAll - Si tiene orders:read
+   * @param {string} paymentId - ID del pago
+   * @returns {Promise<PaymentResponse>} Pago
+   *
+   * @throws {NotFoundError} Si el pago no existe o es de otro usuario
+   */
+  async getPayment(userId: string, canReadAll: boolean, paymentId: string): Promise<PaymentResponse> {
+    const payment = await this.paymentRepository.findPaymentById(paymentId);
+    if (!payment || (!canReadAll && payment.userId !== userId)) {
+      throw new NotFoundError('Pago no encontrado');
+    }
+
+    return this.formatPaymentResponse(payment);
+  }
+
+  /**
+   * Busca pagos de cualquier usuario (administración)
+   *
+   * @param {PaymentFilters} filters - Orden, usuario y estado
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Pagos por página
+   * @returns {Promise<{payments: PaymentResponse[], pagination: Pagination}>} Pagos, más recientes primero
+   */
+  async searchPayments(filters: PaymentFilters, page: number, limit: number): Promise<{ payments: PaymentResponse[]; pagination: Pagination }> {
+    const { payments, total } = await this.paymentRepository.findPayments(filters, (page - 1) * limit, limit);
+
+    return {
+      payments: payments.map((payment) => this.formatPaymentResponse(payment)),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  /**
+   * Obtiene cualquier pago con sus intentos (administración)
+   *
+   * @param {string} paymentId - ID del pago
+   * @returns {Promise<PaymentResponse>} Pago con `attempts`
+   *
+   * @throws {NotFoundError} Si el pago no existe
+   */
+  async getPaymentDetail(paymentId: string): Promise<PaymentResponse> {
+    const payment = await this.paymentRepository.findPaymentWithAttempts(paymentId);
+    if (!payment) {
+      throw new NotFoundError('Pago no encontrado');
+    }
+
+    return this.formatPaymentResponse(payment);
+  }
+
+  /**
+   * Captura un pago autorizado (captura manual)
+   *
+   * @param {string} paymentId - ID del pago
+   * @returns {Promise<PaymentResponse>} Pago cobrado
+   *
+   * @throws {NotFoundError} Si el pago no existe
+   * @throws {ConflictError} PAYMENT_NOT_CAPTURABLE si el pago no está autorizado; CAPTURE_FAILED si el proveedor la rechazó
+   * @throws {ProviderError} Si el proveedor no pudo procesar la captura
+   */
+  async capturePayment(paymentId: string): Promise<PaymentResponse> {
+    const payment = await this.findPaymentOrFail(paymentId);
+    if (payment.status !== 'AUTHORIZED' || !payment.providerPaymentId) {
+      throw new ConflictError('PAYMENT_NOT_CAPTURABLE', 'Solo se pueden capturar pagos autorizados');
+    }
+
+    await this.callProvider(payment, 'CAPTURE', 'CAPTURE_FAILED', 'El proveedor rechazó la captura');
+    await this.paymentRepository.transitionPayment(payment.id, 'SUCCEEDED');
+
+    return this.formatPaymentResponse((await this.paymentRepository.findPaymentById(payment.id))!);
+  }
+
+  /**
+   * Reembolsa el total de un pago cobrado
+   *
+   * @param {string} paymentId - ID del pago
+   * @returns {Promise<PaymentResponse>} Pago reembolsado
+   *
+   * @throws {NotFoundError} Si el pago no existe
+   * @throws {ConflictError} PAYMENT_NOT_REFUNDABLE si el pago no está cobrado; REFUND_FAILED si el proveedor lo rechazó
+   * @throws {ProviderError} Si el proveedor no pudo procesar el reembolso
+   *
+   * @description La orden pasa a REFUNDED cuando llega el webhook del reembolso.
+   */
+  async refundPayment(paymentId: string): Promise<PaymentResponse> {
+    const payment = await this.findPaymentOrFail(paymentId);
+    if (payment.status !== 'SUCCEEDED') {
+      throw new ConflictError('PAYMENT_NOT_REFUNDABLE', 'Solo se pueden reembolsar pagos cobrados');
+    }
+
+    await this.refund(payment);
+
+    return this.formatPaymentResponse((await this.paymentRepository.findPaymentById(payment.id))!);
+  }
+
+  /**
+   * Procesa un webhook del proveedor
+   *
+   * @param {string} providerName - Proveedor de la ruta (`/webhooks/:provider`)
+   * @param {Buffer} rawBody - Body tal como llegó (la firma se calcula sobre él)
+   * @param {IncomingHttpHeaders} headers - Headers de la request
+   * @returns {Promise<WebhookResult>} ID del evento y si era un duplicado
+   *
+   * @throws {NotFoundError} Si el proveedor no es el configurado
+   * @throws {WebhookSignatureError} Si la firma no es válida
+   * @throws {ServiceUnavailableError} Si el servicio de órdenes no responde (el proveedor reintenta)
+   *
+   * @description
+   * - Cada evento se procesa una sola vez; los repetidos responden `duplicate: true`
+   * - Si el procesamiento falla, el evento queda sin procesar y el reintento lo procesa
+   * - `payment.succeeded` pasa la orden a PAID; si la orden ya no se puede
+   *   pagar (vencida o cancelada), el pago se reembolsa
+   * - `refund.succeeded` pasa la orden a REFUNDED
+   */
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<WebhookResult> {
+    if (providerName !== this.provider.name) {
+      throw new NotFoundError('Proveedor de pagos desconocido');
+    }
+
+    const event = this.provider.verifyWebhook(rawBody, headers);
+
+    const { processed } = await this.paymentRepository.recordWebhookEvent(this.provider.name, event.id, event.type, event.payload);
+    if (processed) {
+      return { eventId: event.id, duplicate: true };
+    }
+
+    await this.processEvent(event);
+    await this.paymentRepository.markWebhookProcessed(this.provider.name, event.id);
+
+    return { eventId: event.id, duplicate: false };
+  }
+
+  /**
+   * Aplica un evento del proveedor al pago y a su orden
+   *
+   * @private
+   */
+  private async processEvent(event: ProviderEvent): Promise<void> {
+    const payment = await this.paymentRepository.findPaymentById(event.reference);
+    // Eventos de pagos que no son de este servicio (o de otro entorno) se ignoran
+    if (!payment || (payment.providerPaymentId && payment.providerPaymentId !== event.providerPaymentId)) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'payment.authorized':
+        await this.paymentRepository.transitionPayment(payment.id, 'AUTHORIZED');
+        break;
+
+      case 'payment.failed':
+        await this.paymentRepository.transitionPayment(payment.id, 'FAILED', event.failureCode ?? null);
+        break;
+
+      case 'payment.succeeded':
+        await this.paymentRepository.transitionPayment(payment.id, 'SUCCEEDED');
+        await this.markOrderPaid(payment);
+        break;
+
+      case 'refund.succeeded':
+        await this.paymentRepository.transitionPayment(payment.id, 'REFUNDED');
+        // Falla (409) si la orden nunca se pagó, ej: el reembolso automático de una orden vencida
+        await this.ordersClient.refundOrder(payment.orderId, `Reembolso del pago ${payment.id}`);
+        break;
+    }
+  }
+
+  /**
+   * Pasa la orden a PAID; si la orden ya no admite el pago, reembolsa el cobro
+   *
+   * @private
+   */
+  private async markOrderPaid(payment: Payment): Promise<void> {
+    if (await this.ordersClient.transitionOrder(payment.orderId, 'PAID', `Pago ${payment.id}`)) {
+      return;
+    }
+
+    // Ya pagada por una entrega anterior de este mismo evento
+    const order = await this.ordersClient.getOrder(payment.orderId);
+    if (order && PAID_ORDER_STATUSES.includes(order.status)) {
+      return;
+    }
+
+    // Vencida, cancelada o sin stock reservado: devolver el dinero
+    const current = await this.paymentRepository.findPaymentById(payment.id);
+    if (current?.status === 'SUCCEEDED') {
+      await this.refund(current);
+    }
+  }
+
+  /**
+   * Reembolsa un pago cobrado en el proveedor
+   *
+   * @private
+   */
+  private async refund(payment: Payment): Promise<void> {
+    await this.callProvider(payment, 'REFUND', 'REFUND_FAILED', 'El proveedor rechazó el reembolso');
+    await this.paymentRepository.transitionPayment(payment.id, 'REFUNDED');
+  }
+
+  /**
+   * Captura o reembolsa en el proveedor registrando el intento
+   *
+   * @private
+   */
+  private async callProvider(
+    payment: Payment,
+    operation: Exclude<PaymentOperation, 'CREATE_INTENT'>,
+    rejectedCode: string,
+    rejectedMessage: string
+  ): Promise<void> {
+    const ref = {
+      providerPaymentId: payment.providerPaymentId!,
+      reference: payment.id,
+      amountMinor: payment.amountMinor,
+      currency: payment.currency
+    };
+
+    try {
+      const result = operation === 'CAPTURE' ? await this.provider.capture(ref) : await this.provider.refund(ref);
+      await this.recordAttempt(payment, operation, result.success, result.failureCode, result.failureMessage);
+
+      if (!result.success) {
+        throw new ConflictError(rejectedCode, `${rejectedMessage} (${result.failureCode ?? 'sin motivo'})`);
+      }
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        await this.recordAttempt(payment, operation, false, error.providerCode, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registra una llamada al proveedor
+   *
+   * @private
+   */
+  private async recordAttempt(
+    payment: Payment,
+    operation: PaymentOperation,
+    success: boolean,
+    errorCode?: string,
+    errorMessage?: string
+  ): Promise<void> {
+    await this.paymentRepository.createAttempt({
+      paymentId: payment.id,
+      operation,
+      success,
+      amountMinor: payment.amountMinor,
+      errorCode: errorCode ?? null,
+      errorMessage: errorMessage ?? null
+    });
+  }
+
+  /**
+   * Busca un pago o lanza NotFoundError
+   *
+   * @private
+   */
+  private async findPaymentOrFail(paymentId: string): Promise<Payment> {
+    const payment = await this.paymentRepository.findPaymentById(paymentId);
+    if (!payment) {
+      throw new NotFoundError('Pago no encontrado');
+    }
+
+    return payment;
+  }
+
+  /**
+   * Formatea un pago para la respuesta
+   *
+   * @private
+   */
+  private formatPaymentResponse(payment: Payment | PaymentWithAttempts): PaymentResponse {
+    return {
+      id: payment.id,
+      orderId: payment.orderId,
+      userId: payment.userId,
+      provider: payment.provider,
+      providerPaymentId: payment.providerPaymentId,
+      status: payment.status,
+      amount: toMoney(payment.amountMinor, payment.currency),
+      failureCode: payment.failureCode,
+      authorizedAt: payment.authorizedAt,
+      succeededAt: payment.succeededAt,
+      failedAt: payment.failedAt,
+      refundedAt: payment.refundedAt,
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt,
+      ...('attempts' in payment && {
+        attempts: payment.attempts.map((attempt) => ({
+          operation: attempt.operation,
+          success: attempt.success,
+          amount: toMoney(attempt.amountMinor, payment.currency),
+          errorCode: attempt.errorCode,
+          errorMessage: attempt.errorMessage,
+          createdAt: attempt.createdAt
+        }))
+      })
+    };
+  }
+}
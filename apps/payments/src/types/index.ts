@@ -0,0 +1,166 @@
+import { Money, ServiceError } from '@ecom/service';
+
+export type { Money };
+
+export type PaymentStatus = 'PENDING' | 'AUTHORIZED' | 'SUCCEEDED' | 'FAILED' | 'REFUNDED';
+
+export type PaymentOperation = 'CREATE_INTENT' | 'CAPTURE' | 'REFUND';
+
+/** Estados de una orden del servicio de órdenes */
+export type OrderStatus = 'PENDING' | 'PAID' | 'FULFILLED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  userId: string;
+  provider: string;
+  providerPaymentId: string | null;
+  status: PaymentStatus;
+  amountMinor: number;
+  currency: string;
+  failureCode: string | null;
+  authorizedAt: Date | null;
+  succeededAt: Date | null;
+  failedAt: Date | null;
+  refundedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentAttempt {
+  id: string;
+  paymentId: string;
+  operation: PaymentOperation;
+  success: boolean;
+  amountMinor: number;
+  errorCode: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+export interface PaymentWithAttempts extends Payment {
+  attempts: PaymentAttempt[];
+}
+
+export interface NewPayment {
+  orderId: string;
+  userId: string;
+  provider: string;
+  amountMinor: number;
+  currency: string;
+}
+
+export type NewPaymentAttempt = Omit<PaymentAttempt, 'id' | 'createdAt'>;
+
+export interface CreatePaymentInput {
+  orderId: string;
+  /** Medio de pago tokenizado por el proveedor (con el fake, ej: `pm_fake_success`) */
+  paymentMethod: string;
+}
+
+export interface PaymentFilters {
+  orderId?: string;
+  userId?: string;
+  status?: PaymentStatus;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/** Orden tal como la devuelve el servicio de órdenes (solo los campos que usa el pago) */
+export interface OrderSnapshot {
+  id: string;
+  userId: string;
+  status: OrderStatus;
+  total: Money;
+}
+
+export interface PaymentAttemptResponse {
+  operation: PaymentOperation;
+  success: boolean;
+  amount: Money;
+  errorCode: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+export interface PaymentResponse {
+  id: string;
+  orderId: string;
+  userId: string;
+  provider: string;
+  providerPaymentId: string | null;
+  status: PaymentStatus;
+  amount: Money;
+  failureCode: string | null;
+  authorizedAt: Date | null;
+  succeededAt: Date | null;
+  failedAt: Date | null;
+  refundedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Llamadas al proveedor; solo en el detalle de administración */
+  attempts?: PaymentAttemptResponse[];
+}
+
+/** Resultado del procesamiento de un webhook */
+export interface WebhookResult {
+  eventId: string;
+  /** true si el evento ya se había procesado y se ignoró */
+  duplicate: boolean;
+}
+
+export class PaymentError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400
+  ) {
+    super(code, message, statusCode);
+    this.name = 'PaymentError';
+  }
+}
+
+export class ValidationError extends PaymentError {
+  constructor(message: string) {
+    super('VALIDATION_ERROR', message, 400);
+  }
+}
+
+export class NotFoundError extends PaymentError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class ConflictError extends PaymentError {
+  constructor(code: string, message: string) {
+    super(code, message, 409);
+  }
+}
+
+export class WebhookSignatureError extends PaymentError {
+  constructor(message: string = 'Firma del webhook inválida') {
+    super('INVALID_SIGNATURE', message, 400);
+  }
+}
+
+/** El proveedor no pudo procesar la operación (no es un rechazo del medio de pago) */
+export class ProviderError extends PaymentError {
+  constructor(
+    public providerCode: string,
+    message: string
+  ) {
+    super('PAYMENT_PROVIDER_ERROR', message, 502);
+  }
+}
+
+export class ServiceUnavailableError extends PaymentError {
+  constructor(service: string) {
+    super('SERVICE_UNAVAILABLE', `El servicio de ${service} no está disponible, reintente en unos segundos`, 503);
+  }
+}
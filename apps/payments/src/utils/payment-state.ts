@@ -0,0 +1,39 @@
+import { PaymentStatus } from '../types/index';
+
+/**
+ * Transiciones válidas desde cada estado
+ *
+ * @description
+ * - `PENDING` → `AUTHORIZED` (captura manual), `SUCCEEDED` (captura automática) o `FAILED`
+ * - `AUTHORIZED` → `SUCCEEDED` al capturar, o `FAILED`
+ * - `SUCCEEDED` → `REFUNDED`
+ * - `FAILED` y `REFUNDED` son finales
+ *
+ * El resultado de una llamada al proveedor y su webhook pueden llegar en
+ * cualquier orden: el que llega segundo no cambia nada.
+ */
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  PENDING: ['AUTHORIZED', 'SUCCEEDED', 'FAILED'],
+  AUTHORIZED: ['SUCCEEDED', 'FAILED'],
+  SUCCEEDED: ['REFUNDED'],
+  FAILED: [],
+  REFUNDED: [],
+};
+
+/** Columna con la fecha en que el pago llegó a cada estado */
+export const STATUS_TIMESTAMPS = {
+  AUTHORIZED: 'authorizedAt',
+  SUCCEEDED: 'succeededAt',
+  FAILED: 'failedAt',
+  REFUNDED: 'refundedAt',
+} as const satisfies Record<Exclude<PaymentStatus, 'PENDING'>, string>;
+
+/**
+ * Estados desde los que un pago puede pasar a `to`
+ *
+ * @param {PaymentStatus} to - Estado destino
+ * @returns {PaymentStatus[]} Estados de origen válidos
+ */
+export function statusesBefore(to: PaymentStatus): PaymentStatus[] {
+  return (Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[]).filter((from) => PAYMENT_TRANSITIONS[from].includes(to));
+}
@@ -0,0 +1,63 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PaymentService } from './services/payment.service';
+import { webhookParamsSchema } from './payment.schemas';
+
+/**
+ * Controlador de webhooks de los proveedores de pago
+ *
+ * @class WebhookController
+ * @description Ruta pública: la autenticidad se verifica con la firma del
+ * proveedor sobre el body crudo. Responde 2xx solo cuando el evento quedó
+ * procesado, para que el proveedor reintente ante cualquier falla.
+ */
+export class WebhookController {
+  /** Servicio de pagos para lógica de negocio */
+  private paymentService: PaymentService;
+
+  /**
+   * Constructor del controlador de webhooks
+   * Inicializa el servicio de pagos
+   */
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Endpoint que recibe los eventos del proveedor
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {provider} y body crudo (Buffer)
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 200 con el ID del evento y si era un duplicado
+   *
+   * @throws {400} Firma inválida o vencida, o evento con formato inválido
+   * @throws {404} Proveedor desconocido
+   * @throws {502} El proveedor no pudo procesar el reembolso automático
+   * @throws {503} Servicio de órdenes no disponible
+   * @throws {500} Error interno del servidor
+   */
+  async handleWebhook(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { provider } = webhookParamsSchema.parse(request.params);
+
+      const result = await this.paymentService.handleWebhook(provider, request.body as Buffer, request.headers);
+
+      return reply.code(200).send({
+        success: true,
+        message: result.duplicate ? 'Evento ya procesado' : 'Evento procesado',
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Webhook Controller', 'flat');
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { PAYMENT_TRANSITIONS, STATUS_TIMESTAMPS, statusesBefore } from '../src/utils/payment-state';
+import { PaymentStatus } from '../src/types/index';
+
+const STATUSES = Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[];
+
+describe('payment state', () => {
+  it('solo se llega a SUCCEEDED desde PENDING (captura automática) o AUTHORIZED (captura manual)', () => {
+    expect(statusesBefore('SUCCEEDED')).toEqual(['PENDING', 'AUTHORIZED']);
+  });
+
+  it('solo se autoriza un pago pendiente', () => {
+    expect(statusesBefore('AUTHORIZED')).toEqual(['PENDING']);
+  });
+
+  it('solo se reembolsa un pago cobrado', () => {
+    expect(statusesBefore('REFUNDED')).toEqual(['SUCCEEDED']);
+  });
+
+  it('un pago cobrado ya no puede fallar', () => {
+    expect(statusesBefore('FAILED')).toEqual(['PENDING', 'AUTHORIZED']);
+  });
+
+  it('nunca se vuelve a PENDING', () => {
+    expect(statusesBefore('PENDING')).toEqual([]);
+  });
+
+  it('FAILED y REFUNDED son finales', () => {
+    expect(PAYMENT_TRANSITIONS.FAILED).toEqual([]);
+    expect(PAYMENT_TRANSITIONS.REFUNDED).toEqual([]);
+  });
+
+  it('ningún estado vuelve a uno anterior', () => {
+    for (const from of STATUSES) {
+      for (const to of PAYMENT_TRANSITIONS[from]) {
+        expect(PAYMENT_TRANSITIONS[to]).not.toContain(from);
+      }
+    }
+  });
+
+  it('cada estado al que se puede llegar tiene su columna de fecha', () => {
+    const reachable = new Set(STATUSES.flatMap((from) => PAYMENT_TRANSITIONS[from]));
+
+    expect([...reachable].sort()).toEqual(Object.keys(STATUS_TIMESTAMPS).sort());
+  });
+});
@@ -0,0 +1,225 @@
+import { createHmac } from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaymentService } from '../src/services/payment.service';
+import { FAKE_SIGNATURE_HEADER, FakePaymentProvider } from '../src/providers/fake.provider';
+import { statusesBefore } from '../src/utils/payment-state';
+import { NotFoundError, Payment, PaymentStatus, WebhookSignatureError } from '../src/types/index';
+
+// Sin base de datos ni servicio de órdenes: se reemplazan por dobles en memoria
+vi.mock('../src/payment.repository');
+vi.mock('../src/clients/orders.client');
+
+const SECRET = 'whsec_test';
+const ORDER_ID = '11111111-1111-4111-8111-111111111111';
+
+/** Repositorio en memoria con las mismas reglas de transición que el de Prisma */
+class InMemoryPaymentRepository {
+  payments = new Map<string, Payment>();
+  events = new Map<string, { processedAt: Date | null }>();
+  attempts: { paymentId: string; operation: string; success: boolean }[] = [];
+
+  async findPaymentById(id: string) {
+    const payment = this.payments.get(id);
+    return payment ? { ...payment } : null;
+  }
+
+  async transitionPayment(id: string, to: Exclude<PaymentStatus, 'PENDING'>, failureCode: string | null = null) {
+    const payment = this.payments.get(id);
+    if (!payment || !statusesBefore(to).includes(payment.status)) {
+      return false;
+    }
+
+    payment.status = to;
+    if (to === 'FAILED') payment.failureCode = failureCode;
+    return true;
+  }
+
+  async createAttempt(attempt: { paymentId: string; operation: string; success: boolean }) {
+    this.attempts.push(attempt);
+  }
+
+  async recordWebhookEvent(provider: string, eventId: string) {
+    const key = `${provider}:${eventId}`;
+    const existing = this.events.get(key);
+    if (!existing) {
+      this.events.set(key, { processedAt: null });
+    }
+    return { processed: existing?.processedAt != null };
+  }
+
+  async markWebhookProcessed(provider: string, eventId: string) {
+    this.events.get(`${provider}:${eventId}`)!.processedAt = new Date();
+  }
+}
+
+const ordersClient = {
+  getOrder: vi.fn(),
+  transitionOrder: vi.fn(),
+  refundOrder: vi.fn()
+};
+
+let repository: InMemoryPaymentRepository;
+let provider: FakePaymentProvider;
+let service: PaymentService;
+
+const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'pay-1',
+  orderId: ORDER_ID,
+  userId: 'user-1',
+  provider: 'fake',
+  providerPaymentId: 'pi_fake_1',
+  status: 'PENDING',
+  amountMinor: 2500,
+  currency: 'USD',
+  failureCode: null,
+  authorizedAt: null,
+  succeededAt: null,
+  failedAt: null,
+  refundedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+/** Webhook firmado como lo firma el proveedor fake */
+const webhook = (id: string, type: string, paymentId = 'pay-1', timestamp = Math.floor(Date.now() / 1000)) => {
+  const body = Buffer.from(JSON.stringify({ id, type, data: { object: { id: 'pi_fake_1', reference: paymentId, failureCode: null } } }));
+  const signature = createHmac('sha256', SECRET).update(`${timestamp}.`).update(body).digest('hex');
+  return { body, headers: { [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` } };
+};
+
+const deliver = ({ body, headers }: ReturnType<typeof webhook>) => service.handleWebhook('fake', body, headers);
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  repository = new InMemoryPaymentRepository();
+  provider = new FakePaymentProvider(SECRET, 300);
+  service = new PaymentService(provider);
+  Object.assign(service, { paymentRepository: repository, ordersClient });
+});
+
+describe('PaymentService.handleWebhook', () => {
+  describe('firma', () => {
+    it('rechaza un webhook con la firma de otro secret', async () => {
+      const { body } = webhook('evt_1', 'payment.succeeded');
+      const timestamp = Math.floor(Date.now() / 1000);
+      const forged = createHmac('sha256', 'otro').update(`${timestamp}.`).update(body).digest('hex');
+
+      await expect(service.handleWebhook('fake', body, { [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${forged}` })).rejects.toThrow(
+        WebhookSignatureError
+      );
+      expect(repository.events.size).toBe(0);
+    });
+
+    it('rechaza un body modificado después de firmarlo', async () => {
+      const { headers } = webhook('evt_1', 'payment.succeeded');
+      const tampered = webhook('evt_1', 'refund.succeeded').body;
+
+      await expect(service.handleWebhook('fake', tampered, headers)).rejects.toThrow(WebhookSignatureError);
+    });
+
+    it('rechaza un webhook sin firma', async () => {
+      const { body } = webhook('evt_1', 'payment.succeeded');
+
+      await expect(service.handleWebhook('fake', body, {})).rejects.toThrow('Falta la firma del webhook');
+    });
+
+    it('rechaza una firma vencida', async () => {
+      const old = webhook('evt_1', 'payment.succeeded', 'pay-1', Math.floor(Date.now() / 1000) - 301);
+
+      await expect(deliver(old)).rejects.toThrow('La firma del webhook venció');
+    });
+
+    it('rechaza un proveedor distinto del configurado', async () => {
+      const { body, headers } = webhook('evt_1', 'payment.succeeded');
+
+      await expect(service.handleWebhook('stripe', body, headers)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('eventos duplicados', () => {
+    beforeEach(() => {
+      repository.payments.set('pay-1', payment());
+      ordersClient.transitionOrder.mockResolvedValue(true);
+    });
+
+    it('procesa un evento una sola vez', async () => {
+      const event = webhook('evt_1', 'payment.succeeded');
+
+      await expect(deliver(event)).resolves.toEqual({ eventId: 'evt_1', duplicate: false });
+      await expect(deliver(event)).resolves.toEqual({ eventId: 'evt_1', duplicate: true });
+
+      expect(repository.payments.get('pay-1')!.status).toBe('SUCCEEDED');
+      expect(ordersClient.transitionOrder).toHaveBeenCalledTimes(1);
+      expect(ordersClient.transitionOrder).toHaveBeenCalledWith(ORDER_ID, 'PAID', 'Pago pay-1');
+    });
+
+    it('vuelve a procesar un evento cuyo procesamiento falló', async () => {
+      const event = webhook('evt_1', 'payment.succeeded');
+      ordersClient.transitionOrder.mockRejectedValueOnce(new Error('orders caído'));
+
+      await expect(deliver(event)).rejects.toThrow('orders caído');
+      await expect(deliver(event)).resolves.toEqual({ eventId: 'evt_1', duplicate: false });
+
+      expect(ordersClient.transitionOrder).toHaveBeenCalledTimes(2);
+      expect(repository.events.get('fake:evt_1')!.processedAt).not.toBeNull();
+    });
+
+    it('ignora los eventos de pagos desconocidos', async () => {
+      await expect(deliver(webhook('evt_1', 'payment.succeeded', 'pay-otro'))).resolves.toEqual({ eventId: 'evt_1', duplicate: false });
+
+      expect(ordersClient.transitionOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payment.succeeded', () => {
+    beforeEach(() => {
+      repository.payments.set('pay-1', payment());
+    });
+
+    it('reembolsa el pago si la orden venció antes de que llegara', async () => {
+      const refund = vi.spyOn(provider, 'refund');
+      ordersClient.transitionOrder.mockResolvedValue(false);
+      ordersClient.getOrder.mockResolvedValue({ id: ORDER_ID, userId: 'user-1', status: 'CANCELLED' });
+
+      await deliver(webhook('evt_1', 'payment.succeeded'));
+
+      expect(refund).toHaveBeenCalledWith(expect.objectContaining({ reference: 'pay-1', amountMinor: 2500, currency: 'USD' }));
+      expect(repository.attempts).toEqual([expect.objectContaining({ paymentId: 'pay-1', operation: 'REFUND', success: true })]);
+      expect(repository.payments.get('pay-1')!.status).toBe('REFUNDED');
+    });
+
+    it('no reembolsa si la orden ya estaba pagada por una entrega anterior', async () => {
+      const refund = vi.spyOn(provider, 'refund');
+      ordersClient.transitionOrder.mockResolvedValue(false);
+      ordersClient.getOrder.mockResolvedValue({ id: ORDER_ID, userId: 'user-1', status: 'PAID' });
+
+      await deliver(webhook('evt_1', 'payment.succeeded'));
+
+      expect(refund).not.toHaveBeenCalled();
+      expect(repository.payments.get('pay-1')!.status).toBe('SUCCEEDED');
+    });
+
+    it('el webhook del reembolso automático no cambia el pago y avisa a órdenes', async () => {
+      ordersClient.transitionOrder.mockResolvedValue(false);
+      ordersClient.getOrder.mockResolvedValue({ id: ORDER_ID, userId: 'user-1', status: 'CANCELLED' });
+      ordersClient.refundOrder.mockResolvedValue(false);
+
+      await deliver(webhook('evt_1', 'payment.succeeded'));
+      await deliver(webhook('evt_2', 'refund.succeeded'));
+
+      expect(repository.payments.get('pay-1')!.status).toBe('REFUNDED');
+      expect(ordersClient.refundOrder).toHaveBeenCalledWith(ORDER_ID, 'Reembolso del pago pay-1');
+    });
+  });
+
+  describe('orden de llegada', () => {
+    it('un payment.failed que llega después del cobro no cambia el pago', async () => {
+      repository.payments.set('pay-1', payment({ status: 'SUCCEEDED' }));
+
+      await deliver(webhook('evt_1', 'payment.failed'));
+
+      expect(repository.payments.get('pay-1')!.status).toBe('SUCCEEDED');
+    });
+  });
+});
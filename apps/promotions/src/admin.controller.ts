@@ -0,0 +1,170 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PromotionService } from './services/promotion.service';
+import {
+  createPromotionSchema,
+  listPromotionsQuerySchema,
+  promotionParamsSchema,
+  updatePromotionSchema
+} from './promotion.schemas';
+
+/**
+ * Controlador de administración de promociones
+ *
+ * @class AdminController
+ * @description CRUD de cupones y promociones automáticas. Todas las rutas
+ * exigen el rol ADMIN (ver app.ts).
+ */
+export class AdminController {
+  /** Servicio de promociones para lógica de negocio */
+  private promotionService: PromotionService;
+
+  /**
+   * Constructor del controlador de administración
+   * Inicializa el servicio de promociones
+   */
+  constructor() {
+    this.promotionService = new PromotionService();
+  }
+
+  /**
+   * Endpoint para crear una promoción
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {name, type, code?, percentOff?, amountOff?, buyQuantity?, getQuantity?, minOrder?, currency?, productIds?, categoryIds?, usageLimit?, perUserLimit?, startsAt?, endsAt?, active?, description?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con la promoción creada
+   *
+   * @throws {400} Error de validación o campos que no corresponden al tipo
+   * @throws {409} Código de cupón en uso
+   * @throws {500} Error interno del servidor
+   */
+  async createPromotion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const data = createPromotionSchema.parse(request.body);
+
+      const promotion = await this.promotionService.createPromotion(data);
+
+      return reply.code(201).send({
+        success: true,
+        data: { promotion }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para listar promociones
+   *
+   * @param {FastifyRequest} request - Request de Fastify con query {active?, type?, hasCode?, search?, page?, limit?}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Promociones (más recientes primero) con paginación
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {500} Error interno del servidor
+   */
+  async listPromotions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { page, limit, ...filters } = listPromotionsQuerySchema.parse(request.query);
+
+      const result = await this.promotionService.listPromotions(filters, page, limit);
+
+      return reply.code(200).send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para ver una promoción con sus canjes vigentes
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Promoción
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Promoción no encontrada
+   * @throws {500} Error interno del servidor
+   */
+  async getPromotion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = promotionParamsSchema.parse(request.params);
+
+      const promotion = await this.promotionService.getPromotion(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { promotion }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para actualizar una promoción
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id} y body con los campos a cambiar (null borra los opcionales)
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Promoción actualizada
+   *
+   * @throws {400} Error de validación o promoción resultante inválida
+   * @throws {404} Promoción no encontrada
+   * @throws {409} Código de cupón en uso
+   * @throws {500} Error interno del servidor
+   */
+  async updatePromotion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = promotionParamsSchema.parse(request.params);
+      const changes = updatePromotionSchema.parse(request.body);
+
+      const promotion = await this.promotionService.updatePromotion(id, changes);
+
+      return reply.code(200).send({
+        success: true,
+        data: { promotion }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para eliminar una promoción que nunca se canjeó
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {id}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Confirmación de la eliminación
+   *
+   * @throws {400} ID inválido
+   * @throws {404} Promoción no encontrada
+   * @throws {409} La promoción tiene canjes (se puede desactivar)
+   * @throws {500} Error interno del servidor
+   */
+  async deletePromotion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = promotionParamsSchema.parse(request.params);
+
+      await this.promotionService.deletePromotion(id);
+
+      return reply.code(200).send({
+        success: true,
+        data: { id }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Admin Controller');
+  }
+}
@@ -0,0 +1,74 @@
+import Fastify, { FastifyError } from 'fastify';
+import { randomUUID } from 'crypto';
+import { PERMISSIONS, authPlugin, requireAuth, requirePermission, requireRole } from '@ecom/auth';
+import { HealthController } from '@ecom/service';
+import { PromotionController } from './promotion.controller';
+import { AdminController } from './admin.controller';
+import { PromotionRepository } from './promotion.repository';
+import { config } from './config';
+
+// Mismo X-Request-Id que asignó el gateway (reqId en los logs)
+const server = Fastify({ logger: true, requestIdHeader: 'x-request-id', genReqId: () => randomUUID() });
+
+// Instancias de controladores
+const promotionController = new PromotionController();
+const adminController = new AdminController();
+const promotionRepository = new PromotionRepository();
+const healthController = new HealthController('promotions-service', {
+  database: () => promotionRepository.ping()
+});
+
+// Verifica el access token con las claves públicas del servicio auth y completa request.user
+server.register(authPlugin, { jwksUrl: config.authJwksUrl });
+
+// Health checks
+server.get('/health/live', healthController.live.bind(healthController));
+server.get('/health/ready', healthController.ready.bind(healthController));
+
+// Evaluación de un carrito (pública; con sesión se controlan los límites por usuario)
+server.post('/evaluate', promotionController.evaluate.bind(promotionController));
+
+// Rutas protegidas
+server.register(async function (fastify) {
+  fastify.addHook('preHandler', requireAuth);
+
+  // Canjes de las órdenes: solo el servicio de órdenes tiene promotions:redeem
+  const canRedeem = { preHandler: requirePermission(PERMISSIONS.PROMOTIONS_REDEEM) };
+  fastify.post('/redemptions', canRedeem, promotionController.redeem.bind(promotionController));
+  fastify.post('/redemptions/:orderId/release', canRedeem, promotionController.release.bind(promotionController));
+
+  // Administración (/api/promotions/admin en el gateway), solo para el rol ADMIN
+  const isAdmin = { preHandler: requireRole('ADMIN') };
+  fastify.get('/admin', isAdmin, adminController.listPromotions.bind(adminController));
+  fastify.post('/admin', isAdmin, adminController.createPromotion.bind(adminController));
+  fastify.get('/admin/:id', isAdmin, adminController.getPromotion.bind(adminController));
+  fastify.patch('/admin/:id', isAdmin, adminController.updatePromotion.bind(adminController));
+  fastify.delete('/admin/:id', isAdmin, adminController.deletePromotion.bind(adminController));
+});
+
+// Manejo global de errores (ej: JSON inválido en el body)
+server.setErrorHandler((error: FastifyError, _, reply) => {
+  server.log.error(error);
+  const statusCode = error.statusCode && error.statusCode < 500 ? error.statusCode : 500;
+
+  reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: statusCode === 500 ? 'Error interno del servidor' : error.message
+    }
+  });
+});
+
+// Función para iniciar el servidor
+export const startServer = async () => {
+  try {
+    await server.listen({ port: config.port, host: '0.0.0.0' });
+    server.log.info(`Promotions service listening on port ${config.port}`);
+  } catch (err) {
+    server.log.error(err);
+    process.exit(1);
+  }
+};
+
+export { server };
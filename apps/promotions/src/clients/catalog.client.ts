@@ -0,0 +1,55 @@
+import { ServiceUnavailableError } from '../types/index';
+import { config } from '../config';
+
+/**
+ * Cliente HTTP del servicio de catálogo
+ *
+ * @class CatalogClient
+ * @description Lee el detalle público de los productos (`GET /products/:id`)
+ * para conocer sus categorías y las de sus ancestros.
+ */
+export class CatalogClient {
+  /**
+   * Obtiene las categorías de varios productos
+   *
+   * @param {string[]} productIds - IDs de los productos (sin repetidos)
+   * @returns {Promise<Map<string, string[]>>} IDs de categorías (con sus ancestros) por producto;
+   * los productos inexistentes o archivados quedan sin categorías
+   *
+   * @throws {ServiceUnavailableError} Si el catálogo no responde o falla
+   */
+  async getCategoryIds(productIds: string[]): Promise<Map<string, string[]>> {
+    const entries = await Promise.all(
+      productIds.map(async (id) => [id, await this.getProductCategoryIds(id)] as const)
+    );
+    return new Map(entries);
+  }
+
+  /**
+   * Categorías de un producto, desde las migas de pan del detalle
+   *
+   * @private
+   */
+  private async getProductCategoryIds(productId: string): Promise<string[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.catalog.url}/products/${encodeURIComponent(productId)}`, {
+        signal: AbortSignal.timeout(config.catalog.timeoutMs)
+      });
+    } catch {
+      throw new ServiceUnavailableError('catálogo');
+    }
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    const body = (await response.json().catch(() => null)) as any;
+    if (!response.ok || !Array.isArray(body?.data?.product?.breadcrumbs)) {
+      throw new ServiceUnavailableError('catálogo');
+    }
+
+    const breadcrumbs = body.data.product.breadcrumbs as { id: string }[][];
+    return [...new Set(breadcrumbs.flat().map((category) => category.id))];
+  }
+}
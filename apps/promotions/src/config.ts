@@ -0,0 +1,23 @@
+export const config = {
+  port: Number(process.env.PORT) || 3009,
+  authJwksUrl: process.env.AUTH_JWKS_URL || 'http://localhost:3002/.well-known/jwks.json',
+  database: {
+    url: process.env.DATABASE_URL!
+  },
+  // Servicio de catálogo: categorías de los productos para las promociones por categoría
+  catalog: {
+    url: process.env.CATALOG_SERVICE_URL || 'http://localhost:3004',
+    timeoutMs: Number(process.env.CATALOG_SERVICE_TIMEOUT_MS) || 3000
+  },
+  evaluation: {
+    // Máximo de códigos por carrito y de líneas por evaluación
+    maxCodes: 5,
+    maxItems: 100,
+    // Mismo máximo de unidades por línea que el carrito
+    maxQuantityPerItem: 99
+  },
+  pagination: {
+    defaultLimit: 20,
+    maxLimit: 100
+  }
+}
@@ -0,0 +1,115 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { sendErrorResponse } from '@ecom/service';
+import { PromotionService } from './services/promotion.service';
+import { evaluateSchema, orderParamsSchema, redeemSchema } from './promotion.schemas';
+
+/**
+ * Controlador de evaluación y canje de promociones
+ *
+ * @class PromotionController
+ * @description La evaluación es pública (el carrito de un invitado también
+ * muestra sus descuentos); los canjes los registra el servicio de órdenes con
+ * su token de servicio (promotions:redeem).
+ */
+export class PromotionController {
+  /** Servicio de promociones para lógica de negocio */
+  private promotionService: PromotionService;
+
+  /**
+   * Constructor del controlador de promociones
+   * Inicializa el servicio de promociones
+   */
+  constructor() {
+    this.promotionService = new PromotionService();
+  }
+
+  /**
+   * Endpoint para evaluar las promociones de un carrito
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {codes?, cart: {currency, items, shippingMinor?}}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Descuento, total y promociones aplicadas y rechazadas con el motivo
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {503} Catálogo no disponible
+   * @throws {500} Error interno del servidor
+   *
+   * @description Con sesión se controlan los límites por usuario; sin sesión,
+   * las promociones con límite por usuario se rechazan con `LOGIN_REQUIRED`.
+   */
+  async evaluate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { codes, cart } = evaluateSchema.parse(request.body);
+
+      const evaluation = await this.promotionService.evaluate(request.user?.userId ?? null, codes, cart);
+
+      return reply.code(200).send({
+        success: true,
+        data: { evaluation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para registrar los canjes de una orden (requiere promotions:redeem)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con body {orderId, userId, codes?, cart}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 201 con la evaluación canjeada
+   *
+   * @throws {400} Error de validación de datos de entrada
+   * @throws {409} La orden ya tiene canjes, o algún cupón no aplica (con los motivos)
+   * @throws {503} Catálogo no disponible
+   * @throws {500} Error interno del servidor
+   */
+  async redeem(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { orderId, userId, codes, cart } = redeemSchema.parse(request.body);
+
+      const evaluation = await this.promotionService.redeem(orderId, userId, codes, cart);
+
+      return reply.code(201).send({
+        success: true,
+        data: { evaluation }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Endpoint para liberar los canjes de una orden cancelada (requiere promotions:redeem)
+   *
+   * @param {FastifyRequest} request - Request de Fastify con params {orderId}
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Cantidad de canjes liberados (idempotente)
+   *
+   * @throws {400} ID inválido
+   * @throws {500} Error interno del servidor
+   */
+  async release(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { orderId } = orderParamsSchema.parse(request.params);
+
+      const released = await this.promotionService.release(orderId);
+
+      return reply.code(200).send({
+        success: true,
+        data: { orderId, released }
+      });
+    } catch (error) {
+      return this.handleError(error, reply);
+    }
+  }
+
+  /**
+   * Maneja errores y envía respuestas de error apropiadas
+   *
+   * @private
+   */
+  private handleError(error: any, reply: FastifyReply) {
+    return sendErrorResponse(error, reply, 'Promotion Controller');
+  }
+}
@@ -0,0 +1,190 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Promotion, PromotionData, PromotionFilters, PromotionUsage } from './types/index';
+
+/** Canje a registrar para una orden */
+export interface NewRedemption {
+  promotionId: string;
+  discountMinor: number;
+}
+
+// Promoción sin cupo durante un canje; solo se usa para deshacer la transacción
+class PromotionExhaustedError extends Error {
+  constructor(public promotionId: string) {
+    super(`La promoción ${promotionId} llegó a su límite de uso`);
+    this.name = 'PromotionExhaustedError';
+  }
+}
+
+export class PromotionRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  // Verificar la conexión con la base de datos
+  async ping(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+
+  // Crear una promoción. Devuelve null si el código ya existe
+  async createPromotion(data: PromotionData): Promise<Promotion | null> {
+    try {
+      return await this.prisma.promotion.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Buscar promoción por ID
+  async findPromotionById(id: string): Promise<Promotion | null> {
+    return await this.prisma.promotion.findUnique({ where: { id } });
+  }
+
+  // Buscar los cupones con los códigos dados (cualquier estado: el motor informa por qué no aplican)
+  async findPromotionsByCodes(codes: string[]): Promise<Promotion[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+    return await this.prisma.promotion.findMany({ where: { code: { in: codes } } });
+  }
+
+  // Promociones automáticas activas y vigentes
+  async findActiveAutomaticPromotions(now: Date): Promise<Promotion[]> {
+    return await this.prisma.promotion.findMany({
+      where: {
+        code: null,
+        active: true,
+        OR: [{ startsAt: null }, { startsAt: { lte: now } }],
+        AND: [{ OR: [{ endsAt: null }, { endsAt: { gt: now } }] }],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Listar promociones con filtros, más recientes primero
+  async findPromotions(filters: PromotionFilters, skip: number, take: number): Promise<{ promotions: Promotion[]; total: number }> {
+    const where: Prisma.PromotionWhereInput = {
+      active: filters.active,
+      type: filters.type,
+      ...(filters.hasCode !== undefined && { code: filters.hasCode ? { not: null } : null }),
+      ...(filters.search && {
+        OR: [
+          { name: { contains: filters.search, mode: 'insensitive' } },
+          { code: { contains: filters.search.toUpperCase() } },
+        ],
+      }),
+    };
+
+    const [promotions, total] = await this.prisma.$transaction([
+      this.prisma.promotion.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], skip, take }),
+      this.prisma.promotion.count({ where }),
+    ]);
+
+    return { promotions, total };
+  }
+
+  // Actualizar una promoción. Devuelve null si el nuevo código ya existe
+  async updatePromotion(id: string, data: Partial<PromotionData>): Promise<Promotion | null> {
+    try {
+      return await this.prisma.promotion.update({ where: { id }, data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Eliminar una promoción sin canjes. Devuelve false si alguna orden la usó
+  async deletePromotion(id: string): Promise<boolean> {
+    try {
+      await this.prisma.promotion.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Canjes vigentes de cada promoción, en total y del usuario
+  async countUsage(promotionIds: string[], userId: string | null): Promise<Map<string, PromotionUsage>> {
+    const where = { promotionId: { in: promotionIds }, releasedAt: null };
+    const [totals, byUser] = await Promise.all([
+      this.prisma.promotionRedemption.groupBy({ by: ['promotionId'], where, _count: { _all: true } }),
+      userId
+        ? this.prisma.promotionRedemption.groupBy({ by: ['promotionId'], where: { ...where, userId }, _count: { _all: true } })
+        : Promise.resolve([]),
+    ]);
+
+    const usage = new Map<string, PromotionUsage>(promotionIds.map((id) => [id, { total: 0, byUser: 0 }]));
+    totals.forEach((row) => (usage.get(row.promotionId)!.total = row._count._all));
+    byUser.forEach((row) => (usage.get(row.promotionId)!.byUser = row._count._all));
+    return usage;
+  }
+
+  // Canjes vigentes de una promoción
+  async countActiveRedemptions(promotionId: string): Promise<number> {
+    return await this.prisma.promotionRedemption.count({ where: { promotionId, releasedAt: null } });
+  }
+
+  // Registrar los canjes de una orden controlando los límites de uso.
+  // Un lock por promoción serializa los canjes concurrentes; si alguna promoción
+  // llegó a su límite no se registra nada (la transacción se deshace) y se devuelve su ID
+  async redeem(
+    orderId: string,
+    userId: string,
+    currency: string,
+    redemptions: NewRedemption[],
+    limits: Map<string, Pick<Promotion, 'usageLimit' | 'perUserLimit'>>
+  ): Promise<{ exhaustedPromotionId: string | null }> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Mismo orden de locks en todas las transacciones para evitar deadlocks
+        const sorted = [...redemptions].sort((a, b) => a.promotionId.localeCompare(b.promotionId));
+
+        for (const { promotionId, discountMinor } of sorted) {
+          await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${promotionId}))`;
+
+          const { usageLimit, perUserLimit } = limits.get(promotionId)!;
+          const [total, byUser] = await Promise.all([
+            usageLimit !== null ? tx.promotionRedemption.count({ where: { promotionId, releasedAt: null } }) : 0,
+            perUserLimit !== null ? tx.promotionRedemption.count({ where: { promotionId, userId, releasedAt: null } }) : 0,
+          ]);
+          if ((usageLimit !== null && total >= usageLimit) || (perUserLimit !== null && byUser >= perUserLimit)) {
+            // Lanzar (y no devolver) para deshacer los canjes ya creados de las promociones anteriores
+            throw new PromotionExhaustedError(promotionId);
+          }
+
+          await tx.promotionRedemption.create({ data: { promotionId, orderId, userId, discountMinor, currency } });
+        }
+      });
+    } catch (error) {
+      if (error instanceof PromotionExhaustedError) {
+        return { exhaustedPromotionId: error.promotionId };
+      }
+      throw error;
+    }
+
+    return { exhaustedPromotionId: null };
+  }
+
+  // Indica si la orden ya tiene canjes registrados (vigentes o liberados)
+  async hasRedemptions(orderId: string): Promise<boolean> {
+    return (await this.prisma.promotionRedemption.count({ where: { orderId } })) > 0;
+  }
+
+  // Liberar los canjes vigentes de una orden; devuelve cuántos se liberaron
+  async releaseRedemptions(orderId: string): Promise<number> {
+    const { count } = await this.prisma.promotionRedemption.updateMany({
+      where: { orderId, releasedAt: null },
+      data: { releasedAt: new Date() },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { MAX_AMOUNT_MINOR, isSupportedCurrency } from '@ecom/service';
+import { config } from './config';
+
+const PROMOTION_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING', 'BUY_X_GET_Y'] as const;
+
+// Código de cupón: se guarda en mayúsculas (ej: 'VERANO25')
+const codeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{3,32}$/, 'Código inválido (3 a 32 letras, números, guiones o guiones bajos)');
+
+// Monto decimal en texto para no perder precisión con Float (ej: '19.99')
+const amountSchema = z
+  .string({ message: "Monto debe ser un decimal en texto, ej: '19.99'" })
+  .trim()
+  .regex(/^\d{1,10}(\.\d{1,3})?$/, "Monto debe ser un decimal en texto, ej: '19.99'");
+
+// Código de moneda ISO 4217 (ej: 'USD')
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isSupportedCurrency, 'Moneda inválida (código ISO 4217)');
+
+const amountMinorSchema = z
+  .number({ message: 'Monto en unidades menores inválido' })
+  .int('Monto en unidades menores inválido')
+  .min(0, 'Monto no puede ser negativo')
+  .max(MAX_AMOUNT_MINOR, 'Monto fuera de rango');
+
+const positiveInt = (message: string) => z.number({ message }).int(message).min(1, message);
+
+// Campos de una promoción; las reglas por tipo se validan en el servicio
+const promotionFields = {
+  name: z.string().trim().min(1, 'Nombre es requerido').max(200, 'Nombre no puede superar 200 caracteres'),
+  description: z.string().trim().max(2000, 'Descripción no puede superar 2000 caracteres'),
+  // Sin código la promoción es automática
+  code: codeSchema,
+  type: z.enum(PROMOTION_TYPES, { message: 'Tipo de promoción inválido' }),
+  active: z.boolean(),
+  startsAt: z.coerce.date({ message: 'Fecha inválida' }),
+  endsAt: z.coerce.date({ message: 'Fecha inválida' }),
+  percentOff: z.number({ message: 'Porcentaje inválido' }).int('Porcentaje inválido').min(1).max(100, 'Porcentaje máximo 100'),
+  amountOff: amountSchema,
+  buyQuantity: positiveInt('Cantidad a comprar inválida'),
+  getQuantity: positiveInt('Cantidad bonificada inválida'),
+  minOrder: amountSchema,
+  currency: currencySchema,
+  productIds: z.array(z.string().uuid('ID de producto inválido')).max(500),
+  categoryIds: z.array(z.string().uuid('ID de categoría inválido')).max(100),
+  usageLimit: positiveInt('Límite de usos inválido'),
+  perUserLimit: positiveInt('Límite por usuario inválido'),
+};
+
+// Schema para crear una promoción
+export const createPromotionSchema = z.object({
+  ...promotionFields,
+  description: promotionFields.description.optional(),
+  code: promotionFields.code.optional(),
+  active: promotionFields.active.optional(),
+  startsAt: promotionFields.startsAt.optional(),
+  endsAt: promotionFields.endsAt.optional(),
+  percentOff: promotionFields.percentOff.optional(),
+  amountOff: promotionFields.amountOff.optional(),
+  buyQuantity: promotionFields.buyQuantity.optional(),
+  getQuantity: promotionFields.getQuantity.optional(),
+  minOrder: promotionFields.minOrder.optional(),
+  currency: promotionFields.currency.optional(),
+  productIds: promotionFields.productIds.optional(),
+  categoryIds: promotionFields.categoryIds.optional(),
+  usageLimit: promotionFields.usageLimit.optional(),
+  perUserLimit: promotionFields.perUserLimit.optional(),
+});
+
+// Schema para actualizar una promoción (al menos un campo; null borra los opcionales)
+export const updatePromotionSchema = z
+  .object({
+    name: promotionFields.name.optional(),
+    type: promotionFields.type.optional(),
+    active: promotionFields.active.optional(),
+    productIds: promotionFields.productIds.optional(),
+    categoryIds: promotionFields.categoryIds.optional(),
+    description: promotionFields.description.nullable().optional(),
+    code: promotionFields.code.nullable().optional(),
+    startsAt: promotionFields.startsAt.nullable().optional(),
+    endsAt: promotionFields.endsAt.nullable().optional(),
+    percentOff: promotionFields.percentOff.nullable().optional(),
+    amountOff: promotionFields.amountOff.nullable().optional(),
+    buyQuantity: promotionFields.buyQuantity.nullable().optional(),
+    getQuantity: promotionFields.getQuantity.nullable().optional(),
+    minOrder: promotionFields.minOrder.nullable().optional(),
+    currency: promotionFields.currency.nullable().optional(),
+    usageLimit: promotionFields.usageLimit.nullable().optional(),
+    perUserLimit: promotionFields.perUserLimit.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debe indicar al menos un campo a actualizar',
+  });
+
+const pageSchema = z.coerce.number().int().min(1, 'Página debe ser mayor a 0').default(1);
+
+const limitSchema = z.coerce
+  .number()
+  .int()
+  .min(1, 'Límite debe ser mayor a 0')
+  .max(config.pagination.maxLimit, `Límite máximo ${config.pagination.maxLimit}`)
+  .default(config.pagination.defaultLimit);
+
+// Booleano en query string ('true' / 'false')
+const queryBoolean = z.enum(['true', 'false'], { message: "Debe ser 'true' o 'false'" }).transform((value) => value === 'true');
+
+// Schema para el listado de promociones (admin)
+export const listPromotionsQuerySchema = z.object({
+  active: queryBoolean.optional(),
+  type: promotionFields.type.optional(),
+  // true: solo cupones; false: solo automáticas
+  hasCode: queryBoolean.optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+// Schema para el ID de promoción en la URL
+export const promotionParamsSchema = z.object({
+  id: z.string().uuid('ID de promoción inválido'),
+});
+
+// Carrito a evaluar: precios de lista en unidades menores de la moneda del carrito
+const cartSchema = z.object({
+  currency: currencySchema,
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid('ID de producto inválido'),
+        variantId: z.string().uuid('ID de variante inválido').nullable().default(null),
+        quantity: positiveInt('Cantidad inválida').max(
+          config.evaluation.maxQuantityPerItem,
+          `Cantidad máxima ${config.evaluation.maxQuantityPerItem}`
+        ),
+        unitPriceMinor: amountMinorSchema,
+      })
+    )
+    .min(1, 'El carrito está vacío')
+    .max(config.evaluation.maxItems, `Máximo ${config.evaluation.maxItems} líneas`),
+  shippingMinor: amountMinorSchema.optional(),
+});
+
+const codesSchema = z
+  .array(codeSchema)
+  .max(config.evaluation.maxCodes, `Máximo ${config.evaluation.maxCodes} códigos`)
+  .default([]);
+
+// Schema para evaluar las promociones de un carrito
+export const evaluateSchema = z.object({
+  codes: codesSchema,
+  cart: cartSchema,
+});
+
+// Schema para registrar los canjes de una orden (servicio de órdenes)
+export const redeemSchema = z.object({
+  orderId: z.string().uuid('ID de orden inválido'),
+  userId: z.string().uuid('ID de usuario inválido'),
+  codes: codesSchema,
+  cart: cartSchema,
+});
+
+// Schema para el ID de orden en la URL
+export const orderParamsSchema = z.object({
+  orderId: z.string().uuid('ID de orden inválido'),
+});
+
+// Tipos inferidos de los schemas
+export type CreatePromotionBody = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionBody = z.infer<typeof updatePromotionSchema>;
+export type EvaluateBody = z.infer<typeof evaluateSchema>;
+export type RedeemBody = z.infer<typeof redeemSchema>;
@@ -0,0 +1,479 @@
+import { toMinorUnits, toMoney } from '@ecom/service';
+import { PromotionRepository } from '../promotion.repository';
+import { CatalogClient } from '../clients/catalog.client';
+import {
+  CartInput,
+  CartLine,
+  ConflictError,
+  Evaluation,
+  EvaluationLine,
+  EvaluationResponse,
+  NotFoundError,
+  Pagination,
+  Promotion,
+  PromotionChanges,
+  PromotionData,
+  PromotionFilters,
+  PromotionInput,
+  PromotionResponse,
+  PromotionType,
+  ValidationError
+} from '../types/index';
+import { evaluatePromotions } from '../utils/promotion-engine';
+
+// Campos del beneficio que exige cada tipo de promoción (el resto debe quedar vacío)
+const BENEFIT_FIELDS = ['percentOff', 'amountOffMinor', 'buyQuantity', 'getQuantity'] as const;
+
+const REQUIRED_BENEFIT_FIELDS: Record<PromotionType, readonly (typeof BENEFIT_FIELDS)[number][]> = {
+  PERCENTAGE: ['percentOff'],
+  FIXED_AMOUNT: ['amountOffMinor'],
+  FREE_SHIPPING: [],
+  BUY_X_GET_Y: ['buyQuantity', 'getQuantity']
+};
+
+// Nombre de cada campo en el body, para los mensajes de error
+const FIELD_NAMES: Record<(typeof BENEFIT_FIELDS)[number], string> = {
+  percentOff: 'percentOff',
+  amountOffMinor: 'amountOff',
+  buyQuantity: 'buyQuantity',
+  getQuantity: 'getQuantity'
+};
+
+/**
+ * Servicio de promociones
+ *
+ * @class PromotionService
+ * @description Administra cupones y promociones automáticas, evalúa cuáles
+ * aplican a un carrito con el motor de `utils/promotion-engine` y registra los
+ * canjes de las órdenes para controlar los límites de uso.
+ */
+export class PromotionService {
+  /** Repositorio para acceso a promociones y canjes */
+  private promotionRepository: PromotionRepository;
+
+  /** Catálogo, para las categorías de los productos del carrito */
+  private catalogClient: CatalogClient;
+
+  /**
+   * Constructor del servicio de promociones
+   * Inicializa el repositorio de datos y el cliente de catálogo
+   */
+  constructor() {
+    this.promotionRepository = new PromotionRepository();
+    this.catalogClient = new CatalogClient();
+  }
+
+  /**
+   * Crea una promoción
+   *
+   * @param {PromotionInput} input - Datos de la promoción (montos decimales en la moneda indicada)
+   * @returns {Promise<PromotionResponse>} Promoción creada
+   *
+   * @throws {ValidationError} Si los campos no corresponden al tipo, falta la moneda o las fechas no son válidas
+   * @throws {ConflictError} CODE_TAKEN si ya existe un cupón con el código
+   *
+   * @description Sin `code` la promoción es automática: se aplica a todo carrito
+   * que cumpla sus condiciones.
+   */
+  async createPromotion(input: PromotionInput): Promise<PromotionResponse> {
+    const currency = input.currency ?? null;
+    const data: PromotionData = {
+      name: input.name,
+      description: input.description ?? null,
+      code: input.code ?? null,
+      type: input.type,
+      active: input.active ?? true,
+      startsAt: input.startsAt ?? null,
+      endsAt: input.endsAt ?? null,
+      percentOff: input.percentOff ?? null,
+      amountOffMinor: this.toMinor(input.amountOff, currency, 'amountOff'),
+      buyQuantity: input.buyQuantity ?? null,
+      getQuantity: input.getQuantity ?? null,
+      minOrderMinor: this.toMinor(input.minOrder, currency, 'minOrder'),
+      currency,
+      productIds: input.productIds ?? [],
+      categoryIds: input.categoryIds ?? [],
+      usageLimit: input.usageLimit ?? null,
+      perUserLimit: input.perUserLimit ?? null
+    };
+    this.validateRules(data);
+
+    const promotion = await this.promotionRepository.createPromotion(data);
+    if (!promotion) {
+      throw new ConflictError('CODE_TAKEN', `Ya existe un cupón con el código ${data.code}`);
+    }
+
+    return this.formatPromotionResponse(promotion, 0);
+  }
+
+  /**
+   * Lista promociones (más recientes primero)
+   *
+   * @param {PromotionFilters} filters - Estado, tipo, cupón o automática y búsqueda por nombre o código
+   * @param {number} page - Página (desde 1)
+   * @param {number} limit - Promociones por página
+   * @returns {Promise<{promotions: PromotionResponse[], pagination: Pagination}>} Página de promociones
+   */
+  async listPromotions(
+    filters: PromotionFilters,
+    page: number,
+    limit: number
+  ): Promise<{ promotions: PromotionResponse[]; pagination: Pagination }> {
+    const { promotions, total } = await this.promotionRepository.findPromotions(filters, (page - 1) * limit, limit);
+
+    return {
+      promotions: promotions.map((promotion) => this.formatPromotionResponse(promotion)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Obtiene una promoción con la cantidad de canjes vigentes
+   *
+   * @param {string} id - ID de la promoción
+   * @returns {Promise<PromotionResponse>} Promoción
+   *
+   * @throws {NotFoundError} Si la promoción no existe
+   */
+  async getPromotion(id: string): Promise<PromotionResponse> {
+    const promotion = await this.findPromotionOrFail(id);
+    return this.formatPromotionResponse(promotion, await this.promotionRepository.countActiveRedemptions(id));
+  }
+
+  /**
+   * Actualiza una promoción
+   *
+   * @param {string} id - ID de la promoción
+   * @param {PromotionChanges} changes - Campos a cambiar; `null` borra los opcionales
+   * @returns {Promise<PromotionResponse>} Promoción actualizada
+   *
+   * @throws {NotFoundError} Si la promoción no existe
+   * @throws {ValidationError} Si el resultado no es una promoción válida
+   * @throws {ConflictError} CODE_TAKEN si ya existe un cupón con el nuevo código
+   *
+   * @description
+   * - Las reglas se validan sobre la promoción resultante, no solo sobre los cambios
+   * - Al cambiar el tipo se borran los campos del beneficio anterior que no se envíen
+   * - Al cambiar la moneda hay que enviar de nuevo `amountOff` y `minOrder`
+   * - Los cambios no afectan a los canjes ya registrados
+   */
+  async updatePromotion(id: string, changes: PromotionChanges): Promise<PromotionResponse> {
+    const existing = await this.findPromotionOrFail(id);
+    const { amountOff, minOrder, ...rest } = changes;
+
+    const currency = changes.currency !== undefined ? changes.currency : existing.currency;
+    const currencyChanged = currency !== existing.currency;
+    const typeChanged = changes.type !== undefined && changes.type !== existing.type;
+
+    const data: PromotionData = {
+      ...this.toPromotionData(existing),
+      ...(typeChanged && { percentOff: null, amountOffMinor: null, buyQuantity: null, getQuantity: null }),
+      ...(Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)) as Partial<PromotionData>),
+      amountOffMinor: this.resolveAmount(amountOff, typeChanged ? null : existing.amountOffMinor, currency, currencyChanged, 'amountOff'),
+      minOrderMinor: this.resolveAmount(minOrder, existing.minOrderMinor, currency, currencyChanged, 'minOrder')
+    };
+    this.validateRules(data);
+
+    const promotion = await this.promotionRepository.updatePromotion(id, data);
+    if (!promotion) {
+      throw new ConflictError('CODE_TAKEN', `Ya existe un cupón con el código ${data.code}`);
+    }
+
+    return this.formatPromotionResponse(promotion, await this.promotionRepository.countActiveRedemptions(id));
+  }
+
+  /**
+   * Elimina una promoción que nunca se canjeó
+   *
+   * @param {string} id - ID de la promoción
+   *
+   * @throws {NotFoundError} Si la promoción no existe
+   * @throws {ConflictError} PROMOTION_IN_USE si alguna orden la usó (se puede desactivar)
+   */
+  async deletePromotion(id: string): Promise<void> {
+    await this.findPromotionOrFail(id);
+
+    if (!(await this.promotionRepository.deletePromotion(id))) {
+      throw new ConflictError('PROMOTION_IN_USE', 'La promoción tiene canjes registrados; desactívela en lugar de eliminarla');
+    }
+  }
+
+  /**
+   * Evalúa las promociones contra un carrito, sin registrar nada
+   *
+   * @param {string | null} userId - Comprador, o null si es un invitado
+   * @param {string[]} codes - Cupones ingresados
+   * @param {CartInput} cart - Moneda, líneas con precio de lista y costo de envío
+   * @returns {Promise<EvaluationResponse>} Descuento total, promociones aplicadas y rechazadas con el motivo
+   *
+   * @throws {ServiceUnavailableError} Si el catálogo no responde (solo con promociones por categoría)
+   */
+  async evaluate(userId: string | null, codes: string[], cart: CartInput): Promise<EvaluationResponse> {
+    const { evaluation } = await this.runEvaluation(userId, codes, cart);
+    return this.formatEvaluationResponse(evaluation);
+  }
+
+  /**
+   * Registra los canjes de una orden (servicio de órdenes, al hacer checkout)
+   *
+   * @param {string} orderId - ID de la orden
+   * @param {string} userId - Comprador
+   * @param {string[]} codes - Cupones ingresados
+   * @param {CartInput} cart - Líneas de la orden con sus precios
+   * @returns {Promise<EvaluationResponse>} Evaluación con la que se registraron los canjes
+   *
+   * @throws {ConflictError} ALREADY_REDEEMED si la orden ya tiene canjes;
+   * PROMOTION_NOT_APPLICABLE si algún cupón no aplica o una promoción se agotó mientras tanto
+   * @throws {ServiceUnavailableError} Si el catálogo no responde (solo con promociones por categoría)
+   *
+   * @description
+   * - Un cupón que no aplica rechaza todo el canje (con los motivos en `details`):
+   *   el comprador pidió ese descuento y no se le puede cobrar otro precio en silencio
+   * - Los límites de uso se vuelven a controlar dentro de la transacción que registra los canjes
+   */
+  async redeem(orderId: string, userId: string, codes: string[], cart: CartInput): Promise<EvaluationResponse> {
+    if (await this.promotionRepository.hasRedemptions(orderId)) {
+      throw new ConflictError('ALREADY_REDEEMED', 'La orden ya tiene promociones canjeadas');
+    }
+
+    const { evaluation, promotions } = await this.runEvaluation(userId, codes, cart);
+
+    const rejectedCodes = evaluation.rejected.filter((rejection) => rejection.code !== null);
+    if (rejectedCodes.length > 0) {
+      throw new ConflictError('PROMOTION_NOT_APPLICABLE', 'Algunos códigos no se pueden aplicar', rejectedCodes);
+    }
+
+    if (evaluation.applied.length > 0) {
+      const byId = new Map(promotions.map((promotion) => [promotion.id, promotion]));
+      const { exhaustedPromotionId } = await this.promotionRepository.redeem(
+        orderId,
+        userId,
+        cart.currency,
+        evaluation.applied.map(({ promotionId, discountMinor }) => ({ promotionId, discountMinor })),
+        byId
+      );
+
+      if (exhaustedPromotionId) {
+        const { id, name, code } = byId.get(exhaustedPromotionId)!;
+        throw new ConflictError('PROMOTION_NOT_APPLICABLE', 'Una promoción alcanzó su límite de usos', [
+          { promotionId: id, name, code, reason: 'USAGE_LIMIT_REACHED', message: 'La promoción alcanzó su límite de usos' }
+        ]);
+      }
+    }
+
+    return this.formatEvaluationResponse(evaluation);
+  }
+
+  /**
+   * Libera los canjes de una orden cancelada, para que vuelvan a contar en los límites
+   *
+   * @param {string} orderId - ID de la orden
+   * @returns {Promise<number>} Cantidad de canjes liberados (0 si no tenía o ya estaban liberados)
+   */
+  async release(orderId: string): Promise<number> {
+    return await this.promotionRepository.releaseRedemptions(orderId);
+  }
+
+  /**
+   * Carga las promociones candidatas, sus canjes y las categorías del carrito y ejecuta el motor
+   *
+   * @private
+   */
+  private async runEvaluation(
+    userId: string | null,
+    codes: string[],
+    cart: CartInput
+  ): Promise<{ evaluation: Evaluation; promotions: Promotion[] }> {
+    const now = new Date();
+    const uniqueCodes = [...new Set(codes.map((code) => code.toUpperCase()))];
+
+    const [automatic, coupons] = await Promise.all([
+      this.promotionRepository.findActiveAutomaticPromotions(now),
+      this.promotionRepository.findPromotionsByCodes(uniqueCodes)
+    ]);
+    const promotions = [...automatic, ...coupons];
+
+    const [usage, lines] = await Promise.all([
+      this.promotionRepository.countUsage(
+        promotions.map((promotion) => promotion.id),
+        userId
+      ),
+      this.withCategories(cart.items, promotions)
+    ]);
+
+    const evaluation = evaluatePromotions(promotions, lines, cart, {
+      now,
+      codes: uniqueCodes,
+      usage,
+      identified: userId !== null
+    });
+
+    return { evaluation, promotions };
+  }
+
+  /**
+   * Agrega a cada línea las categorías del producto; solo consulta el catálogo
+   * si alguna promoción está limitada a categorías
+   *
+   * @private
+   */
+  private async withCategories(items: CartLine[], promotions: Promotion[]): Promise<EvaluationLine[]> {
+    if (!promotions.some((promotion) => promotion.categoryIds.length > 0)) {
+      return items.map((item) => ({ ...item, categoryIds: [] }));
+    }
+
+    const categories = await this.catalogClient.getCategoryIds([...new Set(items.map((item) => item.productId))]);
+    return items.map((item) => ({ ...item, categoryIds: categories.get(item.productId) ?? [] }));
+  }
+
+  /**
+   * Valida que la promoción tenga los campos que exige su tipo y fechas coherentes
+   *
+   * @private
+   */
+  private validateRules(data: PromotionData): void {
+    const required = REQUIRED_BENEFIT_FIELDS[data.type];
+
+    const missing = required.filter((field) => data[field] === null);
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Una promoción ${data.type} requiere ${missing.map((field) => FIELD_NAMES[field]).join(', ')}`
+      );
+    }
+
+    const extra = BENEFIT_FIELDS.filter((field) => !required.includes(field) && data[field] !== null);
+    if (extra.length > 0) {
+      throw new ValidationError(
+        `${extra.map((field) => FIELD_NAMES[field]).join(', ')} no aplica a promociones ${data.type}`
+      );
+    }
+
+    if (data.amountOffMinor === 0) {
+      throw new ValidationError('amountOff debe ser mayor a 0');
+    }
+
+    if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+      throw new ValidationError('startsAt debe ser anterior a endsAt');
+    }
+  }
+
+  /**
+   * Monto decimal opcional en unidades menores; exige la moneda
+   *
+   * @private
+   */
+  private toMinor(amount: string | null | undefined, currency: string | null, field: string): number | null {
+    if (amount === null || amount === undefined) {
+      return null;
+    }
+    if (!currency) {
+      throw new ValidationError(`${field} requiere una moneda (currency)`);
+    }
+    return toMinorUnits(amount, currency);
+  }
+
+  /**
+   * Monto resultante de una actualización: el enviado, o el actual si la moneda no cambió
+   *
+   * @private
+   */
+  private resolveAmount(
+    amount: string | null | undefined,
+    currentMinor: number | null,
+    currency: string | null,
+    currencyChanged: boolean,
+    field: string
+  ): number | null {
+    if (amount !== undefined) {
+      return this.toMinor(amount, currency, field);
+    }
+    if (currencyChanged && currentMinor !== null) {
+      throw new ValidationError(`Al cambiar la moneda envíe de nuevo ${field}`);
+    }
+    return currentMinor;
+  }
+
+  /**
+   * Campos editables de una promoción existente
+   *
+   * @private
+   */
+  private toPromotionData(promotion: Promotion): PromotionData {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...data } = promotion;
+    return data;
+  }
+
+  /**
+   * Busca una promoción por ID o falla
+   *
+   * @private
+   */
+  private async findPromotionOrFail(id: string): Promise<Promotion> {
+    const promotion = await this.promotionRepository.findPromotionById(id);
+    if (!promotion) {
+      throw new NotFoundError('Promoción no encontrada');
+    }
+    return promotion;
+  }
+
+  /**
+   * Formatea la promoción para la respuesta (los canjes solo en el detalle)
+   *
+   * @private
+   */
+  private formatPromotionResponse(promotion: Promotion, timesRedeemed?: number): PromotionResponse {
+    const money = (amountMinor: number | null) =>
+      amountMinor !== null && promotion.currency ? toMoney(amountMinor, promotion.currency) : null;
+
+    return {
+      id: promotion.id,
+      name: promotion.name,
+      description: promotion.description,
+      code: promotion.code,
+      type: promotion.type,
+      active: promotion.active,
+      startsAt: promotion.startsAt,
+      endsAt: promotion.endsAt,
+      percentOff: promotion.percentOff,
+      amountOff: money(promotion.amountOffMinor),
+      buyQuantity: promotion.buyQuantity,
+      getQuantity: promotion.getQuantity,
+      minOrder: money(promotion.minOrderMinor),
+      currency: promotion.currency,
+      productIds: promotion.productIds,
+      categoryIds: promotion.categoryIds,
+      usageLimit: promotion.usageLimit,
+      perUserLimit: promotion.perUserLimit,
+      ...(timesRedeemed !== undefined && { timesRedeemed }),
+      createdAt: promotion.createdAt,
+      updatedAt: promotion.updatedAt
+    };
+  }
+
+  /**
+   * Formatea el resultado del motor con montos en la moneda del carrito
+   *
+   * @private
+   */
+  private formatEvaluationResponse(evaluation: Evaluation): EvaluationResponse {
+    const { currency } = evaluation;
+
+    return {
+      subtotal: toMoney(evaluation.subtotalMinor, currency),
+      discount: toMoney(evaluation.discountMinor, currency),
+      freeShipping: evaluation.freeShipping,
+      shippingDiscount: toMoney(evaluation.shippingDiscountMinor, currency),
+      total: toMoney(evaluation.subtotalMinor - evaluation.discountMinor, currency),
+      applied: evaluation.applied.map(({ discountMinor, ...applied }) => ({
+        ...applied,
+        discount: toMoney(discountMinor, currency)
+      })),
+      rejected: evaluation.rejected
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { Money, ServiceError } from '@ecom/service';
+
+export type { Money };
+
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_SHIPPING' | 'BUY_X_GET_Y';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description: string | null;
+  code: string | null;
+  type: PromotionType;
+  active: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  percentOff: number | null;
+  amountOffMinor: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  minOrderMinor: number | null;
+  currency: string | null;
+  productIds: string[];
+  categoryIds: string[];
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Campos editables de una promoción (montos ya en unidades menores) */
+export type PromotionData = Omit<Promotion, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Datos de una promoción tal como llegan al admin (montos decimales en texto) */
+export interface PromotionInput {
+  name: string;
+  description?: string;
+  code?: string;
+  type: PromotionType;
+  active?: boolean;
+  startsAt?: Date;
+  endsAt?: Date;
+  percentOff?: number;
+  amountOff?: string;
+  buyQuantity?: number;
+  getQuantity?: number;
+  minOrder?: string;
+  currency?: string;
+  productIds?: string[];
+  categoryIds?: string[];
+  usageLimit?: number;
+  perUserLimit?: number;
+}
+
+/** Cambios a una promoción; `null` borra el valor de los campos opcionales */
+export type PromotionChanges = { [K in keyof PromotionInput]?: PromotionInput[K] | null };
+
+export interface PromotionFilters {
+  active?: boolean;
+  type?: PromotionType;
+  /** true: solo cupones; false: solo automáticas */
+  hasCode?: boolean;
+  /** Busca en nombre y código */
+  search?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/** Canjes que cuentan para los límites de una promoción */
+export interface PromotionUsage {
+  total: number;
+  /** Canjes del usuario evaluado (0 si es un invitado) */
+  byUser: number;
+}
+
+/** Línea del carrito a evaluar */
+export interface CartLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  unitPriceMinor: number;
+}
+
+export interface CartInput {
+  currency: string;
+  items: CartLine[];
+  /** Costo de envío, para calcular el descuento de envío gratis */
+  shippingMinor?: number;
+}
+
+/** Línea con las categorías del producto (y sus ancestros) según el catálogo */
+export interface EvaluationLine extends CartLine {
+  categoryIds: string[];
+}
+
+/**
+ * Motivo por el que una promoción no aplica
+ *
+ * - `CODE_NOT_FOUND`: no existe un cupón con ese código
+ * - `INACTIVE`: la promoción está desactivada
+ * - `NOT_STARTED` / `EXPIRED`: fuera de la vigencia
+ * - `CURRENCY_MISMATCH`: la promoción es para otra moneda
+ * - `MIN_ORDER_NOT_MET`: el subtotal no llega al mínimo
+ * - `NO_ELIGIBLE_ITEMS`: ningún producto del carrito está alcanzado
+ * - `NOT_ENOUGH_ITEMS`: faltan unidades para el lleve X pague Y
+ * - `USAGE_LIMIT_REACHED` / `USER_LIMIT_REACHED`: se agotaron los canjes
+ * - `LOGIN_REQUIRED`: tiene límite por usuario y el carrito es de un invitado
+ * - `NO_DISCOUNT`: aplica, pero otras promociones ya cubrieron el total
+ */
+export type RejectionReason =
+  | 'CODE_NOT_FOUND'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'CURRENCY_MISMATCH'
+  | 'MIN_ORDER_NOT_MET'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'NOT_ENOUGH_ITEMS'
+  | 'USAGE_LIMIT_REACHED'
+  | 'USER_LIMIT_REACHED'
+  | 'LOGIN_REQUIRED'
+  | 'NO_DISCOUNT';
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  discountMinor: number;
+  /** El envío queda sin costo (FREE_SHIPPING) */
+  freeShipping: boolean;
+  /** Qué alcanzó la promoción (ej: '10% sobre 3 unidades') */
+  detail: string;
+}
+
+export interface RejectedPromotion {
+  promotionId: string | null;
+  name: string | null;
+  code: string | null;
+  reason: RejectionReason;
+  message: string;
+}
+
+/** Resultado del motor de promociones, en unidades menores de la moneda del carrito */
+export interface Evaluation {
+  currency: string;
+  subtotalMinor: number;
+  /** Descuento sobre los productos */
+  discountMinor: number;
+  freeShipping: boolean;
+  /** Descuento sobre el envío (el costo de envío informado si hay envío gratis) */
+  shippingDiscountMinor: number;
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotion[];
+}
+
+export interface PromotionResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  code: string | null;
+  type: PromotionType;
+  active: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  percentOff: number | null;
+  amountOff: Money | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  minOrder: Money | null;
+  currency: string | null;
+  productIds: string[];
+  categoryIds: string[];
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  /** Canjes vigentes (no liberados); solo en el detalle */
+  timesRedeemed?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AppliedPromotionResponse extends Omit<AppliedPromotion, 'discountMinor'> {
+  discount: Money;
+}
+
+export interface EvaluationResponse {
+  subtotal: Money;
+  discount: Money;
+  freeShipping: boolean;
+  shippingDiscount: Money;
+  /** Subtotal menos el descuento sobre los productos */
+  total: Money;
+  applied: AppliedPromotionResponse[];
+  rejected: RejectedPromotion[];
+}
+
+export class PromotionError extends ServiceError {
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number = 400,
+    details?: unknown
+  ) {
+    super(code, message, statusCode, details);
+    this.name = 'PromotionError';
+  }
+}
+
+export class ValidationError extends PromotionError {
+  constructor(message: string, details?: unknown) {
+    super('VALIDATION_ERROR', message, 400, details);
+  }
+}
+
+export class NotFoundError extends PromotionError {
+  constructor(message: string = 'Recurso no encontrado') {
+    super('NOT_FOUND', message, 404);
+  }
+}
+
+export class ConflictError extends PromotionError {
+  constructor(code: string, message: string, details?: unknown) {
+    super(code, message, 409, details);
+  }
+}
+
+export class ServiceUnavailableError extends PromotionError {
+  constructor(service: string) {
+    super('SERVICE_UNAVAILABLE', `El servicio de ${service} no está disponible, reintente en unos segundos`, 503);
+  }
+}
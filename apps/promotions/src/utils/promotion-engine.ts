@@ -0,0 +1,224 @@
+import { toMoney } from '@ecom/service';
+import {
+  AppliedPromotion,
+  EvaluationLine,
+  Evaluation,
+  Promotion,
+  PromotionUsage,
+  RejectedPromotion,
+  RejectionReason
+} from '../types/index';
+
+export interface EvaluationContext {
+  now: Date;
+  /** Códigos pedidos, en mayúsculas y sin repetir */
+  codes: string[];
+  /** Canjes vigentes de cada promoción evaluada */
+  usage: Map<string, PromotionUsage>;
+  /** false si el carrito es de un invitado (no se pueden controlar los límites por usuario) */
+  identified: boolean;
+}
+
+type Benefit = { discountMinor: number; freeShipping: boolean; detail: string };
+
+/**
+ * Evalúa las promociones contra un carrito
+ *
+ * @param {Promotion[]} promotions - Promociones automáticas vigentes y las de los códigos pedidos
+ * @param {EvaluationLine[]} lines - Líneas del carrito con sus categorías
+ * @param {{currency: string, shippingMinor?: number}} cart - Moneda y costo de envío del carrito
+ * @param {EvaluationContext} context - Fecha, códigos, canjes y si el usuario está identificado
+ * @returns {Evaluation} Promociones aplicadas con su descuento y rechazadas con el motivo
+ *
+ * @description
+ * - Se aplican todas las promociones que cumplen sus condiciones: primero las
+ *   automáticas (las más antiguas primero) y después los cupones en el orden pedido
+ * - Los descuentos se calculan sobre los precios de lista y se acumulan hasta
+ *   cubrir el subtotal; una promoción que ya no descuenta nada se rechaza con `NO_DISCOUNT`
+ * - Los códigos sin promoción se rechazan con `CODE_NOT_FOUND`
+ * - Es una función pura: no consulta ni guarda nada
+ */
+export function evaluatePromotions(
+  promotions: Promotion[],
+  lines: EvaluationLine[],
+  cart: { currency: string; shippingMinor?: number },
+  context: EvaluationContext
+): Evaluation {
+  const subtotalMinor = lines.reduce((sum, line) => sum + line.unitPriceMinor * line.quantity, 0);
+  const byCode = new Map(promotions.filter((promotion) => promotion.code).map((promotion) => [promotion.code!, promotion]));
+
+  const ordered = [
+    ...promotions.filter((promotion) => !promotion.code).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    ...context.codes.flatMap((code) => (byCode.has(code) ? [byCode.get(code)!] : []))
+  ];
+
+  const applied: AppliedPromotion[] = [];
+  const rejected: RejectedPromotion[] = context.codes
+    .filter((code) => !byCode.has(code))
+    .map((code) => ({ promotionId: null, name: null, code, reason: 'CODE_NOT_FOUND', message: 'El código no existe' }));
+  let discountMinor = 0;
+  let freeShipping = false;
+
+  for (const promotion of ordered) {
+    const reject = (reason: RejectionReason, message: string) =>
+      rejected.push({ promotionId: promotion.id, name: promotion.name, code: promotion.code, reason, message });
+
+    const eligible = lines.filter((line) => isInScope(promotion, line));
+    const rejection = checkConditions(promotion, cart.currency, subtotalMinor, eligible, context);
+    if (rejection) {
+      reject(rejection.reason, rejection.message);
+      continue;
+    }
+
+    const benefit = computeBenefit(promotion, eligible, cart.currency);
+    if (typeof benefit === 'string') {
+      reject('NOT_ENOUGH_ITEMS', benefit);
+      continue;
+    }
+
+    // Los descuentos acumulados nunca superan el subtotal
+    const discount = Math.min(benefit.discountMinor, subtotalMinor - discountMinor);
+    if (discount === 0 && (!benefit.freeShipping || freeShipping)) {
+      reject('NO_DISCOUNT', 'Otras promociones ya cubren el total');
+      continue;
+    }
+
+    discountMinor += discount;
+    freeShipping ||= benefit.freeShipping;
+    applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      code: promotion.code,
+      type: promotion.type,
+      discountMinor: discount,
+      freeShipping: benefit.freeShipping,
+      detail: benefit.detail
+    });
+  }
+
+  return {
+    currency: cart.currency,
+    subtotalMinor,
+    discountMinor,
+    freeShipping,
+    shippingDiscountMinor: freeShipping ? cart.shippingMinor ?? 0 : 0,
+    applied,
+    rejected
+  };
+}
+
+/**
+ * Indica si la línea está alcanzada por la promoción (sin alcance: todo el carrito)
+ */
+function isInScope(promotion: Promotion, line: EvaluationLine): boolean {
+  if (promotion.productIds.length === 0 && promotion.categoryIds.length === 0) {
+    return true;
+  }
+
+  return (
+    promotion.productIds.includes(line.productId) ||
+    line.categoryIds.some((categoryId) => promotion.categoryIds.includes(categoryId))
+  );
+}
+
+/**
+ * Primera condición que no se cumple, o null si la promoción aplica
+ */
+function checkConditions(
+  promotion: Promotion,
+  currency: string,
+  subtotalMinor: number,
+  eligible: EvaluationLine[],
+  context: EvaluationContext
+): { reason: RejectionReason; message: string } | null {
+  const usage = context.usage.get(promotion.id) ?? { total: 0, byUser: 0 };
+
+  if (!promotion.active) {
+    return { reason: 'INACTIVE', message: 'La promoción no está activa' };
+  }
+  if (promotion.startsAt && promotion.startsAt > context.now) {
+    return { reason: 'NOT_STARTED', message: `La promoción empieza el ${promotion.startsAt.toISOString()}` };
+  }
+  if (promotion.endsAt && promotion.endsAt <= context.now) {
+    return { reason: 'EXPIRED', message: 'La promoción venció' };
+  }
+  if (promotion.currency && promotion.currency !== currency) {
+    return { reason: 'CURRENCY_MISMATCH', message: `La promoción es para carritos en ${promotion.currency}` };
+  }
+  if (promotion.minOrderMinor !== null && subtotalMinor < promotion.minOrderMinor) {
+    const missing = toMoney(promotion.minOrderMinor - subtotalMinor, currency).amount;
+    return { reason: 'MIN_ORDER_NOT_MET', message: `Faltan ${missing} ${currency} para el mínimo de compra` };
+  }
+  if (promotion.usageLimit !== null && usage.total >= promotion.usageLimit) {
+    return { reason: 'USAGE_LIMIT_REACHED', message: 'La promoción alcanzó su límite de usos' };
+  }
+  if (promotion.perUserLimit !== null && !context.identified) {
+    return { reason: 'LOGIN_REQUIRED', message: 'Inicie sesión para usar esta promoción' };
+  }
+  if (promotion.perUserLimit !== null && usage.byUser >= promotion.perUserLimit) {
+    return { reason: 'USER_LIMIT_REACHED', message: 'Ya usó esta promoción la cantidad de veces permitida' };
+  }
+  if (eligible.length === 0) {
+    return { reason: 'NO_ELIGIBLE_ITEMS', message: 'Ningún producto del carrito participa de la promoción' };
+  }
+
+  return null;
+}
+
+/**
+ * Descuento de la promoción sobre las líneas alcanzadas, o el motivo si faltan unidades
+ */
+function computeBenefit(promotion: Promotion, eligible: EvaluationLine[], currency: string): Benefit | string {
+  const eligibleMinor = eligible.reduce((sum, line) => sum + line.unitPriceMinor * line.quantity, 0);
+  const units = eligible.reduce((sum, line) => sum + line.quantity, 0);
+
+  switch (promotion.type) {
+    case 'PERCENTAGE':
+      return {
+        // Redondeo hacia abajo: nunca se descuenta de más
+        discountMinor: Math.floor((eligibleMinor * promotion.percentOff!) / 100),
+        freeShipping: false,
+        detail: `${promotion.percentOff}% sobre ${units} unidad(es)`
+      };
+
+    case 'FIXED_AMOUNT':
+      return {
+        discountMinor: Math.min(promotion.amountOffMinor!, eligibleMinor),
+        freeShipping: false,
+        detail: `${toMoney(promotion.amountOffMinor!, currency).amount} ${currency} de descuento`
+      };
+
+    case 'FREE_SHIPPING':
+      return { discountMinor: 0, freeShipping: true, detail: 'Envío gratis' };
+
+    case 'BUY_X_GET_Y': {
+      const groupSize = promotion.buyQuantity! + promotion.getQuantity!;
+      if (units < groupSize) {
+        return `Agregue ${groupSize - units} unidad(es) más de los productos de la promoción`;
+      }
+
+      // Unidades de mayor a menor precio: en cada grupo, las últimas `getQuantity` son gratis.
+      // freeBefore(n): unidades gratis entre las n primeras; cada línea ocupa un tramo de posiciones
+      const freeBefore = (position: number) =>
+        Math.floor(position / groupSize) * promotion.getQuantity! + Math.max(0, (position % groupSize) - promotion.buyQuantity!);
+      const grouped = Math.floor(units / groupSize) * groupSize;
+      let position = 0;
+      let freeUnits = 0;
+      let freeMinor = 0;
+
+      for (const line of [...eligible].sort((a, b) => b.unitPriceMinor - a.unitPriceMinor)) {
+        const end = Math.min(position + line.quantity, grouped);
+        const free = Math.max(0, freeBefore(end) - freeBefore(position));
+        freeUnits += free;
+        freeMinor += free * line.unitPriceMinor;
+        position += line.quantity;
+      }
+
+      return {
+        discountMinor: freeMinor,
+        freeShipping: false,
+        detail: `${freeUnits} unidad(es) gratis`
+      };
+    }
+  }
+}
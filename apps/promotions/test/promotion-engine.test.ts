@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationContext, evaluatePromotions } from '../src/utils/promotion-engine';
+import { EvaluationLine, Promotion } from '../src/types/index';
+
+const PRODUCT_A = '11111111-1111-4111-8111-111111111111';
+const PRODUCT_B = '22222222-2222-4222-8222-222222222222';
+const PRODUCT_C = '33333333-3333-4333-8333-333333333333';
+
+let nextId = 0;
+
+const promotion = (overrides: Partial<Promotion>): Promotion => ({
+  id: `promo-${++nextId}`,
+  name: 'Promoción',
+  description: null,
+  code: null,
+  type: 'PERCENTAGE',
+  active: true,
+  startsAt: null,
+  endsAt: null,
+  percentOff: null,
+  amountOffMinor: null,
+  buyQuantity: null,
+  getQuantity: null,
+  minOrderMinor: null,
+  currency: null,
+  productIds: [],
+  categoryIds: [],
+  usageLimit: null,
+  perUserLimit: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const line = (productId: string, quantity: number, unitPriceMinor: number): EvaluationLine => ({
+  productId,
+  variantId: null,
+  quantity,
+  unitPriceMinor,
+  categoryIds: []
+});
+
+const context = (codes: string[] = []): EvaluationContext => ({
+  now: new Date('2026-06-01T00:00:00Z'),
+  codes,
+  usage: new Map(),
+  identified: true
+});
+
+const evaluate = (promotions: Promotion[], lines: EvaluationLine[], codes: string[] = []) =>
+  evaluatePromotions(promotions, lines, { currency: 'USD' }, context(codes));
+
+describe('evaluatePromotions', () => {
+  describe('BUY_X_GET_Y', () => {
+    const buy2get1 = (overrides: Partial<Promotion> = {}) =>
+      promotion({ type: 'BUY_X_GET_Y', buyQuantity: 2, getQuantity: 1, ...overrides });
+
+    it('regala la unidad más barata de cada grupo completo', () => {
+      const result = evaluate([buy2get1()], [line(PRODUCT_A, 1, 1000), line(PRODUCT_B, 5, 300)]);
+
+      // 1000, 300, [300] | 300, 300, [300]
+      expect(result.discountMinor).toBe(600);
+      expect(result.applied[0].detail).toBe('2 unidad(es) gratis');
+    });
+
+    it('ignora las unidades que no completan un grupo', () => {
+      const result = evaluate([buy2get1()], [line(PRODUCT_A, 3, 1000), line(PRODUCT_B, 2, 500)]);
+
+      // 1000, 1000, [1000] | 500, 500 (grupo incompleto)
+      expect(result.discountMinor).toBe(1000);
+      expect(result.applied[0].detail).toBe('1 unidad(es) gratis');
+    });
+
+    it('agrupa las unidades de distintas líneas sin importar el orden del carrito', () => {
+      const result = evaluate([buy2get1()], [line(PRODUCT_B, 2, 200), line(PRODUCT_A, 2, 900), line(PRODUCT_C, 2, 500)]);
+
+      // 900, 900, [500] | 500, 200, [200]
+      expect(result.discountMinor).toBe(700);
+    });
+
+    it('solo cuenta las líneas alcanzadas por la promoción', () => {
+      const result = evaluate(
+        [buy2get1({ productIds: [PRODUCT_B] })],
+        [line(PRODUCT_A, 5, 1000), line(PRODUCT_B, 3, 400)]
+      );
+
+      expect(result.discountMinor).toBe(400);
+    });
+
+    it('calcula cantidades grandes sin expandir unidad por unidad', () => {
+      const result = evaluate(
+        [promotion({ type: 'BUY_X_GET_Y', buyQuantity: 1, getQuantity: 1 })],
+        [line(PRODUCT_A, 99, 100)]
+      );
+
+      expect(result.discountMinor).toBe(4900);
+      expect(result.applied[0].detail).toBe('49 unidad(es) gratis');
+    });
+
+    it('rechaza la promoción si no alcanzan las unidades para un grupo', () => {
+      const result = evaluate([buy2get1()], [line(PRODUCT_A, 2, 1000)]);
+
+      expect(result.applied).toEqual([]);
+      expect(result.rejected[0]).toMatchObject({ reason: 'NOT_ENOUGH_ITEMS' });
+      expect(result.rejected[0].message).toContain('1 unidad(es)');
+    });
+  });
+
+  describe('descuentos acumulados', () => {
+    it('aplica primero las automáticas y después los cupones en el orden pedido', () => {
+      const automatic = promotion({ type: 'FIXED_AMOUNT', amountOffMinor: 100 });
+      const first = promotion({ code: 'PRIMERO', type: 'FIXED_AMOUNT', amountOffMinor: 200 });
+      const second = promotion({ code: 'SEGUNDO', type: 'PERCENTAGE', percentOff: 10 });
+
+      const result = evaluate([second, first, automatic], [line(PRODUCT_A, 1, 1000)], ['PRIMERO', 'SEGUNDO']);
+
+      expect(result.applied.map((applied) => applied.promotionId)).toEqual([automatic.id, first.id, second.id]);
+      expect(result.discountMinor).toBe(400);
+    });
+
+    it('no supera el subtotal y rechaza las promociones que ya no descuentan', () => {
+      const automatic = promotion({ type: 'FIXED_AMOUNT', amountOffMinor: 800 });
+      const half = promotion({ code: 'MITAD', type: 'PERCENTAGE', percentOff: 50 });
+      const extra = promotion({ code: 'EXTRA', type: 'FIXED_AMOUNT', amountOffMinor: 100 });
+
+      const result = evaluate([automatic, half, extra], [line(PRODUCT_A, 1, 1000)], ['MITAD', 'EXTRA']);
+
+      expect(result.subtotalMinor).toBe(1000);
+      expect(result.discountMinor).toBe(1000);
+      expect(result.applied.map((applied) => applied.discountMinor)).toEqual([800, 200]);
+      expect(result.rejected).toEqual([
+        expect.objectContaining({ promotionId: extra.id, reason: 'NO_DISCOUNT' })
+      ]);
+    });
+
+    it('aplica el envío gratis aunque los descuentos ya cubran el subtotal', () => {
+      const automatic = promotion({ type: 'FIXED_AMOUNT', amountOffMinor: 5000 });
+      const shipping = promotion({ code: 'ENVIO', type: 'FREE_SHIPPING' });
+
+      const result = evaluatePromotions(
+        [automatic, shipping],
+        [line(PRODUCT_A, 1, 1000)],
+        { currency: 'USD', shippingMinor: 750 },
+        context(['ENVIO'])
+      );
+
+      expect(result.discountMinor).toBe(1000);
+      expect(result.freeShipping).toBe(true);
+      expect(result.shippingDiscountMinor).toBe(750);
+    });
+
+    it('rechaza los códigos que no existen', () => {
+      const result = evaluate([], [line(PRODUCT_A, 1, 1000)], ['NOEXISTE']);
+
+      expect(result.rejected).toEqual([expect.objectContaining({ code: 'NOEXISTE', reason: 'CODE_NOT_FOUND' })]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PromotionRepository } from '../src/promotion.repository';
+import { Promotion } from '../src/types/index';
+
+const ORDER_ID = '11111111-1111-4111-8111-111111111111';
+const USER_ID = '22222222-2222-4222-8222-222222222222';
+
+type Redemption = { promotionId: string; orderId: string; userId: string; releasedAt: Date | null };
+
+/** Prisma en memoria: la transacción escribe sobre una copia que solo se confirma si el callback no lanza */
+class FakePrisma {
+  redemptions: Redemption[] = [];
+
+  async $transaction<T>(callback: (tx: unknown) => Promise<T>): Promise<T> {
+    const staged = [...this.redemptions];
+    const tx = {
+      $executeRaw: async () => 0,
+      promotionRedemption: {
+        count: async ({ where }: { where: Partial<Redemption> }) =>
+          staged.filter((row) => row.promotionId === where.promotionId && (!where.userId || row.userId === where.userId) && !row.releasedAt).length,
+        create: async ({ data }: { data: Redemption }) => staged.push({ ...data, releasedAt: null })
+      }
+    };
+
+    const result = await callback(tx);
+    this.redemptions = staged;
+    return result;
+  }
+}
+
+const noLimits: Pick<Promotion, 'usageLimit' | 'perUserLimit'> = { usageLimit: null, perUserLimit: null };
+
+describe('PromotionRepository.redeem', () => {
+  let prisma: FakePrisma;
+  let repository: PromotionRepository;
+
+  beforeEach(() => {
+    prisma = new FakePrisma();
+    repository = Object.assign(new PromotionRepository(), { prisma });
+  });
+
+  it('registra un canje por promoción cuando todas tienen cupo', async () => {
+    const result = await repository.redeem(ORDER_ID, USER_ID, 'USD', [
+      { promotionId: 'promo-a', discountMinor: 100 },
+      { promotionId: 'promo-b', discountMinor: 200 }
+    ], new Map([['promo-a', noLimits], ['promo-b', noLimits]]));
+
+    expect(result).toEqual({ exhaustedPromotionId: null });
+    expect(prisma.redemptions.map((row) => row.promotionId)).toEqual(['promo-a', 'promo-b']);
+  });
+
+  it('deshace los canjes ya creados si una promoción posterior llegó a su límite', async () => {
+    prisma.redemptions.push({ promotionId: 'promo-b', orderId: 'otra-orden', userId: 'otro-usuario', releasedAt: null });
+
+    const result = await repository.redeem(ORDER_ID, USER_ID, 'USD', [
+      { promotionId: 'promo-b', discountMinor: 200 },
+      { promotionId: 'promo-a', discountMinor: 100 }
+    ], new Map([['promo-a', noLimits], ['promo-b', { usageLimit: 1, perUserLimit: null }]]));
+
+    expect(result).toEqual({ exhaustedPromotionId: 'promo-b' });
+    expect(prisma.redemptions.filter((row) => row.orderId === ORDER_ID)).toEqual([]);
+  });
+
+  it('aplica el límite por usuario sin contar los canjes liberados', async () => {
+    prisma.redemptions.push({ promotionId: 'promo-a', orderId: 'vieja', userId: USER_ID, releasedAt: new Date() });
+
+    const limits = new Map([['promo-a', { usageLimit: null, perUserLimit: 1 }]]);
+    expect(await repository.redeem(ORDER_ID, USER_ID, 'USD', [{ promotionId: 'promo-a', discountMinor: 100 }], limits))
+      .toEqual({ exhaustedPromotionId: null });
+    expect(await repository.redeem('otra-orden', USER_ID, 'USD', [{ promotionId: 'promo-a', discountMinor: 100 }], limits))
+      .toEqual({ exhaustedPromotionId: 'promo-a' });
+  });
+});
@@ -0,0 +1,96 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { Permission, Role, hasPermission } from './permissions';
+import type { AuthUser } from './types';
+
+/** preHandler/onRequest de Fastify usado por los hooks de autorización */
+export type AuthHook = (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | void>;
+
+/**
+ * Responde 401 distinguiendo entre token ausente y token inválido
+ *
+ * @private
+ */
+function sendUnauthorized(request: FastifyRequest, reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    success: false,
+    message: request.headers.authorization ? 'Token inválido o expirado' : 'Token de acceso requerido'
+  });
+}
+
+/**
+ * preHandler que exige un access token válido
+ *
+ * @description Requiere `authPlugin` registrado, que es quien completa `request.user`.
+ *
+ * @example
+ * ```typescript
+ * fastify.addHook('preHandler', requireAuth);
+ * ```
+ */
+export const requireAuth: AuthHook = async function (request, reply) {
+  if (!request.user) {
+    return sendUnauthorized(request, reply);
+  }
+};
+
+/**
+ * Crea un preHandler que exige alguno de los roles indicados
+ *
+ * @param {...Role} roles - Roles aceptados (alcanza con uno)
+ * @returns {AuthHook} Hook de Fastify que responde 401/403 si no se cumple
+ *
+ * @description Para autorizar acciones concretas preferir `requirePermission`:
+ * los permisos de cada rol se pueden cambiar sin tocar el código.
+ */
+export function requireRole(...roles: Role[]): AuthHook {
+  return async function (request, reply) {
+    const user = request.user;
+
+    if (!user) {
+      return sendUnauthorized(request, reply);
+    }
+
+    if (!roles.includes(user.role)) {
+      return reply.code(403).send({
+        success: false,
+        message: 'Acceso denegado. Rol insuficiente',
+        code: 'FORBIDDEN'
+      });
+    }
+  };
+}
+
+/**
+ * Crea un preHandler que exige uno o más permisos
+ *
+ * @param {...Permission} required - Permisos requeridos (se exigen todos)
+ * @returns {AuthHook} Hook de Fastify que responde 401/403 si no se cumplen
+ *
+ * @description
+ * Requiere `authPlugin` registrado, que es quien completa `request.user`.
+ * No depende del servicio auth, por lo que cualquier servicio puede usarlo.
+ *
+ * @example
+ * ```typescript
+ * fastify.post('/products', { preHandler: requirePermission(PERMISSIONS.CATALOG_WRITE) }, handler);
+ * ```
+ */
+export function requirePermission(...required: Permission[]): AuthHook {
+  return async function (request, reply) {
+    const user: AuthUser | null = request.user;
+
+    if (!user) {
+      return sendUnauthorized(request, reply);
+    }
+
+    const missing = required.filter((permission) => !hasPermission(user.permissions, permission));
+    if (missing.length > 0) {
+      return reply.code(403).send({
+        success: false,
+        message: 'Acceso denegado. Permisos insuficientes',
+        code: 'FORBIDDEN',
+        missingPermissions: missing
+      });
+    }
+  };
+}
@@ -0,0 +1,6 @@
+export * from './permissions';
+export * from './types';
+export * from './verifier';
+export * from './plugin';
+export * from './hooks';
+export * from './service-token';
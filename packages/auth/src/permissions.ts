@@ -0,0 +1,41 @@
+/**
+ * Permisos conocidos por la plataforma
+ *
+ * @description La asignación de permisos a roles vive en la base de datos del
+ * servicio auth; acá solo se declaran los nombres para tener tipado en los servicios.
+ */
+export const PERMISSIONS = {
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  ROLES_MANAGE: 'roles:manage',
+  CATALOG_WRITE: 'catalog:write',
+  CATALOG_AVAILABILITY: 'catalog:availability',
+  INVENTORY_READ: 'inventory:read',
+  INVENTORY_MANAGE: 'inventory:manage',
+  ORDERS_READ: 'orders:read',
+  ORDERS_MANAGE: 'orders:manage',
+  ORDERS_REFUND: 'orders:refund',
+  PRICING_MANAGE: 'pricing:manage',
+  PROMOTIONS_REDEEM: 'promotions:redeem',
+  AUDIT_READ: 'audit:read',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+/** Roles de usuario disponibles */
+export const ROLES = ['USER', 'ADMIN', 'CATALOG_MANAGER', 'SUPPORT', 'AUDITOR'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Verifica si un conjunto de permisos incluye el requerido
+ *
+ * @param {readonly string[] | undefined} granted - Permisos del usuario
+ * @param {Permission} required - Permiso requerido
+ * @returns {boolean} true si el permiso está presente
+ */
+export function hasPermission(granted: readonly string[] | undefined, required: Permission): boolean {
+  return !!granted && granted.includes(required);
+}
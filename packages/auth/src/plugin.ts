@@ -0,0 +1,49 @@
+import fp from 'fastify-plugin';
+import { KeyResolver, createJwksKeyResolver, verifyAccessToken } from './verifier';
+
+export interface AuthPluginOptions {
+  /** URL del JWKS del servicio auth (p. ej. http://auth:3002/.well-known/jwks.json) */
+  jwksUrl?: string;
+  /** Resolver propio de claves; tiene prioridad sobre `jwksUrl` */
+  resolveKey?: KeyResolver;
+}
+
+/**
+ * Plugin de Fastify que autentica las requests con el access token
+ *
+ * @description
+ * - Lee el header `Authorization: Bearer <token>` en `onRequest`
+ * - Si el token es válido, completa `request.user`; si no, lo deja en null
+ * - No rechaza ninguna request: cada ruta decide con `requireAuth`,
+ *   `requireRole` o `requirePermission`
+ *
+ * @example
+ * ```typescript
+ * server.register(authPlugin, { jwksUrl: process.env.AUTH_JWKS_URL });
+ * server.post('/products', { preHandler: [requireAuth, requireRole('ADMIN')] }, handler);
+ * ```
+ */
+export const authPlugin = fp<AuthPluginOptions>(
+  async function (fastify, options) {
+    const resolveKey = options.resolveKey ?? (options.jwksUrl ? createJwksKeyResolver(options.jwksUrl) : null);
+    if (!resolveKey) {
+      throw new Error('authPlugin requiere jwksUrl o resolveKey');
+    }
+
+    fastify.decorateRequest('user', null);
+
+    fastify.addHook('onRequest', async (request) => {
+      const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+      if (scheme !== 'Bearer' || !token) {
+        return;
+      }
+
+      try {
+        request.user = await verifyAccessToken(token, resolveKey);
+      } catch (error) {
+        request.log.debug({ err: error }, 'Access token rechazado');
+      }
+    });
+  },
+  { name: '@ecom/auth', fastify: '5.x' }
+);
@@ -0,0 +1,72 @@
+export interface ServiceTokenOptions {
+  /** URL de `/service-token` del servicio auth (p. ej. http://auth:3002/service-token) */
+  tokenUrl: string;
+  /** Cliente interno registrado en el servicio auth (ej: `orders`) */
+  clientId: string;
+  clientSecret?: string;
+  /** Timeout de la request al servicio auth en ms (por defecto 3000) */
+  timeoutMs?: number;
+  /** Segundos antes del vencimiento en que se pide un token nuevo (por defecto 60) */
+  refreshBeforeSeconds?: number;
+}
+
+/** Devuelve un access token vigente del servicio */
+export type ServiceTokenProvider = () => Promise<string>;
+
+/**
+ * Crea un proveedor de access tokens de servicio (client credentials)
+ *
+ * @param {ServiceTokenOptions} options - Cliente, secret y URL del servicio auth
+ * @returns {ServiceTokenProvider} Función que devuelve el token, pidiéndolo solo cuando está por vencer
+ *
+ * @throws {Error} Al pedir el token, si no hay secret configurado o el servicio auth lo rechaza
+ *
+ * @description Para llamadas entre servicios sin un usuario detrás (jobs,
+ * webhooks). El token lleva solo los permisos que el servicio auth asigna al
+ * cliente y se verifica igual que el de un usuario. Las llamadas concurrentes
+ * comparten la misma request al servicio auth.
+ *
+ * @example
+ * ```typescript
+ * const getServiceToken = createServiceTokenProvider({ tokenUrl, clientId: 'orders', clientSecret });
+ * await fetch(url, { headers: { authorization: `Bearer ${await getServiceToken()}` } });
+ * ```
+ */
+export function createServiceTokenProvider(options: ServiceTokenOptions): ServiceTokenProvider {
+  const { tokenUrl, clientId, clientSecret, timeoutMs = 3000, refreshBeforeSeconds = 60 } = options;
+  let token: string | null = null;
+  let expiresAt = 0;
+  let pending: Promise<string> | null = null;
+
+  const request = async (): Promise<string> => {
+    if (!clientSecret) {
+      throw new Error(`Falta el secret del cliente de servicio ${clientId}`);
+    }
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ clientId, clientSecret }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`No se pudo obtener el token de servicio (${response.status})`);
+    }
+
+    const { data } = (await response.json()) as { data: { accessToken: string; expiresIn: number } };
+    token = data.accessToken;
+    expiresAt = Date.now() + (data.expiresIn - refreshBeforeSeconds) * 1000;
+    return token;
+  };
+
+  return async () => {
+    if (token && Date.now() < expiresAt) {
+      return token;
+    }
+
+    pending ??= request().finally(() => {
+      pending = null;
+    });
+    return await pending;
+  };
+}
@@ -0,0 +1,18 @@
+import type { Role } from './permissions';
+
+/** Usuario autenticado tal como lo agrega `authPlugin` a `request.user` */
+export interface AuthUser {
+  userId: string;
+  role: Role;
+  permissions: string[];
+  sessionId?: string;
+  /** Cliente interno (ej: `orders`) si es un token de servicio; ver `createServiceTokenProvider` */
+  service?: string;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Usuario del access token, o null si la request no trae un token válido */
+    user: AuthUser | null;
+  }
+}
@@ -0,0 +1,103 @@
+import { JsonWebKey, KeyObject, createPublicKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { Role } from './permissions';
+import type { AuthUser } from './types';
+
+/** Algoritmo con el que el servicio auth firma los access tokens */
+export const ACCESS_TOKEN_ALGORITHM = 'RS256';
+
+/** Devuelve la clave pública de un `kid`, o null si no se conoce */
+export type KeyResolver = (kid: string) => KeyObject | null | Promise<KeyObject | null>;
+
+export interface JwksResolverOptions {
+  /** Segundos que se reutiliza el JWKS descargado (por defecto 300) */
+  cacheSeconds?: number;
+  /** Espera mínima entre descargas provocadas por un `kid` desconocido o tras una descarga fallida (por defecto 30) */
+  minRefreshSeconds?: number;
+  /** Tiempo máximo de la descarga en milisegundos (por defecto 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Crea un KeyResolver que descarga las claves del JWKS del servicio auth
+ *
+ * @param {string} jwksUrl - URL de `/.well-known/jwks.json`
+ * @param {JwksResolverOptions} [options] - Tiempos de cache y refresco
+ * @returns {KeyResolver} Resolver con cache en memoria
+ *
+ * @description Un `kid` desconocido fuerza una nueva descarga (con un mínimo de
+ * espera entre descargas), de modo que una clave recién rotada se acepta sin
+ * reiniciar el servicio. Si una descarga falla se siguen usando las claves
+ * descargadas antes, y no se reintenta hasta pasados `minRefreshSeconds`.
+ */
+export function createJwksKeyResolver(jwksUrl: string, options: JwksResolverOptions = {}): KeyResolver {
+  const { cacheSeconds = 300, minRefreshSeconds = 30, timeoutMs = 5000 } = options;
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+  // Último intento de descarga, exitoso o no
+  let attemptedAt = 0;
+  let pending: Promise<void> | null = null;
+
+  const refresh = async () => {
+    attemptedAt = Date.now();
+    const response = await fetch(jwksUrl, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`No se pudo descargar el JWKS (${response.status})`);
+    }
+
+    const { keys: jwks } = (await response.json()) as { keys: (JsonWebKey & { kid?: string })[] };
+    keys = new Map(
+      jwks
+        .filter((jwk) => jwk.kid)
+        .map((jwk) => [jwk.kid!, createPublicKey({ key: jwk, format: 'jwk' })])
+    );
+    fetchedAt = Date.now();
+  };
+
+  return async (kid) => {
+    const now = Date.now();
+    const stale = (now - fetchedAt) / 1000 > cacheSeconds;
+    const unknown = !keys.has(kid);
+    const canRetry = (now - attemptedAt) / 1000 > minRefreshSeconds;
+
+    if (stale || unknown) {
+      if (!pending && canRetry) {
+        pending = refresh().finally(() => {
+          pending = null;
+        });
+      }
+
+      // Si la descarga falla se verifica con las claves que ya había
+      await pending?.catch(() => undefined);
+    }
+
+    return keys.get(kid) ?? null;
+  };
+}
+
+/**
+ * Verifica un access token y devuelve el usuario que contiene
+ *
+ * @param {string} token - Access token JWT
+ * @param {KeyResolver} resolveKey - Resolver de claves públicas por `kid`
+ * @returns {Promise<AuthUser>} Usuario del token
+ *
+ * @throws {Error} Si el token es inválido, expiró o su `kid` no se conoce
+ */
+export async function verifyAccessToken(token: string, resolveKey: KeyResolver): Promise<AuthUser> {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  const publicKey = kid ? await resolveKey(kid) : null;
+  if (!publicKey) {
+    throw new Error('Clave de firma desconocida');
+  }
+
+  const payload = jwt.verify(token, publicKey, { algorithms: [ACCESS_TOKEN_ALGORITHM] }) as jwt.JwtPayload;
+
+  return {
+    userId: payload.userId,
+    role: payload.role as Role,
+    permissions: payload.permissions ?? [],
+    sessionId: payload.sessionId,
+    service: payload.service,
+  };
+}
@@ -0,0 +1,65 @@
+import type { FastifyReply } from 'fastify';
+import { ServiceError } from './errors';
+
+/**
+ * Formato del cuerpo de error:
+ * - `nested`: `{ success, error: { code, message, details? } }`
+ * - `flat`: `{ success, message, code }` (mismo formato que auth)
+ */
+export type ErrorFormat = 'nested' | 'flat';
+
+/**
+ * Envía una respuesta de error con el formato del servicio
+ *
+ * @param {any} error - Error capturado
+ * @param {FastifyReply} reply - Response de Fastify para enviar error
+ * @param {string} source - Origen del error para el log (ej: 'Order Controller')
+ * @param {ErrorFormat} [format] - Formato del cuerpo (por defecto `nested`)
+ * @returns {FastifyReply} Respuesta de error formateada
+ *
+ * @description
+ * Maneja diferentes tipos de errores:
+ * - ZodError: Errores de validación (400) con el detalle por campo
+ * - ServiceError: Errores de negocio del servicio, con `details` si los hay (solo `nested`)
+ * - Error genérico: Error interno del servidor (500)
+ */
+export function sendErrorResponse(error: any, reply: FastifyReply, source: string, format: ErrorFormat = 'nested') {
+  console.error(`${source} Error:`, error);
+
+  // Error de validación de Zod
+  if (error.name === 'ZodError') {
+    const fields = error.errors.map((err: any) => ({
+      field: err.path.join('.'),
+      message: err.message
+    }));
+
+    return reply.code(400).send(
+      format === 'flat'
+        ? { success: false, message: 'Datos de entrada inválidos', errors: fields }
+        : { success: false, error: { code: 'VALIDATION_ERROR', message: 'Datos de entrada inválidos', details: fields } }
+    );
+  }
+
+  // Errores de negocio del servicio
+  if (error instanceof ServiceError) {
+    return reply.code(error.statusCode).send(
+      format === 'flat'
+        ? { success: false, message: error.message, code: error.code }
+        : {
+            success: false,
+            error: {
+              code: error.code,
+              message: error.message,
+              ...(error.details !== undefined && { details: error.details })
+            }
+          }
+    );
+  }
+
+  // Error genérico
+  return reply.code(500).send(
+    format === 'flat'
+      ? { success: false, message: 'Error interno del servidor' }
+      : { success: false, error: { code: 'INTERNAL_ERROR', message: 'Error interno del servidor' } }
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Error de negocio que el handler compartido convierte en respuesta HTTP
+ *
+ * @description Cada servicio define su propio error base (CartError,
+ * OrderError, etc.) extendiendo esta clase.
+ */
+export class ServiceError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public statusCode: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
@@ -0,0 +1,102 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+/** Resultado de una verificación de dependencia (base de datos, Redis, etc.) */
+export interface CheckResult {
+  status: 'up' | 'down';
+  latencyMs: number;
+  error?: string;
+}
+
+/** Verificación de una dependencia; falla si la dependencia no responde */
+export type HealthCheck = () => Promise<unknown>;
+
+/**
+ * Ejecuta una verificación midiendo su latencia
+ *
+ * @param {HealthCheck} check - Verificación a ejecutar
+ * @param {number} [timeoutMs] - Tiempo máximo antes de considerarla caída
+ * @returns {Promise<CheckResult>} Estado y latencia; nunca lanza
+ */
+export async function runCheck(check: HealthCheck, timeoutMs = 2000): Promise<CheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Sin respuesta en ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]);
+
+    return { status: 'up', latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return { status: 'down', latencyMs: Date.now() - startedAt, error: (error as Error).message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Controlador de health checks
+ *
+ * @class HealthController
+ * @description Expone liveness (el proceso responde) y readiness (las
+ * dependencias responden) para docker-compose, nginx y el gateway.
+ *
+ * @example
+ * ```typescript
+ * const healthController = new HealthController('orders-service', {
+ *   database: () => orderRepository.ping()
+ * });
+ * server.get('/health/ready', healthController.ready.bind(healthController));
+ * ```
+ */
+export class HealthController {
+  /**
+   * Constructor del controlador de health checks
+   *
+   * @param {string} service - Nombre del servicio en las respuestas (ej: 'orders-service')
+   * @param {Record<string, HealthCheck>} checks - Verificaciones de readiness por dependencia
+   */
+  constructor(
+    private service: string,
+    private checks: Record<string, HealthCheck>
+  ) {}
+
+  /**
+   * Endpoint de liveness: el proceso está vivo y atiende requests
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} Siempre 200
+   */
+  async live(_: FastifyRequest, reply: FastifyReply) {
+    return reply.code(200).send({
+      status: 'ok',
+      service: this.service,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Endpoint de readiness: todas las dependencias responden
+   *
+   * @param {FastifyRequest} _ - Request de Fastify
+   * @param {FastifyReply} reply - Response de Fastify
+   * @returns {Promise<FastifyReply>} 200 si todas las dependencias responden, 503 si alguna no
+   */
+  async ready(_: FastifyRequest, reply: FastifyReply) {
+    const entries = await Promise.all(
+      Object.entries(this.checks).map(async ([name, check]) => [name, await runCheck(check)] as const)
+    );
+    const checks: Record<string, CheckResult> = Object.fromEntries(entries);
+    const ready = entries.every(([, result]) => result.status === 'up');
+
+    return reply.code(ready ? 200 : 503).send({
+      status: ready ? 'ready' : 'not_ready',
+      service: this.service,
+      checks
+    });
+  }
+}
@@ -0,0 +1,5 @@
+export * from './errors';
+export * from './error-handler';
+export * from './health';
+export * from './money';
+export * from './jobs';
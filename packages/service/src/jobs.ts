@@ -0,0 +1,45 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+export interface SweepJobOptions {
+  /** Segundos entre pasadas */
+  intervalSeconds: number;
+  /** Procesa una tanda y devuelve cuántos elementos procesó */
+  sweep: () => Promise<number>;
+  /** Mensaje de log cuando una pasada procesó elementos (ej: 'reservas vencidas liberadas') */
+  doneMessage: string;
+  /** Mensaje de log cuando una pasada falla */
+  errorMessage: string;
+}
+
+/**
+ * Inicia un job periódico que procesa tandas (ej: expirar reservas u órdenes vencidas)
+ *
+ * @param {FastifyBaseLogger} log - Logger del servidor
+ * @param {SweepJobOptions} options - Intervalo, tanda y mensajes de log
+ * @returns {() => void} Función que detiene el job
+ *
+ * @description No solapa pasadas si una tarda más que el intervalo, registra
+ * los errores sin detener el job y no mantiene vivo el proceso.
+ */
+export function startSweepJob(log: FastifyBaseLogger, { intervalSeconds, sweep, doneMessage, errorMessage }: SweepJobOptions): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const processed = await sweep();
+      if (processed > 0) {
+        log.info({ processed }, doneMessage);
+      }
+    } catch (error) {
+      log.error(error, errorMessage);
+    } finally {
+      running = false;
+    }
+  }, intervalSeconds * 1000);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
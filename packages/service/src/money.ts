@@ -0,0 +1,100 @@
+import { ServiceError } from './errors';
+
+/** Precio en las respuestas de los servicios */
+export interface Money {
+  /** Monto decimal en texto, sin errores de redondeo (ej: '19.99') */
+  amount: string;
+  /** Monto en unidades menores (ej: 1999) */
+  amountMinor: number;
+  /** Código ISO 4217 */
+  currency: string;
+}
+
+/** Máximo de una columna INTEGER de Postgres */
+export const MAX_AMOUNT_MINOR = 2147483647;
+
+// Monedas ISO 4217 que soporta el runtime
+const SUPPORTED_CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+/**
+ * Indica si el código es una moneda ISO 4217 soportada
+ *
+ * @param {string} currency - Código de moneda en mayúsculas (ej: 'USD')
+ * @returns {boolean} true si es válida
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return SUPPORTED_CURRENCIES.has(currency);
+}
+
+/**
+ * Cantidad de decimales de la moneda (USD 2, JPY 0, BHD 3)
+ *
+ * @param {string} currency - Código de moneda ISO 4217
+ * @returns {number} Exponente de la unidad menor
+ */
+export function currencyExponent(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Convierte un monto decimal en texto a unidades menores, sin pasar por Float
+ *
+ * @param {string} amount - Monto decimal (ej: '19.99')
+ * @param {string} currency - Moneda del monto
+ * @returns {number} Monto en unidades menores (ej: 1999)
+ *
+ * @throws {ServiceError} VALIDATION_ERROR si tiene más decimales que la moneda o supera el máximo
+ *
+ * @example
+ * ```typescript
+ * toMinorUnits('19.9', 'USD'); // 1990
+ * toMinorUnits('1500', 'JPY'); // 1500
+ * ```
+ */
+export function toMinorUnits(amount: string, currency: string): number {
+  const exponent = currencyExponent(currency);
+  const [units, fraction = ''] = amount.split('.');
+
+  if (fraction.length > exponent) {
+    throw new ServiceError('VALIDATION_ERROR', `${currency} admite hasta ${exponent} decimales`);
+  }
+
+  const minor = Number(units + fraction.padEnd(exponent, '0'));
+  if (minor > MAX_AMOUNT_MINOR) {
+    throw new ServiceError('VALIDATION_ERROR', 'Monto fuera de rango');
+  }
+
+  return minor;
+}
+
+/**
+ * Formatea unidades menores como monto decimal en texto
+ *
+ * @param {number} amountMinor - Monto en unidades menores (ej: 1999)
+ * @param {string} currency - Moneda del monto
+ * @returns {string} Monto decimal (ej: '19.99')
+ */
+export function formatMinorUnits(amountMinor: number, currency: string): string {
+  const exponent = currencyExponent(currency);
+  if (exponent === 0) {
+    return String(amountMinor);
+  }
+
+  const digits = String(amountMinor).padStart(exponent + 1, '0');
+  return `${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+/**
+ * Arma la representación de un precio para las respuestas
+ *
+ * @param {number} amountMinor - Monto en unidades menores
+ * @param {string} currency - Moneda del monto
+ * @returns {Money} Monto decimal en texto, en unidades menores y moneda
+ */
+export function toMoney(amountMinor: number, currency: string): Money {
+  return {
+    amount: formatMinorUnits(amountMinor, currency),
+    amountMinor,
+    currency
+  };
+}